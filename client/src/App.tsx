@@ -20,6 +20,9 @@ import WorkSitesList from "@/pages/work-sites-list";
 import OnSiteNow from "@/pages/on-site-now";
 import Notifications from "@/pages/notifications";
 import AdminProfile from "@/pages/admin-profile";
+import ShiftSchedule from "@/pages/shift-schedule";
+import Timesheets from "@/pages/timesheets";
+import LeaveManagement from "@/pages/leave-management";
 
 function Router() {
   return (
@@ -39,6 +42,9 @@ function Router() {
       <Route path="/admin/on-site-now" component={OnSiteNow} />
       <Route path="/admin/notifications" component={Notifications} />
       <Route path="/admin/profile" component={AdminProfile} />
+      <Route path="/admin/shifts" component={ShiftSchedule} />
+      <Route path="/admin/timesheets" component={Timesheets} />
+      <Route path="/admin/leave" component={LeaveManagement} />
       <Route path="/admin/tracking" component={LiveTracking} />
       <Route path="/admin/live-tracking" component={LiveTracking} />
       <Route path="/employee/login" component={EmployeeLogin} />
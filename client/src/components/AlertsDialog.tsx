@@ -1,15 +1,18 @@
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
-import { AlertTriangle, MapPin, Clock, X } from 'lucide-react';
+import { AlertTriangle, MapPin, Clock, X, LogOut, UserX, Check, ShieldAlert } from 'lucide-react';
 import { getAuthToken } from '@/lib/auth';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
 import { format, formatDistanceToNow } from 'date-fns';
+import type { LocationAnomalyType } from '@shared/schema';
 
 interface Alert {
   id: string;
-  type: 'out_of_range' | 'no_checkout';
+  type: 'out_of_range' | 'no_checkout' | 'late_arrival' | 'early_departure' | 'no_show' | 'location_anomaly';
   title: string;
   message: string;
   employee: {
@@ -26,8 +29,30 @@ interface Alert {
   distance?: number;
   geofenceRadius?: number;
   hoursSinceCheckIn?: number;
+  // Persisted shift alerts carry their database id so they can be dismissed
+  alertId?: number;
+  shiftId?: number;
+  minutes?: number;
+  riskScore?: number;
+  riskFlags?: LocationAnomalyType[];
 }
 
+const ALERT_LABELS: Record<Alert['type'], string> = {
+  out_of_range: 'Out of Range',
+  no_checkout: 'No Checkout',
+  late_arrival: 'Late',
+  early_departure: 'Left Early',
+  no_show: 'No-show',
+  location_anomaly: 'Spoofing Risk',
+};
+
+const ANOMALY_LABELS: Record<LocationAnomalyType, string> = {
+  impossible_speed: 'Impossible travel speed',
+  repeated_coordinates: 'Identical repeated coordinates',
+  perfect_accuracy: 'Implausibly perfect accuracy',
+  checkin_jump: 'Check-in far from previous location',
+};
+
 interface AlertsDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -49,12 +74,39 @@ export function AlertsDialog({ open, onOpenChange }: AlertsDialogProps) {
     refetchInterval: 30000, // Refetch every 30 seconds
   });
 
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const resolveAlertMutation = useMutation({
+    mutationFn: async (alertId: number) => {
+      return apiRequest('PUT', `/api/admin/alerts/${alertId}/resolve`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/alerts'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/dashboard'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to dismiss alert',
+        variant: 'destructive',
+      });
+    },
+  });
+
   const getAlertIcon = (type: string) => {
     switch (type) {
       case 'out_of_range':
         return <MapPin className="h-5 w-5 text-orange-500" />;
       case 'no_checkout':
+      case 'late_arrival':
         return <Clock className="h-5 w-5 text-red-500" />;
+      case 'early_departure':
+        return <LogOut className="h-5 w-5 text-purple-500" />;
+      case 'no_show':
+        return <UserX className="h-5 w-5 text-red-500" />;
+      case 'location_anomaly':
+        return <ShieldAlert className="h-5 w-5 text-red-600" />;
       default:
         return <AlertTriangle className="h-5 w-5 text-purple-500" />;
     }
@@ -65,7 +117,11 @@ export function AlertsDialog({ open, onOpenChange }: AlertsDialogProps) {
       case 'out_of_range':
         return 'bg-orange-100 text-orange-800 border-orange-200';
       case 'no_checkout':
+      case 'no_show':
+      case 'location_anomaly':
         return 'bg-red-100 text-red-800 border-red-200';
+      case 'late_arrival':
+        return 'bg-amber-100 text-amber-800 border-amber-200';
       default:
         return 'bg-purple-100 text-purple-800 border-purple-200';
     }
@@ -117,8 +173,20 @@ export function AlertsDialog({ open, onOpenChange }: AlertsDialogProps) {
                              <div className="flex items-center gap-2 mb-2">
                                <h3 className="font-semibold text-gray-900 dark:text-slate-100">{alert.title}</h3>
                                <Badge className={getAlertBadgeColor(alert.type)} variant="outline">
-                                 {alert.type === 'out_of_range' ? 'Out of Range' : 'No Checkout'}
+                                 {ALERT_LABELS[alert.type] || alert.type}
                                </Badge>
+                               {alert.alertId !== undefined && (
+                                 <Button
+                                   variant="ghost"
+                                   size="sm"
+                                   onClick={() => resolveAlertMutation.mutate(alert.alertId!)}
+                                   disabled={resolveAlertMutation.isPending}
+                                   className="ml-auto h-7 px-2 text-slate-600 dark:text-slate-300"
+                                 >
+                                   <Check className="h-4 w-4 mr-1" />
+                                   Dismiss
+                                 </Button>
+                               )}
                              </div>
                              <p className="text-sm text-gray-600 dark:text-slate-400 mb-3">{alert.message}</p>
                              
@@ -151,6 +219,14 @@ export function AlertsDialog({ open, onOpenChange }: AlertsDialogProps) {
                                  </p>
                                </div>
                              )}
+
+                             {alert.riskFlags && alert.riskFlags.length > 0 && (
+                               <div className="mt-3 p-2 bg-red-50 dark:bg-red-900/20 rounded text-sm border border-red-200 dark:border-red-800">
+                                 <p className="text-red-800 dark:text-red-300">
+                                   Risk score <span className="font-semibold">{alert.riskScore}/100</span>: {alert.riskFlags.map(flag => ANOMALY_LABELS[flag]).join(', ')}
+                                 </p>
+                               </div>
+                             )}
                              
                              <div className="mt-3 text-xs text-gray-500 dark:text-slate-400">
                                {format(new Date(alert.timestamp), 'MMM dd, yyyy HH:mm')} 
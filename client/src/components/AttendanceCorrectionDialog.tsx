@@ -0,0 +1,327 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getAuthToken } from '@/lib/auth';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import type { AttendanceCorrectionReason, AttendanceRevision, AttendanceSnapshot } from '@shared/schema';
+
+export type CorrectionMode = 'create' | 'edit' | 'split';
+
+export interface CorrectableAttendance {
+  id: number;
+  siteId: number;
+  checkInTime: string;
+  checkOutTime: string | null;
+}
+
+interface SiteOption {
+  id: number;
+  name: string;
+}
+
+export const CORRECTION_REASON_LABELS: Record<AttendanceCorrectionReason, string> = {
+  missed_checkout: 'Forgot to check out',
+  missed_checkin: 'Forgot to check in',
+  wrong_time: 'Wrong time recorded',
+  wrong_site: 'Wrong work site',
+  device_issue: 'Device or GPS problem',
+  other: 'Other',
+};
+
+const ACTION_LABELS: Record<AttendanceRevision['action'], string> = {
+  create: 'Created',
+  edit: 'Edited',
+  split: 'Split',
+  auto_close: 'Auto-closed',
+  auto_checkout: 'Auto checkout',
+};
+
+const MODE_TITLES: Record<CorrectionMode, string> = {
+  create: 'Add Attendance Record',
+  edit: 'Edit Attendance Record',
+  split: 'Split Attendance Record',
+};
+
+// Value for <input type="datetime-local"> in local time
+const toInputValue = (value: string | Date | null | undefined) =>
+  value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : '';
+
+interface FormState {
+  siteId: string;
+  checkInTime: string;
+  checkOutTime: string;
+  splitTime: string;
+  resumeTime: string;
+  reasonCode: AttendanceCorrectionReason | '';
+  note: string;
+}
+
+interface AttendanceCorrectionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  mode: CorrectionMode;
+  employeeId: number;
+  record?: CorrectableAttendance | null;
+  sites: SiteOption[];
+  defaultSiteId?: number | null;
+}
+
+export function AttendanceCorrectionDialog({ open, onOpenChange, mode, employeeId, record, sites, defaultSiteId }: AttendanceCorrectionDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<FormState>({
+    siteId: '',
+    checkInTime: '',
+    checkOutTime: '',
+    splitTime: '',
+    resumeTime: '',
+    reasonCode: '',
+    note: '',
+  });
+
+  // Reset the form whenever the dialog opens for a record
+  useEffect(() => {
+    if (!open) return;
+    setForm({
+      siteId: (record?.siteId ?? defaultSiteId)?.toString() || '',
+      checkInTime: toInputValue(record?.checkInTime),
+      checkOutTime: toInputValue(record?.checkOutTime),
+      splitTime: '',
+      resumeTime: '',
+      reasonCode: mode === 'edit' && record && !record.checkOutTime ? 'missed_checkout' : '',
+      note: '',
+    });
+  }, [open, mode, record, defaultSiteId]);
+
+  const correctionMutation = useMutation({
+    mutationFn: async (data: FormState) => {
+      const reason = { reasonCode: data.reasonCode, note: data.note || null };
+      const toIso = (value: string) => new Date(value).toISOString();
+
+      if (mode === 'create') {
+        return apiRequest('POST', `/api/admin/employees/${employeeId}/attendance`, {
+          siteId: parseInt(data.siteId),
+          checkInTime: toIso(data.checkInTime),
+          checkOutTime: toIso(data.checkOutTime),
+          ...reason,
+        });
+      }
+      if (mode === 'split') {
+        return apiRequest('POST', `/api/admin/attendance/${record!.id}/split`, {
+          splitTime: toIso(data.splitTime),
+          resumeTime: data.resumeTime ? toIso(data.resumeTime) : null,
+          ...reason,
+        });
+      }
+      return apiRequest('PUT', `/api/admin/attendance/${record!.id}`, {
+        siteId: parseInt(data.siteId),
+        checkInTime: toIso(data.checkInTime),
+        ...(data.checkOutTime ? { checkOutTime: toIso(data.checkOutTime) } : {}),
+        ...reason,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/employees/${employeeId}/attendance`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/attendance'] });
+      toast({
+        title: 'Success',
+        description: mode === 'create' ? 'Attendance record added' : mode === 'split' ? 'Attendance record split' : 'Attendance record updated',
+      });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save attendance correction',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.reasonCode) {
+      toast({ title: 'Missing details', description: 'Select a reason for the correction', variant: 'destructive' });
+      return;
+    }
+    if (form.reasonCode === 'other' && !form.note.trim()) {
+      toast({ title: 'Missing details', description: 'Add a note describing the correction', variant: 'destructive' });
+      return;
+    }
+    if (mode === 'split' && !form.splitTime) {
+      toast({ title: 'Missing details', description: 'Choose where to split the record', variant: 'destructive' });
+      return;
+    }
+    if (mode === 'create' && (!form.siteId || !form.checkInTime || !form.checkOutTime)) {
+      toast({ title: 'Missing details', description: 'Select a site and enter check-in and check-out times', variant: 'destructive' });
+      return;
+    }
+    correctionMutation.mutate(form);
+  };
+
+  const setField = (field: keyof FormState) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{MODE_TITLES[mode]}</DialogTitle>
+          <DialogDescription>
+            {mode === 'split'
+              ? 'The first part ends at the split time and the second starts at the resume time.'
+              : 'The original check-in and check-out are kept in the record history.'}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {mode !== 'split' && (
+            <>
+              <div>
+                <Label>Work Site</Label>
+                <Select value={form.siteId} onValueChange={(value) => setForm(prev => ({ ...prev, siteId: value }))}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a site" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sites.map(site => (
+                      <SelectItem key={site.id} value={site.id.toString()}>{site.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label>Check-in</Label>
+                  <Input type="datetime-local" value={form.checkInTime} onChange={setField('checkInTime')} />
+                </div>
+                <div>
+                  <Label>Check-out</Label>
+                  <Input type="datetime-local" value={form.checkOutTime} onChange={setField('checkOutTime')} />
+                </div>
+              </div>
+            </>
+          )}
+
+          {mode === 'split' && record && (
+            <>
+              <p className="text-sm text-slate-600 dark:text-slate-400">
+                {format(new Date(record.checkInTime), 'MMM d, HH:mm')} - {record.checkOutTime ? format(new Date(record.checkOutTime), 'MMM d, HH:mm') : 'Active'}
+              </p>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label>Split at</Label>
+                  <Input type="datetime-local" value={form.splitTime} onChange={setField('splitTime')} />
+                </div>
+                <div>
+                  <Label>Resume at (optional)</Label>
+                  <Input type="datetime-local" value={form.resumeTime} onChange={setField('resumeTime')} />
+                </div>
+              </div>
+            </>
+          )}
+
+          <div>
+            <Label>Reason</Label>
+            <Select value={form.reasonCode} onValueChange={(value) => setForm(prev => ({ ...prev, reasonCode: value as AttendanceCorrectionReason }))}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(CORRECTION_REASON_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Note{form.reasonCode === 'other' ? '' : ' (optional)'}</Label>
+            <Textarea value={form.note} onChange={setField('note')} rows={2} maxLength={500} />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" disabled={correctionMutation.isPending} className="bg-blue-600 hover:bg-blue-700">
+              {correctionMutation.isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface AttendanceRevisionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  attendanceId: number | null;
+  sites: SiteOption[];
+}
+
+// Revision history for one attendance record, oldest first
+export function AttendanceRevisionsDialog({ open, onOpenChange, attendanceId, sites }: AttendanceRevisionsDialogProps) {
+  const { data: revisions = [], isLoading } = useQuery<AttendanceRevision[]>({
+    queryKey: ['/api/admin/attendance', attendanceId, 'revisions'],
+    queryFn: async () => {
+      const response = await fetch(`/api/admin/attendance/${attendanceId}/revisions`, {
+        headers: {
+          'Authorization': `Bearer ${getAuthToken()}`,
+        },
+      });
+      if (!response.ok) throw new Error('Failed to fetch attendance history');
+      return response.json();
+    },
+    enabled: open && !!attendanceId,
+  });
+
+  const describe = (snapshot: AttendanceSnapshot | null) => {
+    if (!snapshot) return 'No record';
+    const site = sites.find(s => s.id === snapshot.siteId)?.name || 'Unknown Site';
+    const checkIn = snapshot.checkInTime ? format(new Date(snapshot.checkInTime), 'MMM d, HH:mm') : '-';
+    const checkOut = snapshot.checkOutTime ? format(new Date(snapshot.checkOutTime), 'MMM d, HH:mm') : 'Active';
+    return `${checkIn} - ${checkOut} at ${site}`;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Record History</DialogTitle>
+          <DialogDescription>Every correction made to this attendance record</DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400 py-4 text-center">This record has not been corrected</p>
+        ) : (
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {revisions.map(revision => (
+              <div key={revision.id} className="border border-slate-200 dark:border-slate-700 rounded-lg p-3 text-sm">
+                <div className="flex items-center justify-between mb-1">
+                  <Badge variant="secondary">{ACTION_LABELS[revision.action]}</Badge>
+                  <span className="text-xs text-slate-500 dark:text-slate-400">
+                    {revision.createdAt ? format(new Date(revision.createdAt), 'MMM d, yyyy HH:mm') : ''}
+                  </span>
+                </div>
+                <p className="font-medium text-slate-900 dark:text-slate-100">{CORRECTION_REASON_LABELS[revision.reasonCode]}</p>
+                {revision.note && <p className="text-slate-600 dark:text-slate-300">{revision.note}</p>}
+                {revision.before && (
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mt-1 line-through">{describe(revision.before)}</p>
+                )}
+                <p className="text-xs text-slate-700 dark:text-slate-300">{describe(revision.after)}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,106 @@
+import { useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Camera, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { getAuthToken } from '@/lib/auth';
+
+interface AttendancePhotoCaptureProps {
+  value: string | null; // Name of the uploaded photo
+  onChange: (photo: string | null) => void;
+  label?: string;
+}
+
+// Takes a selfie with the front camera and uploads it, for sites that require a photo
+// at check-in and checkout. The server only accepts photos taken in the last few minutes,
+// once each.
+export function AttendancePhotoCapture({ value, onChange, label = 'Take a photo' }: AttendancePhotoCaptureProps) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setIsUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch('/api/upload/attendance-photo', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${getAuthToken()}`,
+        },
+        body: formData,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to upload photo');
+      }
+      onChange(data.photo);
+    } catch (error: any) {
+      onChange(null);
+      toast({
+        title: 'Photo Upload Failed',
+        description: error.message || 'Unable to upload your photo. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUploading(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      {value && <AttendancePhotoThumbnail photo={value} alt="Your photo" className="w-14 h-14" />}
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        capture="user"
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => inputRef.current?.click()}
+        disabled={isUploading}
+      >
+        {isUploading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Camera className="h-4 w-4 mr-2" />}
+        {isUploading ? 'Uploading...' : value ? 'Retake photo' : label}
+      </Button>
+    </div>
+  );
+}
+
+interface AttendancePhotoThumbnailProps {
+  photo: string;
+  alt: string;
+  className?: string;
+}
+
+// Signed URLs last an hour on the server; refresh them well before that
+const PHOTO_URL_STALE_MS = 45 * 60 * 1000;
+
+// Small photo that opens full size in a new tab. Photos are private, so each one is
+// shown through a short-lived signed URL.
+export function AttendancePhotoThumbnail({ photo, alt, className = 'w-10 h-10' }: AttendancePhotoThumbnailProps) {
+  const { data } = useQuery<{ url: string }>({
+    queryKey: ['/api/attendance-photos', photo],
+    staleTime: PHOTO_URL_STALE_MS,
+    refetchInterval: PHOTO_URL_STALE_MS,
+  });
+
+  if (!data) {
+    return <div className={`${className} shrink-0 rounded-md animate-pulse bg-slate-200 dark:bg-slate-700`} />;
+  }
+
+  return (
+    <a href={data.url} target="_blank" rel="noopener noreferrer" onClick={(e) => e.stopPropagation()} className="shrink-0">
+      <img src={data.url} alt={alt} className={`${className} rounded-md object-cover border border-slate-200 dark:border-slate-600`} />
+    </a>
+  );
+}
@@ -0,0 +1,169 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { getAuthToken } from '@/lib/auth';
+import { apiRequest } from '@/lib/queryClient';
+import type { AutoCheckoutPolicy } from '@shared/schema';
+
+type PolicyForm = Pick<AutoCheckoutPolicy, 'isEnabled' | 'atShiftEnd' | 'shiftEndGraceMinutes' | 'fixedTime' | 'offsiteMinutes' | 'maxHours'>;
+
+interface AutoCheckoutPolicyDialogProps {
+  children: React.ReactNode;
+}
+
+// Optional number input: empty means the rule is off
+const toNumberOrNull = (value: string) => value === '' ? null : parseInt(value);
+
+export default function AutoCheckoutPolicyDialog({ children }: AutoCheckoutPolicyDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState<PolicyForm | null>(null);
+
+  const { data: policy } = useQuery<PolicyForm>({
+    queryKey: ['/api/admin/auto-checkout-policy'],
+    queryFn: async () => {
+      const response = await fetch('/api/admin/auto-checkout-policy', {
+        headers: {
+          'Authorization': `Bearer ${getAuthToken()}`,
+        },
+      });
+      if (!response.ok) throw new Error('Failed to fetch auto checkout policy');
+      return response.json();
+    },
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open && policy) setForm(policy);
+  }, [open, policy]);
+
+  const savePolicyMutation = useMutation({
+    mutationFn: async (data: PolicyForm) => apiRequest('PUT', '/api/admin/auto-checkout-policy', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/auto-checkout-policy'] });
+      toast({
+        title: 'Policy Updated',
+        description: 'Automatic checkout settings have been saved.',
+      });
+      setOpen(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Update Failed',
+        description: error.message || 'Failed to update automatic checkout settings.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const update = (changes: Partial<PolicyForm>) => setForm(prev => prev ? { ...prev, ...changes } : prev);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[460px]">
+        <DialogHeader>
+          <DialogTitle>Automatic Checkout</DialogTitle>
+          <DialogDescription>
+            Close sessions employees forget to check out of. When several rules apply, the earliest checkout time is used.
+          </DialogDescription>
+        </DialogHeader>
+        {!form ? (
+          <p className="text-sm text-muted-foreground py-4">Loading...</p>
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              savePolicyMutation.mutate(form);
+            }}
+            className="space-y-4"
+          >
+            <div className="flex items-center justify-between rounded-lg border p-3">
+              <div className="space-y-0.5">
+                <Label className="text-base">Enable automatic checkout</Label>
+                <div className="text-sm text-muted-foreground">Checked every minute</div>
+              </div>
+              <Switch checked={form.isEnabled} onCheckedChange={(checked) => update({ isEnabled: checked })} />
+            </div>
+
+            <div className="rounded-lg border p-3 space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label className="text-base">At shift end</Label>
+                  <div className="text-sm text-muted-foreground">Check out at the planned end of the shift</div>
+                </div>
+                <Switch checked={form.atShiftEnd} onCheckedChange={(checked) => update({ atShiftEnd: checked })} />
+              </div>
+              {form.atShiftEnd && (
+                <div>
+                  <Label>Grace period (minutes after shift end)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={240}
+                    value={form.shiftEndGraceMinutes}
+                    onChange={(e) => update({ shiftEndGraceMinutes: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div>
+                <Label>Daily at</Label>
+                <Input
+                  type="time"
+                  value={form.fixedTime ?? ''}
+                  onChange={(e) => update({ fixedTime: e.target.value || null })}
+                />
+              </div>
+              <div>
+                <Label>Off site for (min)</Label>
+                <Input
+                  type="number"
+                  min={5}
+                  placeholder="Off"
+                  value={form.offsiteMinutes ?? ''}
+                  onChange={(e) => update({ offsiteMinutes: toNumberOrNull(e.target.value) })}
+                />
+              </div>
+              <div>
+                <Label>After (hours)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={48}
+                  placeholder="Off"
+                  value={form.maxHours ?? ''}
+                  onChange={(e) => update({ maxHours: toNumberOrNull(e.target.value) })}
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="submit" disabled={savePolicyMutation.isPending}>
+                {savePolicyMutation.isPending ? 'Saving...' : 'Save Policy'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
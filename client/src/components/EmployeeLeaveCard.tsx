@@ -0,0 +1,281 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { getAuthToken } from '@/lib/auth';
+import { apiRequest } from '@/lib/queryClient';
+import type { LeaveRequest, LeaveRequestStatus, LeaveType } from '@shared/schema';
+import { CalendarOff, Plus } from 'lucide-react';
+
+// Shape returned by GET /api/employee/leave (see server/leave.ts)
+interface LeaveBalanceRow {
+  leaveTypeId: number;
+  name: string;
+  color: string | null;
+  tracked: boolean;
+  entitlementDays: number | null;
+  accruedDays: number | null;
+  usedDays: number;
+  pendingDays: number;
+  availableDays: number | null;
+}
+
+interface EmployeeLeaveData {
+  types: LeaveType[];
+  balances: LeaveBalanceRow[];
+  requests: LeaveRequest[];
+}
+
+const STATUS_STYLES: Record<LeaveRequestStatus, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300' },
+  approved: { label: 'Approved', className: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300' },
+  rejected: { label: 'Rejected', className: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300' },
+  cancelled: { label: 'Cancelled', className: 'bg-slate-100 text-slate-700 dark:bg-slate-700 dark:text-slate-300' },
+};
+
+// "2024-07-01" -> "Jul 1" without going through UTC
+const formatDateKey = (dateKey: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return format(new Date(year, month - 1, day), 'MMM d');
+};
+
+const emptyForm = { leaveTypeId: '', startDate: '', endDate: '', reason: '' };
+
+export function EmployeeLeaveCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isRequestOpen, setIsRequestOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const { data } = useQuery<EmployeeLeaveData>({
+    queryKey: ['/api/employee/leave'],
+    queryFn: async () => {
+      const response = await fetch('/api/employee/leave', {
+        headers: {
+          'Authorization': `Bearer ${getAuthToken()}`,
+        },
+      });
+      if (!response.ok) throw new Error('Failed to fetch leave');
+      return response.json();
+    },
+  });
+
+  const requestLeaveMutation = useMutation({
+    mutationFn: async (payload: typeof emptyForm) => {
+      return apiRequest('POST', '/api/employee/leave-requests', {
+        leaveTypeId: parseInt(payload.leaveTypeId),
+        startDate: payload.startDate,
+        endDate: payload.endDate,
+        reason: payload.reason.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Leave Requested',
+        description: 'Your request has been sent for approval.',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/employee/leave'] });
+      setIsRequestOpen(false);
+      setForm(emptyForm);
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Request Failed',
+        description: error.message || 'Unable to request leave. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const cancelLeaveMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest('POST', `/api/employee/leave-requests/${id}/cancel`),
+    onSuccess: () => {
+      toast({
+        title: 'Leave Cancelled',
+        description: 'Your leave request has been withdrawn.',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/employee/leave'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Cancel Failed',
+        description: error.message || 'Unable to cancel leave. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.leaveTypeId || !form.startDate || !form.endDate) {
+      toast({ title: 'Missing details', description: 'Select a leave type and the dates', variant: 'destructive' });
+      return;
+    }
+    requestLeaveMutation.mutate(form);
+  };
+
+  // Upcoming and recent requests; old history is left to the admin
+  const requests = (data?.requests || [])
+    .filter(request => request.endDate >= today || request.status === 'pending')
+    .slice(0, 5);
+
+  return (
+    <Card className="border-2 border-slate-300 dark:border-slate-600 shadow-sm bg-gradient-to-br from-white to-rose-50/20 dark:from-slate-800 dark:to-rose-900/10 hover:shadow-md transition-all duration-200">
+      <CardHeader className="bg-gradient-to-r from-rose-50/50 to-pink-50/50 dark:from-rose-900/20 dark:to-pink-900/20 border-b-2 border-slate-300 dark:border-slate-600">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2 text-rose-800 dark:text-rose-200">
+            <div className="bg-gradient-to-br from-rose-400 to-rose-500 rounded-lg p-2">
+              <CalendarOff className="h-5 w-5 text-white" />
+            </div>
+            <span className="font-semibold">Leave</span>
+          </CardTitle>
+          <Button
+            size="sm"
+            className="bg-rose-600 hover:bg-rose-700"
+            disabled={!data || data.types.length === 0}
+            onClick={() => setIsRequestOpen(true)}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Request
+          </Button>
+        </div>
+        <CardDescription className="text-rose-700 dark:text-rose-400 mt-1">
+          Balances for {new Date().getFullYear()}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        {!data ? (
+          <Skeleton className="h-20 w-full" />
+        ) : data.types.length === 0 ? (
+          <p className="text-sm text-slate-600 dark:text-slate-400">Your company has not set up any leave types yet.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              {data.balances.map(balance => (
+                <div key={balance.leaveTypeId} className="rounded-lg border border-slate-200 dark:border-slate-700 p-3">
+                  <p className="text-xs text-slate-600 dark:text-slate-400 flex items-center">
+                    <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: balance.color || '#94a3b8' }} />
+                    {balance.name}
+                  </p>
+                  <p className="text-xl font-semibold text-slate-900 dark:text-slate-100">
+                    {balance.tracked ? balance.availableDays : balance.usedDays}
+                    <span className="text-xs font-normal text-slate-500 dark:text-slate-400 ml-1">
+                      {balance.tracked ? `of ${balance.entitlementDays} left` : 'days taken'}
+                    </span>
+                  </p>
+                  {balance.pendingDays > 0 && (
+                    <p className="text-xs text-amber-600 dark:text-amber-400">{balance.pendingDays} pending</p>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {requests.length > 0 && (
+              <div className="divide-y divide-slate-200 dark:divide-slate-700">
+                {requests.map(request => {
+                  const leaveType = data.types.find(type => type.id === request.leaveTypeId);
+                  const canCancel = request.status === 'pending' || (request.status === 'approved' && request.startDate > today);
+                  return (
+                    <div key={request.id} className="flex items-center justify-between py-2 text-sm">
+                      <div>
+                        <p className="font-medium text-slate-900 dark:text-slate-100">
+                          {leaveType?.name || 'Leave'} · {request.days} day{request.days === 1 ? '' : 's'}
+                        </p>
+                        <p className="text-xs text-slate-600 dark:text-slate-400">
+                          {request.startDate === request.endDate
+                            ? formatDateKey(request.startDate)
+                            : `${formatDateKey(request.startDate)} - ${formatDateKey(request.endDate)}`}
+                          {request.reviewComment && ` · ${request.reviewComment}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Badge className={STATUS_STYLES[request.status].className}>{STATUS_STYLES[request.status].label}</Badge>
+                        {canCancel && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="text-slate-500"
+                            disabled={cancelLeaveMutation.isPending}
+                            onClick={() => cancelLeaveMutation.mutate(request.id)}
+                          >
+                            Cancel
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={isRequestOpen} onOpenChange={setIsRequestOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Request Leave</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label>Leave type</Label>
+              <Select value={form.leaveTypeId} onValueChange={(value) => setForm({ ...form, leaveTypeId: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a leave type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {data?.types.map(type => (
+                    <SelectItem key={type.id} value={type.id.toString()}>{type.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>From</Label>
+                <Input
+                  type="date"
+                  value={form.startDate}
+                  onChange={(e) => setForm({ ...form, startDate: e.target.value, endDate: form.endDate || e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>To</Label>
+                <Input
+                  type="date"
+                  min={form.startDate || undefined}
+                  value={form.endDate}
+                  onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label>Reason (optional)</Label>
+              <Textarea
+                value={form.reason}
+                onChange={(e) => setForm({ ...form, reason: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setIsRequestOpen(false)}>Cancel</Button>
+              <Button type="submit" disabled={requestLeaveMutation.isPending} className="bg-rose-600 hover:bg-rose-700">
+                {requestLeaveMutation.isPending ? 'Sending...' : 'Send Request'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
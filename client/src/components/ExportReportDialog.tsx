@@ -1,5 +1,6 @@
 import { useState } from 'react';
-import { useMutation } from '@tanstack/react-query';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { endOfMonth, format as formatDate, startOfMonth, subDays, subMonths } from 'date-fns';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -22,15 +23,56 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { Download, Mail, Loader2, FileText, File, Table } from 'lucide-react';
+import { Download, Mail, Loader2, FileText, File, Table, Settings2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { getAuthToken } from '@/lib/auth';
+import PayrollTemplatesDialog from '@/components/PayrollTemplatesDialog';
+import FilterChecklist from '@/components/FilterChecklist';
+import type { Area, Department, Employee, PayrollTemplate, WorkSite } from '@shared/schema';
 
 const exportFormSchema = z.object({
-  email: z.string().email('Please enter a valid email address'),
-  fromEmail: z.string().email('Please enter a valid sender email address'),
-  subject: z.string().min(1, 'Subject is required').default('Employee Attendance Report - Last 30 Days'),
+  delivery: z.enum(['email', 'download']),
+  email: z.string(),
+  fromEmail: z.string(),
+  subject: z.string(),
   format: z.enum(['html', 'pdf', 'excel', 'csv']).default('html'),
+  mode: z.enum(['attendance', 'payroll']).default('attendance'),
+  templateId: z.string().optional(),
+  periodStart: z.string().optional(),
+  periodEnd: z.string().optional(),
+  from: z.string().min(1, 'Select the start date'),
+  to: z.string().min(1, 'Select the end date'),
+  siteIds: z.array(z.number()),
+  areaIds: z.array(z.number()),
+  departmentIds: z.array(z.number()),
+  employeeIds: z.array(z.number()),
+}).superRefine((data, ctx) => {
+  // Recipient details only matter when the report is emailed
+  if (data.delivery === 'email') {
+    if (!z.string().email().safeParse(data.email).success) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['email'], message: 'Please enter a valid email address' });
+    }
+    if (!z.string().email().safeParse(data.fromEmail).success) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['fromEmail'], message: 'Please enter a valid sender email address' });
+    }
+    if (!data.subject) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['subject'], message: 'Subject is required' });
+    }
+  }
+  if (data.mode !== 'payroll') {
+    if (data.to < data.from) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['to'], message: 'The report period cannot end before it starts' });
+    }
+    return;
+  }
+  if (!data.templateId) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['templateId'], message: 'Select a payroll template' });
+  }
+  if (!data.periodStart || !data.periodEnd) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['periodEnd'], message: 'Select the pay period' });
+  } else if (data.periodEnd < data.periodStart) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['periodEnd'], message: 'The pay period cannot end before it starts' });
+  }
 });
 
 type ExportFormData = z.infer<typeof exportFormSchema>;
@@ -46,6 +88,9 @@ interface ExportReportDialogProps {
   children: React.ReactNode;
 }
 
+// Payroll defaults to the previous calendar month
+const lastMonth = subMonths(new Date(), 1);
+
 export default function ExportReportDialog({ children }: ExportReportDialogProps) {
   const [open, setOpen] = useState(false);
   const { toast } = useToast();
@@ -53,11 +98,57 @@ export default function ExportReportDialog({ children }: ExportReportDialogProps
   const form = useForm<ExportFormData>({
     resolver: zodResolver(exportFormSchema),
     defaultValues: {
+      delivery: 'email' as const,
       email: '',
       fromEmail: '',
-      subject: 'Employee Attendance Report - Last 30 Days',
+      subject: 'Employee Attendance Report',
       format: 'html' as const,
+      mode: 'attendance' as const,
+      templateId: '',
+      periodStart: formatDate(startOfMonth(lastMonth), 'yyyy-MM-dd'),
+      periodEnd: formatDate(endOfMonth(lastMonth), 'yyyy-MM-dd'),
+      from: formatDate(subDays(new Date(), 30), 'yyyy-MM-dd'),
+      to: formatDate(new Date(), 'yyyy-MM-dd'),
+      siteIds: [],
+      areaIds: [],
+      departmentIds: [],
+      employeeIds: [],
+    },
+  });
+  const mode = form.watch('mode');
+
+  const { data: sites = [] } = useQuery<WorkSite[]>({
+    queryKey: ['/api/admin/sites'],
+    enabled: open && mode === 'attendance',
+  });
+
+  const { data: areas = [] } = useQuery<Area[]>({
+    queryKey: ['/api/admin/areas'],
+    enabled: open && mode === 'attendance',
+  });
+
+  const { data: departments = [] } = useQuery<Department[]>({
+    queryKey: ['/api/admin/departments'],
+    enabled: open && mode === 'attendance',
+  });
+
+  const { data: employees = [] } = useQuery<Employee[]>({
+    queryKey: ['/api/admin/employees'],
+    enabled: open && mode === 'attendance',
+  });
+
+  const { data: payrollTemplates = [] } = useQuery<PayrollTemplate[]>({
+    queryKey: ['/api/admin/payroll-templates'],
+    queryFn: async () => {
+      const response = await fetch('/api/admin/payroll-templates', {
+        headers: {
+          'Authorization': `Bearer ${getAuthToken()}`,
+        },
+      });
+      if (!response.ok) throw new Error('Failed to fetch payroll templates');
+      return response.json();
     },
+    enabled: open && mode === 'payroll',
   });
 
   const exportMutation = useMutation({
@@ -73,7 +164,9 @@ export default function ExportReportDialog({ children }: ExportReportDialogProps
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${token}`,
         },
-        body: JSON.stringify(data),
+        body: JSON.stringify(data.mode === 'payroll'
+          ? { ...data, templateId: parseInt(data.templateId!) }
+          : data),
       });
 
       if (!response.ok) {
@@ -81,12 +174,28 @@ export default function ExportReportDialog({ children }: ExportReportDialogProps
         throw new Error(errorData.message || 'Failed to send report');
       }
 
+      if (data.delivery === 'download') {
+        // Save the file under the name the server picked
+        const disposition = response.headers.get('Content-Disposition') || '';
+        const filename = disposition.match(/filename="([^"]+)"/)?.[1] || 'report';
+        const url = URL.createObjectURL(await response.blob());
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = filename;
+        link.click();
+        URL.revokeObjectURL(url);
+        return { downloaded: true };
+      }
+
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (_result, data) => {
+      const what = data.mode === 'payroll' ? 'payroll export' : 'attendance report';
       toast({
-        title: 'Report Sent Successfully',
-        description: 'The attendance report has been sent to the specified email address.',
+        title: data.delivery === 'download' ? 'Report Downloaded' : 'Report Sent Successfully',
+        description: data.delivery === 'download'
+          ? `The ${what} has been downloaded.`
+          : `The ${what} has been sent to the specified email address.`,
       });
       setOpen(false);
       form.reset();
@@ -104,25 +213,58 @@ export default function ExportReportDialog({ children }: ExportReportDialogProps
     exportMutation.mutate(data);
   };
 
+  const submitWith = (delivery: ExportFormData['delivery']) => {
+    form.setValue('delivery', delivery);
+    form.handleSubmit(onSubmit)();
+  };
+
   return (
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
         {children}
       </DialogTrigger>
-      <DialogContent className="sm:max-w-[425px] bg-slate-50 dark:bg-slate-900 border-slate-200 dark:border-slate-700 w-[calc(100vw-1rem)] sm:w-full mx-auto">
+      <DialogContent className="sm:max-w-[425px] max-h-[90vh] overflow-y-auto bg-slate-50 dark:bg-slate-900 border-slate-200 dark:border-slate-700 w-[calc(100vw-1rem)] sm:w-full mx-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2 text-slate-900 dark:text-slate-100">
             <Mail className="h-5 w-5" />
             Export Attendance Report
           </DialogTitle>
           <DialogDescription className="text-slate-600 dark:text-slate-400">
-            Send a comprehensive 30-day attendance report via email. The report will include 
-            check-in/out times, work sites, and attendance summaries for all employees.
+            Download an attendance report or send it via email for any period. The report will include 
+            check-in/out times, work sites, and attendance summaries for the selected employees.
           </DialogDescription>
         </DialogHeader>
         
         <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+          <form onSubmit={(e) => { e.preventDefault(); submitWith('email'); }} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="mode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Report Type</FormLabel>
+                  <Select
+                    onValueChange={(value) => {
+                      field.onChange(value);
+                      form.setValue('subject', value === 'payroll' ? 'Payroll Export' : 'Employee Attendance Report');
+                    }}
+                    defaultValue={field.value}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="attendance">Attendance report</SelectItem>
+                      <SelectItem value="payroll">Payroll export (pay period)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="fromEmail"
@@ -176,39 +318,162 @@ export default function ExportReportDialog({ children }: ExportReportDialogProps
               )}
             />
 
-            <FormField
-              control={form.control}
-              name="format"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>File Format</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
-                    <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select export format" />
-                      </SelectTrigger>
-                    </FormControl>
-                    <SelectContent>
-                      {formatOptions.map((option) => {
-                        const IconComponent = option.icon;
-                        return (
-                          <SelectItem key={option.value} value={option.value}>
-                            <div className="flex items-center space-x-2">
-                              <IconComponent className="h-4 w-4" />
-                              <div className="flex flex-col">
-                                <span className="font-medium">{option.label}</span>
-                                <span className="text-xs text-muted-foreground">{option.description}</span>
-                              </div>
-                            </div>
-                          </SelectItem>
-                        );
-                      })}
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            {mode === 'payroll' ? (
+              <>
+                <FormField
+                  control={form.control}
+                  name="templateId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <div className="flex items-center justify-between">
+                        <FormLabel>Payroll Template</FormLabel>
+                        <PayrollTemplatesDialog>
+                          <Button type="button" variant="ghost" size="sm" className="h-7 px-2">
+                            <Settings2 className="h-4 w-4 mr-1" />
+                            Manage
+                          </Button>
+                        </PayrollTemplatesDialog>
+                      </div>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder={payrollTemplates.length === 0 ? 'Create a template first' : 'Select a template'} />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {payrollTemplates.map(template => (
+                            <SelectItem key={template.id} value={template.id.toString()}>
+                              {template.name} ({template.fileFormat.toUpperCase()})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="grid grid-cols-2 gap-3">
+                  <FormField
+                    control={form.control}
+                    name="periodStart"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Period Start</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="periodEnd"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Period End</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  <FormField
+                    control={form.control}
+                    name="from"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>From</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="to"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>To</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="space-y-3">
+                  <FilterChecklist
+                    label="Sites"
+                    options={sites}
+                    selected={form.watch('siteIds')}
+                    onChange={(ids) => form.setValue('siteIds', ids)}
+                  />
+                  <FilterChecklist
+                    label="Areas"
+                    options={areas}
+                    selected={form.watch('areaIds')}
+                    onChange={(ids) => form.setValue('areaIds', ids)}
+                  />
+                  <FilterChecklist
+                    label="Departments"
+                    options={departments}
+                    selected={form.watch('departmentIds')}
+                    onChange={(ids) => form.setValue('departmentIds', ids)}
+                  />
+                  <FilterChecklist
+                    label="Employees"
+                    options={employees.map(employee => ({ id: employee.id, name: `${employee.firstName} ${employee.lastName}` }))}
+                    selected={form.watch('employeeIds')}
+                    onChange={(ids) => form.setValue('employeeIds', ids)}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="format"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>File Format</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select export format" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {formatOptions.map((option) => {
+                            const IconComponent = option.icon;
+                            return (
+                              <SelectItem key={option.value} value={option.value}>
+                                <div className="flex items-center space-x-2">
+                                  <IconComponent className="h-4 w-4" />
+                                  <div className="flex flex-col">
+                                    <span className="font-medium">{option.label}</span>
+                                    <span className="text-xs text-muted-foreground">{option.description}</span>
+                                  </div>
+                                </div>
+                              </SelectItem>
+                            );
+                          })}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
             
             <div className="flex justify-end space-x-2 pt-4">
               <Button
@@ -219,19 +484,32 @@ export default function ExportReportDialog({ children }: ExportReportDialogProps
               >
                 Cancel
               </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => submitWith('download')}
+                disabled={exportMutation.isPending}
+              >
+                {exportMutation.isPending && form.getValues('delivery') === 'download' ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Download className="mr-2 h-4 w-4" />
+                )}
+                Download
+              </Button>
               <Button 
                 type="submit" 
                 disabled={exportMutation.isPending}
                 className="min-w-[120px]"
               >
-                {exportMutation.isPending ? (
+                {exportMutation.isPending && form.getValues('delivery') === 'email' ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                     Sending...
                   </>
                 ) : (
                   <>
-                    <Download className="mr-2 h-4 w-4" />
+                    <Mail className="mr-2 h-4 w-4" />
                     Send Report
                   </>
                 )}
@@ -0,0 +1,33 @@
+import { Checkbox } from '@/components/ui/checkbox';
+
+interface FilterChecklistProps {
+  label: string;
+  options: { id: number; name: string }[];
+  selected: number[];
+  onChange: (selected: number[]) => void;
+}
+
+// Nothing ticked means no filtering on that dimension
+export default function FilterChecklist({ label, options, selected, onChange }: FilterChecklistProps) {
+  if (options.length === 0) return null;
+  return (
+    <div>
+      <p className="text-sm font-medium mb-1">
+        {label} <span className="text-xs font-normal text-muted-foreground">{selected.length === 0 ? '(all)' : `(${selected.length})`}</span>
+      </p>
+      <div className="max-h-28 overflow-y-auto rounded-md border bg-white dark:bg-slate-800 p-2 space-y-1">
+        {options.map(option => (
+          <label key={option.id} className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={selected.includes(option.id)}
+              onCheckedChange={(checked) => onChange(checked
+                ? [...selected, option.id]
+                : selected.filter(id => id !== option.id))}
+            />
+            {option.name}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
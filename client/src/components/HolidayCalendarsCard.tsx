@@ -0,0 +1,343 @@
+import { useEffect, useRef, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { getAuthToken } from '@/lib/auth';
+import type { Area, Holiday, HolidayCalendar } from '@shared/schema';
+import { CalendarDays, Pencil, Plus, Trash2, Upload } from 'lucide-react';
+
+// Shape returned by GET /api/admin/holiday-calendars
+interface HolidayCalendarRow extends HolidayCalendar {
+  holidays: Holiday[];
+}
+
+const ALL_SITES = 'all';
+
+// "2024-01-26" -> "Fri, Jan 26" without going through UTC
+const formatDateKey = (dateKey: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return format(new Date(year, month - 1, day), 'EEE, MMM d');
+};
+
+export function HolidayCalendarsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [editingCalendar, setEditingCalendar] = useState<HolidayCalendarRow | null>(null);
+  const [isCalendarDialogOpen, setIsCalendarDialogOpen] = useState(false);
+  const [calendarForm, setCalendarForm] = useState({ name: '', areaId: ALL_SITES });
+  const [holidayForm, setHolidayForm] = useState({ date: '', name: '' });
+
+  const { data: calendars = [] } = useQuery<HolidayCalendarRow[]>({
+    queryKey: ['/api/admin/holiday-calendars'],
+    queryFn: async () => {
+      const response = await fetch('/api/admin/holiday-calendars', {
+        headers: {
+          'Authorization': `Bearer ${getAuthToken()}`,
+        },
+      });
+      if (!response.ok) throw new Error('Failed to fetch holiday calendars');
+      return response.json();
+    },
+  });
+
+  const { data: areas = [] } = useQuery<Area[]>({
+    queryKey: ['/api/admin/areas'],
+  });
+
+  // Keep a calendar selected as calendars are added and removed
+  useEffect(() => {
+    if (calendars.length === 0) {
+      setSelectedId(null);
+    } else if (!calendars.some(calendar => calendar.id === selectedId)) {
+      setSelectedId(calendars[0].id);
+    }
+  }, [calendars, selectedId]);
+
+  const selected = calendars.find(calendar => calendar.id === selectedId);
+  const holidaysInYear = (selected?.holidays || []).filter(holiday => holiday.date.startsWith(`${year}-`));
+
+  const invalidateCalendars = () => queryClient.invalidateQueries({ queryKey: ['/api/admin/holiday-calendars'] });
+  const showError = (fallback: string) => (error: Error) => {
+    toast({ title: 'Error', description: error.message || fallback, variant: 'destructive' });
+  };
+
+  const saveCalendarMutation = useMutation({
+    mutationFn: async () => {
+      const data = {
+        name: calendarForm.name,
+        areaId: calendarForm.areaId === ALL_SITES ? null : parseInt(calendarForm.areaId),
+      };
+      return editingCalendar
+        ? apiRequest('PUT', `/api/admin/holiday-calendars/${editingCalendar.id}`, data)
+        : apiRequest('POST', '/api/admin/holiday-calendars', data);
+    },
+    onSuccess: () => {
+      invalidateCalendars();
+      toast({ title: 'Success', description: editingCalendar ? 'Holiday calendar updated' : 'Holiday calendar created' });
+      setIsCalendarDialogOpen(false);
+    },
+    onError: showError('Failed to save holiday calendar'),
+  });
+
+  const deleteCalendarMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest('DELETE', `/api/admin/holiday-calendars/${id}`),
+    onSuccess: () => {
+      invalidateCalendars();
+      toast({ title: 'Success', description: 'Holiday calendar deleted' });
+    },
+    onError: showError('Failed to delete holiday calendar'),
+  });
+
+  const addHolidayMutation = useMutation({
+    mutationFn: async () => apiRequest('POST', `/api/admin/holiday-calendars/${selectedId}/holidays`, holidayForm),
+    onSuccess: () => {
+      invalidateCalendars();
+      setHolidayForm({ date: '', name: '' });
+    },
+    onError: showError('Failed to add holiday'),
+  });
+
+  const deleteHolidayMutation = useMutation({
+    mutationFn: async (holidayId: number) => apiRequest('DELETE', `/api/admin/holiday-calendars/${selectedId}/holidays/${holidayId}`),
+    onSuccess: () => invalidateCalendars(),
+    onError: showError('Failed to delete holiday'),
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (file: { format: 'csv' | 'ics'; content: string }) => {
+      const response = await apiRequest('POST', `/api/admin/holiday-calendars/${selectedId}/import`, file);
+      return response.json();
+    },
+    onSuccess: (result: { imported: number }) => {
+      invalidateCalendars();
+      toast({ title: 'Holidays Imported', description: `${result.imported} holiday${result.imported === 1 ? '' : 's'} imported` });
+    },
+    onError: showError('Failed to import holidays'),
+  });
+
+  const openCalendarDialog = (calendar: HolidayCalendarRow | null) => {
+    setEditingCalendar(calendar);
+    setCalendarForm({
+      name: calendar?.name || '',
+      areaId: calendar?.areaId ? calendar.areaId.toString() : ALL_SITES,
+    });
+    setIsCalendarDialogOpen(true);
+  };
+
+  const handleImportFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      importMutation.mutate({
+        format: file.name.toLowerCase().endsWith('.ics') ? 'ics' : 'csv',
+        content: String(reader.result || ''),
+      });
+    };
+    reader.readAsText(file);
+  };
+
+  const areaName = (areaId: number | null) =>
+    areaId === null ? 'All sites' : areas.find(area => area.id === areaId)?.name || 'Removed area';
+
+  return (
+    <Card className="mt-6 bg-white dark:bg-slate-800 border-2 border-slate-300 dark:border-slate-600">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <CalendarDays className="h-5 w-5" />
+            Holiday Calendars
+          </CardTitle>
+          <CardDescription className="text-slate-600 dark:text-slate-400">
+            Holidays are non-working days: recurring shifts are skipped and reports leave them out of working days
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => openCalendarDialog(null)}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Calendar
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {calendars.length === 0 ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400 py-4">
+            Add a company-wide calendar, or one per area for regional public holidays.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="divide-y divide-slate-200 dark:divide-slate-700">
+              {calendars.map(calendar => (
+                <div
+                  key={calendar.id}
+                  className={`flex items-center justify-between py-2 px-2 rounded cursor-pointer ${calendar.id === selectedId ? 'bg-slate-100 dark:bg-slate-700' : ''}`}
+                  onClick={() => setSelectedId(calendar.id)}
+                >
+                  <div>
+                    <p className="font-medium text-slate-900 dark:text-slate-100">{calendar.name}</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                      {areaName(calendar.areaId)} · {calendar.holidays.length} holiday{calendar.holidays.length === 1 ? '' : 's'}
+                    </p>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button size="sm" variant="ghost" onClick={(e) => { e.stopPropagation(); openCalendarDialog(calendar); }}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="text-red-600"
+                      disabled={deleteCalendarMutation.isPending}
+                      onClick={(e) => { e.stopPropagation(); deleteCalendarMutation.mutate(calendar.id); }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {selected && (
+              <div className="lg:col-span-2 space-y-4">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Button size="sm" variant="outline" onClick={() => setYear(year - 1)}>‹</Button>
+                    <span className="font-medium text-slate-900 dark:text-slate-100">{year}</span>
+                    <Button size="sm" variant="outline" onClick={() => setYear(year + 1)}>›</Button>
+                  </div>
+                  <div>
+                    <input
+                      type="file"
+                      accept=".csv,.ics,text/csv,text/calendar"
+                      ref={fileInputRef}
+                      onChange={handleImportFile}
+                      className="hidden"
+                    />
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={importMutation.isPending}
+                      onClick={() => fileInputRef.current?.click()}
+                    >
+                      <Upload className="h-4 w-4 mr-1" />
+                      {importMutation.isPending ? 'Importing...' : 'Import CSV / ICS'}
+                    </Button>
+                  </div>
+                </div>
+
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    addHolidayMutation.mutate();
+                  }}
+                  className="flex flex-wrap gap-2"
+                >
+                  <Input
+                    type="date"
+                    className="w-44"
+                    value={holidayForm.date}
+                    onChange={(e) => setHolidayForm({ ...holidayForm, date: e.target.value })}
+                    required
+                  />
+                  <Input
+                    className="flex-1 min-w-[10rem]"
+                    placeholder="Holiday name"
+                    value={holidayForm.name}
+                    onChange={(e) => setHolidayForm({ ...holidayForm, name: e.target.value })}
+                    required
+                  />
+                  <Button type="submit" size="sm" disabled={addHolidayMutation.isPending}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add
+                  </Button>
+                </form>
+
+                {holidaysInYear.length === 0 ? (
+                  <p className="text-sm text-slate-500 dark:text-slate-400 py-2">
+                    No holidays in {year}. Import a file with one "date,name" row per holiday, or an .ics calendar.
+                  </p>
+                ) : (
+                  <div className="divide-y divide-slate-200 dark:divide-slate-700">
+                    {holidaysInYear.map(holiday => (
+                      <div key={holiday.id} className="flex items-center justify-between py-2 text-sm">
+                        <div className="flex items-center gap-3">
+                          <Badge variant="outline" className="w-28 justify-center">{formatDateKey(holiday.date)}</Badge>
+                          <span className="text-slate-900 dark:text-slate-100">{holiday.name}</span>
+                        </div>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="text-red-600"
+                          disabled={deleteHolidayMutation.isPending}
+                          onClick={() => deleteHolidayMutation.mutate(holiday.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isCalendarDialogOpen} onOpenChange={setIsCalendarDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingCalendar ? 'Edit Holiday Calendar' : 'New Holiday Calendar'}</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveCalendarMutation.mutate();
+            }}
+            className="space-y-4"
+          >
+            <div>
+              <Label>Name</Label>
+              <Input
+                value={calendarForm.name}
+                onChange={(e) => setCalendarForm({ ...calendarForm, name: e.target.value })}
+                placeholder="e.g. Maharashtra public holidays"
+                required
+              />
+            </div>
+            <div>
+              <Label>Applies to</Label>
+              <Select value={calendarForm.areaId} onValueChange={(value) => setCalendarForm({ ...calendarForm, areaId: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_SITES}>All sites</SelectItem>
+                  {areas.map(area => (
+                    <SelectItem key={area.id} value={area.id.toString()}>Sites in {area.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setIsCalendarDialogOpen(false)}>Cancel</Button>
+              <Button type="submit" disabled={saveCalendarMutation.isPending}>
+                {saveCalendarMutation.isPending ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { getAuthToken, getUserType } from '@/lib/auth';
+import { apiRequest } from '@/lib/queryClient';
+import type { LeaveBalance } from '@shared/schema';
+import { CalendarOff, Pencil } from 'lucide-react';
+
+// Shape returned by GET /api/admin/employees/:id/leave-balances (see server/leave.ts)
+interface LeaveBalanceRow {
+  leaveTypeId: number;
+  name: string;
+  color: string | null;
+  isPaid: boolean;
+  year: number;
+  tracked: boolean;
+  entitlementDays: number | null;
+  accruedDays: number | null;
+  usedDays: number;
+  pendingDays: number;
+  availableDays: number | null;
+  balance: LeaveBalance | null;
+}
+
+interface LeaveBalancesCardProps {
+  employeeId: number;
+}
+
+export function LeaveBalancesCard({ employeeId }: LeaveBalancesCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const year = new Date().getFullYear();
+  const [editing, setEditing] = useState<LeaveBalanceRow | null>(null);
+  const [form, setForm] = useState({ allowanceDays: '', carryOverDays: '0', adjustmentDays: '0', note: '' });
+
+  const { data: balances = [] } = useQuery<LeaveBalanceRow[]>({
+    queryKey: [`/api/admin/employees/${employeeId}/leave-balances`],
+    enabled: !!getAuthToken() && getUserType() === 'admin' && !!employeeId,
+  });
+
+  const saveBalanceMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('PUT', `/api/admin/employees/${employeeId}/leave-balances/${editing!.leaveTypeId}`, {
+        year,
+        allowanceDays: form.allowanceDays === '' ? null : parseInt(form.allowanceDays),
+        carryOverDays: parseInt(form.carryOverDays) || 0,
+        adjustmentDays: parseInt(form.adjustmentDays) || 0,
+        note: form.note.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/employees/${employeeId}/leave-balances`] });
+      toast({ title: 'Success', description: 'Leave balance updated' });
+      setEditing(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message || 'Failed to update leave balance', variant: 'destructive' });
+    },
+  });
+
+  const openEditor = (row: LeaveBalanceRow) => {
+    setEditing(row);
+    setForm({
+      allowanceDays: row.balance?.allowanceDays?.toString() ?? '',
+      carryOverDays: (row.balance?.carryOverDays ?? 0).toString(),
+      adjustmentDays: (row.balance?.adjustmentDays ?? 0).toString(),
+      note: row.balance?.note ?? '',
+    });
+  };
+
+  if (balances.length === 0) return null;
+
+  return (
+    <Card className="mt-8 border-2 border-slate-300 dark:border-slate-600">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-gray-900 dark:text-slate-100">
+          <CalendarOff className="h-5 w-5" />
+          <span>Leave Balances</span>
+        </CardTitle>
+        <CardDescription className="text-gray-600 dark:text-slate-400">{year} allowances, carry over and adjustments</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="divide-y divide-gray-200 dark:divide-slate-700">
+          {balances.map(row => (
+            <div key={row.leaveTypeId} className="flex items-center justify-between py-3 text-sm">
+              <div>
+                <p className="font-medium text-gray-900 dark:text-slate-100">
+                  <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: row.color || '#94a3b8' }} />
+                  {row.name}
+                </p>
+                <p className="text-gray-600 dark:text-slate-300">
+                  {row.tracked
+                    ? `${row.availableDays} available · ${row.accruedDays} of ${row.entitlementDays} accrued · ${row.usedDays} used`
+                    : `${row.usedDays} days taken · not balance-tracked`}
+                  {row.pendingDays > 0 && ` · ${row.pendingDays} pending`}
+                </p>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => openEditor(row)} title="Adjust">
+                <Pencil className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Adjust {editing?.name} Balance ({year})</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveBalanceMutation.mutate();
+            }}
+            className="space-y-4"
+          >
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <Label>Allowance</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  placeholder="Default"
+                  value={form.allowanceDays}
+                  onChange={(e) => setForm({ ...form, allowanceDays: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>Carry over</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={form.carryOverDays}
+                  onChange={(e) => setForm({ ...form, carryOverDays: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>Adjustment</Label>
+                <Input
+                  type="number"
+                  value={form.adjustmentDays}
+                  onChange={(e) => setForm({ ...form, adjustmentDays: e.target.value })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label>Note</Label>
+              <Input value={form.note} onChange={(e) => setForm({ ...form, note: e.target.value })} placeholder="Optional" />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+              <Button type="submit" disabled={saveBalanceMutation.isPending}>
+                {saveBalanceMutation.isPending ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
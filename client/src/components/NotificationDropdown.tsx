@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Bell, X, Clock, MapPin, User } from 'lucide-react';
+import { Bell, X, Clock, MapPin, User, AlertTriangle, LogOut, UserX, TimerOff, CalendarOff, ShieldAlert } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -10,6 +10,7 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { useNotifications, type Notification } from '@/hooks/useNotifications';
 import { AuthenticatedImage } from '@/components/AuthenticatedImage';
+import { AttendancePhotoThumbnail } from '@/components/AttendancePhoto';
 import { formatDistanceToNow } from 'date-fns';
 
 export default function NotificationDropdown() {
@@ -29,6 +30,18 @@ export default function NotificationDropdown() {
         return <User className="h-4 w-4 text-green-600" />;
       case 'employee_checkout':
         return <Clock className="h-4 w-4 text-orange-600" />;
+      case 'late_arrival':
+        return <AlertTriangle className="h-4 w-4 text-amber-600" />;
+      case 'early_departure':
+        return <LogOut className="h-4 w-4 text-purple-600" />;
+      case 'no_show':
+        return <UserX className="h-4 w-4 text-red-600" />;
+      case 'auto_checkout':
+        return <TimerOff className="h-4 w-4 text-slate-600" />;
+      case 'leave_request':
+        return <CalendarOff className="h-4 w-4 text-rose-600" />;
+      case 'location_anomaly':
+        return <ShieldAlert className="h-4 w-4 text-red-700" />;
       default:
         return <Bell className="h-4 w-4" />;
     }
@@ -40,6 +53,18 @@ export default function NotificationDropdown() {
         return 'bg-green-50 border-green-200';
       case 'employee_checkout':
         return 'bg-orange-50 border-orange-200';
+      case 'late_arrival':
+        return 'bg-amber-50 border-amber-200';
+      case 'early_departure':
+        return 'bg-purple-50 border-purple-200';
+      case 'no_show':
+        return 'bg-red-50 border-red-200';
+      case 'auto_checkout':
+        return 'bg-slate-50 border-slate-200';
+      case 'leave_request':
+        return 'bg-rose-50 border-rose-200';
+      case 'location_anomaly':
+        return 'bg-red-50 border-red-300';
       default:
         return 'bg-gray-50 border-gray-200';
     }
@@ -169,6 +194,9 @@ export default function NotificationDropdown() {
                         <span>{formatTime(notification.timestamp)}</span>
                       </div>
                     </div>
+                    {notification.photo && (
+                      <AttendancePhotoThumbnail photo={notification.photo} alt="Attendance photo" />
+                    )}
                   </div>
                 </div>
               ))}
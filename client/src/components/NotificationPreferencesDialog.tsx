@@ -0,0 +1,217 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import FilterChecklist from '@/components/FilterChecklist';
+import { useToast } from '@/hooks/use-toast';
+import { NOTIFICATION_TITLES, NOTIFICATION_TYPES, type NotificationType } from '@/hooks/useNotifications';
+import { getAuthToken } from '@/lib/auth';
+import { apiRequest } from '@/lib/queryClient';
+import type { NotificationPreferences, WorkSite } from '@shared/schema';
+
+type PreferencesForm = Omit<NotificationPreferences, 'id' | 'adminId' | 'nextDigestAt' | 'lastDigestAt' | 'updatedAt'>;
+
+interface NotificationPreferencesDialogProps {
+  children: React.ReactNode;
+}
+
+export default function NotificationPreferencesDialog({ children }: NotificationPreferencesDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState<PreferencesForm | null>(null);
+
+  const { data: preferences } = useQuery<PreferencesForm & { id?: number }>({
+    queryKey: ['/api/admin/notification-preferences'],
+    queryFn: async () => {
+      const response = await fetch('/api/admin/notification-preferences', {
+        headers: {
+          'Authorization': `Bearer ${getAuthToken()}`,
+        },
+      });
+      if (!response.ok) throw new Error('Failed to fetch notification preferences');
+      return response.json();
+    },
+    enabled: open,
+  });
+
+  const { data: sites = [] } = useQuery<WorkSite[]>({
+    queryKey: ['/api/admin/sites'],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!open || !preferences) return;
+    // Until saved, quiet hours and the digest follow this browser's timezone
+    setForm(preferences.id
+      ? preferences
+      : { ...preferences, timezone: Intl.DateTimeFormat().resolvedOptions().timeZone });
+  }, [open, preferences]);
+
+  const savePreferencesMutation = useMutation({
+    mutationFn: async (data: PreferencesForm) => apiRequest('PUT', '/api/admin/notification-preferences', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/notification-preferences'] });
+      toast({
+        title: 'Preferences Updated',
+        description: 'Your notification preferences have been saved.',
+      });
+      setOpen(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Update Failed',
+        description: error.message || 'Failed to update notification preferences.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const update = (changes: Partial<PreferencesForm>) => setForm(prev => prev ? { ...prev, ...changes } : prev);
+
+  const toggleEventType = (type: NotificationType, enabled: boolean) => {
+    if (!form) return;
+    update({
+      eventTypes: enabled
+        ? NOTIFICATION_TYPES.filter(t => t === type || form.eventTypes.includes(t))
+        : form.eventTypes.filter(t => t !== type),
+    });
+  };
+
+  const channels: { key: 'inAppEnabled' | 'emailEnabled' | 'digestEnabled'; label: string; description: string }[] = [
+    { key: 'inAppEnabled', label: 'In-app', description: 'Live alerts and the unread badge in the dashboard' },
+    { key: 'emailEnabled', label: 'Email', description: 'An email for every notification' },
+    { key: 'digestEnabled', label: 'Daily digest', description: 'One email summarising the day' },
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Notification Preferences</DialogTitle>
+          <DialogDescription>
+            Choose which events notify you, how they reach you and when to stay quiet.
+          </DialogDescription>
+        </DialogHeader>
+        {!form ? (
+          <p className="text-sm text-muted-foreground py-4">Loading...</p>
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              savePreferencesMutation.mutate(form);
+            }}
+            className="space-y-4"
+          >
+            <div>
+              <h4 className="text-sm font-medium mb-3">Channels</h4>
+              <div className="space-y-3">
+                {channels.map(channel => (
+                  <div key={channel.key} className="flex flex-row items-center justify-between rounded-lg border p-3">
+                    <div className="space-y-0.5">
+                      <Label className="text-base">{channel.label}</Label>
+                      <div className="text-sm text-muted-foreground">{channel.description}</div>
+                    </div>
+                    <Switch
+                      checked={form[channel.key]}
+                      onCheckedChange={(checked) => update({ [channel.key]: checked })}
+                    />
+                  </div>
+                ))}
+                {form.digestEnabled && (
+                  <div>
+                    <Label>Send the digest at</Label>
+                    <Input
+                      type="time"
+                      value={form.digestTime}
+                      onChange={(e) => update({ digestTime: e.target.value })}
+                      required
+                    />
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium mb-3">Events</h4>
+              <div className="rounded-lg border p-3 space-y-2">
+                {NOTIFICATION_TYPES.map(type => (
+                  <div key={type} className="flex items-center justify-between">
+                    <Label className="font-normal">{NOTIFICATION_TITLES[type]}</Label>
+                    <Switch
+                      checked={form.eventTypes.includes(type)}
+                      onCheckedChange={(checked) => toggleEventType(type, checked)}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <FilterChecklist
+              label="Sites"
+              options={sites}
+              selected={form.siteIds}
+              onChange={(siteIds) => update({ siteIds })}
+            />
+
+            <div className="rounded-lg border p-3 space-y-3">
+              <div>
+                <Label className="text-base">Quiet hours</Label>
+                <div className="text-sm text-muted-foreground">
+                  No live alerts or emails in this window. Notifications still wait unread and go into the digest.
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label>From</Label>
+                  <Input
+                    type="time"
+                    value={form.quietHoursStart ?? ''}
+                    onChange={(e) => update({ quietHoursStart: e.target.value || null })}
+                  />
+                </div>
+                <div>
+                  <Label>Until</Label>
+                  <Input
+                    type="time"
+                    value={form.quietHoursEnd ?? ''}
+                    onChange={(e) => update({ quietHoursEnd: e.target.value || null })}
+                  />
+                </div>
+              </div>
+              <div>
+                <Label>Timezone</Label>
+                <Input
+                  value={form.timezone}
+                  onChange={(e) => update({ timezone: e.target.value })}
+                  placeholder="e.g. America/New_York"
+                  required
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="submit" disabled={savePreferencesMutation.isPending}>
+                {savePreferencesMutation.isPending ? 'Saving...' : 'Save Preferences'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
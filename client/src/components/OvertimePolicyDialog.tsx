@@ -0,0 +1,243 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { getAuthToken } from '@/lib/auth';
+import { apiRequest } from '@/lib/queryClient';
+import type { OvertimePolicy } from '@shared/schema';
+
+type PolicyForm = Omit<OvertimePolicy, 'id' | 'adminId' | 'updatedAt'>;
+
+interface OvertimePolicyDialogProps {
+  children: React.ReactNode;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Thresholds are edited in hours but stored in minutes; empty means the rule is off
+const minutesToHours = (minutes: number | null) => minutes === null ? '' : String(minutes / 60);
+const hoursToMinutes = (value: string) => value === '' ? null : Math.round(parseFloat(value) * 60);
+
+export default function OvertimePolicyDialog({ children }: OvertimePolicyDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState<PolicyForm | null>(null);
+
+  const { data: policy } = useQuery<PolicyForm>({
+    queryKey: ['/api/admin/overtime-policy'],
+    queryFn: async () => {
+      const response = await fetch('/api/admin/overtime-policy', {
+        headers: {
+          'Authorization': `Bearer ${getAuthToken()}`,
+        },
+      });
+      if (!response.ok) throw new Error('Failed to fetch overtime policy');
+      return response.json();
+    },
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open && policy) setForm(policy);
+  }, [open, policy]);
+
+  const savePolicyMutation = useMutation({
+    mutationFn: async (data: PolicyForm) => apiRequest('PUT', '/api/admin/overtime-policy', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/overtime-policy'] });
+      toast({
+        title: 'Policy Updated',
+        description: 'Overtime rules have been saved.',
+      });
+      setOpen(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Update Failed',
+        description: error.message || 'Failed to update overtime rules.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const update = (changes: Partial<PolicyForm>) => setForm(prev => prev ? { ...prev, ...changes } : prev);
+
+  const toggleWeekendDay = (day: number) => {
+    if (!form) return;
+    const weekendDays = form.weekendDays.includes(day)
+      ? form.weekendDays.filter(d => d !== day)
+      : [...form.weekendDays, day].sort();
+    update({ weekendDays });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Overtime &amp; Pay Rules</DialogTitle>
+          <DialogDescription>
+            How worked time is split into regular, overtime and premium hours in reports. Rates are a percentage of the normal rate.
+          </DialogDescription>
+        </DialogHeader>
+        {!form ? (
+          <p className="text-sm text-muted-foreground py-4">Loading...</p>
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              savePolicyMutation.mutate(form);
+            }}
+            className="space-y-4"
+          >
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div>
+                <Label>Daily after (hours)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={24}
+                  step={0.5}
+                  placeholder="Off"
+                  value={minutesToHours(form.dailyThresholdMinutes)}
+                  onChange={(e) => update({ dailyThresholdMinutes: hoursToMinutes(e.target.value) })}
+                />
+              </div>
+              <div>
+                <Label>Weekly after (hours)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={168}
+                  step={0.5}
+                  placeholder="Off"
+                  value={minutesToHours(form.weeklyThresholdMinutes)}
+                  onChange={(e) => update({ weeklyThresholdMinutes: hoursToMinutes(e.target.value) })}
+                />
+              </div>
+              <div>
+                <Label>Overtime rate (%)</Label>
+                <Input
+                  type="number"
+                  min={100}
+                  max={500}
+                  value={form.overtimeRatePercent}
+                  onChange={(e) => update({ overtimeRatePercent: parseInt(e.target.value) || 100 })}
+                />
+              </div>
+            </div>
+
+            <div className="rounded-lg border p-3 space-y-3">
+              <div>
+                <Label className="text-base">Weekly off days</Label>
+                <div className="text-sm text-muted-foreground">Work on these days is paid at the weekend rate</div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {WEEKDAYS.map((label, day) => (
+                  <Button
+                    key={label}
+                    type="button"
+                    size="sm"
+                    variant={form.weekendDays.includes(day) ? 'default' : 'outline'}
+                    onClick={() => toggleWeekendDay(day)}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label>Weekend rate (%)</Label>
+                  <Input
+                    type="number"
+                    min={100}
+                    max={500}
+                    value={form.weekendRatePercent}
+                    onChange={(e) => update({ weekendRatePercent: parseInt(e.target.value) || 100 })}
+                  />
+                </div>
+                <div>
+                  <Label>Holiday rate (%)</Label>
+                  <Input
+                    type="number"
+                    min={100}
+                    max={500}
+                    value={form.holidayRatePercent}
+                    onChange={(e) => update({ holidayRatePercent: parseInt(e.target.value) || 100 })}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="rounded-lg border p-3 space-y-3">
+              <div>
+                <Label className="text-base">Night shift differential</Label>
+                <div className="text-sm text-muted-foreground">Extra pay on top of the normal rate for hours worked at night</div>
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <Label>From</Label>
+                  <Input
+                    type="time"
+                    value={form.nightStart ?? ''}
+                    onChange={(e) => update({ nightStart: e.target.value || null })}
+                  />
+                </div>
+                <div>
+                  <Label>Until</Label>
+                  <Input
+                    type="time"
+                    value={form.nightEnd ?? ''}
+                    onChange={(e) => update({ nightEnd: e.target.value || null })}
+                  />
+                </div>
+                <div>
+                  <Label>Extra (%)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={200}
+                    value={form.nightPremiumPercent}
+                    onChange={(e) => update({ nightPremiumPercent: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="flex flex-row items-center justify-between rounded-lg border p-3">
+              <div className="space-y-0.5">
+                <Label className="text-base">Deduct off-site time</Label>
+                <div className="text-sm text-muted-foreground">Time spent outside the site geofence while checked in is not paid</div>
+              </div>
+              <Switch
+                checked={form.deductOffsiteTime}
+                onCheckedChange={(checked) => update({ deductOffsiteTime: checked })}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="submit" disabled={savePolicyMutation.isPending}>
+                {savePolicyMutation.isPending ? 'Saving...' : 'Save Rules'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
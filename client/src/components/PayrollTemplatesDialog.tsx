@@ -0,0 +1,275 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { getAuthToken } from '@/lib/auth';
+import { apiRequest } from '@/lib/queryClient';
+import type { PayrollColumn, PayrollField, PayrollFileFormat, PayrollTemplate } from '@shared/schema';
+import { ArrowDown, ArrowUp, Pencil, Plus, Trash2, X } from 'lucide-react';
+
+const PAYROLL_FIELD_LABELS: Record<PayrollField, string> = {
+  employeeCode: 'Employee code',
+  employeeName: 'Full name',
+  firstName: 'First name',
+  lastName: 'Last name',
+  email: 'Email',
+  department: 'Department',
+  site: 'Assigned site',
+  area: 'Area',
+  periodStart: 'Period start',
+  periodEnd: 'Period end',
+  daysWorked: 'Days worked',
+  workedHours: 'Worked hours',
+  regularHours: 'Regular hours',
+  overtimeHours: 'Overtime hours',
+  weekendHours: 'Weekend hours',
+  holidayHours: 'Holiday hours',
+  nightHours: 'Night hours',
+  offsiteHours: 'Off-site hours',
+  payableHours: 'Payable hours',
+  leaveDays: 'Leave days',
+};
+const PAYROLL_FIELD_OPTIONS = Object.keys(PAYROLL_FIELD_LABELS) as PayrollField[];
+
+interface TemplateForm {
+  name: string;
+  fileFormat: PayrollFileFormat;
+  columns: PayrollColumn[];
+}
+
+const defaultColumns: PayrollColumn[] = [
+  { field: 'employeeCode', header: 'Employee Code' },
+  { field: 'employeeName', header: 'Employee Name' },
+  { field: 'department', header: 'Department' },
+  { field: 'site', header: 'Site' },
+  { field: 'regularHours', header: 'Regular Hours' },
+  { field: 'overtimeHours', header: 'Overtime Hours' },
+];
+
+interface PayrollTemplatesDialogProps {
+  children: React.ReactNode;
+}
+
+export default function PayrollTemplatesDialog({ children }: PayrollTemplatesDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | 'new' | null>(null);
+  const [form, setForm] = useState<TemplateForm>({ name: '', fileFormat: 'csv', columns: defaultColumns });
+
+  const { data: templates = [] } = useQuery<PayrollTemplate[]>({
+    queryKey: ['/api/admin/payroll-templates'],
+    queryFn: async () => {
+      const response = await fetch('/api/admin/payroll-templates', {
+        headers: {
+          'Authorization': `Bearer ${getAuthToken()}`,
+        },
+      });
+      if (!response.ok) throw new Error('Failed to fetch payroll templates');
+      return response.json();
+    },
+    enabled: open,
+  });
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async (data: TemplateForm) => editingId === 'new'
+      ? apiRequest('POST', '/api/admin/payroll-templates', data)
+      : apiRequest('PUT', `/api/admin/payroll-templates/${editingId}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/payroll-templates'] });
+      toast({ title: 'Template Saved', description: 'The payroll column layout has been saved.' });
+      setEditingId(null);
+    },
+    onError: (error: any) => {
+      toast({ title: 'Save Failed', description: error.message || 'Failed to save payroll template.', variant: 'destructive' });
+    },
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest('DELETE', `/api/admin/payroll-templates/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/payroll-templates'] });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Delete Failed', description: error.message || 'Failed to delete payroll template.', variant: 'destructive' });
+    },
+  });
+
+  const startEditing = (template: PayrollTemplate | null) => {
+    setEditingId(template ? template.id : 'new');
+    setForm(template
+      ? { name: template.name, fileFormat: template.fileFormat, columns: template.columns }
+      : { name: '', fileFormat: 'csv', columns: defaultColumns });
+  };
+
+  const updateColumn = (index: number, changes: Partial<PayrollColumn>) => {
+    setForm(prev => ({
+      ...prev,
+      columns: prev.columns.map((column, i) => i === index ? { ...column, ...changes } : column),
+    }));
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    setForm(prev => {
+      const columns = [...prev.columns];
+      const [column] = columns.splice(index, 1);
+      columns.splice(index + offset, 0, column);
+      return { ...prev, columns };
+    });
+  };
+
+  const removeColumn = (index: number) => {
+    setForm(prev => ({ ...prev, columns: prev.columns.filter((_, i) => i !== index) }));
+  };
+
+  const addColumn = () => {
+    setForm(prev => ({ ...prev, columns: [...prev.columns, { field: 'payableHours', header: 'Payable Hours' }] }));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => { setOpen(value); if (!value) setEditingId(null); }}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Payroll Templates</DialogTitle>
+          <DialogDescription>
+            Column layouts matching what your payroll software imports. Each export has one row per employee.
+          </DialogDescription>
+        </DialogHeader>
+
+        {editingId === null ? (
+          <div className="space-y-3">
+            {templates.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-2">No templates yet.</p>
+            ) : (
+              <div className="divide-y rounded-lg border">
+                {templates.map(template => (
+                  <div key={template.id} className="flex items-center justify-between p-3">
+                    <div>
+                      <p className="font-medium">{template.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {template.fileFormat.toUpperCase()} · {template.columns.map(column => column.header).join(', ')}
+                      </p>
+                    </div>
+                    <div className="flex gap-1">
+                      <Button size="sm" variant="ghost" onClick={() => startEditing(template)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-red-600"
+                        disabled={deleteTemplateMutation.isPending}
+                        onClick={() => deleteTemplateMutation.mutate(template.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            <Button variant="outline" onClick={() => startEditing(null)}>
+              <Plus className="h-4 w-4 mr-1" />
+              New Template
+            </Button>
+          </div>
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveTemplateMutation.mutate(form);
+            }}
+            className="space-y-4"
+          >
+            <div className="grid grid-cols-3 gap-3">
+              <div className="col-span-2">
+                <Label>Name</Label>
+                <Input
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g. Tally import"
+                  required
+                />
+              </div>
+              <div>
+                <Label>File</Label>
+                <Select value={form.fileFormat} onValueChange={(value) => setForm({ ...form, fileFormat: value as PayrollFileFormat })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="csv">CSV</SelectItem>
+                    <SelectItem value="xlsx">Excel (.xlsx)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Columns</Label>
+              {form.columns.map((column, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Select
+                    value={column.field}
+                    onValueChange={(value) => updateColumn(index, { field: value as PayrollField })}
+                  >
+                    <SelectTrigger className="w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PAYROLL_FIELD_OPTIONS.map(field => (
+                        <SelectItem key={field} value={field}>{PAYROLL_FIELD_LABELS[field]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    className="flex-1"
+                    value={column.header}
+                    onChange={(e) => updateColumn(index, { header: e.target.value })}
+                    placeholder="Column header"
+                    required
+                  />
+                  <Button type="button" size="sm" variant="ghost" disabled={index === 0} onClick={() => moveColumn(index, -1)}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button type="button" size="sm" variant="ghost" disabled={index === form.columns.length - 1} onClick={() => moveColumn(index, 1)}>
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button type="button" size="sm" variant="ghost" onClick={() => removeColumn(index)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button type="button" size="sm" variant="outline" onClick={addColumn}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Column
+              </Button>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setEditingId(null)}>Back</Button>
+              <Button type="submit" disabled={saveTemplateMutation.isPending || form.columns.length === 0}>
+                {saveTemplateMutation.isPending ? 'Saving...' : 'Save Template'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,462 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import FilterChecklist from '@/components/FilterChecklist';
+import { useToast } from '@/hooks/use-toast';
+import { getAuthToken } from '@/lib/auth';
+import { apiRequest } from '@/lib/queryClient';
+import type {
+  Area,
+  Department,
+  Employee,
+  ReportFilterLists,
+  ReportFormat,
+  ReportRun,
+  ReportSchedule,
+  ReportSchedulePeriod,
+  WorkSite,
+} from '@shared/schema';
+import { History, Pencil, Plus, Send, Trash2 } from 'lucide-react';
+
+const PERIOD_LABELS: Record<ReportSchedulePeriod, string> = {
+  today: 'Today',
+  yesterday: 'Yesterday',
+  last_7_days: 'Last 7 days',
+  previous_week: 'Previous week (Sun-Sat)',
+  previous_month: 'Previous month',
+};
+
+const FORMAT_LABELS: Record<ReportFormat, string> = {
+  html: 'HTML (email body)',
+  pdf: 'PDF',
+  excel: 'Excel',
+  csv: 'CSV',
+};
+
+// Common cadences; anything else can be typed as a cron expression
+const CRON_PRESETS = [
+  { cron: '0 19 * * *', label: 'Every day at 7pm' },
+  { cron: '0 19 * * 1-5', label: 'Weekdays at 7pm' },
+  { cron: '0 7 * * 1', label: 'Mondays at 7am' },
+  { cron: '0 7 1 * *', label: 'First of the month at 7am' },
+];
+
+interface ScheduleForm {
+  name: string;
+  recipients: string; // Comma or newline separated
+  fromEmail: string;
+  format: ReportFormat;
+  period: ReportSchedulePeriod;
+  cron: string;
+  timezone: string;
+  isEnabled: boolean;
+  filters: ReportFilterLists;
+}
+
+const emptyFilters: ReportFilterLists = { siteIds: [], areaIds: [], departmentIds: [], employeeIds: [] };
+
+const newScheduleForm = (): ScheduleForm => ({
+  name: '',
+  recipients: '',
+  fromEmail: '',
+  format: 'pdf',
+  period: 'today',
+  cron: CRON_PRESETS[0].cron,
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  isEnabled: true,
+  filters: emptyFilters,
+});
+
+const cadenceLabel = (cron: string) => CRON_PRESETS.find(preset => preset.cron === cron)?.label ?? cron;
+
+interface ReportSchedulesDialogProps {
+  children: React.ReactNode;
+}
+
+export default function ReportSchedulesDialog({ children }: ReportSchedulesDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | 'new' | null>(null);
+  const [historyId, setHistoryId] = useState<number | null>(null);
+  const [form, setForm] = useState<ScheduleForm>(newScheduleForm);
+
+  const { data: schedules = [] } = useQuery<ReportSchedule[]>({
+    queryKey: ['/api/admin/report-schedules'],
+    queryFn: async () => {
+      const response = await fetch('/api/admin/report-schedules', {
+        headers: {
+          'Authorization': `Bearer ${getAuthToken()}`,
+        },
+      });
+      if (!response.ok) throw new Error('Failed to fetch report schedules');
+      return response.json();
+    },
+    enabled: open,
+  });
+
+  const { data: runs = [], isLoading: runsLoading } = useQuery<ReportRun[]>({
+    queryKey: ['/api/admin/report-schedules', historyId, 'runs'],
+    queryFn: async () => {
+      const response = await fetch(`/api/admin/report-schedules/${historyId}/runs`, {
+        headers: {
+          'Authorization': `Bearer ${getAuthToken()}`,
+        },
+      });
+      if (!response.ok) throw new Error('Failed to fetch report history');
+      return response.json();
+    },
+    enabled: open && historyId !== null,
+  });
+
+  const editing = editingId !== null;
+  const { data: sites = [] } = useQuery<WorkSite[]>({ queryKey: ['/api/admin/sites'], enabled: open && editing });
+  const { data: areas = [] } = useQuery<Area[]>({ queryKey: ['/api/admin/areas'], enabled: open && editing });
+  const { data: departments = [] } = useQuery<Department[]>({ queryKey: ['/api/admin/departments'], enabled: open && editing });
+  const { data: employees = [] } = useQuery<Employee[]>({ queryKey: ['/api/admin/employees'], enabled: open && editing });
+
+  const saveScheduleMutation = useMutation({
+    mutationFn: async (data: ScheduleForm) => {
+      const body = {
+        ...data,
+        recipients: data.recipients.split(/[\s,;]+/).filter(Boolean),
+      };
+      return editingId === 'new'
+        ? apiRequest('POST', '/api/admin/report-schedules', body)
+        : apiRequest('PUT', `/api/admin/report-schedules/${editingId}`, body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/report-schedules'] });
+      toast({ title: 'Schedule Saved', description: 'The report will be sent automatically.' });
+      setEditingId(null);
+    },
+    onError: (error: any) => {
+      toast({ title: 'Save Failed', description: error.message || 'Failed to save report schedule.', variant: 'destructive' });
+    },
+  });
+
+  const deleteScheduleMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest('DELETE', `/api/admin/report-schedules/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/report-schedules'] });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Delete Failed', description: error.message || 'Failed to delete report schedule.', variant: 'destructive' });
+    },
+  });
+
+  const runNowMutation = useMutation({
+    mutationFn: async (id: number): Promise<ReportRun> => {
+      const response = await apiRequest('POST', `/api/admin/report-schedules/${id}/run`);
+      return response.json();
+    },
+    onSuccess: (run) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/report-schedules', run.scheduleId, 'runs'] });
+      toast(run.status === 'sent'
+        ? { title: 'Report Sent', description: `Sent to ${run.recipients.join(', ')}.` }
+        : { title: 'Report Failed', description: run.error || 'The report could not be delivered.', variant: 'destructive' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Send Failed', description: error.message || 'Failed to send the report.', variant: 'destructive' });
+    },
+  });
+
+  const startEditing = (schedule: ReportSchedule | null) => {
+    setEditingId(schedule ? schedule.id : 'new');
+    setForm(schedule
+      ? {
+        name: schedule.name,
+        recipients: schedule.recipients.join(', '),
+        fromEmail: schedule.fromEmail,
+        format: schedule.format,
+        period: schedule.period,
+        cron: schedule.cron,
+        timezone: schedule.timezone,
+        isEnabled: schedule.isEnabled,
+        filters: schedule.filters,
+      }
+      : newScheduleForm());
+  };
+
+  const updateFilters = (changes: Partial<ReportFilterLists>) => {
+    setForm(prev => ({ ...prev, filters: { ...prev.filters, ...changes } }));
+  };
+
+  const historySchedule = schedules.find(schedule => schedule.id === historyId);
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (!value) {
+          setEditingId(null);
+          setHistoryId(null);
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Scheduled Reports</DialogTitle>
+          <DialogDescription>
+            Attendance reports emailed automatically, e.g. a daily summary every evening or a weekly one on Monday morning.
+          </DialogDescription>
+        </DialogHeader>
+
+        {historyId !== null ? (
+          <div className="space-y-3">
+            <p className="font-medium">{historySchedule?.name} - delivery history</p>
+            {runsLoading ? (
+              <p className="text-sm text-muted-foreground py-2">Loading...</p>
+            ) : runs.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-2">This report has not been sent yet.</p>
+            ) : (
+              <div className="divide-y rounded-lg border">
+                {runs.map(run => (
+                  <div key={run.id} className="p-3 text-sm space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span>{format(new Date(run.startedAt), 'MMM d, yyyy HH:mm')}{run.isManual ? ' (sent manually)' : ''}</span>
+                      <Badge variant={run.status === 'sent' ? 'default' : 'destructive'}>
+                        {run.status === 'sent' ? 'Sent' : 'Failed'}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {run.periodStart === run.periodEnd ? run.periodStart : `${run.periodStart} to ${run.periodEnd}`} · {run.recipients.join(', ')}
+                    </p>
+                    {run.error && <p className="text-xs text-red-600">{run.error}</p>}
+                  </div>
+                ))}
+              </div>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setHistoryId(null)}>Back</Button>
+            </DialogFooter>
+          </div>
+        ) : editingId === null ? (
+          <div className="space-y-3">
+            {schedules.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-2">No scheduled reports yet.</p>
+            ) : (
+              <div className="divide-y rounded-lg border">
+                {schedules.map(schedule => (
+                  <div key={schedule.id} className="flex items-center justify-between gap-2 p-3">
+                    <div className="min-w-0">
+                      <p className="font-medium">
+                        {schedule.name}
+                        {!schedule.isEnabled && <Badge variant="secondary" className="ml-2">Paused</Badge>}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {cadenceLabel(schedule.cron)} ({schedule.timezone}) · {PERIOD_LABELS[schedule.period]} · {FORMAT_LABELS[schedule.format]}
+                      </p>
+                      {schedule.nextRunAt && (
+                        <p className="text-xs text-muted-foreground">
+                          Next: {format(new Date(schedule.nextRunAt), 'MMM d, yyyy HH:mm')}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex gap-1 shrink-0">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title="Send now"
+                        disabled={runNowMutation.isPending}
+                        onClick={() => runNowMutation.mutate(schedule.id)}
+                      >
+                        <Send className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="ghost" title="History" onClick={() => setHistoryId(schedule.id)}>
+                        <History className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => startEditing(schedule)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-red-600"
+                        disabled={deleteScheduleMutation.isPending}
+                        onClick={() => deleteScheduleMutation.mutate(schedule.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            <Button variant="outline" onClick={() => startEditing(null)}>
+              <Plus className="h-4 w-4 mr-1" />
+              New Schedule
+            </Button>
+          </div>
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveScheduleMutation.mutate(form);
+            }}
+            className="space-y-4"
+          >
+            <div>
+              <Label>Name</Label>
+              <Input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Daily attendance summary"
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <Label>Recipients</Label>
+                <Input
+                  value={form.recipients}
+                  onChange={(e) => setForm({ ...form, recipients: e.target.value })}
+                  placeholder="manager@company.com, ..."
+                  required
+                />
+              </div>
+              <div>
+                <Label>From</Label>
+                <Input
+                  type="email"
+                  value={form.fromEmail}
+                  onChange={(e) => setForm({ ...form, fromEmail: e.target.value })}
+                  placeholder="reports@company.com"
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <Label>Covers</Label>
+                <Select value={form.period} onValueChange={(value) => setForm({ ...form, period: value as ReportSchedulePeriod })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PERIOD_LABELS) as ReportSchedulePeriod[]).map(period => (
+                      <SelectItem key={period} value={period}>{PERIOD_LABELS[period]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Format</Label>
+                <Select value={form.format} onValueChange={(value) => setForm({ ...form, format: value as ReportFormat })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(FORMAT_LABELS) as ReportFormat[]).map(value => (
+                      <SelectItem key={value} value={value}>{FORMAT_LABELS[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="rounded-lg border p-3 space-y-3">
+              <div className="flex flex-wrap gap-2">
+                {CRON_PRESETS.map(preset => (
+                  <Button
+                    key={preset.cron}
+                    type="button"
+                    size="sm"
+                    variant={form.cron === preset.cron ? 'default' : 'outline'}
+                    onClick={() => setForm({ ...form, cron: preset.cron })}
+                  >
+                    {preset.label}
+                  </Button>
+                ))}
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div>
+                  <Label>Cron schedule</Label>
+                  <Input
+                    value={form.cron}
+                    onChange={(e) => setForm({ ...form, cron: e.target.value })}
+                    placeholder="minute hour day month weekday"
+                    className="font-mono"
+                    required
+                  />
+                </div>
+                <div>
+                  <Label>Timezone</Label>
+                  <Input
+                    value={form.timezone}
+                    onChange={(e) => setForm({ ...form, timezone: e.target.value })}
+                    placeholder="e.g. America/New_York"
+                    required
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <FilterChecklist
+                label="Sites"
+                options={sites}
+                selected={form.filters.siteIds}
+                onChange={(siteIds) => updateFilters({ siteIds })}
+              />
+              <FilterChecklist
+                label="Areas"
+                options={areas}
+                selected={form.filters.areaIds}
+                onChange={(areaIds) => updateFilters({ areaIds })}
+              />
+              <FilterChecklist
+                label="Departments"
+                options={departments}
+                selected={form.filters.departmentIds}
+                onChange={(departmentIds) => updateFilters({ departmentIds })}
+              />
+              <FilterChecklist
+                label="Employees"
+                options={employees.map(employee => ({ id: employee.id, name: `${employee.firstName} ${employee.lastName}` }))}
+                selected={form.filters.employeeIds}
+                onChange={(employeeIds) => updateFilters({ employeeIds })}
+              />
+            </div>
+
+            <div className="flex items-center justify-between rounded-lg border p-3">
+              <div>
+                <Label className="text-base">Enabled</Label>
+                <div className="text-sm text-muted-foreground">Paused schedules keep their history but are not sent</div>
+              </div>
+              <Switch checked={form.isEnabled} onCheckedChange={(isEnabled) => setForm({ ...form, isEnabled })} />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setEditingId(null)}>Back</Button>
+              <Button type="submit" disabled={saveScheduleMutation.isPending}>
+                {saveScheduleMutation.isPending ? 'Saving...' : 'Save Schedule'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
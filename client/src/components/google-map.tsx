@@ -22,6 +22,11 @@ interface GoogleMapProps {
     radius: number;
     color?: string;
   }>;
+  polygons?: Array<{
+    id?: string;
+    paths: Array<{ lat: number; lng: number }>;
+    color?: string;
+  }>;
   className?: string;
   onMapClick?: (lat: number, lng: number) => void;
 }
@@ -32,6 +37,7 @@ export default function GoogleMap({
   mapType = 'roadmap',
   markers = [],
   geofences = [],
+  polygons = [],
   className = '',
   onMapClick,
 }: GoogleMapProps) {
@@ -40,6 +46,10 @@ export default function GoogleMap({
   const markersRef = useRef<google.maps.Marker[]>([]);
   const circlesRef = useRef<google.maps.Circle[]>([]);
   const accuracyCirclesRef = useRef<google.maps.Circle[]>([]);
+  const polygonsRef = useRef<google.maps.Polygon[]>([]);
+  // Keep the latest click handler so callers can change behaviour (e.g. drawing mode) after mount
+  const onMapClickRef = useRef(onMapClick);
+  onMapClickRef.current = onMapClick;
   const { theme } = useTheme();
 
   useEffect(() => {
@@ -176,7 +186,7 @@ export default function GoogleMap({
       if (onMapClick && mapInstanceRef.current) {
         mapInstanceRef.current.addListener('click', (event: google.maps.MapMouseEvent) => {
           if (event.latLng) {
-            onMapClick(event.latLng.lat(), event.latLng.lng());
+            onMapClickRef.current?.(event.latLng.lat(), event.latLng.lng());
           }
         });
       }
@@ -344,6 +354,39 @@ export default function GoogleMap({
     });
   }, [geofences]);
 
+  // Update polygon geofences
+  useEffect(() => {
+    if (!mapInstanceRef.current || !window.google?.maps) return;
+
+    // Clear existing polygons safely
+    polygonsRef.current.forEach(polygon => {
+      try {
+        polygon.setMap(null);
+      } catch (error) {
+        console.warn('Error clearing geofence polygon:', error);
+      }
+    });
+    polygonsRef.current = [];
+
+    // Add new polygons
+    polygons.forEach(polygonData => {
+      if (polygonData.paths.length < 2) return;
+
+      const polygon = new google.maps.Polygon({
+        paths: polygonData.paths,
+        map: mapInstanceRef.current,
+        fillColor: polygonData.color || '#1976D2',
+        fillOpacity: 0.1,
+        strokeColor: polygonData.color || '#1976D2',
+        strokeOpacity: 0.8,
+        strokeWeight: 2,
+        clickable: false, // Let clicks fall through to the map (used when drawing)
+      });
+
+      polygonsRef.current.push(polygon);
+    });
+  }, [polygons]);
+
   // Update zoom when prop changes
   useEffect(() => {
     if (mapInstanceRef.current && typeof zoom === 'number') {
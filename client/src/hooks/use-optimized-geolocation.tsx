@@ -1,9 +1,13 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
+import type { GpsFix } from '@shared/geofence';
 
 interface GeolocationState {
   latitude: number | null;
   longitude: number | null;
   accuracy: number | null;
+  altitude: number | null;
+  speed: number | null;
+  heading: number | null;
   error: string | null;
   loading: boolean;
   timestamp: number | null;
@@ -18,6 +22,17 @@ interface UseOptimizedGeolocationOptions {
   onLocationUpdate?: (position: GeolocationPosition) => void; // Callback for location updates
 }
 
+// The details of a reading the server uses to judge how far to trust it. Heading is NaN
+// while the device is standing still.
+export function toGpsFix(coords: GeolocationCoordinates): GpsFix {
+  return {
+    accuracy: coords.accuracy,
+    altitude: coords.altitude,
+    speed: coords.speed,
+    heading: coords.heading !== null && !isNaN(coords.heading) ? coords.heading : null,
+  };
+}
+
 /**
  * Optimized geolocation hook with:
  * - watchPosition() for continuous tracking
@@ -40,6 +55,9 @@ export function useOptimizedGeolocation(options: UseOptimizedGeolocationOptions
     latitude: null,
     longitude: null,
     accuracy: null,
+    altitude: null,
+    speed: null,
+    heading: null,
     error: null,
     loading: true,
     timestamp: null,
@@ -55,7 +73,7 @@ export function useOptimizedGeolocation(options: UseOptimizedGeolocationOptions
     onLocationUpdateRef.current = onLocationUpdate;
   }, [onLocationUpdate]);
 
-  const sendLocationToBackend = useCallback(async (latitude: number, longitude: number, accuracy: number, timestamp: number) => {
+  const sendLocationToBackend = useCallback(async (latitude: number, longitude: number, fix: GpsFix, timestamp: number) => {
     const now = Date.now();
     
     // Throttle: only send if enough time has passed
@@ -81,7 +99,7 @@ export function useOptimizedGeolocation(options: UseOptimizedGeolocationOptions
         body: JSON.stringify({
           latitude,
           longitude,
-          accuracy,
+          ...fix,
           timestamp,
         }),
       });
@@ -91,7 +109,7 @@ export function useOptimizedGeolocation(options: UseOptimizedGeolocationOptions
       }
 
       const data = await response.json();
-      console.log('✅ Location saved to server:', { latitude, longitude, accuracy });
+      console.log('✅ Location saved to server:', { latitude, longitude, accuracy: fix.accuracy });
       
       return data;
     } catch (error) {
@@ -105,6 +123,9 @@ export function useOptimizedGeolocation(options: UseOptimizedGeolocationOptions
         latitude: null,
         longitude: null,
         accuracy: null,
+        altitude: null,
+        speed: null,
+        heading: null,
         error: 'Geolocation is not supported by this browser.',
         loading: false,
         timestamp: null,
@@ -113,7 +134,9 @@ export function useOptimizedGeolocation(options: UseOptimizedGeolocationOptions
     }
 
     const handleSuccess = (position: GeolocationPosition) => {
-      const { latitude, longitude, accuracy, timestamp } = position.coords;
+      const { latitude, longitude, accuracy } = position.coords;
+      const { timestamp } = position;
+      const fix = toGpsFix(position.coords);
       const accuracyValue = accuracy || 100; // Default to 100m if accuracy is not provided
 
       console.log(`📍 GPS Update: Lat: ${latitude.toFixed(6)}, Lng: ${longitude.toFixed(6)}, Accuracy: ${accuracyValue.toFixed(0)}m`);
@@ -132,6 +155,9 @@ export function useOptimizedGeolocation(options: UseOptimizedGeolocationOptions
         latitude,
         longitude,
         accuracy: accuracyValue,
+        altitude: fix.altitude ?? null,
+        speed: fix.speed ?? null,
+        heading: fix.heading ?? null,
         error: null,
         loading: false,
         timestamp,
@@ -143,7 +169,7 @@ export function useOptimizedGeolocation(options: UseOptimizedGeolocationOptions
       }
 
       // Send to backend (throttled)
-      sendLocationToBackend(latitude, longitude, accuracyValue, timestamp);
+      sendLocationToBackend(latitude, longitude, fix, timestamp);
     };
 
     const handleError = (error: GeolocationPositionError) => {
@@ -208,8 +234,17 @@ export function useOptimizedGeolocation(options: UseOptimizedGeolocationOptions
     }
   }, []);
 
+  // Sent along with check-in and checkout so the server can judge the reading
+  const fix: GpsFix = {
+    accuracy: state.accuracy,
+    altitude: state.altitude,
+    speed: state.speed,
+    heading: state.heading,
+  };
+
   return {
     ...state,
+    fix,
     requestPermission,
   };
 }
@@ -1,131 +1,153 @@
-import { useEffect, useState, useRef } from 'react';
+import { useEffect, useState, useRef, useCallback } from 'react';
 import { getAuthToken } from '@/lib/auth';
+import {
+  PROTOCOL_VERSION,
+  UNSUPPORTED_PROTOCOL_CLOSE_CODE,
+  serverMessageSchema,
+  type ClientMessage,
+  type ServerMessage,
+} from '@shared/realtime';
+
+export type ConnectionStatus = 'idle' | 'connecting' | 'connected' | 'disconnected';
 
 interface UseWebSocketProps {
-  onMessage?: (data: any) => void;
+  onMessage?: (message: ServerMessage) => void;
   onConnect?: () => void;
   onDisconnect?: () => void;
 }
 
+const RECONNECT_DELAY_MS = 3000;
+const TOKEN_CHECK_INTERVAL_MS = 1000;
+// Clean close, authentication failure and protocol mismatch: reconnecting would not help
+const FINAL_CLOSE_CODES = [1000, 1008, UNSUPPORTED_PROTOCOL_CLOSE_CODE];
+
+const CLIENT_ID_KEY = 'notification_client_id';
+
+// Stable id of this browser, so the server can replay notifications it missed while disconnected
+function getClientId(): string {
+  let clientId = localStorage.getItem(CLIENT_ID_KEY);
+  if (!clientId) {
+    clientId = crypto.randomUUID();
+    localStorage.setItem(CLIENT_ID_KEY, clientId);
+  }
+  return clientId;
+}
+
+function getWebSocketUrl(token: string): string {
+  const backendUrl = import.meta.env.VITE_BACKEND_URL || window.location.origin;
+  const protocol = backendUrl.startsWith('https') ? 'wss:' : 'ws:';
+  const host = backendUrl.replace(/^https?:\/\//, '');
+  const params = new URLSearchParams({
+    token,
+    v: String(PROTOCOL_VERSION),
+    clientId: getClientId(),
+  });
+  return `${protocol}//${host}/ws?${params}`;
+}
+
+// The single connection to /ws for admins and employees. Incoming messages are validated
+// against the shared protocol; anything else is logged and dropped.
 export function useWebSocket({ onMessage, onConnect, onDisconnect }: UseWebSocketProps = {}) {
-  const [isConnected, setIsConnected] = useState(false);
-  const wsRef = useRef<WebSocket | null>(null);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const isUnmountedRef = useRef(false);
+  const [status, setStatus] = useState<ConnectionStatus>('idle');
   const [token, setToken] = useState<string | null>(getAuthToken());
+  const wsRef = useRef<WebSocket | null>(null);
+  // Latest callbacks, so passing inline functions does not reconnect on every render
+  const handlersRef = useRef({ onMessage, onConnect, onDisconnect });
+  handlersRef.current = { onMessage, onConnect, onDisconnect };
 
-  const connect = () => {
-    if (isUnmountedRef.current) return;
-
-    try {
-      const token = getAuthToken();
-      if (!token) {
-        console.error('❌ No auth token for WebSocket');
-        setTimeout(() => {
-          if (!isUnmountedRef.current) connect();
-        }, 5000);
-        return;
-      }
+  // Follow login and logout in this tab and others
+  useEffect(() => {
+    const checkTokenInterval = setInterval(() => {
+      setToken(getAuthToken());
+    }, TOKEN_CHECK_INTERVAL_MS);
+    return () => clearInterval(checkTokenInterval);
+  }, []);
 
-      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-      const wsUrl = `${protocol}//${window.location.host}/ws?token=${encodeURIComponent(token)}`;
+  useEffect(() => {
+    if (!token) {
+      setStatus('idle');
+      return;
+    }
 
-      if (wsRef.current) {
-        wsRef.current.close();
-        wsRef.current = null;
-      }
+    let ws: WebSocket;
+    let reconnectTimer: NodeJS.Timeout | null = null;
+    let stopped = false;
 
+    const connect = () => {
+      setStatus('connecting');
       console.log('🔌 Connecting to WebSocket...');
-      wsRef.current = new WebSocket(wsUrl);
+      ws = new WebSocket(getWebSocketUrl(token));
+      wsRef.current = ws;
 
-      wsRef.current.onopen = () => {
-        if (isUnmountedRef.current) return;
-        setIsConnected(true);
-        onConnect?.();
-        console.log('✅ WebSocket connected successfully');
+      ws.onopen = () => {
+        setStatus('connected');
+        handlersRef.current.onConnect?.();
       };
 
-      wsRef.current.onmessage = (event) => {
-        if (isUnmountedRef.current) return;
+      ws.onmessage = (event) => {
+        let data: unknown;
         try {
-          const data = JSON.parse(event.data);
-          console.log('📨 WebSocket message:', data.type);
-          onMessage?.(data);
+          data = JSON.parse(event.data);
         } catch (error) {
           console.error('❌ Failed to parse WebSocket message:', error);
+          return;
+        }
+
+        const result = serverMessageSchema.safeParse(data);
+        if (!result.success) {
+          console.error('❌ Ignoring unrecognised WebSocket message:', result.error.errors);
+          return;
+        }
+        const message = result.data;
+
+        if (message.type === 'connection_established' && message.protocolVersion !== PROTOCOL_VERSION) {
+          console.warn(`⚠️ Server speaks protocol v${message.protocolVersion}, this client v${PROTOCOL_VERSION}`);
+        } else if (message.type === 'error') {
+          console.error('❌ WebSocket message rejected:', message.message);
         }
+        handlersRef.current.onMessage?.(message);
       };
 
-      wsRef.current.onclose = (event) => {
-        if (isUnmountedRef.current) return;
-        setIsConnected(false);
-        onDisconnect?.();
+      ws.onclose = (event) => {
+        if (wsRef.current === ws) wsRef.current = null;
+        setStatus('disconnected');
+        handlersRef.current.onDisconnect?.();
         console.log(`❌ WebSocket disconnected: Code=${event.code}, Reason=${event.reason || 'none'}`);
 
-        reconnectTimeoutRef.current = setTimeout(() => {
-          if (!isUnmountedRef.current) {
-            console.log('🔄 Attempting to reconnect...');
-            connect();
-          }
-        }, 3000);
+        if (stopped) return;
+        if (FINAL_CLOSE_CODES.includes(event.code)) {
+          console.log('⛔ Not reconnecting due to close code:', event.code);
+          return;
+        }
+        reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
       };
 
-      wsRef.current.onerror = (error) => {
+      ws.onerror = (error) => {
         console.error('❌ WebSocket error:', error);
       };
-    } catch (error) {
-      console.error('❌ Failed to create WebSocket connection:', error);
-    }
-  };
-
-  useEffect(() => {
-    // Check for token and connect
-    const currentToken = getAuthToken();
-    if (currentToken) {
-      connect();
-    }
-
-    // Monitor for token changes (for login detection)
-    const checkTokenInterval = setInterval(() => {
-      const newToken = getAuthToken();
-      if (newToken && newToken !== token) {
-        console.log('🔑 Token detected, establishing WebSocket connection...');
-        setToken(newToken);
-        connect();
-      } else if (!newToken && token) {
-        console.log('🔓 Token removed, disconnecting WebSocket...');
-        setToken(null);
-        if (wsRef.current) {
-          wsRef.current.close();
-        }
-      }
-    }, 500);
+    };
 
-    const timeoutId = setTimeout(() => clearInterval(checkTokenInterval), 5000);
+    connect();
 
     return () => {
-      isUnmountedRef.current = true;
-      clearInterval(checkTokenInterval);
-      clearTimeout(timeoutId);
-      
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
-      }
-
-      if (wsRef.current) {
-        wsRef.current.close();
+      stopped = true;
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
       }
+      ws.close(1000);
     };
   }, [token]);
 
-  const sendMessage = (data: any) => {
-    if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify(data));
+  const sendMessage = useCallback((message: ClientMessage) => {
+    const ws = wsRef.current;
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
     }
-  };
+  }, []);
 
   return {
-    isConnected,
+    status,
+    isConnected: status === 'connected',
     sendMessage,
   };
-}
\ No newline at end of file
+}
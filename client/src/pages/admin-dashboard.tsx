@@ -8,7 +8,6 @@ import { useToast } from '@/hooks/use-toast';
 import { getAuthToken, getUser, logout, getUserType } from '@/lib/auth';
 import { loadGoogleMapsAPI } from '@/lib/google-maps';
 import GoogleMap from '@/components/google-map';
-import { useWebSocket } from '@/hooks/useWebSocket';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -31,7 +30,10 @@ import {
   Download,
   LogOut,
   RefreshCw,
-  Trash2
+  Trash2,
+  CalendarDays,
+  ClipboardCheck,
+  CalendarOff
 } from 'lucide-react';
 import ExportReportDialog from '@/components/ExportReportDialog';
 import NotificationDropdown from '@/components/NotificationDropdown';
@@ -129,12 +131,14 @@ export default function AdminDashboard() {
     activeEmployees: 0,
     workSites: 0,
     onSiteNow: 0,
-    alerts: 0
+    alerts: 0,
+    onLeaveToday: 0
   }, isLoading } = useQuery<{
     activeEmployees: number;
     workSites: number;
     onSiteNow: number;
     alerts: number;
+    onLeaveToday: number;
   }>({
     queryKey: ['/api/admin/dashboard'],
     enabled: !!getAuthToken() && userType === 'admin',
@@ -151,8 +155,6 @@ export default function AdminDashboard() {
     enabled: !!getAuthToken() && userType === 'admin',
   });
 
-  useWebSocket({});
-
   const { data: adminProfile } = useQuery({
     queryKey: ['/api/admin/profile'],
     queryFn: async () => {
@@ -363,7 +365,7 @@ export default function AdminDashboard() {
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <StatCard href="/admin/work-sites" title="Work Sites" value={isLoading ? '...' : (stats?.workSites || 0)} subtitle="Active locations" icon={MapPin} iconBgColor="bg-gradient-to-br from-blue-500 to-blue-600" iconColor="text-white" cardBg="bg-blue-100" />
           <StatCard href="/admin/on-site-now" title="On Site Now" value={isLoading ? '...' : (stats?.onSiteNow || 0)} subtitle="Currently active" icon={Clock} iconBgColor="bg-gradient-to-br from-orange-500 to-orange-600" iconColor="text-white" cardBg="bg-orange-100" />
-          <StatCard href="/admin/employee-management" title="Active Employees" value={isLoading ? '...' : (stats?.activeEmployees || 0)} subtitle="Total workforce" icon={UserCheck} iconBgColor="bg-gradient-to-br from-green-500 to-green-600" iconColor="text-white" cardBg="bg-green-100" />
+          <StatCard href="/admin/employee-management" title="Active Employees" value={isLoading ? '...' : (stats?.activeEmployees || 0)} subtitle={stats?.onLeaveToday ? `${stats.onLeaveToday} on leave today` : 'Total workforce'} icon={UserCheck} iconBgColor="bg-gradient-to-br from-green-500 to-green-600" iconColor="text-white" cardBg="bg-green-100" />
           <StatCard 
             title="Alerts" 
             value={isLoading ? '...' : (stats?.alerts || 0)} 
@@ -383,7 +385,7 @@ export default function AdminDashboard() {
               <h3 className="text-xl font-bold text-slate-900 dark:text-slate-100">Quick Actions</h3>
               <div className="w-12 h-1 bg-blue-600 rounded-full"></div>
             </div>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
               <button onClick={() => (window.location.href = '/admin/employee-management')} className="bg-gradient-to-br from-blue-50 to-blue-100 dark:from-blue-900/30 dark:to-blue-800/30 border-2 border-blue-200 dark:border-blue-700 rounded-xl p-6 text-left hover:shadow-md transition-all group">
                 <div className="flex items-start gap-4">
                   <div className="bg-blue-500 dark:bg-blue-600 rounded-2xl p-3 group-hover:scale-110 transition-transform">
@@ -406,6 +408,39 @@ export default function AdminDashboard() {
                   </div>
                 </div>
               </button>
+              <button onClick={() => (window.location.href = '/admin/shifts')} className="bg-gradient-to-br from-sky-50 to-sky-100 dark:from-sky-900/30 dark:to-sky-800/30 border-2 border-sky-200 dark:border-sky-700 rounded-xl p-6 text-left hover:shadow-md transition-all group">
+                <div className="flex items-start gap-4">
+                  <div className="bg-sky-500 dark:bg-sky-600 rounded-2xl p-3 group-hover:scale-110 transition-transform">
+                    <CalendarDays className="h-5 w-5 text-white" />
+                  </div>
+                  <div>
+                    <h3 className="font-semibold text-slate-900 dark:text-slate-100 mb-1">Shift Schedule</h3>
+                    <p className="text-sm text-slate-600 dark:text-slate-400">Plan shifts</p>
+                  </div>
+                </div>
+              </button>
+              <button onClick={() => (window.location.href = '/admin/timesheets')} className="bg-gradient-to-br from-teal-50 to-teal-100 dark:from-teal-900/30 dark:to-teal-800/30 border-2 border-teal-200 dark:border-teal-700 rounded-xl p-6 text-left hover:shadow-md transition-all group">
+                <div className="flex items-start gap-4">
+                  <div className="bg-teal-500 dark:bg-teal-600 rounded-2xl p-3 group-hover:scale-110 transition-transform">
+                    <ClipboardCheck className="h-5 w-5 text-white" />
+                  </div>
+                  <div>
+                    <h3 className="font-semibold text-slate-900 dark:text-slate-100 mb-1">Timesheets</h3>
+                    <p className="text-sm text-slate-600 dark:text-slate-400">Review and approve</p>
+                  </div>
+                </div>
+              </button>
+              <button onClick={() => (window.location.href = '/admin/leave')} className="bg-gradient-to-br from-rose-50 to-rose-100 dark:from-rose-900/30 dark:to-rose-800/30 border-2 border-rose-200 dark:border-rose-700 rounded-xl p-6 text-left hover:shadow-md transition-all group">
+                <div className="flex items-start gap-4">
+                  <div className="bg-rose-500 dark:bg-rose-600 rounded-2xl p-3 group-hover:scale-110 transition-transform">
+                    <CalendarOff className="h-5 w-5 text-white" />
+                  </div>
+                  <div>
+                    <h3 className="font-semibold text-slate-900 dark:text-slate-100 mb-1">Leave</h3>
+                    <p className="text-sm text-slate-600 dark:text-slate-400">Absence requests</p>
+                  </div>
+                </div>
+              </button>
               <ExportReportDialog>
                 <button className="w-full bg-gradient-to-br from-orange-50 to-orange-100 dark:from-orange-900/30 dark:to-orange-800/30 border-2 border-orange-200 dark:border-orange-700 rounded-xl p-6 text-left hover:shadow-md transition-all group">
                   <div className="flex items-start gap-4">
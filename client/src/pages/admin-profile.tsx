@@ -7,11 +7,14 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
-import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
 import { ArrowLeft, User, Mail, Calendar, Settings, Shield, Eye, EyeOff, Camera, Upload, X, LogOut } from 'lucide-react';
 import { AuthenticatedImage } from '@/components/AuthenticatedImage';
 import NotificationDropdown from '@/components/NotificationDropdown';
+import AutoCheckoutPolicyDialog from '@/components/AutoCheckoutPolicyDialog';
+import OvertimePolicyDialog from '@/components/OvertimePolicyDialog';
+import ReportSchedulesDialog from '@/components/ReportSchedulesDialog';
+import NotificationPreferencesDialog from '@/components/NotificationPreferencesDialog';
 import { useRef } from 'react';
 import { getAuthToken, getUser, logout } from '@/lib/auth';
 import { useLocation } from 'wouter';
@@ -49,15 +52,6 @@ const securitySchema = z.object({
   path: ["confirmPassword"],
 });
 
-const notificationSchema = z.object({
-  emailNotifications: z.boolean(),
-  smsNotifications: z.boolean(),
-  pushNotifications: z.boolean(),
-  attendanceAlerts: z.boolean(),
-  securityAlerts: z.boolean(),
-  systemUpdates: z.boolean(),
-});
-
 export default function AdminProfile() {
   const currentUser = getUser();
   const { toast } = useToast();
@@ -114,18 +108,6 @@ export default function AdminProfile() {
     },
   });
 
-  const notificationForm = useForm({
-    resolver: zodResolver(notificationSchema),
-    defaultValues: {
-      emailNotifications: true,
-      smsNotifications: false,
-      pushNotifications: true,
-      attendanceAlerts: true,
-      securityAlerts: true,
-      systemUpdates: false,
-    },
-  });
-
   // Mutations
   const updateProfileMutation = useMutation({
     mutationFn: async (data: z.infer<typeof editProfileSchema>) => {
@@ -188,34 +170,6 @@ export default function AdminProfile() {
     },
   });
 
-  const updateNotificationsMutation = useMutation({
-    mutationFn: async (data: z.infer<typeof notificationSchema>) => {
-      const response = await fetch('/api/admin/notification-preferences', {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${getAuthToken()}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(data),
-      });
-      if (!response.ok) throw new Error('Failed to update notification preferences');
-      return response.json();
-    },
-    onSuccess: () => {
-      toast({
-        title: "Preferences Updated",
-        description: "Your notification preferences have been saved.",
-      });
-    },
-    onError: (error: any) => {
-      toast({
-        title: "Update Failed",
-        description: error.message || "Failed to update notification preferences.",
-        variant: "destructive",
-      });
-    },
-  });
-
   // Profile image upload to Supabase
   const uploadImageMutation = useMutation({
     mutationFn: async (file: File) => {
@@ -821,131 +775,53 @@ export default function AdminProfile() {
                           <h4 className="font-medium text-slate-900 dark:text-slate-100">Notification Preferences</h4>
                           <p className="text-sm text-gray-600 dark:text-slate-400">Manage alerts and notifications</p>
                         </div>
-                        <Dialog>
-                          <DialogTrigger asChild>
-                            <Button variant="outline" size="sm">
-                              Configure
-                            </Button>
-                          </DialogTrigger>
-                          <DialogContent className="sm:max-w-[425px]">
-                            <DialogHeader>
-                              <DialogTitle>Notification Preferences</DialogTitle>
-                              <DialogDescription>
-                                Configure your notification settings and alert preferences.
-                              </DialogDescription>
-                            </DialogHeader>
-                            <Form {...notificationForm}>
-                              <form onSubmit={notificationForm.handleSubmit((data) => updateNotificationsMutation.mutate(data))} className="space-y-4">
-                                <div className="space-y-4">
-                                  <div>
-                                    <h4 className="text-sm font-medium mb-3">Communication Channels</h4>
-                                    <div className="space-y-3">
-                                      <FormField
-                                        control={notificationForm.control}
-                                        name="emailNotifications"
-                                        render={({ field }) => (
-                                          <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
-                                            <div className="space-y-0.5">
-                                              <FormLabel className="text-base">Email Notifications</FormLabel>
-                                              <div className="text-sm text-muted-foreground">
-                                                Receive notifications via email
-                                              </div>
-                                            </div>
-                                            <FormControl>
-                                              <Switch checked={field.value} onCheckedChange={field.onChange} />
-                                            </FormControl>
-                                          </FormItem>
-                                        )}
-                                      />
-                                      <FormField
-                                        control={notificationForm.control}
-                                        name="pushNotifications"
-                                        render={({ field }) => (
-                                          <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
-                                            <div className="space-y-0.5">
-                                              <FormLabel className="text-base">Push Notifications</FormLabel>
-                                              <div className="text-sm text-muted-foreground">
-                                                Receive browser push notifications
-                                              </div>
-                                            </div>
-                                            <FormControl>
-                                              <Switch checked={field.value} onCheckedChange={field.onChange} />
-                                            </FormControl>
-                                          </FormItem>
-                                        )}
-                                      />
-                                    </div>
-                                  </div>
-                                  
-                                  <div>
-                                    <h4 className="text-sm font-medium mb-3">Alert Types</h4>
-                                    <div className="space-y-3">
-                                      <FormField
-                                        control={notificationForm.control}
-                                        name="attendanceAlerts"
-                                        render={({ field }) => (
-                                          <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
-                                            <div className="space-y-0.5">
-                                              <FormLabel className="text-base">Attendance Alerts</FormLabel>
-                                              <div className="text-sm text-muted-foreground">
-                                                Employee check-in/out notifications
-                                              </div>
-                                            </div>
-                                            <FormControl>
-                                              <Switch checked={field.value} onCheckedChange={field.onChange} />
-                                            </FormControl>
-                                          </FormItem>
-                                        )}
-                                      />
-                                      <FormField
-                                        control={notificationForm.control}
-                                        name="securityAlerts"
-                                        render={({ field }) => (
-                                          <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
-                                            <div className="space-y-0.5">
-                                              <FormLabel className="text-base">Security Alerts</FormLabel>
-                                              <div className="text-sm text-muted-foreground">
-                                                Important security notifications
-                                              </div>
-                                            </div>
-                                            <FormControl>
-                                              <Switch checked={field.value} onCheckedChange={field.onChange} />
-                                            </FormControl>
-                                          </FormItem>
-                                        )}
-                                      />
-                                      <FormField
-                                        control={notificationForm.control}
-                                        name="systemUpdates"
-                                        render={({ field }) => (
-                                          <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
-                                            <div className="space-y-0.5">
-                                              <FormLabel className="text-base">System Updates</FormLabel>
-                                              <div className="text-sm text-muted-foreground">
-                                                Platform updates and maintenance
-                                              </div>
-                                            </div>
-                                            <FormControl>
-                                              <Switch checked={field.value} onCheckedChange={field.onChange} />
-                                            </FormControl>
-                                          </FormItem>
-                                        )}
-                                      />
-                                    </div>
-                                  </div>
-                                </div>
-                                <DialogFooter>
-                                  <Button 
-                                    type="submit" 
-                                    disabled={updateNotificationsMutation.isPending}
-                                  >
-                                    {updateNotificationsMutation.isPending ? "Saving..." : "Save Preferences"}
-                                  </Button>
-                                </DialogFooter>
-                              </form>
-                            </Form>
-                          </DialogContent>
-                        </Dialog>
+                        <NotificationPreferencesDialog>
+                          <Button variant="outline" size="sm">
+                            Configure
+                          </Button>
+                        </NotificationPreferencesDialog>
+                      </div>
+                    </Card>
+
+                    <Card className="p-4 border-2 border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800">
+                      <div className="flex justify-between items-center">
+                        <div>
+                          <h4 className="font-medium text-slate-900 dark:text-slate-100">Automatic Checkout</h4>
+                          <p className="text-sm text-gray-600 dark:text-slate-400">Close sessions employees forget to check out of</p>
+                        </div>
+                        <AutoCheckoutPolicyDialog>
+                          <Button variant="outline" size="sm">
+                            Configure
+                          </Button>
+                        </AutoCheckoutPolicyDialog>
+                      </div>
+                    </Card>
+
+                    <Card className="p-4 border-2 border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800">
+                      <div className="flex justify-between items-center">
+                        <div>
+                          <h4 className="font-medium text-slate-900 dark:text-slate-100">Overtime &amp; Pay Rules</h4>
+                          <p className="text-sm text-gray-600 dark:text-slate-400">Overtime thresholds, weekend, holiday and night rates used in reports</p>
+                        </div>
+                        <OvertimePolicyDialog>
+                          <Button variant="outline" size="sm">
+                            Configure
+                          </Button>
+                        </OvertimePolicyDialog>
+                      </div>
+                    </Card>
+
+                    <Card className="p-4 border-2 border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800">
+                      <div className="flex justify-between items-center">
+                        <div>
+                          <h4 className="font-medium text-slate-900 dark:text-slate-100">Scheduled Reports</h4>
+                          <p className="text-sm text-gray-600 dark:text-slate-400">Email attendance reports automatically on a daily or weekly schedule</p>
+                        </div>
+                        <ReportSchedulesDialog>
+                          <Button variant="outline" size="sm">
+                            Manage
+                          </Button>
+                        </ReportSchedulesDialog>
                       </div>
                     </Card>
                   </div>
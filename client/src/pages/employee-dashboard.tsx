@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef } from 'react';
 import { useLocation } from 'wouter';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { addDays, format, startOfWeek } from 'date-fns';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -9,7 +10,8 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { useToast } from '@/hooks/use-toast';
 import { getAuthToken, getUserType } from '@/lib/auth';
 import { apiRequest } from '@/lib/queryClient';
-import { useOptimizedGeolocation } from '@/hooks/use-optimized-geolocation';
+import { toGpsFix, useOptimizedGeolocation } from '@/hooks/use-optimized-geolocation';
+import { AttendancePhotoCapture } from '@/components/AttendancePhoto';
 import { loadGoogleMapsAPI } from '@/lib/google-maps';
 import GoogleMap from '@/components/google-map';
 import { 
@@ -25,10 +27,16 @@ import {
   RefreshCw,
   Calendar,
   History,
-  Edit
+  Edit,
+  Coffee,
+  ClipboardCheck
 } from 'lucide-react';
 import { EmployeeProfileDialog } from '@/components/EmployeeProfileDialog';
+import { EmployeeLeaveCard } from '@/components/EmployeeLeaveCard';
 import { ThemeToggle } from '@/components/ThemeToggle';
+import { hasGeofencePolygon, distanceToPolygon, gpsAccuracyBuffer } from '@shared/geofence';
+import type { GeofencePolygon, TimesheetStatus } from '@shared/schema';
+import { calculateWorkedHours, type BreakPeriod } from '@shared/worktime';
 
 interface EmployeeData {
   id: number;
@@ -48,7 +56,16 @@ interface WorkSite {
   latitude: number;
   longitude: number;
   geofenceRadius: number;
+  geofencePolygon?: GeofencePolygon | null;
+  maxGpsAccuracy: number;
   isRemote?: boolean;
+  requirePhoto?: boolean;
+}
+
+interface AttendanceBreakRecord extends BreakPeriod {
+  id: number;
+  startTime: string;
+  endTime: string | null;
 }
 
 interface AttendanceRecord {
@@ -56,8 +73,29 @@ interface AttendanceRecord {
   checkInTime: string;
   checkOutTime: string | null;
   isOnSite: boolean;
+  breaks?: AttendanceBreakRecord[];
 }
 
+// Shape returned by GET /api/employee/timesheets
+interface TimesheetData {
+  current: {
+    weekStart: string;
+    status: TimesheetStatus;
+    workedMinutes: number;
+    breakMinutes: number;
+    sessions: number;
+    openSessions: number;
+    timesheet: { comment: string | null; submittedAt: string | null } | null;
+  };
+}
+
+const TIMESHEET_STATUS_STYLES: Record<TimesheetStatus, { label: string; className: string }> = {
+  draft: { label: 'Not Submitted', className: 'bg-slate-100 text-slate-700 dark:bg-slate-700 dark:text-slate-300' },
+  submitted: { label: 'Submitted', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300' },
+  approved: { label: 'Approved', className: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300' },
+  rejected: { label: 'Rejected', className: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300' },
+};
+
 export default function EmployeeDashboard() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
@@ -65,13 +103,11 @@ export default function EmployeeDashboard() {
   const [isProfileDialogOpen, setIsProfileDialogOpen] = useState(false);
   const [serverLocationStatus, setServerLocationStatus] = useState<{ distanceFromSite: number | null; isOnSite: boolean | null } | null>(null);
   const [mapLoaded, setMapLoaded] = useState(false);
+  // Selfie for the next check-in or checkout, on sites that require one
+  const [photo, setPhoto] = useState<string | null>(null);
   const offsiteCounterRef = useRef(0);
   const OFFSITE_THRESHOLD = 3;
 
-  // GPS accuracy buffer to account for mobile GPS inaccuracies (typically 3-10m)
-  // Using a 50m buffer to reduce false negatives when employees are on site
-  const GPS_ACCURACY_BUFFER = 50; // meters - increased from 15m for better reliability
-
   // Use optimized geolocation hook with high accuracy and throttling
   const {
     latitude,
@@ -80,6 +116,7 @@ export default function EmployeeDashboard() {
     error: locationError,
     loading: isGettingLocation,
     timestamp,
+    fix,
   } = useOptimizedGeolocation({
     enableHighAccuracy: true,
     timeout: 10000,
@@ -93,6 +130,7 @@ export default function EmployeeDashboard() {
           const response = await apiRequest('POST', '/api/employee/location', {
             latitude: position.coords.latitude,
             longitude: position.coords.longitude,
+            ...toGpsFix(position.coords),
           });
           const data = await response.json();
           setServerLocationStatus({
@@ -172,6 +210,25 @@ export default function EmployeeDashboard() {
     gcTime: 0,
   });
 
+  // Weekly timesheet - employees usually submit the week that just ended
+  const [timesheetWeek, setTimesheetWeek] = useState<'current' | 'previous'>('current');
+  const timesheetWeekStart = startOfWeek(timesheetWeek === 'current' ? new Date() : addDays(new Date(), -7));
+  const timesheetWeekKey = format(timesheetWeekStart, 'yyyy-MM-dd');
+
+  const { data: timesheetData } = useQuery<TimesheetData>({
+    queryKey: ['/api/employee/timesheets', timesheetWeekKey],
+    queryFn: async () => {
+      const response = await fetch(`/api/employee/timesheets?weekStart=${timesheetWeekKey}`, {
+        headers: {
+          'Authorization': `Bearer ${getAuthToken()}`,
+        },
+      });
+      if (!response.ok) throw new Error('Failed to fetch timesheet');
+      return response.json();
+    },
+    staleTime: 0,
+  });
+
   // Location tracking is now handled by useOptimizedGeolocation hook
   // No need for manual location fetching code
 
@@ -194,22 +251,24 @@ export default function EmployeeDashboard() {
       return { isWithin: false, distance: Infinity };
     }
     
-    const distance = calculateDistance(empLat, empLng, siteLat, siteLng);
+    // Polygon sites: distance is measured to the boundary edge (0 when inside)
+    const polygon = hasGeofencePolygon(site.geofencePolygon) ? site.geofencePolygon : null;
+    const distance = polygon
+      ? distanceToPolygon(empLat, empLng, polygon)
+      : calculateDistance(empLat, empLng, siteLat, siteLng);
     
-    // FIX: Use dynamic buffer based on GPS accuracy, but cap at 50m for consistency
-    // GPS accuracy is typically in meters, so we use it directly but limit to buffer max
-    const dynamicBuffer = locationAccuracy && !isNaN(locationAccuracy) 
-      ? Math.min(Math.max(locationAccuracy, GPS_ACCURACY_BUFFER), GPS_ACCURACY_BUFFER) // Use buffer, not accuracy directly
-      : GPS_ACCURACY_BUFFER;
+    // Same allowance the server makes: the reported accuracy, capped by the site's limit
+    const dynamicBuffer = gpsAccuracyBuffer(locationAccuracy ?? null, site);
     
     // Use effective radius with GPS accuracy buffer to account for GPS inaccuracies
-    const effectiveRadius = site.geofenceRadius + dynamicBuffer;
+    const boundaryRadius = polygon ? 0 : site.geofenceRadius;
+    const effectiveRadius = boundaryRadius + dynamicBuffer;
     const isWithin = distance <= effectiveRadius;
     
     return {
       isWithin: isWithin,
       distance: Math.round(distance),
-      isWithinActualRadius: distance <= site.geofenceRadius, // For display purposes, use actual radius
+      isWithinActualRadius: distance <= boundaryRadius, // For display purposes, use actual radius
       effectiveRadius: Math.round(effectiveRadius)
     };
   };
@@ -262,10 +321,13 @@ export default function EmployeeDashboard() {
       const response = await apiRequest('POST', '/api/employee/attendance/checkin', {
         latitude: currentLocation.lat,
         longitude: currentLocation.lng,
+        ...fix,
+        photo,
       });
       return response;
     },
     onSuccess: async () => {
+      setPhoto(null);
       toast({
         title: 'Checked In',
         description: 'Successfully marked attendance.',
@@ -279,6 +341,7 @@ export default function EmployeeDashboard() {
           const locationResponse = await apiRequest('POST', '/api/employee/location', {
             latitude: currentLocation.lat,
             longitude: currentLocation.lng,
+            ...fix,
           });
           const locationData = await locationResponse.json();
           setServerLocationStatus({
@@ -322,10 +385,13 @@ export default function EmployeeDashboard() {
       const response = await apiRequest('POST', '/api/employee/attendance/checkout', {
         latitude: currentLocation.lat,
         longitude: currentLocation.lng,
+        ...fix,
+        photo,
       });
       return response;
     },
     onSuccess: () => {
+      setPhoto(null);
       toast({
         title: 'Checked Out',
         description: 'Successfully marked departure.',
@@ -343,6 +409,51 @@ export default function EmployeeDashboard() {
     },
   });
 
+  // Break mutations - breaks are unpaid and subtracted from worked hours
+  const breakMutation = useMutation({
+    mutationFn: async (action: 'start' | 'end') => {
+      return apiRequest('POST', `/api/employee/attendance/break/${action}`);
+    },
+    onSuccess: (_, action) => {
+      toast({
+        title: action === 'start' ? 'Break Started' : 'Break Ended',
+        description: action === 'start' ? 'Enjoy your break.' : 'Welcome back.',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/employee/attendance/current'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/employee/attendance/history'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Break Update Failed',
+        description: error.message || 'Unable to update break. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const submitTimesheetMutation = useMutation({
+    mutationFn: async (weekStart: string) => {
+      return apiRequest('POST', '/api/employee/timesheets/submit', { weekStart });
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Timesheet Submitted',
+        description: 'Your timesheet has been sent for approval.',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/employee/timesheets'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Submission Failed',
+        description: error.message || 'Unable to submit timesheet. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const activeBreak = (currentAttendance as AttendanceRecord | null)?.breaks?.find(b => !b.endTime);
+  const photoRequired = !!(workSite as WorkSite | undefined)?.requirePhoto;
+
   const handleLogout = () => {
     localStorage.removeItem('token');
     localStorage.removeItem('userType');
@@ -384,13 +495,10 @@ export default function EmployeeDashboard() {
     });
   };
 
-  // Calculate working hours for a record
-  const calculateWorkingHours = (checkInTime: string, checkOutTime?: string) => {
+  // Calculate working hours for a record (unpaid breaks excluded)
+  const calculateWorkingHours = (checkInTime: string, checkOutTime?: string, breaks?: AttendanceBreakRecord[]) => {
     if (!checkOutTime) return 0;
-    const start = new Date(checkInTime);
-    const end = new Date(checkOutTime);
-    const diffMs = end.getTime() - start.getTime();
-    return diffMs / (1000 * 60 * 60); // Convert to hours
+    return calculateWorkedHours(checkInTime, checkOutTime, breaks);
   };
 
   // Calculate today's total hours
@@ -403,7 +511,7 @@ export default function EmployeeDashboard() {
     (attendanceHistory as any[]).forEach((record: any) => {
       const recordDate = new Date(record.checkInTime).toDateString();
       if (recordDate === today) {
-        const hours = calculateWorkingHours(record.checkInTime, record.checkOutTime);
+        const hours = calculateWorkingHours(record.checkInTime, record.checkOutTime, record.breaks);
         todayTotal += hours;
       }
     });
@@ -414,7 +522,8 @@ export default function EmployeeDashboard() {
       if (currentDate === today) {
         const hoursFromCurrentSession = calculateWorkingHours(
           (currentAttendance as any).checkInTime, 
-          new Date().toISOString()
+          new Date().toISOString(),
+          (currentAttendance as AttendanceRecord).breaks
         );
         todayTotal += hoursFromCurrentSession;
       }
@@ -541,15 +650,38 @@ export default function EmployeeDashboard() {
                           </span>
                         </div>
                       </div>
-                      <Badge className="bg-gradient-to-r from-green-400 to-green-500 text-white border-0 shadow-sm">
-                        Active
-                      </Badge>
+                      {activeBreak ? (
+                        <Badge className="bg-gradient-to-r from-amber-400 to-amber-500 text-white border-0 shadow-sm">
+                          On Break
+                        </Badge>
+                      ) : (
+                        <Badge className="bg-gradient-to-r from-green-400 to-green-500 text-white border-0 shadow-sm">
+                          Active
+                        </Badge>
+                      )}
                     </div>
+                    {activeBreak && (
+                      <p className="text-sm text-amber-700 dark:text-amber-300 text-center">
+                        Break started at {new Date(activeBreak.startTime).toLocaleTimeString()}
+                      </p>
+                    )}
+                    <Button
+                      onClick={() => breakMutation.mutate(activeBreak ? 'end' : 'start')}
+                      variant="outline"
+                      className="w-full border-amber-300 text-amber-700 hover:bg-amber-50 dark:border-amber-700 dark:text-amber-300 dark:hover:bg-amber-900/20"
+                      disabled={breakMutation.isPending}
+                    >
+                      <Coffee className="h-4 w-4 mr-2" />
+                      {breakMutation.isPending ? 'Updating...' : activeBreak ? 'End Break' : 'Start Break'}
+                    </Button>
+                    {photoRequired && (
+                      <AttendancePhotoCapture value={photo} onChange={setPhoto} label="Take a photo to check out" />
+                    )}
                     <Button 
                       onClick={handleCheckOut}
                       variant="destructive"
                       className="w-full bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 shadow-sm"
-                      disabled={checkOutMutation.isPending}
+                      disabled={checkOutMutation.isPending || (photoRequired && !photo)}
                     >
                       {checkOutMutation.isPending ? 'Checking Out...' : 'Check Out'}
                     </Button>
@@ -610,10 +742,13 @@ export default function EmployeeDashboard() {
                                   </Badge>
                                 </div>
                               )}
+                              {photoRequired && (
+                                <AttendancePhotoCapture value={photo} onChange={setPhoto} label="Take a photo to check in" />
+                              )}
                               <Button 
                                 onClick={handleCheckIn}
                                 className="w-full bg-gradient-to-r from-green-500 to-green-600 hover:from-green-600 hover:to-green-700 shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
-                                disabled={shouldDisable || checkInMutation.isPending}
+                                disabled={shouldDisable || checkInMutation.isPending || (photoRequired && !photo)}
                               >
                                 {checkInMutation.isPending ? 'Checking In...' : 'Check In'}
                               </Button>
@@ -656,9 +791,13 @@ export default function EmployeeDashboard() {
                     {!(workSite as WorkSite).isRemote && (
                       <>
                         <div className="flex items-center justify-between text-sm bg-white dark:bg-slate-800 rounded-lg px-3 py-2 border border-blue-100 dark:border-blue-900">
-                          <span className="font-medium text-slate-700 dark:text-slate-300">Geofence Radius:</span>
+                          <span className="font-medium text-slate-700 dark:text-slate-300">
+                            {hasGeofencePolygon((workSite as WorkSite).geofencePolygon) ? 'Geofence:' : 'Geofence Radius:'}
+                          </span>
                           <Badge className="bg-gradient-to-r from-blue-400 to-blue-500 text-white border-0 shadow-sm">
-                            {(workSite as WorkSite).geofenceRadius}m
+                            {hasGeofencePolygon((workSite as WorkSite).geofencePolygon)
+                              ? 'Site boundary'
+                              : `${(workSite as WorkSite).geofenceRadius}m`}
                           </Badge>
                         </div>
                         
@@ -749,6 +888,83 @@ export default function EmployeeDashboard() {
             </CardContent>
           </Card>
 
+          {/* Weekly Timesheet */}
+          <Card className="border-2 border-slate-300 dark:border-slate-600 shadow-sm bg-gradient-to-br from-white to-teal-50/20 dark:from-slate-800 dark:to-teal-900/10 hover:shadow-md transition-all duration-200">
+            <CardHeader className="bg-gradient-to-r from-teal-50/50 to-cyan-50/50 dark:from-teal-900/20 dark:to-cyan-900/20 border-b-2 border-slate-300 dark:border-slate-600">
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center space-x-2 text-teal-800 dark:text-teal-200">
+                  <div className="bg-gradient-to-br from-teal-400 to-teal-500 rounded-lg p-2">
+                    <ClipboardCheck className="h-5 w-5 text-white" />
+                  </div>
+                  <span className="font-semibold">Timesheet</span>
+                </CardTitle>
+                <div className="flex gap-1">
+                  <Button
+                    size="sm"
+                    variant={timesheetWeek === 'previous' ? 'default' : 'outline'}
+                    onClick={() => setTimesheetWeek('previous')}
+                  >
+                    Last Week
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant={timesheetWeek === 'current' ? 'default' : 'outline'}
+                    onClick={() => setTimesheetWeek('current')}
+                  >
+                    This Week
+                  </Button>
+                </div>
+              </div>
+              <CardDescription className="text-teal-700 dark:text-teal-400 mt-1">
+                {format(timesheetWeekStart, 'MMM d')} - {format(addDays(timesheetWeekStart, 6), 'MMM d, yyyy')}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-6 space-y-4">
+              {timesheetData ? (
+                <>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-3xl font-semibold text-slate-900 dark:text-slate-100">
+                        {formatHours(timesheetData.current.workedMinutes / 60)}
+                      </p>
+                      <p className="text-sm text-slate-600 dark:text-slate-400">
+                        {timesheetData.current.sessions} session{timesheetData.current.sessions === 1 ? '' : 's'}
+                        {timesheetData.current.breakMinutes > 0 && ` · ${timesheetData.current.breakMinutes}m breaks`}
+                      </p>
+                    </div>
+                    <Badge className={TIMESHEET_STATUS_STYLES[timesheetData.current.status].className}>
+                      {TIMESHEET_STATUS_STYLES[timesheetData.current.status].label}
+                    </Badge>
+                  </div>
+                  {timesheetData.current.status === 'rejected' && timesheetData.current.timesheet?.comment && (
+                    <Alert className="border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-900/20">
+                      <AlertDescription className="text-red-800 dark:text-red-300">
+                        {timesheetData.current.timesheet.comment}
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                  {(timesheetData.current.status === 'draft' || timesheetData.current.status === 'rejected') && (
+                    <Button
+                      onClick={() => submitTimesheetMutation.mutate(timesheetData.current.weekStart)}
+                      disabled={submitTimesheetMutation.isPending || timesheetData.current.openSessions > 0 || timesheetData.current.sessions === 0}
+                      className="w-full bg-teal-600 hover:bg-teal-700"
+                    >
+                      {submitTimesheetMutation.isPending ? 'Submitting...' : timesheetData.current.status === 'rejected' ? 'Resubmit Timesheet' : 'Submit Timesheet'}
+                    </Button>
+                  )}
+                  {timesheetData.current.openSessions > 0 && timesheetData.current.status !== 'approved' && (
+                    <p className="text-xs text-slate-500 dark:text-slate-400 text-center">Check out before submitting this week's timesheet</p>
+                  )}
+                </>
+              ) : (
+                <Skeleton className="h-20 w-full" />
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Leave balances and requests */}
+          <EmployeeLeaveCard />
+
           {/* 30-Day Attendance History */}
           <Card className="border-2 border-slate-300 dark:border-slate-600 shadow-sm bg-gradient-to-br from-white to-indigo-50/20 dark:from-slate-800 dark:to-indigo-900/10 hover:shadow-md transition-all duration-200">
             <CardHeader className="bg-gradient-to-r from-indigo-50/50 to-purple-50/50 dark:from-indigo-900/20 dark:to-purple-900/20 border-b-2 border-slate-300 dark:border-slate-600">
@@ -826,11 +1042,11 @@ export default function EmployeeDashboard() {
                         
                         <div className="text-right bg-white dark:bg-slate-800 rounded-lg px-3 py-2 border border-indigo-100 dark:border-indigo-900">
                           <span className="text-sm font-semibold text-slate-900 dark:text-slate-100 block">
-                            {record.checkOutTime ? formatHours(calculateWorkingHours(record.checkInTime, record.checkOutTime)) : 'In Progress'}
+                            {record.checkOutTime ? formatHours(calculateWorkingHours(record.checkInTime, record.checkOutTime, record.breaks)) : 'In Progress'}
                           </span>
                           {!record.checkOutTime && (
                             <p className="text-xs text-slate-600 dark:text-slate-400">
-                              {formatHours(calculateWorkingHours(record.checkInTime, new Date().toISOString()))} so far
+                              {formatHours(calculateWorkingHours(record.checkInTime, new Date().toISOString(), record.breaks))} so far
                             </p>
                           )}
                         </div>
@@ -10,6 +10,9 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { useToast } from '@/hooks/use-toast';
 import { getAuthToken, getUserType } from '@/lib/auth';
 import { AuthenticatedImage } from '@/components/AuthenticatedImage';
+import { AttendanceCorrectionDialog, AttendanceRevisionsDialog, type CorrectionMode } from '@/components/AttendanceCorrectionDialog';
+import { LeaveBalancesCard } from '@/components/LeaveBalancesCard';
+import { AttendancePhotoThumbnail } from '@/components/AttendancePhoto';
 import { 
   ArrowLeft,
   User, 
@@ -25,8 +28,14 @@ import {
   Camera,
   Upload,
   X,
-  RefreshCw
+  RefreshCw,
+  Plus,
+  Pencil,
+  Scissors,
+  History
 } from 'lucide-react';
+import { calculateBreakMs, calculateOffsiteMs, calculateWorkedMs, formatDuration, type BreakPeriod } from '@shared/worktime';
+import { LOCATION_RISK_ALERT_THRESHOLD } from '@shared/geofence';
 
 interface Employee {
   id: number;
@@ -56,6 +65,14 @@ interface AttendanceRecord {
   checkInLatitude: string;
   checkInLongitude: string;
   siteId: number;
+  isManual?: boolean;
+  correctedAt?: string | null;
+  autoCheckoutReason?: string | null;
+  riskScore?: number;
+  checkInPhoto?: string | null;
+  checkOutPhoto?: string | null;
+  breaks?: BreakPeriod[];
+  offsitePeriods?: BreakPeriod[];
 }
 
 interface LocationRecord {
@@ -73,6 +90,8 @@ export default function EmployeeProfile() {
   const queryClient = useQueryClient();
   const employeeId = parseInt(params.id || '0');
   const [isImageDialogOpen, setIsImageDialogOpen] = useState(false);
+  const [correction, setCorrection] = useState<{ mode: CorrectionMode; record: AttendanceRecord | null } | null>(null);
+  const [historyRecordId, setHistoryRecordId] = useState<number | null>(null);
 
   useEffect(() => {
     if (!getAuthToken() || getUserType() !== 'admin') {
@@ -233,6 +252,7 @@ export default function EmployeeProfile() {
   const assignedSite = employee?.siteId ? sites.find(site => site.id === employee.siteId) : null;
   const recentAttendance = attendance.slice(0, 5);
   const recentLocations = locations.slice(0, 10);
+  const correctableAttendance = attendance.slice(0, 20);
 
   if (!getAuthToken() || getUserType() !== 'admin') {
     return null;
@@ -488,6 +508,13 @@ export default function EmployeeProfile() {
                           {new Date(record.checkInTime).toLocaleTimeString()} - 
                           {record.checkOutTime ? new Date(record.checkOutTime).toLocaleTimeString() : 'Active'}
                         </p>
+                        <p className="text-xs text-gray-500 dark:text-slate-400">
+                          {formatDuration(calculateWorkedMs(record.checkInTime, record.checkOutTime, record.breaks))} worked
+                          {calculateBreakMs(record.breaks, record.checkOutTime ?? new Date()) > 0 &&
+                            ` · ${formatDuration(calculateBreakMs(record.breaks, record.checkOutTime ?? new Date()))} break`}
+                          {calculateOffsiteMs(record.offsitePeriods, record.checkOutTime ?? new Date()) > 0 &&
+                            ` · ${formatDuration(calculateOffsiteMs(record.offsitePeriods, record.checkOutTime ?? new Date()))} off site`}
+                        </p>
                       </div>
                       <div className="flex items-center">
                         {record.checkOutTime ? (
@@ -510,6 +537,102 @@ export default function EmployeeProfile() {
           </Card>
         </div>
 
+        {/* Attendance Records - admin corrections */}
+        <Card className="mt-8 border-2 border-slate-300 dark:border-slate-600">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="flex items-center space-x-2 text-gray-900 dark:text-slate-100">
+                  <Calendar className="h-5 w-5" />
+                  <span>Attendance Records</span>
+                </CardTitle>
+                <CardDescription className="text-gray-600 dark:text-slate-400">Correct missed check-ins and check-outs</CardDescription>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setCorrection({ mode: 'create', record: null })}
+                className="flex items-center space-x-2"
+              >
+                <Plus className="h-4 w-4" />
+                <span>Add Record</span>
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {correctableAttendance.length > 0 ? (
+              <div className="divide-y divide-gray-200 dark:divide-slate-700">
+                {correctableAttendance.map((record) => (
+                  <div key={record.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 py-3 text-sm">
+                    <div>
+                      <p className="font-medium text-gray-900 dark:text-slate-100">
+                        {new Date(record.checkInTime).toLocaleDateString()} · {sites.find(site => site.id === record.siteId)?.name || 'Unknown Site'}
+                        {record.isManual && <Badge variant="secondary" className="ml-2">Manual</Badge>}
+                        {!record.isManual && record.correctedAt && <Badge variant="secondary" className="ml-2">Corrected</Badge>}
+                        {record.autoCheckoutReason && <Badge variant="outline" className="ml-2">Auto checkout</Badge>}
+                        {!!record.riskScore && record.riskScore >= LOCATION_RISK_ALERT_THRESHOLD && (
+                          <Badge variant="destructive" className="ml-2">Spoofing risk {record.riskScore}</Badge>
+                        )}
+                      </p>
+                      <p className="text-gray-600 dark:text-slate-300">
+                        {new Date(record.checkInTime).toLocaleTimeString()} - {record.checkOutTime ? new Date(record.checkOutTime).toLocaleTimeString() : 'Active'}
+                        {' · '}{formatDuration(calculateWorkedMs(record.checkInTime, record.checkOutTime, record.breaks))} worked
+                      </p>
+                      {record.offsitePeriods && record.offsitePeriods.length > 0 && (
+                        <p className="text-xs text-amber-700 dark:text-amber-400">
+                          Off site: {record.offsitePeriods.map(period =>
+                            `${new Date(period.startTime).toLocaleTimeString()} - ${period.endTime ? new Date(period.endTime).toLocaleTimeString() : 'now'}`
+                          ).join(', ')}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1">
+                      {record.checkInPhoto && (
+                        <AttendancePhotoThumbnail photo={record.checkInPhoto} alt="Check-in photo" />
+                      )}
+                      {record.checkOutPhoto && (
+                        <AttendancePhotoThumbnail photo={record.checkOutPhoto} alt="Checkout photo" />
+                      )}
+                      <Button variant="ghost" size="sm" onClick={() => setCorrection({ mode: 'edit', record })} title="Edit">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setCorrection({ mode: 'split', record })} title="Split">
+                        <Scissors className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setHistoryRecordId(record.id)} title="History">
+                        <History className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-8">
+                <Calendar className="h-12 w-12 text-gray-400 dark:text-slate-500 mx-auto mb-4" />
+                <p className="text-gray-500 dark:text-slate-400">No attendance records</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <AttendanceCorrectionDialog
+          open={!!correction}
+          onOpenChange={(open) => !open && setCorrection(null)}
+          mode={correction?.mode ?? 'create'}
+          employeeId={employeeId}
+          record={correction?.record}
+          sites={sites}
+          defaultSiteId={employee.siteId}
+        />
+        <AttendanceRevisionsDialog
+          open={historyRecordId !== null}
+          onOpenChange={(open) => !open && setHistoryRecordId(null)}
+          attendanceId={historyRecordId}
+          sites={sites}
+        />
+
+        <LeaveBalancesCard employeeId={employeeId} />
+
         {/* Location History */}
         <Card className="mt-8 border-2 border-slate-300 dark:border-slate-600">
           <CardHeader>
@@ -0,0 +1,429 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AdminHeader } from '@/components/AdminHeader';
+import { HolidayCalendarsCard } from '@/components/HolidayCalendarsCard';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { getAuthToken } from '@/lib/auth';
+import type { LeaveAccrual, LeaveRequest, LeaveRequestStatus, LeaveType } from '@shared/schema';
+import { ArrowLeft, CalendarOff, CheckCircle, XCircle, Plus, Pencil, Trash2 } from 'lucide-react';
+
+// Shape returned by GET /api/admin/leave-requests
+interface LeaveRequestRow extends LeaveRequest {
+  employee: { id: number; firstName: string; lastName: string; email: string } | null;
+  leaveType: { id: number; name: string; color: string | null } | null;
+}
+
+interface LeaveTypeForm {
+  name: string;
+  color: string;
+  isPaid: boolean;
+  annualAllowanceDays: string; // Blank = not tracked
+  accrual: LeaveAccrual;
+}
+
+const STATUS_STYLES: Record<LeaveRequestStatus, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300' },
+  approved: { label: 'Approved', className: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300' },
+  rejected: { label: 'Rejected', className: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300' },
+  cancelled: { label: 'Cancelled', className: 'bg-slate-100 text-slate-700 dark:bg-slate-700 dark:text-slate-300' },
+};
+
+const emptyTypeForm: LeaveTypeForm = { name: '', color: '#0ea5e9', isPaid: true, annualAllowanceDays: '', accrual: 'upfront' };
+
+// "2024-07-01" -> "Jul 1, 2024" without going through UTC
+const formatDateKey = (dateKey: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return format(new Date(year, month - 1, day), 'MMM d, yyyy');
+};
+
+export default function LeaveManagement() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState<LeaveRequestStatus | 'all'>('pending');
+  const [reviewing, setReviewing] = useState<{ request: LeaveRequestRow; action: 'approve' | 'reject' } | null>(null);
+  const [reviewComment, setReviewComment] = useState('');
+  const [editingType, setEditingType] = useState<LeaveType | null>(null);
+  const [isTypeDialogOpen, setIsTypeDialogOpen] = useState(false);
+  const [typeForm, setTypeForm] = useState<LeaveTypeForm>(emptyTypeForm);
+
+  const { data: requests = [], isLoading } = useQuery<LeaveRequestRow[]>({
+    queryKey: ['/api/admin/leave-requests', statusFilter],
+    queryFn: async () => {
+      const query = statusFilter === 'all' ? '' : `?status=${statusFilter}`;
+      const response = await fetch(`/api/admin/leave-requests${query}`, {
+        headers: {
+          'Authorization': `Bearer ${getAuthToken()}`,
+        },
+      });
+      if (!response.ok) throw new Error('Failed to fetch leave requests');
+      return response.json();
+    },
+  });
+
+  const { data: leaveTypes = [] } = useQuery<LeaveType[]>({
+    queryKey: ['/api/admin/leave-types'],
+    queryFn: async () => {
+      const response = await fetch('/api/admin/leave-types', {
+        headers: {
+          'Authorization': `Bearer ${getAuthToken()}`,
+        },
+      });
+      if (!response.ok) throw new Error('Failed to fetch leave types');
+      return response.json();
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, action, comment }: { id: number; action: 'approve' | 'reject'; comment: string }) =>
+      apiRequest('POST', `/api/admin/leave-requests/${id}/${action}`, { comment: comment || null }),
+    onSuccess: (_, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/leave-requests'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/dashboard'] });
+      toast({ title: 'Success', description: action === 'approve' ? 'Leave approved' : 'Leave rejected' });
+      setReviewing(null);
+      setReviewComment('');
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message || 'Failed to review leave request', variant: 'destructive' });
+    },
+  });
+
+  const saveTypeMutation = useMutation({
+    mutationFn: async (form: LeaveTypeForm) => {
+      const payload = {
+        name: form.name,
+        color: form.color,
+        isPaid: form.isPaid,
+        annualAllowanceDays: form.annualAllowanceDays === '' ? null : parseInt(form.annualAllowanceDays),
+        accrual: form.accrual,
+      };
+      return editingType
+        ? apiRequest('PUT', `/api/admin/leave-types/${editingType.id}`, payload)
+        : apiRequest('POST', '/api/admin/leave-types', payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/leave-types'] });
+      toast({ title: 'Success', description: editingType ? 'Leave type updated' : 'Leave type created' });
+      setIsTypeDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message || 'Failed to save leave type', variant: 'destructive' });
+    },
+  });
+
+  const deleteTypeMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest('DELETE', `/api/admin/leave-types/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/leave-types'] });
+      toast({ title: 'Success', description: 'Leave type deleted' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message || 'Failed to delete leave type', variant: 'destructive' });
+    },
+  });
+
+  const openTypeDialog = (leaveType: LeaveType | null) => {
+    setEditingType(leaveType);
+    setTypeForm(leaveType ? {
+      name: leaveType.name,
+      color: leaveType.color || '#0ea5e9',
+      isPaid: leaveType.isPaid,
+      annualAllowanceDays: leaveType.annualAllowanceDays?.toString() ?? '',
+      accrual: leaveType.accrual,
+    } : emptyTypeForm);
+    setIsTypeDialogOpen(true);
+  };
+
+  const handleSaveType = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!typeForm.name.trim()) {
+      toast({ title: 'Missing details', description: 'Enter a name for the leave type', variant: 'destructive' });
+      return;
+    }
+    saveTypeMutation.mutate(typeForm);
+  };
+
+  const handleReview = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reviewing) return;
+    reviewMutation.mutate({ id: reviewing.request.id, action: reviewing.action, comment: reviewComment.trim() });
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900">
+      <AdminHeader />
+      <div className="max-w-screen-2xl mx-auto px-4 lg:px-8 py-6">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+          <div className="flex items-center">
+            <Link href="/admin/dashboard">
+              <Button variant="ghost" size="sm" className="mr-4">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Dashboard
+              </Button>
+            </Link>
+            <h1 className="text-2xl font-bold text-slate-900 dark:text-slate-100">Leave</h1>
+          </div>
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as LeaveRequestStatus | 'all')}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="approved">Approved</SelectItem>
+              <SelectItem value="rejected">Rejected</SelectItem>
+              <SelectItem value="cancelled">Cancelled</SelectItem>
+              <SelectItem value="all">All requests</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="lg:col-span-2 bg-white dark:bg-slate-800 border-2 border-slate-300 dark:border-slate-600">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <CalendarOff className="h-5 w-5" />
+                Leave Requests
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              {isLoading ? (
+                <p className="text-center text-slate-500 dark:text-slate-400 py-8">Loading leave requests...</p>
+              ) : requests.length === 0 ? (
+                <p className="text-center text-slate-500 dark:text-slate-400 py-8">No leave requests to show</p>
+              ) : (
+                <table className="w-full min-w-[700px] border-collapse text-sm">
+                  <thead>
+                    <tr>
+                      <th className="text-left p-2 text-slate-600 dark:text-slate-400">Employee</th>
+                      <th className="text-left p-2 text-slate-600 dark:text-slate-400">Type</th>
+                      <th className="text-left p-2 text-slate-600 dark:text-slate-400">Dates</th>
+                      <th className="text-right p-2 text-slate-600 dark:text-slate-400">Days</th>
+                      <th className="text-left p-2 text-slate-600 dark:text-slate-400">Status</th>
+                      <th className="p-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {requests.map(request => (
+                      <tr key={request.id} className="border-t border-slate-200 dark:border-slate-700 align-top">
+                        <td className="p-2 font-medium text-slate-900 dark:text-slate-100">
+                          {request.employee ? `${request.employee.firstName} ${request.employee.lastName}` : 'Unknown employee'}
+                          {request.reason && (
+                            <div className="text-xs font-normal text-slate-500 dark:text-slate-400 max-w-[16rem]">{request.reason}</div>
+                          )}
+                        </td>
+                        <td className="p-2 text-slate-700 dark:text-slate-300">
+                          <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: request.leaveType?.color || '#94a3b8' }} />
+                          {request.leaveType?.name || 'Removed type'}
+                        </td>
+                        <td className="p-2 text-slate-700 dark:text-slate-300">
+                          {request.startDate === request.endDate
+                            ? formatDateKey(request.startDate)
+                            : `${formatDateKey(request.startDate)} - ${formatDateKey(request.endDate)}`}
+                        </td>
+                        <td className="p-2 text-right text-slate-900 dark:text-slate-100">{request.days}</td>
+                        <td className="p-2">
+                          <Badge className={STATUS_STYLES[request.status].className}>{STATUS_STYLES[request.status].label}</Badge>
+                          {request.reviewComment && (
+                            <div className="text-xs text-slate-500 dark:text-slate-400 mt-1 max-w-[12rem]">{request.reviewComment}</div>
+                          )}
+                        </td>
+                        <td className="p-2 text-right whitespace-nowrap">
+                          {request.status === 'pending' && (
+                            <Button
+                              size="sm"
+                              className="bg-green-600 hover:bg-green-700 mr-2"
+                              onClick={() => setReviewing({ request, action: 'approve' })}
+                            >
+                              <CheckCircle className="h-4 w-4 mr-1" />
+                              Approve
+                            </Button>
+                          )}
+                          {(request.status === 'pending' || request.status === 'approved') && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="text-red-600 border-red-200 hover:bg-red-50 dark:hover:bg-red-900/20"
+                              onClick={() => setReviewing({ request, action: 'reject' })}
+                            >
+                              <XCircle className="h-4 w-4 mr-1" />
+                              {request.status === 'approved' ? 'Revoke' : 'Reject'}
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="bg-white dark:bg-slate-800 border-2 border-slate-300 dark:border-slate-600">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="text-lg">Leave Types</CardTitle>
+              <Button size="sm" onClick={() => openTypeDialog(null)}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add
+              </Button>
+            </CardHeader>
+            <CardContent>
+              {leaveTypes.length === 0 ? (
+                <p className="text-sm text-slate-500 dark:text-slate-400 py-4">
+                  Add leave types such as Vacation or Sick Leave so employees can request time off.
+                </p>
+              ) : (
+                <div className="divide-y divide-slate-200 dark:divide-slate-700">
+                  {leaveTypes.map(leaveType => (
+                    <div key={leaveType.id} className="flex items-center justify-between py-3">
+                      <div>
+                        <p className="font-medium text-slate-900 dark:text-slate-100">
+                          <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: leaveType.color || '#94a3b8' }} />
+                          {leaveType.name}
+                        </p>
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                          {leaveType.annualAllowanceDays === null
+                            ? 'Not balance-tracked'
+                            : `${leaveType.annualAllowanceDays} days/year${leaveType.accrual === 'monthly' ? ', accrued monthly' : ''}`}
+                          {!leaveType.isPaid && ' · Unpaid'}
+                        </p>
+                      </div>
+                      <div className="flex gap-1">
+                        <Button size="sm" variant="ghost" onClick={() => openTypeDialog(leaveType)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="text-red-600"
+                          disabled={deleteTypeMutation.isPending}
+                          onClick={() => deleteTypeMutation.mutate(leaveType.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <HolidayCalendarsCard />
+      </div>
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {reviewing?.action === 'approve' ? 'Approve' : reviewing?.request.status === 'approved' ? 'Revoke' : 'Reject'} Leave
+            </DialogTitle>
+          </DialogHeader>
+          {reviewing && (
+            <form onSubmit={handleReview} className="space-y-4">
+              <p className="text-sm text-slate-600 dark:text-slate-400">
+                {reviewing.request.employee?.firstName} {reviewing.request.employee?.lastName} · {reviewing.request.leaveType?.name} ·{' '}
+                {reviewing.request.days} day{reviewing.request.days === 1 ? '' : 's'}
+              </p>
+              <div>
+                <Label>Comment (optional)</Label>
+                <Textarea
+                  value={reviewComment}
+                  onChange={(e) => setReviewComment(e.target.value)}
+                  placeholder="Shown to the employee"
+                  rows={3}
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setReviewing(null)}>Cancel</Button>
+                <Button
+                  type="submit"
+                  disabled={reviewMutation.isPending}
+                  className={reviewing.action === 'approve' ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'}
+                >
+                  {reviewMutation.isPending ? 'Saving...' : reviewing.action === 'approve' ? 'Approve' : 'Confirm'}
+                </Button>
+              </div>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isTypeDialogOpen} onOpenChange={setIsTypeDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingType ? 'Edit Leave Type' : 'New Leave Type'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSaveType} className="space-y-4">
+            <div className="grid grid-cols-[1fr_auto] gap-3">
+              <div>
+                <Label>Name</Label>
+                <Input
+                  value={typeForm.name}
+                  onChange={(e) => setTypeForm({ ...typeForm, name: e.target.value })}
+                  placeholder="e.g. Vacation"
+                />
+              </div>
+              <div>
+                <Label>Color</Label>
+                <Input
+                  type="color"
+                  className="w-16 p-1"
+                  value={typeForm.color}
+                  onChange={(e) => setTypeForm({ ...typeForm, color: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Days per year</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={366}
+                  placeholder="Not tracked"
+                  value={typeForm.annualAllowanceDays}
+                  onChange={(e) => setTypeForm({ ...typeForm, annualAllowanceDays: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>Accrual</Label>
+                <Select value={typeForm.accrual} onValueChange={(value) => setTypeForm({ ...typeForm, accrual: value as LeaveAccrual })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="upfront">Full year upfront</SelectItem>
+                    <SelectItem value="monthly">Monthly</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex items-center justify-between rounded-lg border p-3">
+              <Label>Paid leave</Label>
+              <Switch checked={typeForm.isPaid} onCheckedChange={(checked) => setTypeForm({ ...typeForm, isPaid: checked })} />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setIsTypeDialogOpen(false)}>Cancel</Button>
+              <Button type="submit" disabled={saveTypeMutation.isPending}>
+                {saveTypeMutation.isPending ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -189,6 +189,12 @@ export default function LiveTracking() {
       if (data.type === 'employee_location') {
         // Invalidate and refetch locations when WebSocket receives update
         queryClient.invalidateQueries({ queryKey: ['/api/admin/locations'] });
+      } else if (data.type === 'geofence_event') {
+        const { employee, site, type } = data.event;
+        toast({
+          title: type === 'enter' ? 'Entered Site' : 'Left Site',
+          description: `${employee.firstName} ${employee.lastName} ${type === 'enter' ? 'arrived at' : 'left'} ${site.name}`,
+        });
       }
     }
   });
@@ -8,7 +8,8 @@ import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
 import { getAuthToken, getUser, logout, getUserType } from '@/lib/auth';
 import { useOptimizedGeolocation } from '@/hooks/use-optimized-geolocation';
-import { useWebSocket } from '@/hooks/use-websocket';
+import { useWebSocket } from '@/hooks/useWebSocket';
+import { AttendancePhotoCapture } from '@/components/AttendancePhoto';
 import GoogleMap from '@/components/google-map';
 import { loadGoogleMapsAPI } from '@/lib/google-maps';
 import { 
@@ -19,7 +20,8 @@ import {
   AlertTriangle,
   Clock,
   Hammer,
-  Phone
+  Phone,
+  Coffee
 } from 'lucide-react';
 
 export default function MobileWorker() {
@@ -29,11 +31,14 @@ export default function MobileWorker() {
   const user = getUser();
   const userType = getUserType();
   const [mapLoaded, setMapLoaded] = useState(false);
+  // Selfie for the next check-in or checkout, on sites that require one
+  const [photo, setPhoto] = useState<string | null>(null);
 
   const {
     latitude,
     longitude,
     accuracy,
+    fix,
     error: locationError,
     loading: locationLoading,
     requestPermission,
@@ -71,7 +76,8 @@ export default function MobileWorker() {
   });
 
   const { data: assignedSite = {} } = useQuery({
-    queryKey: ['/api/admin/sites', status?.assignedSite],
+    queryKey: ['/api/employee/site'],
+    retry: false,
     enabled: !!status?.assignedSite,
   });
 
@@ -96,14 +102,16 @@ export default function MobileWorker() {
         throw new Error('No work site assigned. Contact your supervisor.');
       }
       
-      const response = await apiRequest('POST', '/api/employee/checkin', {
+      const response = await apiRequest('POST', '/api/employee/attendance/checkin', {
         latitude: latitude.toString(),
         longitude: longitude.toString(),
-        siteId: status.assignedSite,
+        ...fix,
+        photo,
       });
       return response.json();
     },
     onSuccess: () => {
+      setPhoto(null);
       queryClient.invalidateQueries({ queryKey: ['/api/employee/status'] });
       toast({
         title: 'Checked In',
@@ -125,13 +133,16 @@ export default function MobileWorker() {
         throw new Error('Location access is required for check-out');
       }
       
-      const response = await apiRequest('POST', '/api/employee/checkout', {
+      const response = await apiRequest('POST', '/api/employee/attendance/checkout', {
         latitude: latitude.toString(),
         longitude: longitude.toString(),
+        ...fix,
+        photo,
       });
       return response.json();
     },
     onSuccess: () => {
+      setPhoto(null);
       queryClient.invalidateQueries({ queryKey: ['/api/employee/status'] });
       toast({
         title: 'Checked Out',
@@ -147,6 +158,37 @@ export default function MobileWorker() {
     },
   });
 
+  // Breaks are unpaid and tracked inside the current attendance session
+  const breakStatus = status as {
+    isCheckedIn?: boolean;
+    isOnBreak?: boolean;
+    attendance?: { breaks?: { id: number; startTime: string; endTime: string | null }[] };
+  };
+  const isOnBreak = breakStatus.isOnBreak ?? false;
+  const photoRequired = !!(assignedSite as { requirePhoto?: boolean }).requirePhoto;
+  const sessionBreaks = breakStatus.attendance?.breaks ?? [];
+
+  const breakMutation = useMutation({
+    mutationFn: async (action: 'start' | 'end') => {
+      const response = await apiRequest('POST', `/api/employee/attendance/break/${action}`);
+      return response.json();
+    },
+    onSuccess: (_, action) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/employee/status'] });
+      toast({
+        title: action === 'start' ? 'Break Started' : 'Break Ended',
+        description: action === 'start' ? 'Your break is being recorded' : 'Back on the clock',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Break Update Failed',
+        description: error.message || 'Unable to update break',
+        variant: 'destructive',
+      });
+    },
+  });
+
   const handleCheckIn = () => {
     if (locationError) {
       toast({
@@ -276,6 +318,15 @@ export default function MobileWorker() {
         )}
 
         {/* Quick Actions */}
+        {photoRequired && (
+          <div className="mb-4">
+            <AttendancePhotoCapture
+              value={photo}
+              onChange={setPhoto}
+              label={breakStatus.isCheckedIn ? 'Take a photo to check out' : 'Take a photo to check in'}
+            />
+          </div>
+        )}
         <div className="grid grid-cols-2 gap-4 mb-6">
           <Button
             onClick={handleCheckIn}
@@ -283,6 +334,7 @@ export default function MobileWorker() {
               !status?.assignedSite ||
               status?.isCheckedIn ||
               checkInMutation.isPending ||
+              (photoRequired && !photo) ||
               locationLoading ||
               !!locationError
             }
@@ -298,6 +350,7 @@ export default function MobileWorker() {
             disabled={
               !status?.isCheckedIn ||
               checkOutMutation.isPending ||
+              (photoRequired && !photo) ||
               locationLoading ||
               !!locationError
             }
@@ -308,6 +361,17 @@ export default function MobileWorker() {
               {checkOutMutation.isPending ? 'Checking Out...' : 'Check Out'}
             </span>
           </Button>
+          <Button
+            onClick={() => breakMutation.mutate(isOnBreak ? 'end' : 'start')}
+            disabled={!breakStatus.isCheckedIn || breakMutation.isPending}
+            variant="outline"
+            className="col-span-2 p-4 h-auto flex items-center justify-center space-x-2 border-amber-300 text-amber-700"
+          >
+            <Coffee className="text-xl" />
+            <span className="font-medium">
+              {breakMutation.isPending ? 'Updating...' : isOnBreak ? 'End Break' : 'Start Break'}
+            </span>
+          </Button>
         </div>
 
         {/* Today's Activity */}
@@ -328,6 +392,20 @@ export default function MobileWorker() {
                       </p>
                     </div>
                   </div>
+                  {sessionBreaks.map((attendanceBreak) => (
+                    <div key={attendanceBreak.id} className="flex items-center space-x-4">
+                      <div className="w-2 h-2 bg-amber-500 rounded-full"></div>
+                      <div className="flex-1">
+                        <p className="text-sm font-medium text-gray-900">
+                          {attendanceBreak.endTime ? 'Break' : 'On Break'}
+                        </p>
+                        <p className="text-xs text-gray-600">
+                          {formatTime(attendanceBreak.startTime)}
+                          {attendanceBreak.endTime ? ` - ${formatTime(attendanceBreak.endTime)}` : ' - now'}
+                        </p>
+                      </div>
+                    </div>
+                  ))}
                   {status.attendance.checkOutTime && (
                     <div className="flex items-center space-x-4">
                       <div className="w-2 h-2 bg-error rounded-full"></div>
@@ -1,109 +1,118 @@
-import { useQuery } from '@tanstack/react-query';
+import { useState } from 'react';
+import { useInfiniteQuery, useMutation } from '@tanstack/react-query';
 import { Link } from 'wouter';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, Bell, AlertCircle, CheckCircle, Clock, MapPin } from 'lucide-react';
-import { getAuthToken } from '@/lib/auth';
-
-interface Notification {
-  id: number;
-  type: 'attendance' | 'geofence' | 'system' | 'alert';
-  title: string;
-  message: string;
-  employeeName?: string;
-  siteName?: string;
-  timestamp: string;
-  isRead: boolean;
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  ArrowLeft, Bell, Clock, User, AlertTriangle, LogOut, UserX, TimerOff, CalendarOff, ShieldAlert, Loader2, X, MailOpen, Mail,
+} from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { NOTIFICATION_TITLES, type Notification } from '@/hooks/useNotifications';
+import { AttendancePhotoThumbnail } from '@/components/AttendancePhoto';
+
+type StatusFilter = 'all' | 'unread' | 'read';
+
+interface NotificationPage {
+  notifications: (Notification & { id: number; isRead: boolean })[];
+  nextCursor: number | null;
+  unreadCount: number;
 }
 
-// Mock notifications data for now - replace with real API call
-const mockNotifications: Notification[] = [
-  {
-    id: 1,
-    type: 'geofence',
-    title: 'Employee Entered Work Site',
-    message: 'John Doe has entered the Main Construction Site geofence',
-    employeeName: 'John Doe',
-    siteName: 'Main Construction Site',
-    timestamp: new Date(Date.now() - 10 * 60 * 1000).toISOString(),
-    isRead: false,
-  },
-  {
-    id: 2,
-    type: 'attendance',
-    title: 'Late Check-in Alert',
-    message: 'Jane Smith checked in 30 minutes late to Downtown Office',
-    employeeName: 'Jane Smith',
-    siteName: 'Downtown Office',
-    timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
-    isRead: false,
-  },
-  {
-    id: 3,
-    type: 'geofence',
-    title: 'Employee Left Work Site',
-    message: 'Mike Johnson has left the Warehouse District geofence',
-    employeeName: 'Mike Johnson',
-    siteName: 'Warehouse District',
-    timestamp: new Date(Date.now() - 4 * 60 * 60 * 1000).toISOString(),
-    isRead: true,
-  },
-  {
-    id: 4,
-    type: 'system',
-    title: 'New Employee Added',
-    message: 'A new employee has been successfully added to the system',
-    timestamp: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(),
-    isRead: true,
-  },
-  {
-    id: 5,
-    type: 'alert',
-    title: 'Geofence Violation',
-    message: 'Employee is outside designated work area during work hours',
-    employeeName: 'Alex Brown',
-    siteName: 'Industrial Park',
-    timestamp: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
-    isRead: true,
-  },
-];
+const PAGE_SIZE = 20;
 
 export default function Notifications() {
-  // For now using mock data, replace with real API call
-  const notifications = mockNotifications;
+  const { toast } = useToast();
+  const [status, setStatus] = useState<StatusFilter>('all');
+
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['/api/admin/notifications', status],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (status !== 'all') params.set('status', status);
+      if (pageParam) params.set('before', String(pageParam));
+      const response = await apiRequest('GET', `/api/admin/notifications?${params}`);
+      return response.json() as Promise<NotificationPage>;
+    },
+    initialPageParam: null as number | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const notifications = data?.pages.flatMap(page => page.notifications) ?? [];
+  const unreadCount = data?.pages[0]?.unreadCount ?? 0;
 
-  const getIcon = (type: string) => {
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: number; action: 'read' | 'unread' | 'dismiss' }) => {
+      const response = await apiRequest('PUT', `/api/admin/notifications/${id}/${action}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/notifications'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Update Failed',
+        description: error.message || 'Failed to update notification',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PUT', '/api/admin/notifications/read-all');
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/notifications'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Update Failed',
+        description: error.message || 'Failed to mark notifications read',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const getIcon = (type: Notification['type']) => {
     switch (type) {
-      case 'geofence':
-        return <MapPin className="h-5 w-5 text-blue-600" />;
-      case 'attendance':
+      case 'employee_checkin':
+        return <User className="h-5 w-5 text-green-600" />;
+      case 'employee_checkout':
         return <Clock className="h-5 w-5 text-orange-600" />;
-      case 'alert':
-        return <AlertCircle className="h-5 w-5 text-red-600" />;
-      case 'system':
-        return <CheckCircle className="h-5 w-5 text-green-600" />;
+      case 'late_arrival':
+        return <AlertTriangle className="h-5 w-5 text-amber-600" />;
+      case 'early_departure':
+        return <LogOut className="h-5 w-5 text-purple-600" />;
+      case 'no_show':
+        return <UserX className="h-5 w-5 text-red-600" />;
+      case 'auto_checkout':
+        return <TimerOff className="h-5 w-5 text-slate-600" />;
+      case 'leave_request':
+        return <CalendarOff className="h-5 w-5 text-rose-600" />;
+      case 'location_anomaly':
+        return <ShieldAlert className="h-5 w-5 text-red-700" />;
       default:
         return <Bell className="h-5 w-5 text-gray-600" />;
     }
   };
 
   const getTimeAgo = (timestamp: string) => {
-    const now = new Date();
-    const time = new Date(timestamp);
-    const diffInMinutes = Math.floor((now.getTime() - time.getTime()) / (1000 * 60));
-    
-    if (diffInMinutes < 60) {
-      return `${diffInMinutes} minutes ago`;
-    } else if (diffInMinutes < 1440) {
-      return `${Math.floor(diffInMinutes / 60)} hours ago`;
-    } else {
-      return `${Math.floor(diffInMinutes / 1440)} days ago`;
-    }
+    const date = new Date(timestamp);
+    if (Number.isNaN(date.getTime())) return 'Unknown';
+    return formatDistanceToNow(date, { addSuffix: true });
   };
 
-  const unreadCount = notifications.filter(n => !n.isRead).length;
-
   return (
     <div className="container mx-auto p-6">
       <div className="flex items-center justify-between mb-6">
@@ -125,27 +134,44 @@ export default function Notifications() {
               {unreadCount} unread
             </Badge>
           )}
-          <Button variant="outline" size="sm">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => markAllReadMutation.mutate()}
+            disabled={unreadCount === 0 || markAllReadMutation.isPending}
+          >
             Mark All Read
           </Button>
         </div>
       </div>
 
+      <Tabs value={status} onValueChange={(value) => setStatus(value as StatusFilter)} className="mb-4">
+        <TabsList>
+          <TabsTrigger value="all">All</TabsTrigger>
+          <TabsTrigger value="unread">Unread</TabsTrigger>
+          <TabsTrigger value="read">Read</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
       <div className="space-y-4">
-        {notifications.length === 0 ? (
+        {isLoading ? (
+          <div className="flex justify-center p-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : notifications.length === 0 ? (
           <Card>
             <CardContent className="p-8 text-center">
               <Bell className="h-12 w-12 text-gray-400 mx-auto mb-4" />
               <p className="text-gray-500">No notifications yet</p>
               <p className="text-sm text-gray-400 mt-1">
-                You'll see updates about employee activity, geofence events, and system alerts here
+                You'll see check-ins, shift alerts and leave requests here
               </p>
             </CardContent>
           </Card>
         ) : (
           notifications.map((notification) => (
-            <Card 
-              key={notification.id} 
+            <Card
+              key={notification.id}
               className={`hover:shadow-md transition-shadow ${
                 !notification.isRead ? 'border-l-4 border-l-blue-500 bg-blue-50/50' : ''
               }`}
@@ -155,29 +181,33 @@ export default function Notifications() {
                   <div className="flex-shrink-0 mt-1">
                     {getIcon(notification.type)}
                   </div>
-                  
+
                   <div className="flex-1 min-w-0">
                     <div className="flex items-start justify-between">
                       <div className="flex-1">
                         <h3 className={`font-medium ${!notification.isRead ? 'text-gray-900' : 'text-gray-700'}`}>
-                          {notification.title}
+                          {NOTIFICATION_TITLES[notification.type] ?? 'Notification'}
                         </h3>
                         <p className="text-gray-600 mt-1 text-sm">
                           {notification.message}
                         </p>
-                        
-                        {(notification.employeeName || notification.siteName) && (
+
+                        {(notification.employee || notification.site) && (
                           <div className="flex items-center space-x-4 mt-2 text-xs text-gray-500">
-                            {notification.employeeName && (
-                              <span>Employee: {notification.employeeName}</span>
+                            {notification.employee && (
+                              <span>Employee: {notification.employee.name}</span>
                             )}
-                            {notification.siteName && (
-                              <span>Site: {notification.siteName}</span>
+                            {notification.site && (
+                              <span>Site: {notification.site.name}</span>
                             )}
                           </div>
                         )}
                       </div>
-                      
+
+                      {notification.photo && (
+                        <AttendancePhotoThumbnail photo={notification.photo} alt="Attendance photo" className="w-12 h-12 ml-4" />
+                      )}
+
                       <div className="flex items-center space-x-2 ml-4">
                         <span className="text-sm text-gray-500 whitespace-nowrap">
                           {getTimeAgo(notification.timestamp)}
@@ -185,6 +215,27 @@ export default function Notifications() {
                         {!notification.isRead && (
                           <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
                         )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0"
+                          title={notification.isRead ? 'Mark as unread' : 'Mark as read'}
+                          onClick={() => updateMutation.mutate({
+                            id: notification.id,
+                            action: notification.isRead ? 'unread' : 'read',
+                          })}
+                        >
+                          {notification.isRead ? <Mail className="h-4 w-4" /> : <MailOpen className="h-4 w-4" />}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0"
+                          title="Dismiss"
+                          onClick={() => updateMutation.mutate({ id: notification.id, action: 'dismiss' })}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
                       </div>
                     </div>
                   </div>
@@ -195,13 +246,14 @@ export default function Notifications() {
         )}
       </div>
 
-      {notifications.length > 0 && (
+      {hasNextPage && (
         <div className="mt-6 text-center">
-          <Button variant="outline">
+          <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+            {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
             Load More Notifications
           </Button>
         </div>
       )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ArrowLeft, MapPin, Clock, User } from 'lucide-react';
 import { getAuthToken } from '@/lib/auth';
+import { AttendancePhotoThumbnail } from '@/components/AttendancePhoto';
 import { Employee } from '@shared/schema';
 
 interface Site {
@@ -181,6 +182,9 @@ export default function OnSiteNow() {
                         )}
                       </div>
                     </div>
+                    {item.checkInPhoto && (
+                      <AttendancePhotoThumbnail photo={item.checkInPhoto} alt="Check-in photo" className="w-12 h-12" />
+                    )}
                   </div>
                   
                   <div className="text-right space-y-2">
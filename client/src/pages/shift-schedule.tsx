@@ -0,0 +1,599 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { addDays, format, isSameDay, startOfWeek } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AdminHeader } from '@/components/AdminHeader';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { getAuthToken } from '@/lib/auth';
+import type { Employee, WorkSite, ShiftPattern } from '@shared/schema';
+import { ArrowLeft, ChevronLeft, ChevronRight, Plus, Repeat, Trash2, CalendarDays } from 'lucide-react';
+
+type ShiftStatus = 'scheduled' | 'late' | 'in_progress' | 'completed' | 'no_show' | 'on_leave';
+
+// Shape returned by GET /api/admin/shifts (see server/shifts.ts)
+interface ShiftOccurrence {
+  key: string;
+  shiftId: number | null;
+  patternId: number | null;
+  occurrenceDate: string | null;
+  employeeId: number;
+  siteId: number;
+  startTime: string;
+  endTime: string;
+  notes: string | null;
+  status: ShiftStatus;
+  lateMinutes: number;
+  earlyDepartureMinutes: number;
+  checkInTime: string | null;
+  checkOutTime: string | null;
+}
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const STATUS_STYLES: Record<ShiftStatus, { label: string; className: string }> = {
+  scheduled: { label: 'Scheduled', className: 'bg-blue-50 dark:bg-blue-900/30 border-blue-200 dark:border-blue-700 text-blue-800 dark:text-blue-300' },
+  late: { label: 'Not arrived', className: 'bg-amber-50 dark:bg-amber-900/30 border-amber-200 dark:border-amber-700 text-amber-800 dark:text-amber-300' },
+  in_progress: { label: 'On shift', className: 'bg-green-50 dark:bg-green-900/30 border-green-200 dark:border-green-700 text-green-800 dark:text-green-300' },
+  completed: { label: 'Completed', className: 'bg-slate-50 dark:bg-slate-700/50 border-slate-200 dark:border-slate-600 text-slate-700 dark:text-slate-300' },
+  no_show: { label: 'No-show', className: 'bg-red-50 dark:bg-red-900/30 border-red-200 dark:border-red-700 text-red-800 dark:text-red-300' },
+  on_leave: { label: 'On leave', className: 'bg-rose-50 dark:bg-rose-900/30 border-rose-200 dark:border-rose-700 text-rose-800 dark:text-rose-300' },
+};
+
+interface ShiftFormState {
+  mode: 'single' | 'weekly';
+  employeeId: string;
+  siteId: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  daysOfWeek: number[];
+  effectiveUntil: string;
+  notes: string;
+}
+
+const emptyForm = (date: Date = new Date()): ShiftFormState => ({
+  mode: 'single',
+  employeeId: '',
+  siteId: '',
+  date: format(date, 'yyyy-MM-dd'),
+  startTime: '09:00',
+  endTime: '17:00',
+  daysOfWeek: [1, 2, 3, 4, 5],
+  effectiveUntil: '',
+  notes: '',
+});
+
+// Combine a yyyy-MM-dd date and HH:mm time in local time; an end before the start rolls to the next day
+function buildShiftTimes(date: string, startTime: string, endTime: string) {
+  const start = new Date(`${date}T${startTime}`);
+  const end = new Date(`${date}T${endTime}`);
+  if (end <= start) {
+    end.setDate(end.getDate() + 1);
+  }
+  return { start, end };
+}
+
+export default function ShiftSchedule() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+  const [siteFilter, setSiteFilter] = useState('all');
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingOccurrence, setEditingOccurrence] = useState<ShiftOccurrence | null>(null);
+  const [form, setForm] = useState<ShiftFormState>(emptyForm());
+
+  const weekEnd = addDays(weekStart, 7);
+  const weekDays = useMemo(() => Array.from({ length: 7 }, (_, i) => addDays(weekStart, i)), [weekStart]);
+
+  const { data: occurrences = [], isLoading } = useQuery<ShiftOccurrence[]>({
+    queryKey: ['/api/admin/shifts', weekStart.toISOString(), siteFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams({ from: weekStart.toISOString(), to: weekEnd.toISOString() });
+      if (siteFilter !== 'all') params.set('siteId', siteFilter);
+      const response = await fetch(`/api/admin/shifts?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${getAuthToken()}`,
+        },
+      });
+      if (!response.ok) throw new Error('Failed to fetch shifts');
+      return response.json();
+    },
+    refetchInterval: 60000, // Keep statuses fresh as shifts start and end
+  });
+
+  const { data: patterns = [] } = useQuery<ShiftPattern[]>({
+    queryKey: ['/api/admin/shifts/patterns'],
+    queryFn: async () => {
+      const response = await fetch('/api/admin/shifts/patterns', {
+        headers: {
+          'Authorization': `Bearer ${getAuthToken()}`,
+        },
+      });
+      if (!response.ok) throw new Error('Failed to fetch shift patterns');
+      return response.json();
+    },
+  });
+
+  const { data: employees = [] } = useQuery<Employee[]>({
+    queryKey: ['/api/admin/employees'],
+    queryFn: async () => {
+      const response = await fetch('/api/admin/employees', {
+        headers: {
+          'Authorization': `Bearer ${getAuthToken()}`,
+        },
+      });
+      if (!response.ok) throw new Error('Failed to fetch employees');
+      return response.json();
+    },
+  });
+
+  const { data: sites = [] } = useQuery<WorkSite[]>({
+    queryKey: ['/api/admin/sites'],
+    queryFn: async () => {
+      const response = await fetch('/api/admin/sites', {
+        headers: {
+          'Authorization': `Bearer ${getAuthToken()}`,
+        },
+      });
+      if (!response.ok) throw new Error('Failed to fetch sites');
+      return response.json();
+    },
+  });
+
+  const getEmployeeName = (id: number) => {
+    const employee = employees.find(e => e.id === id);
+    return employee ? `${employee.firstName} ${employee.lastName}` : 'Unknown Employee';
+  };
+  const getSiteName = (id: number) => sites.find(s => s.id === id)?.name || 'Unknown Site';
+
+  // Only show rows for employees with shifts this week, plus active employees when no site filter is set
+  const scheduleRows = useMemo(() => {
+    const ids = new Set(occurrences.map(o => o.employeeId));
+    if (siteFilter === 'all') {
+      employees.filter(e => e.isActive).forEach(e => ids.add(e.id));
+    }
+    return Array.from(ids).sort((a, b) => getEmployeeName(a).localeCompare(getEmployeeName(b)));
+  }, [occurrences, employees, siteFilter]);
+
+  const invalidateShifts = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/shifts'] });
+  };
+
+  const saveShiftMutation = useMutation({
+    mutationFn: async (data: ShiftFormState) => {
+      if (data.mode === 'weekly') {
+        return apiRequest('POST', '/api/admin/shifts/patterns', {
+          employeeId: parseInt(data.employeeId),
+          siteId: parseInt(data.siteId),
+          daysOfWeek: data.daysOfWeek,
+          startTime: data.startTime,
+          endTime: data.endTime,
+          effectiveFrom: new Date(`${data.date}T00:00`).toISOString(),
+          effectiveUntil: data.effectiveUntil ? new Date(`${data.effectiveUntil}T00:00`).toISOString() : null,
+        });
+      }
+
+      const { start, end } = buildShiftTimes(data.date, data.startTime, data.endTime);
+      const payload = {
+        employeeId: parseInt(data.employeeId),
+        siteId: parseInt(data.siteId),
+        startTime: start.toISOString(),
+        endTime: end.toISOString(),
+        notes: data.notes || null,
+      };
+
+      if (editingOccurrence?.shiftId) {
+        return apiRequest('PUT', `/api/admin/shifts/${editingOccurrence.shiftId}`, payload);
+      }
+      // Editing a single occurrence of a weekly pattern stores it as an override for that date
+      return apiRequest('POST', '/api/admin/shifts', {
+        ...payload,
+        patternId: editingOccurrence?.patternId ?? null,
+        occurrenceDate: editingOccurrence?.occurrenceDate ?? null,
+      });
+    },
+    onSuccess: (_, data) => {
+      invalidateShifts();
+      setIsDialogOpen(false);
+      setEditingOccurrence(null);
+      toast({
+        title: 'Success',
+        description: data.mode === 'weekly' ? 'Weekly shift pattern created' : 'Shift saved successfully',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save shift',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteShiftMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest('DELETE', `/api/admin/shifts/${id}`),
+    onSuccess: () => {
+      invalidateShifts();
+      setIsDialogOpen(false);
+      setEditingOccurrence(null);
+      toast({ title: 'Success', description: 'Shift deleted successfully' });
+    },
+    onError: (error) => {
+      toast({ title: 'Error', description: error.message || 'Failed to delete shift', variant: 'destructive' });
+    },
+  });
+
+  const deletePatternMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest('DELETE', `/api/admin/shifts/patterns/${id}`),
+    onSuccess: () => {
+      invalidateShifts();
+      toast({ title: 'Success', description: 'Weekly shift pattern removed' });
+    },
+    onError: (error) => {
+      toast({ title: 'Error', description: error.message || 'Failed to delete shift pattern', variant: 'destructive' });
+    },
+  });
+
+  const openCreateDialog = (date: Date, employeeId?: number) => {
+    setEditingOccurrence(null);
+    setForm({ ...emptyForm(date), employeeId: employeeId ? employeeId.toString() : '' });
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (occurrence: ShiftOccurrence) => {
+    const start = new Date(occurrence.startTime);
+    setEditingOccurrence(occurrence);
+    setForm({
+      ...emptyForm(start),
+      employeeId: occurrence.employeeId.toString(),
+      siteId: occurrence.siteId.toString(),
+      startTime: format(start, 'HH:mm'),
+      endTime: format(new Date(occurrence.endTime), 'HH:mm'),
+      notes: occurrence.notes || '',
+    });
+    setIsDialogOpen(true);
+  };
+
+  const toggleDay = (day: number) => {
+    setForm(prev => ({
+      ...prev,
+      daysOfWeek: prev.daysOfWeek.includes(day)
+        ? prev.daysOfWeek.filter(d => d !== day)
+        : [...prev.daysOfWeek, day].sort(),
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.employeeId || !form.siteId) {
+      toast({ title: 'Missing details', description: 'Select an employee and a work site', variant: 'destructive' });
+      return;
+    }
+    if (form.mode === 'weekly' && form.daysOfWeek.length === 0) {
+      toast({ title: 'Missing details', description: 'Select at least one day of the week', variant: 'destructive' });
+      return;
+    }
+    saveShiftMutation.mutate(form);
+  };
+
+  // Default the site to the employee's assigned site when picking an employee
+  const handleEmployeeChange = (value: string) => {
+    const employee = employees.find(e => e.id.toString() === value);
+    setForm(prev => ({
+      ...prev,
+      employeeId: value,
+      siteId: prev.siteId || (employee?.siteId ? employee.siteId.toString() : ''),
+    }));
+  };
+
+  const formatShiftTime = (occurrence: ShiftOccurrence) =>
+    `${format(new Date(occurrence.startTime), 'HH:mm')} - ${format(new Date(occurrence.endTime), 'HH:mm')}`;
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900">
+      <AdminHeader />
+      <div className="max-w-screen-2xl mx-auto px-4 lg:px-8 py-6">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+          <div className="flex items-center">
+            <Link href="/admin/dashboard">
+              <Button variant="ghost" size="sm" className="mr-4">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Dashboard
+              </Button>
+            </Link>
+            <h1 className="text-2xl font-bold text-slate-900 dark:text-slate-100">Shift Schedule</h1>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={siteFilter} onValueChange={setSiteFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="All sites" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All sites</SelectItem>
+                {sites.map(site => (
+                  <SelectItem key={site.id} value={site.id.toString()}>{site.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={() => setWeekStart(addDays(weekStart, -7))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setWeekStart(startOfWeek(new Date()))}>
+              Today
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setWeekStart(addDays(weekStart, 7))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Button onClick={() => openCreateDialog(new Date())} className="bg-blue-600 hover:bg-blue-700">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Shift
+            </Button>
+          </div>
+        </div>
+
+        {/* Week calendar */}
+        <Card className="mb-6 bg-white dark:bg-slate-800 border-2 border-slate-300 dark:border-slate-600">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <CalendarDays className="h-5 w-5" />
+              {format(weekStart, 'MMM d')} - {format(addDays(weekStart, 6), 'MMM d, yyyy')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            {isLoading ? (
+              <p className="text-center text-slate-500 dark:text-slate-400 py-8">Loading shifts...</p>
+            ) : scheduleRows.length === 0 ? (
+              <p className="text-center text-slate-500 dark:text-slate-400 py-8">No shifts scheduled for this week</p>
+            ) : (
+              <table className="w-full min-w-[900px] border-collapse text-sm">
+                <thead>
+                  <tr>
+                    <th className="text-left p-2 w-44 text-slate-600 dark:text-slate-400">Employee</th>
+                    {weekDays.map(day => (
+                      <th
+                        key={day.toISOString()}
+                        className={`text-left p-2 text-slate-600 dark:text-slate-400 ${isSameDay(day, new Date()) ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}
+                      >
+                        {format(day, 'EEE d')}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {scheduleRows.map(employeeId => (
+                    <tr key={employeeId} className="border-t border-slate-200 dark:border-slate-700 align-top">
+                      <td className="p-2 font-medium text-slate-900 dark:text-slate-100">{getEmployeeName(employeeId)}</td>
+                      {weekDays.map(day => {
+                        const dayShifts = occurrences.filter(o => o.employeeId === employeeId && isSameDay(new Date(o.startTime), day));
+                        return (
+                          <td
+                            key={day.toISOString()}
+                            className="p-1 cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-700/40"
+                            onClick={() => openCreateDialog(day, employeeId)}
+                          >
+                            <div className="space-y-1 min-h-[2.5rem]">
+                              {dayShifts.map(occurrence => (
+                                <button
+                                  key={occurrence.key}
+                                  type="button"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    openEditDialog(occurrence);
+                                  }}
+                                  className={`w-full text-left rounded-md border px-2 py-1 ${STATUS_STYLES[occurrence.status].className}`}
+                                >
+                                  <div className="flex items-center gap-1 font-semibold">
+                                    {occurrence.patternId && <Repeat className="h-3 w-3" />}
+                                    {formatShiftTime(occurrence)}
+                                  </div>
+                                  <div className="text-xs truncate">{getSiteName(occurrence.siteId)}</div>
+                                  <div className="text-xs">
+                                    {STATUS_STYLES[occurrence.status].label}
+                                    {occurrence.lateMinutes > 0 && ` · ${occurrence.lateMinutes}m late`}
+                                    {occurrence.earlyDepartureMinutes > 0 && ` · left ${occurrence.earlyDepartureMinutes}m early`}
+                                  </div>
+                                </button>
+                              ))}
+                            </div>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Weekly patterns */}
+        <Card className="bg-white dark:bg-slate-800 border-2 border-slate-300 dark:border-slate-600">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Repeat className="h-5 w-5" />
+              Weekly Patterns
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {patterns.length === 0 ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400">No recurring shifts yet. Use "Add Shift" and choose "Repeats weekly".</p>
+            ) : (
+              <div className="space-y-2">
+                {patterns.map(pattern => (
+                  <div key={pattern.id} className="flex items-center justify-between gap-4 p-3 rounded-lg border border-slate-200 dark:border-slate-700">
+                    <div>
+                      <p className="font-medium text-slate-900 dark:text-slate-100">
+                        {getEmployeeName(pattern.employeeId)} · {getSiteName(pattern.siteId)}
+                      </p>
+                      <p className="text-sm text-slate-600 dark:text-slate-400">
+                        {pattern.daysOfWeek.map(d => DAY_LABELS[d]).join(', ')} · {pattern.startTime} - {pattern.endTime}
+                        {' · from '}{format(new Date(pattern.effectiveFrom), 'MMM d, yyyy')}
+                        {pattern.effectiveUntil && ` until ${format(new Date(pattern.effectiveUntil), 'MMM d, yyyy')}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {!pattern.isActive && <Badge variant="secondary">Paused</Badge>}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deletePatternMutation.mutate(pattern.id)}
+                        disabled={deletePatternMutation.isPending}
+                        className="text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => {
+        setIsDialogOpen(open);
+        if (!open) setEditingOccurrence(null);
+      }}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingOccurrence ? 'Edit Shift' : 'Add Shift'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {!editingOccurrence && (
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={form.mode === 'single' ? 'default' : 'outline'}
+                  onClick={() => setForm(prev => ({ ...prev, mode: 'single' }))}
+                >
+                  One-off shift
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={form.mode === 'weekly' ? 'default' : 'outline'}
+                  onClick={() => setForm(prev => ({ ...prev, mode: 'weekly' }))}
+                >
+                  <Repeat className="h-4 w-4 mr-1" />
+                  Repeats weekly
+                </Button>
+              </div>
+            )}
+            {editingOccurrence?.patternId && !editingOccurrence.shiftId && (
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                Changes apply to this date only. Remove the weekly pattern below to change every week.
+              </p>
+            )}
+
+            <div>
+              <Label>Employee</Label>
+              <Select value={form.employeeId} onValueChange={handleEmployeeChange}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select employee" />
+                </SelectTrigger>
+                <SelectContent>
+                  {employees.map(employee => (
+                    <SelectItem key={employee.id} value={employee.id.toString()}>
+                      {employee.firstName} {employee.lastName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label>Work Site</Label>
+              <Select value={form.siteId} onValueChange={(value) => setForm(prev => ({ ...prev, siteId: value }))}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select work site" />
+                </SelectTrigger>
+                <SelectContent>
+                  {sites.map(site => (
+                    <SelectItem key={site.id} value={site.id.toString()}>{site.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label>{form.mode === 'weekly' ? 'Starting from' : 'Date'}</Label>
+              <Input type="date" value={form.date} onChange={(e) => setForm(prev => ({ ...prev, date: e.target.value }))} required />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Start</Label>
+                <Input type="time" value={form.startTime} onChange={(e) => setForm(prev => ({ ...prev, startTime: e.target.value }))} required />
+              </div>
+              <div>
+                <Label>End</Label>
+                <Input type="time" value={form.endTime} onChange={(e) => setForm(prev => ({ ...prev, endTime: e.target.value }))} required />
+              </div>
+            </div>
+            {form.endTime <= form.startTime && (
+              <p className="text-xs text-slate-500 dark:text-slate-400">Overnight shift - ends the next day.</p>
+            )}
+
+            {form.mode === 'weekly' ? (
+              <>
+                <div>
+                  <Label>Days</Label>
+                  <div className="flex flex-wrap gap-3 mt-2">
+                    {DAY_LABELS.map((label, day) => (
+                      <label key={label} className="flex items-center gap-1 text-sm">
+                        <Checkbox checked={form.daysOfWeek.includes(day)} onCheckedChange={() => toggleDay(day)} />
+                        {label}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <Label>Until (optional)</Label>
+                  <Input type="date" value={form.effectiveUntil} onChange={(e) => setForm(prev => ({ ...prev, effectiveUntil: e.target.value }))} />
+                </div>
+              </>
+            ) : (
+              <div>
+                <Label>Notes</Label>
+                <Textarea value={form.notes} onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))} rows={2} />
+              </div>
+            )}
+
+            <div className="flex justify-between gap-2 pt-2">
+              {editingOccurrence?.shiftId ? (
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="text-red-600 border-red-200 hover:bg-red-50 dark:hover:bg-red-900/20"
+                  onClick={() => deleteShiftMutation.mutate(editingOccurrence.shiftId!)}
+                  disabled={deleteShiftMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </Button>
+              ) : <span />}
+              <div className="flex gap-2">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
+                <Button type="submit" disabled={saveShiftMutation.isPending} className="bg-blue-600 hover:bg-blue-700">
+                  {saveShiftMutation.isPending ? 'Saving...' : 'Save'}
+                </Button>
+              </div>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
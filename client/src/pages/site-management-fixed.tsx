@@ -22,6 +22,7 @@ import { Slider } from '@/components/ui/slider';
 import { Checkbox } from '@/components/ui/checkbox';
 import NotificationDropdown from '@/components/NotificationDropdown';
 import { CardHeader, CardTitle } from '@/components/ui/card';
+import type { GeofencePoint, GeofencePolygon } from '@shared/schema';
 import { 
   ArrowLeft, 
   Plus, 
@@ -32,7 +33,10 @@ import {
   Trash2,
   Camera,
   Image,
-  LogOut
+  LogOut,
+  Undo2,
+  Circle,
+  Hexagon
 } from 'lucide-react';
 
 const siteSchema = z.object({
@@ -41,9 +45,11 @@ const siteSchema = z.object({
   latitude: z.string().min(1, 'Latitude is required'),
   longitude: z.string().min(1, 'Longitude is required'),
   geofenceRadius: z.string().min(1, 'Geofence radius is required'),
+  maxGpsAccuracy: z.string().min(1, 'GPS accuracy limit is required'),
   areaId: z.string().optional(),
   siteImage: z.string().optional(),
   isRemote: z.boolean().optional().default(false),
+  requirePhoto: z.boolean().optional().default(false),
 });
 
 const areaSchema = z.object({
@@ -68,6 +74,8 @@ export default function SiteManagement() {
   const [selectedLocation, setSelectedLocation] = useState({ lat: 28.4595, lng: 77.0266 });
   const [siteImageURL, setSiteImageURL] = useState<string>('');
   const [selectedAreaView, setSelectedAreaView] = useState<any>(null);
+  const [boundaryType, setBoundaryType] = useState<'circle' | 'polygon'>('circle');
+  const [polygonRings, setPolygonRings] = useState<GeofencePolygon>([[]]);
   const siteImageInputRef = useRef<HTMLInputElement>(null);
   
   // Check authentication
@@ -104,8 +112,10 @@ export default function SiteManagement() {
       latitude: '',
       longitude: '',
       geofenceRadius: '200',
+      maxGpsAccuracy: '100',
       areaId: 'none',
       isRemote: false,
+      requirePhoto: false,
     },
   });
 
@@ -126,9 +136,14 @@ export default function SiteManagement() {
         latitude: parseFloat(data.latitude),
         longitude: parseFloat(data.longitude),
         geofenceRadius: parseInt(data.geofenceRadius),
+        maxGpsAccuracy: parseInt(data.maxGpsAccuracy),
         areaId: data.areaId && data.areaId !== 'none' ? parseInt(data.areaId) : null,
         siteImage: siteImageURL || undefined,
         isRemote: data.isRemote || false,
+        requirePhoto: data.requirePhoto || false,
+        geofencePolygon: boundaryType === 'polygon'
+          ? polygonRings.filter(ring => ring.length >= 3)
+          : null,
       };
       
       if (editingSite) {
@@ -144,6 +159,7 @@ export default function SiteManagement() {
       setEditingSite(null);
       form.reset();
       setSiteImageURL('');
+      resetBoundary();
       toast({
         title: 'Success',
         description: editingSite ? 'Work site updated successfully' : 'Work site created successfully',
@@ -335,6 +351,57 @@ export default function SiteManagement() {
     form.setValue('longitude', lng.toString());
   }, [form]);
 
+  function resetBoundary() {
+    setBoundaryType('circle');
+    setPolygonRings([[]]);
+  }
+
+  // Keep the site marker at the centre of the drawn boundary
+  const syncCenterToPolygon = useCallback((rings: GeofencePolygon) => {
+    const points = rings.flat();
+    if (points.length === 0) return;
+    const lat = points.reduce((sum, p) => sum + p.lat, 0) / points.length;
+    const lng = points.reduce((sum, p) => sum + p.lng, 0) / points.length;
+    form.setValue('latitude', lat.toFixed(8));
+    form.setValue('longitude', lng.toFixed(8));
+  }, [form]);
+
+  // In polygon mode map clicks add a vertex to the shape being drawn
+  const handleMapClick = useCallback((lat: number, lng: number) => {
+    if (boundaryType !== 'polygon') {
+      handleLocationSelect(lat, lng);
+      return;
+    }
+    const point: GeofencePoint = { lat, lng };
+    const nextRings = polygonRings.map((ring, index) =>
+      index === polygonRings.length - 1 ? [...ring, point] : ring
+    );
+    setPolygonRings(nextRings);
+    syncCenterToPolygon(nextRings);
+  }, [boundaryType, polygonRings, handleLocationSelect, syncCenterToPolygon]);
+
+  const handleUndoPolygonPoint = useCallback(() => {
+    const lastRing = polygonRings[polygonRings.length - 1];
+    if (lastRing.length === 0 && polygonRings.length > 1) {
+      setPolygonRings(polygonRings.slice(0, -1));
+      return;
+    }
+    setPolygonRings([...polygonRings.slice(0, -1), lastRing.slice(0, -1)]);
+  }, [polygonRings]);
+
+  const handleAddPolygonShape = useCallback(() => {
+    const lastRing = polygonRings[polygonRings.length - 1];
+    if (lastRing.length < 3) {
+      toast({
+        title: 'Shape Incomplete',
+        description: 'Add at least 3 points to the current shape before starting another.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setPolygonRings([...polygonRings, []]);
+  }, [polygonRings, toast]);
+
   const handleEditSite = useCallback((site: any) => {
     setEditingSite(site);
     form.reset({
@@ -343,11 +410,19 @@ export default function SiteManagement() {
       latitude: site.latitude.toString(),
       longitude: site.longitude.toString(),
       geofenceRadius: site.geofenceRadius.toString(),
+      maxGpsAccuracy: (site.maxGpsAccuracy ?? 100).toString(),
       isRemote: site.isRemote || false,
+      requirePhoto: site.requirePhoto || false,
       areaId: site.areaId ? site.areaId.toString() : 'none',
     });
     setSiteImageURL(site.siteImage || '');
     setSelectedLocation({ lat: Number(site.latitude), lng: Number(site.longitude) });
+    if (Array.isArray(site.geofencePolygon) && site.geofencePolygon.length > 0) {
+      setBoundaryType('polygon');
+      setPolygonRings(site.geofencePolygon);
+    } else {
+      resetBoundary();
+    }
     setIsDialogOpen(true);
   }, [form]);
 
@@ -384,8 +459,16 @@ export default function SiteManagement() {
   }, [sites, toast, deleteAreaMutation]);
 
   const onSubmit = useCallback((data: SiteForm) => {
+    if (boundaryType === 'polygon' && !polygonRings.some(ring => ring.length >= 3)) {
+      toast({
+        title: 'Boundary Required',
+        description: 'Click at least 3 points on the map to draw the site boundary.',
+        variant: 'destructive',
+      });
+      return;
+    }
     createSiteMutation.mutate(data);
-  }, [createSiteMutation]);
+  }, [createSiteMutation, boundaryType, polygonRings, toast]);
 
   const onAreaSubmit = useCallback((data: AreaForm) => {
     createAreaMutation.mutate(data);
@@ -514,6 +597,7 @@ export default function SiteManagement() {
                   setEditingSite(null);
                   form.reset();
                   setSiteImageURL('');
+                  resetBoundary();
                 }
               }}>
                 <DialogTrigger asChild>
@@ -558,7 +642,11 @@ export default function SiteManagement() {
 
                     {mapLoaded && (
                       <div>
-                        <Label>Location (Click on map to select)</Label>
+                        <Label>
+                          {boundaryType === 'polygon'
+                            ? 'Boundary (Click on map to add points)'
+                            : 'Location (Click on map to select)'}
+                        </Label>
                         <div className="h-64 rounded-lg overflow-hidden border">
                           <GoogleMap
                             center={selectedLocation}
@@ -568,12 +656,16 @@ export default function SiteManagement() {
                               title: form.watch('name') || 'New Site',
                               type: 'site'
                             }]}
-                            geofences={[{
+                            geofences={boundaryType === 'circle' ? [{
                               center: selectedLocation,
                               radius: parseInt(form.watch('geofenceRadius') || '0') || 0,
                               color: '#2563eb'
-                            }]}
-                            onMapClick={(lat, lng) => handleLocationSelect(lat, lng)}
+                            }] : []}
+                            polygons={boundaryType === 'polygon' ? polygonRings.map((ring) => ({
+                              paths: ring,
+                              color: '#2563eb'
+                            })) : []}
+                            onMapClick={handleMapClick}
                           />
                         </div>
                       </div>
@@ -628,30 +720,112 @@ export default function SiteManagement() {
                     </div>
                     
                     <div>
-                      <Label htmlFor="geofenceRadius">Geofence Radius (meters)</Label>
+                      <Label>Geofence Boundary</Label>
+                      <div className="flex gap-2 mt-2">
+                        <Button
+                          type="button"
+                          variant={boundaryType === 'circle' ? 'default' : 'outline'}
+                          size="sm"
+                          onClick={() => setBoundaryType('circle')}
+                        >
+                          <Circle className="h-4 w-4 mr-1" />
+                          Radius
+                        </Button>
+                        <Button
+                          type="button"
+                          variant={boundaryType === 'polygon' ? 'default' : 'outline'}
+                          size="sm"
+                          onClick={() => setBoundaryType('polygon')}
+                        >
+                          <Hexagon className="h-4 w-4 mr-1" />
+                          Polygon
+                        </Button>
+                      </div>
+                      {boundaryType === 'polygon' && (
+                        <div className="mt-3 space-y-2">
+                          <p className="text-xs text-muted-foreground">
+                            Shape {polygonRings.length}: {polygonRings[polygonRings.length - 1].length} points.
+                            Add another shape for L-shaped yards or split corridors.
+                          </p>
+                          <div className="flex flex-wrap gap-2">
+                            <Button type="button" variant="outline" size="sm" onClick={handleUndoPolygonPoint}>
+                              <Undo2 className="h-4 w-4 mr-1" />
+                              Undo Point
+                            </Button>
+                            <Button type="button" variant="outline" size="sm" onClick={handleAddPolygonShape}>
+                              <Plus className="h-4 w-4 mr-1" />
+                              Add Shape
+                            </Button>
+                            <Button type="button" variant="outline" size="sm" onClick={() => setPolygonRings([[]])}>
+                              <Trash2 className="h-4 w-4 mr-1" />
+                              Clear
+                            </Button>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+
+                    {boundaryType === 'circle' && (
+                      <div>
+                        <Label htmlFor="geofenceRadius">Geofence Radius (meters)</Label>
+                        <Input
+                          id="geofenceRadius"
+                          {...form.register('geofenceRadius')}
+                          placeholder="200"
+                          type="number"
+                          className="mb-3"
+                        />
+                        <div className="px-1">
+                          <Slider
+                            value={[parseInt(form.watch('geofenceRadius') || '0') || 0]}
+                            onValueChange={(vals) => form.setValue('geofenceRadius', String(vals[0] ?? 0))}
+                            min={50}
+                            max={1000}
+                            step={10}
+                          />
+                          <div className="mt-2 text-xs text-muted-foreground">Radius: {form.watch('geofenceRadius') || 0}m</div>
+                        </div>
+                        {form.formState.errors.geofenceRadius && (
+                          <p className="text-error text-sm mt-1">
+                            {form.formState.errors.geofenceRadius.message}
+                          </p>
+                        )}
+                      </div>
+                    )}
+
+                    <div>
+                      <Label htmlFor="maxGpsAccuracy">Required GPS Accuracy (meters)</Label>
                       <Input
-                        id="geofenceRadius"
-                        {...form.register('geofenceRadius')}
-                        placeholder="200"
+                        id="maxGpsAccuracy"
+                        {...form.register('maxGpsAccuracy')}
+                        placeholder="100"
                         type="number"
-                        className="mb-3"
+                        min={5}
+                        max={1000}
                       />
-                      <div className="px-1">
-                        <Slider
-                          value={[parseInt(form.watch('geofenceRadius') || '0') || 0]}
-                          onValueChange={(vals) => form.setValue('geofenceRadius', String(vals[0] ?? 0))}
-                          min={50}
-                          max={1000}
-                          step={10}
-                        />
-                        <div className="mt-2 text-xs text-muted-foreground">Radius: {form.watch('geofenceRadius') || 0}m</div>
-                      </div>
-                      {form.formState.errors.geofenceRadius && (
+                      <p className="mt-1 text-xs text-muted-foreground">
+                        Check-ins and check-outs with a less accurate GPS reading are refused
+                      </p>
+                      {form.formState.errors.maxGpsAccuracy && (
                         <p className="text-error text-sm mt-1">
-                          {form.formState.errors.geofenceRadius.message}
+                          {form.formState.errors.maxGpsAccuracy.message}
                         </p>
                       )}
                     </div>
+
+                    <div className="flex items-start gap-2">
+                      <Checkbox
+                        id="requirePhoto"
+                        checked={form.watch('requirePhoto')}
+                        onCheckedChange={(checked) => form.setValue('requirePhoto', checked === true)}
+                      />
+                      <div>
+                        <Label htmlFor="requirePhoto">Require a photo at check-in and checkout</Label>
+                        <p className="mt-1 text-xs text-muted-foreground">
+                          Employees take a selfie so you can confirm who clocked in
+                        </p>
+                      </div>
+                    </div>
                     
                     <div>
                       <Label>Site Image</Label>
@@ -726,6 +900,7 @@ export default function SiteManagement() {
                   setEditingSite(null);
                   form.reset();
                   setSiteImageURL('');
+                  resetBoundary();
                 }
               }}>
                 <DialogTrigger asChild>
@@ -770,7 +945,11 @@ export default function SiteManagement() {
 
                     {mapLoaded && (
                       <div>
-                        <Label>Location (Click on map to select)</Label>
+                        <Label>
+                          {boundaryType === 'polygon'
+                            ? 'Boundary (Click on map to add points)'
+                            : 'Location (Click on map to select)'}
+                        </Label>
                         <div className="h-64 rounded-lg overflow-hidden border">
                           <GoogleMap
                             center={selectedLocation}
@@ -780,12 +959,16 @@ export default function SiteManagement() {
                               title: form.watch('name') || 'New Site',
                               type: 'site'
                             }]}
-                            geofences={[{
+                            geofences={boundaryType === 'circle' ? [{
                               center: selectedLocation,
                               radius: parseInt(form.watch('geofenceRadius') || '0') || 0,
                               color: '#2563eb'
-                            }]}
-                            onMapClick={(lat, lng) => handleLocationSelect(lat, lng)}
+                            }] : []}
+                            polygons={boundaryType === 'polygon' ? polygonRings.map((ring) => ({
+                              paths: ring,
+                              color: '#2563eb'
+                            })) : []}
+                            onMapClick={handleMapClick}
                           />
                         </div>
                       </div>
@@ -840,31 +1023,113 @@ export default function SiteManagement() {
                     </div>
                     
                     <div>
-                      <Label htmlFor="geofenceRadius">Geofence Radius (meters)</Label>
+                      <Label>Geofence Boundary</Label>
+                      <div className="flex gap-2 mt-2">
+                        <Button
+                          type="button"
+                          variant={boundaryType === 'circle' ? 'default' : 'outline'}
+                          size="sm"
+                          onClick={() => setBoundaryType('circle')}
+                        >
+                          <Circle className="h-4 w-4 mr-1" />
+                          Radius
+                        </Button>
+                        <Button
+                          type="button"
+                          variant={boundaryType === 'polygon' ? 'default' : 'outline'}
+                          size="sm"
+                          onClick={() => setBoundaryType('polygon')}
+                        >
+                          <Hexagon className="h-4 w-4 mr-1" />
+                          Polygon
+                        </Button>
+                      </div>
+                      {boundaryType === 'polygon' && (
+                        <div className="mt-3 space-y-2">
+                          <p className="text-xs text-muted-foreground">
+                            Shape {polygonRings.length}: {polygonRings[polygonRings.length - 1].length} points.
+                            Add another shape for L-shaped yards or split corridors.
+                          </p>
+                          <div className="flex flex-wrap gap-2">
+                            <Button type="button" variant="outline" size="sm" onClick={handleUndoPolygonPoint}>
+                              <Undo2 className="h-4 w-4 mr-1" />
+                              Undo Point
+                            </Button>
+                            <Button type="button" variant="outline" size="sm" onClick={handleAddPolygonShape}>
+                              <Plus className="h-4 w-4 mr-1" />
+                              Add Shape
+                            </Button>
+                            <Button type="button" variant="outline" size="sm" onClick={() => setPolygonRings([[]])}>
+                              <Trash2 className="h-4 w-4 mr-1" />
+                              Clear
+                            </Button>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+
+                    {boundaryType === 'circle' && (
+                      <div>
+                        <Label htmlFor="geofenceRadius">Geofence Radius (meters)</Label>
+                        <Input
+                          id="geofenceRadius"
+                          {...form.register('geofenceRadius')}
+                          placeholder="200"
+                          type="number"
+                          className="mb-3"
+                        />
+                        <div className="px-1">
+                          <Slider
+                            value={[parseInt(form.watch('geofenceRadius') || '200')]}
+                            onValueChange={(value) => form.setValue('geofenceRadius', value[0].toString())}
+                            min={50}
+                            max={1000}
+                            step={50}
+                            className="w-full"
+                          />
+                          <div className="mt-2 text-xs text-muted-foreground">Radius: {form.watch('geofenceRadius') || 0}m</div>
+                        </div>
+                        {form.formState.errors.geofenceRadius && (
+                          <p className="text-error text-sm mt-1">
+                            {form.formState.errors.geofenceRadius.message}
+                          </p>
+                        )}
+                      </div>
+                    )}
+
+                    <div>
+                      <Label htmlFor="maxGpsAccuracy">Required GPS Accuracy (meters)</Label>
                       <Input
-                        id="geofenceRadius"
-                        {...form.register('geofenceRadius')}
-                        placeholder="200"
+                        id="maxGpsAccuracy"
+                        {...form.register('maxGpsAccuracy')}
+                        placeholder="100"
                         type="number"
-                        className="mb-3"
+                        min={5}
+                        max={1000}
                       />
-                      <div className="px-1">
-                        <Slider
-                          value={[parseInt(form.watch('geofenceRadius') || '200')]}
-                          onValueChange={(value) => form.setValue('geofenceRadius', value[0].toString())}
-                          min={50}
-                          max={1000}
-                          step={50}
-                          className="w-full"
-                        />
-                        <div className="mt-2 text-xs text-muted-foreground">Radius: {form.watch('geofenceRadius') || 0}m</div>
-                      </div>
-                      {form.formState.errors.geofenceRadius && (
+                      <p className="mt-1 text-xs text-muted-foreground">
+                        Check-ins and check-outs with a less accurate GPS reading are refused
+                      </p>
+                      {form.formState.errors.maxGpsAccuracy && (
                         <p className="text-error text-sm mt-1">
-                          {form.formState.errors.geofenceRadius.message}
+                          {form.formState.errors.maxGpsAccuracy.message}
                         </p>
                       )}
                     </div>
+
+                    <div className="flex items-start gap-2">
+                      <Checkbox
+                        id="requirePhoto"
+                        checked={form.watch('requirePhoto')}
+                        onCheckedChange={(checked) => form.setValue('requirePhoto', checked === true)}
+                      />
+                      <div>
+                        <Label htmlFor="requirePhoto">Require a photo at check-in and checkout</Label>
+                        <p className="mt-1 text-xs text-muted-foreground">
+                          Employees take a selfie so you can confirm who clocked in
+                        </p>
+                      </div>
+                    </div>
                     
                     <div>
                       <Label>Site Image</Label>
@@ -991,7 +1256,9 @@ export default function SiteManagement() {
                         </span>
                         <span className="flex items-center">
                           <span className="w-2 h-2 rounded-full bg-blue-500 mr-1"></span>
-                          {site.geofenceRadius}m radius
+                          {Array.isArray(site.geofencePolygon) && site.geofencePolygon.length > 0
+                            ? 'Polygon boundary'
+                            : `${site.geofenceRadius}m radius`}
                         </span>
                       </div>
                       <div className="flex space-x-2">
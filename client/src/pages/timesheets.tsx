@@ -0,0 +1,291 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { addDays, format, startOfWeek } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AdminHeader } from '@/components/AdminHeader';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { getAuthToken } from '@/lib/auth';
+import type { Timesheet, TimesheetStatus } from '@shared/schema';
+import { ArrowLeft, ChevronLeft, ChevronRight, CheckCircle, XCircle, RotateCcw, ClipboardCheck } from 'lucide-react';
+
+// Shape returned by GET /api/admin/timesheets (see server/timesheets.ts)
+interface TimesheetRow {
+  employeeId: number;
+  weekStart: string;
+  status: TimesheetStatus;
+  workedMinutes: number;
+  breakMinutes: number;
+  sessions: number;
+  openSessions: number;
+  dailyMinutes: number[];
+  timesheet: Timesheet | null;
+  employee: {
+    id: number;
+    firstName: string;
+    lastName: string;
+    email: string;
+    isActive: boolean;
+  };
+}
+
+interface TimesheetWeek {
+  weekStart: string;
+  timesheets: TimesheetRow[];
+}
+
+interface BulkResult {
+  skipped?: { employeeId: number; reason: string }[];
+}
+
+const STATUS_STYLES: Record<TimesheetStatus, { label: string; className: string }> = {
+  draft: { label: 'Draft', className: 'bg-slate-100 text-slate-700 dark:bg-slate-700 dark:text-slate-300' },
+  submitted: { label: 'Submitted', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300' },
+  approved: { label: 'Approved', className: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300' },
+  rejected: { label: 'Rejected', className: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300' },
+};
+
+// 450 -> "7:30"
+const formatMinutes = (minutes: number) => `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}`;
+
+export default function Timesheets() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+  const [selected, setSelected] = useState<number[]>([]);
+  const [isRejectOpen, setIsRejectOpen] = useState(false);
+  const [rejectComment, setRejectComment] = useState('');
+
+  const weekKey = format(weekStart, 'yyyy-MM-dd');
+  const weekDays = useMemo(() => Array.from({ length: 7 }, (_, i) => addDays(weekStart, i)), [weekStart]);
+
+  const { data, isLoading } = useQuery<TimesheetWeek>({
+    queryKey: ['/api/admin/timesheets', weekKey],
+    queryFn: async () => {
+      const response = await fetch(`/api/admin/timesheets?weekStart=${weekKey}`, {
+        headers: {
+          'Authorization': `Bearer ${getAuthToken()}`,
+        },
+      });
+      if (!response.ok) throw new Error('Failed to fetch timesheets');
+      return response.json();
+    },
+  });
+
+  // Hide inactive employees unless they have time or a timesheet for the week
+  const rows = useMemo(() => (data?.timesheets || [])
+    .filter(row => row.employee.isActive || row.sessions > 0 || row.timesheet)
+    .sort((a, b) => `${a.employee.firstName} ${a.employee.lastName}`.localeCompare(`${b.employee.firstName} ${b.employee.lastName}`)),
+    [data]);
+
+  const changeWeek = (date: Date) => {
+    setWeekStart(date);
+    setSelected([]);
+  };
+
+  const toggleSelected = (employeeId: number) => {
+    setSelected(prev => prev.includes(employeeId) ? prev.filter(id => id !== employeeId) : [...prev, employeeId]);
+  };
+
+  const toggleAll = () => {
+    setSelected(prev => prev.length === rows.length ? [] : rows.map(row => row.employeeId));
+  };
+
+  const createBulkMutation = (action: 'approve' | 'reject' | 'reopen', successMessage: string) => ({
+    mutationFn: async (payload: { employeeIds: number[]; comment?: string }): Promise<BulkResult> => {
+      const response = await apiRequest('POST', `/api/admin/timesheets/${action}`, { weekStart: weekKey, ...payload });
+      return response.json();
+    },
+    onSuccess: (result: BulkResult) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/timesheets'] });
+      setSelected([]);
+      const skipped = result.skipped?.length || 0;
+      toast({
+        title: 'Success',
+        description: skipped > 0 ? `${successMessage} (${skipped} skipped: ${result.skipped![0].reason})` : successMessage,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message || `Failed to ${action} timesheets`, variant: 'destructive' as const });
+    },
+  });
+
+  const approveMutation = useMutation(createBulkMutation('approve', 'Timesheets approved'));
+  const rejectMutation = useMutation({
+    ...createBulkMutation('reject', 'Timesheets rejected'),
+    onSettled: () => {
+      setIsRejectOpen(false);
+      setRejectComment('');
+    },
+  });
+  const reopenMutation = useMutation(createBulkMutation('reopen', 'Timesheets reopened'));
+
+  const isBusy = approveMutation.isPending || rejectMutation.isPending || reopenMutation.isPending;
+
+  const handleReject = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rejectComment.trim()) {
+      toast({ title: 'Missing details', description: 'Add a comment explaining the rejection', variant: 'destructive' });
+      return;
+    }
+    rejectMutation.mutate({ employeeIds: selected, comment: rejectComment.trim() });
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900">
+      <AdminHeader />
+      <div className="max-w-screen-2xl mx-auto px-4 lg:px-8 py-6">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+          <div className="flex items-center">
+            <Link href="/admin/dashboard">
+              <Button variant="ghost" size="sm" className="mr-4">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Dashboard
+              </Button>
+            </Link>
+            <h1 className="text-2xl font-bold text-slate-900 dark:text-slate-100">Timesheets</h1>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => changeWeek(addDays(weekStart, -7))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => changeWeek(startOfWeek(new Date()))}>
+              This Week
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => changeWeek(addDays(weekStart, 7))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <Card className="bg-white dark:bg-slate-800 border-2 border-slate-300 dark:border-slate-600">
+          <CardHeader className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <ClipboardCheck className="h-5 w-5" />
+              {format(weekStart, 'MMM d')} - {format(addDays(weekStart, 6), 'MMM d, yyyy')}
+            </CardTitle>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                size="sm"
+                className="bg-green-600 hover:bg-green-700"
+                disabled={selected.length === 0 || isBusy}
+                onClick={() => approveMutation.mutate({ employeeIds: selected })}
+              >
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Approve ({selected.length})
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="text-red-600 border-red-200 hover:bg-red-50 dark:hover:bg-red-900/20"
+                disabled={selected.length === 0 || isBusy}
+                onClick={() => setIsRejectOpen(true)}
+              >
+                <XCircle className="h-4 w-4 mr-2" />
+                Reject
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={selected.length === 0 || isBusy}
+                onClick={() => reopenMutation.mutate({ employeeIds: selected })}
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Reopen
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            {isLoading ? (
+              <p className="text-center text-slate-500 dark:text-slate-400 py-8">Loading timesheets...</p>
+            ) : rows.length === 0 ? (
+              <p className="text-center text-slate-500 dark:text-slate-400 py-8">No employees to show for this week</p>
+            ) : (
+              <table className="w-full min-w-[900px] border-collapse text-sm">
+                <thead>
+                  <tr>
+                    <th className="p-2 w-8">
+                      <Checkbox checked={selected.length === rows.length} onCheckedChange={toggleAll} />
+                    </th>
+                    <th className="text-left p-2 text-slate-600 dark:text-slate-400">Employee</th>
+                    {weekDays.map(day => (
+                      <th key={day.toISOString()} className="text-right p-2 text-slate-600 dark:text-slate-400">{format(day, 'EEE d')}</th>
+                    ))}
+                    <th className="text-right p-2 text-slate-600 dark:text-slate-400">Breaks</th>
+                    <th className="text-right p-2 text-slate-600 dark:text-slate-400">Total</th>
+                    <th className="text-left p-2 text-slate-600 dark:text-slate-400">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.employeeId} className="border-t border-slate-200 dark:border-slate-700 align-top">
+                      <td className="p-2">
+                        <Checkbox checked={selected.includes(row.employeeId)} onCheckedChange={() => toggleSelected(row.employeeId)} />
+                      </td>
+                      <td className="p-2 font-medium text-slate-900 dark:text-slate-100">
+                        {row.employee.firstName} {row.employee.lastName}
+                        {row.openSessions > 0 && (
+                          <div className="text-xs font-normal text-amber-600 dark:text-amber-400">Still checked in</div>
+                        )}
+                      </td>
+                      {row.dailyMinutes.map((minutes, index) => (
+                        <td key={index} className="p-2 text-right text-slate-700 dark:text-slate-300">
+                          {minutes > 0 ? formatMinutes(minutes) : '-'}
+                        </td>
+                      ))}
+                      <td className="p-2 text-right text-slate-500 dark:text-slate-400">{formatMinutes(row.breakMinutes)}</td>
+                      <td className="p-2 text-right font-semibold text-slate-900 dark:text-slate-100">{formatMinutes(row.workedMinutes)}</td>
+                      <td className="p-2">
+                        <Badge className={STATUS_STYLES[row.status].className}>{STATUS_STYLES[row.status].label}</Badge>
+                        {row.status === 'submitted' && row.timesheet?.submittedAt && (
+                          <div className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                            {format(new Date(row.timesheet.submittedAt), 'MMM d, HH:mm')}
+                          </div>
+                        )}
+                        {row.status === 'rejected' && row.timesheet?.comment && (
+                          <div className="text-xs text-red-600 dark:text-red-400 mt-1 max-w-[12rem]">{row.timesheet.comment}</div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={isRejectOpen} onOpenChange={setIsRejectOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reject {selected.length} Timesheet{selected.length === 1 ? '' : 's'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleReject} className="space-y-4">
+            <div>
+              <Label>Comment</Label>
+              <Textarea
+                value={rejectComment}
+                onChange={(e) => setRejectComment(e.target.value)}
+                placeholder="Explain what needs to be corrected"
+                rows={3}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setIsRejectOpen(false)}>Cancel</Button>
+              <Button type="submit" disabled={rejectMutation.isPending} className="bg-red-600 hover:bg-red-700">
+                {rejectMutation.isPending ? 'Rejecting...' : 'Reject'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
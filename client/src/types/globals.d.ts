@@ -16,6 +16,11 @@ declare namespace google {
       setMap(map: Map | null): void;
     }
 
+    class Polygon {
+      constructor(options: any);
+      setMap(map: Map | null): void;
+    }
+
     namespace event {
       function addListener(instance: any, eventName: string, handler: Function): void;
     }
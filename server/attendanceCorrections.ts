@@ -0,0 +1,203 @@
+import type {
+  Attendance,
+  AttendanceCorrectionReason,
+  AttendanceSnapshot,
+} from "@shared/schema";
+import { storage } from "./storage";
+
+// Thrown when a correction is well-formed but cannot be applied to the record
+export class AttendanceCorrectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AttendanceCorrectionError";
+    Object.setPrototypeOf(this, AttendanceCorrectionError.prototype);
+  }
+}
+
+interface CorrectionReason {
+  reasonCode: AttendanceCorrectionReason;
+  note?: string | null;
+}
+
+const toIso = (value: Date | string | null | undefined) => value ? new Date(value).toISOString() : null;
+
+export function toAttendanceSnapshot(record: Attendance): AttendanceSnapshot {
+  return {
+    siteId: record.siteId,
+    checkInTime: toIso(record.checkInTime),
+    checkOutTime: toIso(record.checkOutTime),
+    checkInLatitude: record.checkInLatitude,
+    checkInLongitude: record.checkInLongitude,
+    checkOutLatitude: record.checkOutLatitude,
+    checkOutLongitude: record.checkOutLongitude,
+  };
+}
+
+async function assertNoOverlap(employeeId: number, from: Date, to: Date | null, excludeIds: number[]): Promise<void> {
+  const overlapping = await storage.getOverlappingAttendance(employeeId, from, to, excludeIds);
+  if (overlapping.length > 0) {
+    throw new AttendanceCorrectionError('The corrected times overlap another attendance record for this employee');
+  }
+}
+
+// Record the silent close done by check-in when the previous session was never checked out
+export async function recordAutoClose(before: Attendance, after: Attendance): Promise<void> {
+  await storage.createAttendanceRevision({
+    attendanceId: after.id,
+    employeeId: after.employeeId,
+    adminId: null,
+    action: 'auto_close',
+    reasonCode: 'missed_checkout',
+    note: 'Closed automatically by the next check-in',
+    before: toAttendanceSnapshot(before),
+    after: toAttendanceSnapshot(after),
+  });
+}
+
+// Add a record for time the employee worked but never checked in for
+export async function createManualAttendance(
+  adminId: number,
+  employeeId: number,
+  data: CorrectionReason & { siteId: number; checkInTime: Date; checkOutTime: Date }
+): Promise<Attendance> {
+  await assertNoOverlap(employeeId, data.checkInTime, data.checkOutTime, []);
+
+  const record = await storage.createAttendance({
+    employeeId,
+    siteId: data.siteId,
+    checkInTime: data.checkInTime,
+    checkOutTime: data.checkOutTime,
+    isManual: true,
+    correctedAt: new Date(),
+  });
+
+  await storage.createAttendanceRevision({
+    attendanceId: record.id,
+    employeeId,
+    adminId,
+    action: 'create',
+    reasonCode: data.reasonCode,
+    note: data.note ?? null,
+    before: null,
+    after: toAttendanceSnapshot(record),
+  });
+
+  return record;
+}
+
+// Change the times or site of a record. Coordinates for a changed time are cleared,
+// since they no longer describe where the employee was at that time - the original
+// values stay in the revision.
+export async function editAttendance(
+  adminId: number,
+  record: Attendance,
+  data: CorrectionReason & { siteId?: number; checkInTime?: Date; checkOutTime?: Date }
+): Promise<Attendance> {
+  const checkInTime = data.checkInTime ?? (record.checkInTime ? new Date(record.checkInTime) : null);
+  const checkOutTime = data.checkOutTime ?? (record.checkOutTime ? new Date(record.checkOutTime) : null);
+  if (!checkInTime) {
+    throw new AttendanceCorrectionError('A check-in time is required');
+  }
+  if (checkOutTime && checkOutTime <= checkInTime) {
+    throw new AttendanceCorrectionError('Check-out time must be after the check-in time');
+  }
+  if (checkOutTime && checkOutTime > new Date()) {
+    throw new AttendanceCorrectionError('Check-out time cannot be in the future');
+  }
+
+  const changes: Partial<Attendance> = {};
+  if (data.siteId !== undefined && data.siteId !== record.siteId) {
+    changes.siteId = data.siteId;
+  }
+  if (data.checkInTime && toIso(data.checkInTime) !== toIso(record.checkInTime)) {
+    changes.checkInTime = data.checkInTime;
+    changes.checkInLatitude = null;
+    changes.checkInLongitude = null;
+  }
+  if (data.checkOutTime && toIso(data.checkOutTime) !== toIso(record.checkOutTime)) {
+    changes.checkOutTime = data.checkOutTime;
+    changes.checkOutLatitude = null;
+    changes.checkOutLongitude = null;
+  }
+  if (Object.keys(changes).length === 0) {
+    throw new AttendanceCorrectionError('No changes to save');
+  }
+
+  await assertNoOverlap(record.employeeId, checkInTime, checkOutTime, [record.id]);
+
+  const updated = await storage.updateAttendance(record.id, { ...changes, correctedAt: new Date() });
+
+  await storage.createAttendanceRevision({
+    attendanceId: record.id,
+    employeeId: record.employeeId,
+    adminId,
+    action: 'edit',
+    reasonCode: data.reasonCode,
+    note: data.note ?? null,
+    before: toAttendanceSnapshot(record),
+    after: toAttendanceSnapshot(updated),
+  });
+
+  return updated;
+}
+
+// Split a session in two. The first part keeps the original check-in and ends at
+// splitTime; the second starts at resumeTime and keeps the original check-out (or
+// stays open). Breaks move with the part they started in.
+export async function splitAttendance(
+  adminId: number,
+  record: Attendance,
+  data: CorrectionReason & { splitTime: Date; resumeTime?: Date | null }
+): Promise<{ first: Attendance; second: Attendance }> {
+  if (!record.checkInTime) {
+    throw new AttendanceCorrectionError('Record has no check-in time');
+  }
+
+  const resumeTime = data.resumeTime ?? data.splitTime;
+  const end = record.checkOutTime ? new Date(record.checkOutTime) : new Date();
+  if (data.splitTime <= new Date(record.checkInTime) || resumeTime >= end) {
+    throw new AttendanceCorrectionError('Split time must fall inside the attendance record');
+  }
+
+  const before = toAttendanceSnapshot(record);
+  const correctedAt = new Date();
+  const revision = (part: Attendance, other: Attendance) => ({
+    attendanceId: part.id,
+    employeeId: record.employeeId,
+    adminId,
+    action: 'split' as const,
+    reasonCode: data.reasonCode,
+    note: data.note ?? null,
+    before,
+    after: toAttendanceSnapshot(part),
+    relatedAttendanceId: other.id,
+  });
+
+  // The checkout moves to the second part; a break still running on the first part
+  // ends at the split
+  return storage.splitAttendance(
+    record.id,
+    {
+      employeeId: record.employeeId,
+      siteId: record.siteId,
+      shiftId: record.shiftId,
+      checkInTime: resumeTime,
+      checkOutTime: record.checkOutTime,
+      checkOutLatitude: record.checkOutLatitude,
+      checkOutLongitude: record.checkOutLongitude,
+      checkOutAccuracy: record.checkOutAccuracy,
+      checkOutPhoto: record.checkOutPhoto,
+      isManual: true,
+      correctedAt,
+    },
+    {
+      checkOutTime: data.splitTime,
+      checkOutLatitude: null,
+      checkOutLongitude: null,
+      checkOutAccuracy: null,
+      checkOutPhoto: null,
+      correctedAt,
+    },
+    (first, second) => [revision(first, second), revision(second, first)]
+  );
+}
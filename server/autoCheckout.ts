@@ -0,0 +1,201 @@
+import type { Attendance, AutoCheckoutPolicy, AutoCheckoutReason } from "@shared/schema";
+import type { AdminNotification } from "@shared/realtime";
+import { storage } from "./storage";
+import { toAttendanceSnapshot } from "./attendanceCorrections";
+import { TimesheetLockedError } from "./timesheets";
+import { runExclusively } from "./schedulerLock";
+
+const EVALUATION_INTERVAL_MS = 60 * 1000;
+const MINUTE = 60 * 1000;
+
+type AutoCheckoutNotifier = (adminId: number, notification: AdminNotification) => void;
+
+// A policy rule that has fired: when the session should be considered closed
+export interface AutoCheckoutDecision {
+  reason: AutoCheckoutReason;
+  checkOutTime: Date;
+}
+
+// Context the policy needs beyond the attendance row itself
+export interface AutoCheckoutContext {
+  shiftEndTime: Date | null;
+  offsiteSince: Date | null; // Start of the current continuous off-site stretch
+}
+
+const REASON_DESCRIPTIONS: Record<AutoCheckoutReason, string> = {
+  shift_end: 'at the end of their shift',
+  fixed_time: 'at the daily checkout time',
+  offsite: 'after leaving the work site',
+  max_hours: 'after reaching the maximum session length',
+};
+
+// First occurrence of "HH:mm" (server local time) after `after`
+function nextTimeOfDay(after: Date, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const result = new Date(after);
+  result.setHours(hours, minutes, 0, 0);
+  if (result <= after) {
+    result.setDate(result.getDate() + 1);
+  }
+  return result;
+}
+
+// Evaluate every enabled rule of a policy against an open session. Rules that have
+// fired produce a checkout time; the earliest one wins. Returns null when no rule
+// has fired yet.
+export function resolveAutoCheckout(
+  policy: AutoCheckoutPolicy,
+  record: Attendance,
+  context: AutoCheckoutContext,
+  now: Date = new Date()
+): AutoCheckoutDecision | null {
+  if (!policy.isEnabled || !record.checkInTime || record.checkOutTime) return null;
+
+  const checkIn = new Date(record.checkInTime);
+  const fired: AutoCheckoutDecision[] = [];
+
+  if (policy.atShiftEnd && context.shiftEndTime) {
+    const triggerAt = new Date(context.shiftEndTime.getTime() + policy.shiftEndGraceMinutes * MINUTE);
+    if (now >= triggerAt) {
+      fired.push({ reason: 'shift_end', checkOutTime: context.shiftEndTime });
+    }
+  }
+
+  if (policy.fixedTime) {
+    const closeAt = nextTimeOfDay(checkIn, policy.fixedTime);
+    if (now >= closeAt) {
+      fired.push({ reason: 'fixed_time', checkOutTime: closeAt });
+    }
+  }
+
+  if (policy.offsiteMinutes && context.offsiteSince) {
+    if (now.getTime() - context.offsiteSince.getTime() >= policy.offsiteMinutes * MINUTE) {
+      fired.push({ reason: 'offsite', checkOutTime: context.offsiteSince });
+    }
+  }
+
+  if (policy.maxHours) {
+    const closeAt = new Date(checkIn.getTime() + policy.maxHours * 60 * MINUTE);
+    if (now >= closeAt) {
+      fired.push({ reason: 'max_hours', checkOutTime: closeAt });
+    }
+  }
+
+  if (fired.length === 0) return null;
+
+  const earliest = fired.reduce((best, decision) => decision.checkOutTime < best.checkOutTime ? decision : best);
+  // Never close before the session started
+  return earliest.checkOutTime > checkIn ? earliest : { ...earliest, checkOutTime: new Date(checkIn.getTime() + MINUTE) };
+}
+
+// Start of the employee's current off-site stretch, or null when their latest
+// location is on site (or unknown)
+async function getOffsiteSince(employeeId: number, checkIn: Date): Promise<Date | null> {
+  const latest = await storage.getLatestEmployeeLocation(employeeId);
+  if (!latest || latest.isOnSite || !latest.timestamp || new Date(latest.timestamp) < checkIn) return null;
+
+  const lastOnsite = await storage.getLastOnsiteLocationSince(employeeId, checkIn);
+  const firstOffsite = await storage.getFirstOffsiteLocationSince(employeeId, lastOnsite?.timestamp ?? checkIn);
+  return firstOffsite?.timestamp ? new Date(firstOffsite.timestamp) : null;
+}
+
+async function buildContext(policy: AutoCheckoutPolicy, record: Attendance, remote: boolean): Promise<AutoCheckoutContext> {
+  let shiftEndTime: Date | null = null;
+  if (policy.atShiftEnd && record.shiftId) {
+    const shift = await storage.getShift(record.shiftId);
+    shiftEndTime = shift ? new Date(shift.endTime) : null;
+  }
+
+  // Remote work has no geofence to leave
+  const offsiteSince = policy.offsiteMinutes && !remote && record.checkInTime
+    ? await getOffsiteSince(record.employeeId, new Date(record.checkInTime))
+    : null;
+
+  return { shiftEndTime, offsiteSince };
+}
+
+// Close every open session whose company policy says it should be closed
+export async function evaluateAutoCheckouts(notify: AutoCheckoutNotifier, now: Date = new Date()): Promise<void> {
+  const policies = await storage.getEnabledAutoCheckoutPolicies();
+  if (policies.length === 0) return;
+
+  const openSessions = await storage.getOpenAttendanceForAdmins(policies.map(policy => policy.adminId));
+
+  for (const { attendance: record, adminId } of openSessions) {
+    const policy = policies.find(p => p.adminId === adminId)!;
+
+    try {
+      const employee = await storage.getEmployee(record.employeeId);
+      const site = await storage.getWorkSite(record.siteId);
+      if (!employee) continue;
+
+      const context = await buildContext(policy, record, !!(employee.isRemote || site?.isRemote));
+      const decision = resolveAutoCheckout(policy, record, context, now);
+      if (!decision) continue;
+
+      const closed = await storage.updateAttendance(record.id, {
+        checkOutTime: decision.checkOutTime,
+        autoCheckoutReason: decision.reason,
+      });
+
+      await storage.createAttendanceRevision({
+        attendanceId: record.id,
+        employeeId: record.employeeId,
+        adminId: null,
+        action: 'auto_checkout',
+        reasonCode: 'missed_checkout',
+        note: `Checked out automatically ${REASON_DESCRIPTIONS[decision.reason]}`,
+        before: toAttendanceSnapshot(record),
+        after: toAttendanceSnapshot(closed),
+      });
+
+      const name = `${employee.firstName} ${employee.lastName}`;
+      notify(adminId, {
+        type: 'auto_checkout',
+        message: `${name} was checked out automatically ${REASON_DESCRIPTIONS[decision.reason]}`,
+        reason: decision.reason,
+        attendanceId: record.id,
+        employee: {
+          id: employee.id,
+          name,
+          email: employee.email,
+          firstName: employee.firstName,
+          lastName: employee.lastName
+        },
+        site: site ? {
+          id: site.id,
+          name: site.name,
+          address: site.address
+        } : null,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (error instanceof TimesheetLockedError) {
+        // Approved weeks are left for an admin to resolve
+        continue;
+      }
+      console.error(`❌ Failed to auto checkout attendance ${record.id}:`, error);
+    }
+  }
+}
+
+// Run the auto checkout engine on a fixed interval without overlapping ticks, on one instance at a time
+export function startAutoCheckoutScheduler(notify: AutoCheckoutNotifier): () => void {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runExclusively('auto-checkout', () => evaluateAutoCheckouts(notify));
+    } catch (error) {
+      console.error('❌ Auto checkout evaluation failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, EVALUATION_INTERVAL_MS);
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,152 @@
+import { Client } from '@neondatabase/serverless';
+import { randomUUID } from 'crypto';
+import type { EmployeeLocationUpdate, GeofenceEventUpdate, NotificationPayload } from '@shared/realtime';
+import { pool } from './db';
+
+// Real-time events shared between server instances. Each instance keeps its own
+// WebSocket connections, so an event published on one instance is delivered by every
+// instance to the sockets it holds.
+//
+// BACKPLANE selects the transport:
+//   postgres - LISTEN/NOTIFY on the application database (default)
+//   memory   - this process only, for a single instance and for tests
+
+const CHANNEL = 'realtime_events';
+const RECONNECT_DELAY_MS = 5 * 1000;
+// NOTIFY payloads are limited to 8000 bytes
+const MAX_PAYLOAD_BYTES = 7900;
+
+export type BackplaneEvent =
+  | { type: 'admin_notification'; adminId: number; notification: NotificationPayload }
+  | { type: 'employee_location'; adminId: number; location: EmployeeLocationUpdate }
+  | { type: 'geofence_event'; adminId: number; event: GeofenceEventUpdate }
+  // sessionHash is null when the employee logged out
+  | { type: 'employee_session'; employeeId: number; sessionHash: string | null };
+
+export type BackplaneHandler = (event: BackplaneEvent) => void;
+
+export interface Backplane {
+  name: string;
+  // Handlers on this instance run right away; other instances receive the event shortly after
+  publish(event: BackplaneEvent): Promise<void>;
+  subscribe(handler: BackplaneHandler): void;
+  close(): Promise<void>;
+}
+
+export class BackplaneError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackplaneError';
+    Object.setPrototypeOf(this, BackplaneError.prototype);
+  }
+}
+
+function dispatch(handlers: BackplaneHandler[], event: BackplaneEvent) {
+  for (const handler of handlers) {
+    try {
+      handler(event);
+    } catch (error) {
+      console.error(`❌ Backplane handler failed for ${event.type}:`, error);
+    }
+  }
+}
+
+export function createMemoryBackplane(): Backplane {
+  const handlers: BackplaneHandler[] = [];
+
+  return {
+    name: 'memory',
+    async publish(event) {
+      dispatch(handlers, event);
+    },
+    subscribe(handler) {
+      handlers.push(handler);
+    },
+    async close() {
+      handlers.length = 0;
+    },
+  };
+}
+
+export function createPostgresBackplane(connectionString: string): Backplane {
+  const handlers: BackplaneHandler[] = [];
+  // Tags our own events so they are not delivered twice when NOTIFY echoes them back
+  const instanceId = randomUUID();
+  let listener: Client | null = null;
+  let reconnectTimer: NodeJS.Timeout | null = null;
+  let closed = false;
+
+  const scheduleReconnect = () => {
+    if (closed || reconnectTimer) return;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      listen();
+    }, RECONNECT_DELAY_MS);
+    reconnectTimer.unref();
+  };
+
+  // A dedicated connection, since pooled clients are shared and LISTEN is per session
+  const listen = async () => {
+    const client = new Client({ connectionString });
+    listener = client;
+    client.on('notification', message => {
+      if (message.channel !== CHANNEL || !message.payload) return;
+      try {
+        const { origin, event } = JSON.parse(message.payload);
+        if (origin !== instanceId) dispatch(handlers, event);
+      } catch (error) {
+        console.error('❌ Ignoring malformed backplane message:', error);
+      }
+    });
+    client.on('error', error => {
+      console.error('❌ Backplane listener error:', error.message);
+    });
+    client.on('end', () => {
+      if (listener === client) listener = null;
+      scheduleReconnect();
+    });
+
+    try {
+      await client.connect();
+      await client.query(`LISTEN ${CHANNEL}`);
+    } catch (error) {
+      console.error('❌ Backplane listener could not connect:', error);
+      client.end().catch(() => undefined);
+      scheduleReconnect();
+    }
+  };
+
+  return {
+    name: 'postgres',
+    async publish(event) {
+      dispatch(handlers, event);
+
+      const payload = JSON.stringify({ origin: instanceId, event });
+      if (Buffer.byteLength(payload) > MAX_PAYLOAD_BYTES) {
+        throw new BackplaneError(`Backplane event ${event.type} is too large to publish`);
+      }
+      await pool.query('SELECT pg_notify($1, $2)', [CHANNEL, payload]);
+    },
+    subscribe(handler) {
+      handlers.push(handler);
+      if (!listener && !reconnectTimer && !closed) listen();
+    },
+    async close() {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      handlers.length = 0;
+      await listener?.end();
+    },
+  };
+}
+
+export function createBackplane(): Backplane {
+  const configured = process.env.BACKPLANE || 'postgres';
+  if (configured === 'memory') {
+    return createMemoryBackplane();
+  }
+  if (configured === 'postgres') {
+    return createPostgresBackplane(process.env.DATABASE_URL!);
+  }
+  throw new BackplaneError(`Unknown BACKPLANE "${configured}". Use postgres or memory`);
+}
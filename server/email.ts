@@ -0,0 +1,163 @@
+import path from 'path';
+import fs from 'fs';
+import { randomUUID } from 'crypto';
+import { createSendGridTransport } from './sendgrid';
+import { sendSmtpMessage } from './smtp';
+import { buildMimeMessage, emailAddress } from './mime';
+
+// Outgoing email is sent through one transport, picked by EMAIL_TRANSPORT:
+//   sendgrid - SENDGRID_API_KEY
+//   smtp     - SMTP_HOST, SMTP_PORT (587), SMTP_SECURE ("true" for implicit TLS), SMTP_USER, SMTP_PASS
+//   file     - writes .eml files to EMAIL_FILE_DIR (default ./emails) instead of sending
+// Without EMAIL_TRANSPORT, SendGrid is used when its key is set, then SMTP when a host
+// is set, and outside production the file sink.
+
+export interface EmailParams {
+  to: string | string[];
+  from: string;
+  subject: string;
+  text?: string;
+  html?: string;
+  attachments?: Array<{
+    content: string; // Base64
+    filename: string;
+    type: string;
+    disposition: string;
+  }>;
+}
+
+// What a transport receives: both bodies are always present
+export type EmailMessage = EmailParams & { text: string; html: string };
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<void>; // Throws when the message was not accepted
+}
+
+type EmailTransportName = 'sendgrid' | 'smtp' | 'file';
+
+const DEFAULT_TEXT = 'Please view this email in HTML format to see the attendance report.';
+
+function createSmtpTransport(): EmailTransport {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new Error('SMTP_HOST environment variable must be set for the smtp email transport');
+  }
+  const secure = process.env.SMTP_SECURE === 'true';
+  const options = {
+    host,
+    port: process.env.SMTP_PORT ? parseInt(process.env.SMTP_PORT) : secure ? 465 : 587,
+    secure,
+    user: process.env.SMTP_USER,
+    pass: process.env.SMTP_PASS,
+  };
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      const recipients = Array.isArray(message.to) ? message.to : [message.to];
+      await sendSmtpMessage(
+        options,
+        { from: emailAddress(message.from), to: recipients.map(emailAddress) },
+        buildMimeMessage(message)
+      );
+    },
+  };
+}
+
+function createFileTransport(): EmailTransport {
+  const directory = path.resolve(process.env.EMAIL_FILE_DIR || 'emails');
+
+  return {
+    name: 'file',
+    async send(message) {
+      await fs.promises.mkdir(directory, { recursive: true });
+      const filename = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID().slice(0, 8)}.eml`;
+      const filePath = path.join(directory, filename);
+      await fs.promises.writeFile(filePath, buildMimeMessage(message));
+      console.log(`📧 Email "${message.subject}" written to ${filePath}`);
+    },
+  };
+}
+
+function configuredTransportName(): EmailTransportName | null {
+  const configured = process.env.EMAIL_TRANSPORT;
+  if (configured) {
+    if (configured !== 'sendgrid' && configured !== 'smtp' && configured !== 'file') {
+      throw new Error(`Unknown EMAIL_TRANSPORT "${configured}". Use sendgrid, smtp or file`);
+    }
+    return configured;
+  }
+  if (process.env.SENDGRID_API_KEY) return 'sendgrid';
+  if (process.env.SMTP_HOST) return 'smtp';
+  return process.env.NODE_ENV === 'production' ? null : 'file';
+}
+
+let transport: EmailTransport | null | undefined;
+
+// Built on first use so a missing email setup never stops the server from starting
+function getTransport(): EmailTransport | null {
+  if (transport === undefined) {
+    const name = configuredTransportName();
+    if (name === 'sendgrid') {
+      if (!process.env.SENDGRID_API_KEY) {
+        throw new Error('SENDGRID_API_KEY environment variable must be set for the sendgrid email transport');
+      }
+      transport = createSendGridTransport(process.env.SENDGRID_API_KEY);
+    } else if (name === 'smtp') {
+      transport = createSmtpTransport();
+    } else if (name === 'file') {
+      transport = createFileTransport();
+    } else {
+      transport = null;
+    }
+  }
+  return transport;
+}
+
+export function isEmailConfigured(): boolean {
+  try {
+    return getTransport() !== null;
+  } catch (error) {
+    console.error('Email transport is misconfigured:', error);
+    return false;
+  }
+}
+
+// Sender for system emails such as account verification
+export function getDefaultFromEmail(): string {
+  const value = process.env.EMAIL_FROM || process.env.SENDGRID_FROM_EMAIL;
+  if (!value) {
+    throw new Error('EMAIL_FROM environment variable must be set'); // Prevents fallback email leaking into repo
+  }
+  return value;
+}
+
+export async function sendEmail(params: EmailParams): Promise<boolean> {
+  try {
+    const emailTransport = getTransport();
+    if (!emailTransport) {
+      console.error('Email is not configured - set EMAIL_TRANSPORT or SENDGRID_API_KEY');
+      return false;
+    }
+
+    console.log('Attempting to send email:', {
+      transport: emailTransport.name,
+      to: params.to,
+      from: params.from,
+      subject: params.subject,
+      hasHtml: !!params.html,
+      hasText: !!params.text
+    });
+
+    await emailTransport.send({
+      ...params,
+      text: params.text || DEFAULT_TEXT,
+      html: params.html || '',
+    });
+    return true;
+  } catch (error) {
+    console.error('Email sending error:', error);
+    return false;
+  }
+}
@@ -0,0 +1,83 @@
+import type { Employee, GeofenceEvent, WorkSite } from "@shared/schema";
+import type { GeofenceEventUpdate } from "@shared/realtime";
+import { checkSiteGeofence, gpsAccuracyBuffer, isReliableFix } from "@shared/geofence";
+import { storage } from "./storage";
+
+// One location ping measured against the employee's site
+export interface GeofencePing {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null; // Reported by the device, in meters
+  isWithin: boolean;
+  distance: number;
+}
+
+// Measure a ping against the site, allowing for how accurate the device says it is. A fix
+// less accurate than the site allows cannot move the employee across the boundary, so
+// they keep the on-site state of their previous ping.
+export async function checkPingGeofence(
+  employeeId: number,
+  site: WorkSite,
+  latitude: number,
+  longitude: number,
+  accuracy: number | null
+): Promise<GeofencePing> {
+  const { isWithin, distance } = checkSiteGeofence(latitude, longitude, site, gpsAccuracyBuffer(accuracy, site));
+  if (isReliableFix(accuracy, site)) {
+    return { latitude, longitude, accuracy, isWithin, distance };
+  }
+  const lastLocation = await storage.getLatestEmployeeLocation(employeeId);
+  return { latitude, longitude, accuracy, isWithin: lastLocation?.isOnSite ?? isWithin, distance };
+}
+
+// Whether the employee was inside the geofence before this ping: the last recorded crossing
+// for the site, else the previous ping. Without either they are taken to start outside, so
+// the first ping on site records an entry.
+async function wasWithinGeofence(employeeId: number, siteId: number): Promise<boolean> {
+  const lastEvent = await storage.getLatestGeofenceEvent(employeeId, siteId);
+  if (lastEvent) return lastEvent.type === 'enter';
+  const lastLocation = await storage.getLatestEmployeeLocation(employeeId);
+  return lastLocation?.isOnSite ?? false;
+}
+
+// Record a geofence crossing when this ping lands on the other side of the boundary.
+// Must run before the ping itself is stored. Returns null when nothing was crossed.
+export async function detectGeofenceTransition(
+  employee: Employee,
+  site: WorkSite,
+  ping: GeofencePing
+): Promise<GeofenceEvent | null> {
+  // Remote staff and remote sites have no boundary to cross
+  if (employee.isRemote || site.isRemote) return null;
+  // Inaccurate fixes drift across the boundary without the employee moving
+  if (!isReliableFix(ping.accuracy, site)) return null;
+
+  const wasWithin = await wasWithinGeofence(employee.id, site.id);
+  if (wasWithin === ping.isWithin) return null;
+
+  return storage.createGeofenceEvent({
+    employeeId: employee.id,
+    siteId: site.id,
+    type: ping.isWithin ? 'enter' : 'exit',
+    latitude: ping.latitude.toString(),
+    longitude: ping.longitude.toString(),
+    distanceFromSite: Math.round(ping.distance),
+  });
+}
+
+export function toGeofenceEventUpdate(
+  event: GeofenceEvent,
+  employee: Pick<Employee, 'id' | 'firstName' | 'lastName'>,
+  site: Pick<WorkSite, 'id' | 'name'>
+): GeofenceEventUpdate {
+  return {
+    id: event.id,
+    type: event.type,
+    employee: { id: employee.id, firstName: employee.firstName, lastName: employee.lastName },
+    site: { id: site.id, name: site.name },
+    latitude: Number(event.latitude),
+    longitude: Number(event.longitude),
+    distanceFromSite: event.distanceFromSite,
+    occurredAt: event.occurredAt.toISOString(),
+  };
+}
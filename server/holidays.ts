@@ -0,0 +1,197 @@
+// Thrown when an uploaded holiday file cannot be read
+export class HolidayImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HolidayImportError";
+    Object.setPrototypeOf(this, HolidayImportError.prototype);
+  }
+}
+
+export interface ParsedHoliday {
+  date: string; // "YYYY-MM-DD"
+  name: string;
+}
+
+// A holiday together with the scope of the calendar it belongs to
+export interface ScopedHoliday extends ParsedHoliday {
+  adminId: number;
+  areaId: number | null; // null = company-wide
+}
+
+function parseDateKey(dateKey: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Build a date key from parts, rejecting dates that roll over (e.g. 31/02)
+function buildDateKey(year: number, month: number, day: number): string | null {
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return toDateKey(date);
+}
+
+// Accepts YYYY-MM-DD as well as DD/MM/YYYY and DD-MM-YYYY, which is how most Indian
+// government holiday lists are published
+function parseCsvDate(value: string): string | null {
+  let match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) return buildDateKey(Number(match[1]), Number(match[2]), Number(match[3]));
+  match = value.match(/^(\d{1,2})[\/-](\d{1,2})[\/-](\d{4})$/);
+  if (match) return buildDateKey(Number(match[3]), Number(match[2]), Number(match[1]));
+  return null;
+}
+
+// Split one CSV line, honouring double-quoted fields
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+}
+
+// "date,name" rows. A header row and blank lines are skipped.
+export function parseHolidayCsv(content: string): ParsedHoliday[] {
+  const holidays: ParsedHoliday[] = [];
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+    const [rawDate = '', ...rest] = splitCsvLine(line);
+    const name = rest.join(', ').trim();
+    const date = parseCsvDate(rawDate);
+    if (!date) {
+      if (index === 0 && /date/i.test(rawDate)) return;
+      throw new HolidayImportError(`Line ${index + 1}: "${rawDate}" is not a valid date`);
+    }
+    if (!name) throw new HolidayImportError(`Line ${index + 1}: holiday name is missing`);
+    holidays.push({ date, name });
+  });
+
+  return holidays;
+}
+
+function unescapeIcsText(value: string): string {
+  return value
+    .replace(/\\n/gi, ' ')
+    .replace(/\\([,;\\])/g, '$1')
+    .trim();
+}
+
+// All-day VEVENTs (DTSTART;VALUE=DATE:20240126). A DTEND is exclusive, so a two day
+// festival exported as 20241031-20241102 yields two holidays.
+export function parseHolidayIcs(content: string): ParsedHoliday[] {
+  // Unfold continuation lines (RFC 5545 3.1)
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const holidays: ParsedHoliday[] = [];
+  let event: { start?: string; end?: string; summary?: string } | null = null;
+
+  for (const line of lines) {
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const property = line.slice(0, separator).split(';')[0].toUpperCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (property === 'BEGIN' && value.toUpperCase() === 'VEVENT') {
+      event = {};
+    } else if (property === 'END' && value.toUpperCase() === 'VEVENT' && event) {
+      const start = event.start && parseIcsDate(event.start);
+      if (!start) throw new HolidayImportError(`Event "${event.summary || 'untitled'}" has no valid start date`);
+      const name = event.summary || 'Holiday';
+      const end = event.end ? parseIcsDate(event.end) : null;
+
+      const day = parseDateKey(start);
+      do {
+        holidays.push({ date: toDateKey(day), name });
+        day.setDate(day.getDate() + 1);
+      } while (end && toDateKey(day) < end);
+      event = null;
+    } else if (event) {
+      if (property === 'DTSTART') event.start = value;
+      else if (property === 'DTEND') event.end = value;
+      else if (property === 'SUMMARY') event.summary = unescapeIcsText(value);
+    }
+  }
+
+  if (holidays.length === 0) throw new HolidayImportError('No events found in the calendar file');
+  return holidays;
+}
+
+// Only the date part is used - timed events are treated as covering their start day
+function parseIcsDate(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? buildDateKey(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+}
+
+export function parseHolidayFile(format: 'csv' | 'ics', content: string): ParsedHoliday[] {
+  const parsed = format === 'ics' ? parseHolidayIcs(content) : parseHolidayCsv(content);
+  // Last entry wins when a file lists the same day twice
+  const byDate = new Map(parsed.map(holiday => [holiday.date, holiday]));
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// The holiday on a local calendar day for a site in `areaId`, if any. Company-wide
+// calendars apply everywhere; area calendars only to sites in that area.
+export function findHoliday(
+  holidays: ScopedHoliday[],
+  adminId: number,
+  areaId: number | null | undefined,
+  at: Date | string
+): ScopedHoliday | undefined {
+  const dateKey = typeof at === 'string' ? at : toDateKey(at);
+  return holidays.find(holiday =>
+    holiday.date === dateKey &&
+    holiday.adminId === adminId &&
+    (holiday.areaId === null || holiday.areaId === areaId)
+  );
+}
+
+// Monday-Friday days between two local dates (inclusive) that are not holidays for
+// the given area, along with the number of weekday holidays that were skipped
+export function countWorkingDays(
+  holidays: ScopedHoliday[],
+  adminId: number,
+  areaId: number | null | undefined,
+  from: Date,
+  to: Date
+): { workingDays: number; holidays: number } {
+  let workingDays = 0;
+  let holidayDays = 0;
+  const day = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  const end = new Date(to.getFullYear(), to.getMonth(), to.getDate());
+
+  while (day <= end) {
+    const weekday = day.getDay();
+    if (weekday !== 0 && weekday !== 6) {
+      if (findHoliday(holidays, adminId, areaId, day)) holidayDays++;
+      else workingDays++;
+    }
+    day.setDate(day.getDate() + 1);
+  }
+  return { workingDays, holidays: holidayDays };
+}
@@ -0,0 +1,180 @@
+import type { LeaveBalance, LeaveRequest, LeaveRequestStatus, LeaveType } from "@shared/schema";
+
+// Thrown when a leave request is well-formed but cannot be made or reviewed
+export class LeaveRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LeaveRequestError";
+    Object.setPrototypeOf(this, LeaveRequestError.prototype);
+  }
+}
+
+// Requests in these states hold their days - they count against the balance and
+// block overlapping requests
+export const ACTIVE_LEAVE_STATUSES: LeaveRequestStatus[] = ['pending', 'approved'];
+
+function parseDateKey(dateKey: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Receives the local day as YYYY-MM-DD
+type HolidayCheck = (dateKey: string) => boolean;
+
+// Working days (Monday-Friday, except holidays) from startDate to endDate inclusive
+export function countLeaveDays(startDate: string, endDate: string, isHoliday: HolidayCheck = () => false): number {
+  let days = 0;
+  const day = parseDateKey(startDate);
+  const end = parseDateKey(endDate);
+  while (day <= end) {
+    const weekday = day.getDay();
+    if (weekday !== 0 && weekday !== 6 && !isHoliday(toDateKey(day))) days++;
+    day.setDate(day.getDate() + 1);
+  }
+  return days;
+}
+
+// Leave days of a request that fall inside the given calendar year
+function leaveDaysInYear(request: Pick<LeaveRequest, 'startDate' | 'endDate'>, year: number, isHoliday: HolidayCheck): number {
+  const start = request.startDate > `${year}-01-01` ? request.startDate : `${year}-01-01`;
+  const end = request.endDate < `${year}-12-31` ? request.endDate : `${year}-12-31`;
+  return start <= end ? countLeaveDays(start, end, isHoliday) : 0;
+}
+
+// True when an approved request covers the local calendar day of `at`
+export function isOnLeave(requests: LeaveRequest[], employeeId: number, at: Date | string): boolean {
+  const dateKey = typeof at === 'string' ? at : toDateKey(at);
+  return requests.some(request =>
+    request.employeeId === employeeId &&
+    request.status === 'approved' &&
+    request.startDate <= dateKey &&
+    request.endDate >= dateKey
+  );
+}
+
+// Days of approved leave between two local dates (inclusive), clipped to the range
+export function countApprovedLeaveDays(
+  requests: LeaveRequest[],
+  employeeId: number,
+  from: Date,
+  to: Date,
+  isHoliday: HolidayCheck = () => false
+): number {
+  const fromKey = toDateKey(from);
+  const toKey = toDateKey(to);
+  return requests
+    .filter(request => request.employeeId === employeeId && request.status === 'approved')
+    .reduce((total, request) => {
+      const start = request.startDate > fromKey ? request.startDate : fromKey;
+      const end = request.endDate < toKey ? request.endDate : toKey;
+      return start <= end ? total + countLeaveDays(start, end, isHoliday) : total;
+    }, 0);
+}
+
+const roundDays = (days: number) => Math.round(days * 10) / 10;
+
+export interface LeaveBalanceSummary {
+  leaveTypeId: number;
+  name: string;
+  color: string | null;
+  isPaid: boolean;
+  year: number;
+  tracked: boolean; // False for types without an allowance
+  entitlementDays: number | null; // Allowance + carry over + adjustment for the whole year
+  accruedDays: number | null; // Entitlement earned so far
+  usedDays: number; // Approved
+  pendingDays: number; // Awaiting review
+  availableDays: number | null; // Accrued minus used and pending
+  balance: LeaveBalance | null;
+}
+
+// Entitlement earned by the end of `month` (0-11, -1 for none yet) of the balance
+// year, including carry over and adjustments. Null when the type is not tracked.
+function accruedThrough(type: LeaveType, balance: LeaveBalance | undefined, month: number): number | null {
+  const allowance = balance?.allowanceDays ?? type.annualAllowanceDays;
+  if (allowance === null || allowance === undefined) return null;
+
+  const extra = (balance?.carryOverDays ?? 0) + (balance?.adjustmentDays ?? 0);
+  const earned = type.accrual === 'monthly' ? allowance * (month + 1) / 12 : allowance;
+  return roundDays(earned + extra);
+}
+
+// Balance of one leave type for one employee and year. Requests may be for any
+// year - only the days inside `year` are counted.
+export function summarizeLeaveBalance(
+  type: LeaveType,
+  balance: LeaveBalance | undefined,
+  requests: LeaveRequest[],
+  year: number,
+  isHoliday: HolidayCheck = () => false,
+  now: Date = new Date()
+): LeaveBalanceSummary {
+  const forType = requests.filter(request => request.leaveTypeId === type.id);
+  const usedDays = forType
+    .filter(request => request.status === 'approved')
+    .reduce((total, request) => total + leaveDaysInYear(request, year, isHoliday), 0);
+  const pendingDays = forType
+    .filter(request => request.status === 'pending')
+    .reduce((total, request) => total + leaveDaysInYear(request, year, isHoliday), 0);
+
+  const month = year < now.getFullYear() ? 11 : year > now.getFullYear() ? -1 : now.getMonth();
+  const accruedDays = accruedThrough(type, balance, month);
+  const entitlementDays = accruedThrough(type, balance, 11);
+
+  return {
+    leaveTypeId: type.id,
+    name: type.name,
+    color: type.color,
+    isPaid: type.isPaid,
+    year,
+    tracked: entitlementDays !== null,
+    entitlementDays,
+    accruedDays,
+    usedDays,
+    pendingDays,
+    availableDays: accruedDays === null ? null : roundDays(accruedDays - usedDays - pendingDays),
+    balance: balance ?? null,
+  };
+}
+
+// Check a new request against the balance of every year it touches. Monthly accrual
+// counts what will have been earned by the month the leave ends, so leave can be
+// booked ahead of time.
+export function assertLeaveAvailable(
+  type: LeaveType,
+  balances: LeaveBalance[],
+  requests: LeaveRequest[],
+  startDate: string,
+  endDate: string,
+  isHoliday: HolidayCheck = () => false
+): void {
+  const firstYear = parseDateKey(startDate).getFullYear();
+  const lastYear = parseDateKey(endDate).getFullYear();
+
+  for (let year = firstYear; year <= lastYear; year++) {
+    const requested = leaveDaysInYear({ startDate, endDate }, year, isHoliday);
+    if (requested === 0) continue;
+
+    const balance = balances.find(b => b.leaveTypeId === type.id && b.year === year);
+    const lastMonth = year === lastYear ? parseDateKey(endDate).getMonth() : 11;
+    const accrued = accruedThrough(type, balance, lastMonth);
+    if (accrued === null) return;
+
+    const held = requests
+      .filter(request => request.leaveTypeId === type.id && ACTIVE_LEAVE_STATUSES.includes(request.status))
+      .reduce((total, request) => total + leaveDaysInYear(request, year, isHoliday), 0);
+
+    const available = roundDays(accrued - held);
+    if (requested > available) {
+      throw new LeaveRequestError(
+        `Not enough ${type.name} balance for ${year}: ${requested} day${requested === 1 ? '' : 's'} requested, ${Math.max(0, available)} available`
+      );
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import type { Attendance, LocationAnomalyType } from "@shared/schema";
+import { DEFAULT_GPS_ACCURACY, haversineDistance, LOCATION_RISK_ALERT_THRESHOLD } from "@shared/geofence";
+import { storage } from "./storage";
+
+// Travel anomalies reach LOCATION_RISK_ALERT_THRESHOLD on their own; the weaker signs only together
+const ANOMALY_WEIGHTS: Record<LocationAnomalyType, number> = {
+  impossible_speed: 50,
+  checkin_jump: 40,
+  repeated_coordinates: 30,
+  perfect_accuracy: 25,
+};
+
+const ANOMALY_DESCRIPTIONS: Record<LocationAnomalyType, string> = {
+  impossible_speed: 'moved faster than is possible between two fixes',
+  repeated_coordinates: 'reported exactly the same coordinates several times in a row',
+  perfect_accuracy: 'reported an implausibly precise GPS fix',
+  checkin_jump: 'checked in far from where they were moments before',
+};
+
+const MAX_SPEED_MPS = 70; // About 250 km/h, faster than any commute
+const MIN_JUMP_METERS = 100; // Shorter moves are within the noise of two quick fixes
+const REPEATED_FIX_COUNT = 5; // Real GPS drifts by a few centimeters between fixes
+const PERFECT_ACCURACY_METERS = 1; // Phones rarely do better than 3m
+const CHECKIN_JUMP_METERS = 1000;
+const CHECKIN_JUMP_WINDOW_MS = 30 * 60 * 1000;
+
+// One GPS fix, as stored in location_tracking or just received
+export interface LocationFix {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  timestamp: Date;
+}
+
+// Distance between two fixes that cannot be explained by either fix's accuracy
+function certainDistance(a: LocationFix, b: LocationFix): number {
+  const distance = haversineDistance(a.latitude, a.longitude, b.latitude, b.longitude);
+  return Math.max(0, distance - (a.accuracy ?? DEFAULT_GPS_ACCURACY) - (b.accuracy ?? DEFAULT_GPS_ACCURACY));
+}
+
+// Coordinates are stored with 8 decimals, so compare at that precision
+const sameCoordinates = (a: LocationFix, b: LocationFix) =>
+  a.latitude.toFixed(8) === b.latitude.toFixed(8) && a.longitude.toFixed(8) === b.longitude.toFixed(8);
+
+// Check a new fix against the employee's previous fixes, newest first
+export function detectLocationAnomalies(
+  fix: LocationFix,
+  previous: LocationFix[],
+  isCheckIn: boolean
+): LocationAnomalyType[] {
+  const found: LocationAnomalyType[] = [];
+  const last = previous[0];
+
+  if (last) {
+    const seconds = (fix.timestamp.getTime() - last.timestamp.getTime()) / 1000;
+    const distance = certainDistance(fix, last);
+    if (seconds > 0 && distance >= MIN_JUMP_METERS && distance / seconds > MAX_SPEED_MPS) {
+      found.push('impossible_speed');
+    }
+  }
+
+  const recent = previous.slice(0, REPEATED_FIX_COUNT - 1);
+  if (recent.length === REPEATED_FIX_COUNT - 1 && recent.every(other => sameCoordinates(fix, other))) {
+    found.push('repeated_coordinates');
+  }
+
+  if (fix.accuracy !== null && fix.accuracy < PERFECT_ACCURACY_METERS) {
+    found.push('perfect_accuracy');
+  }
+
+  if (isCheckIn && last
+    && fix.timestamp.getTime() - last.timestamp.getTime() <= CHECKIN_JUMP_WINDOW_MS
+    && haversineDistance(fix.latitude, fix.longitude, last.latitude, last.longitude) > CHECKIN_JUMP_METERS) {
+    found.push('checkin_jump');
+  }
+
+  return found;
+}
+
+export function calculateRiskScore(flags: LocationAnomalyType[]): number {
+  return Math.min(100, flags.reduce((score, flag) => score + ANOMALY_WEIGHTS[flag], 0));
+}
+
+export function describeLocationAnomalies(flags: LocationAnomalyType[]): string {
+  return flags.map(flag => ANOMALY_DESCRIPTIONS[flag]).join('; ');
+}
+
+// Compare a fix with the employee's recent fixes. Must run before the fix itself is stored.
+export async function findLocationAnomalies(
+  employeeId: number,
+  fix: LocationFix,
+  isCheckIn: boolean
+): Promise<LocationAnomalyType[]> {
+  const recent = await storage.getRecentEmployeeLocations(employeeId, REPEATED_FIX_COUNT - 1);
+  const previous = recent.flatMap(location => location.timestamp ? [{
+    latitude: Number(location.latitude),
+    longitude: Number(location.longitude),
+    accuracy: location.accuracy,
+    timestamp: location.timestamp,
+  }] : []);
+  return detectLocationAnomalies(fix, previous, isCheckIn);
+}
+
+export interface LocationRiskUpdate {
+  record: Attendance;
+  newFlags: LocationAnomalyType[];
+  crossedThreshold: boolean; // The session has just become suspicious enough to raise
+}
+
+// Add newly found anomalies to a session's risk flags and score. Returns null when the
+// session already carried every flag found.
+export async function recordLocationAnomalies(
+  record: Attendance,
+  found: LocationAnomalyType[]
+): Promise<LocationRiskUpdate | null> {
+  const newFlags = found.filter(flag => !record.riskFlags.includes(flag));
+  if (newFlags.length === 0) return null;
+
+  const riskFlags = [...record.riskFlags, ...newFlags];
+  const riskScore = calculateRiskScore(riskFlags);
+  const updated = await storage.updateAttendance(record.id, { riskFlags, riskScore });
+  return {
+    record: updated,
+    newFlags,
+    crossedThreshold: record.riskScore < LOCATION_RISK_ALERT_THRESHOLD && riskScore >= LOCATION_RISK_ALERT_THRESHOLD,
+  };
+}
@@ -0,0 +1,74 @@
+import { randomUUID } from 'crypto';
+import type { EmailMessage } from './email';
+
+const CRLF = '\r\n';
+
+// Bare address of "Name <user@example.com>" or "user@example.com"
+export function emailAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+// RFC 2047 encoded word for headers that are not plain ASCII
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+// Base64 body wrapped at 76 characters per line
+function wrapBase64(base64: string): string {
+  return base64.replace(/.{1,76}/g, line => line + CRLF).trimEnd();
+}
+
+function textPart(contentType: string, content: string): string {
+  return [
+    `Content-Type: ${contentType}; charset=utf-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(Buffer.from(content).toString('base64')),
+  ].join(CRLF);
+}
+
+function multipart(contentType: string, boundary: string, parts: string[]): string {
+  return [
+    `Content-Type: ${contentType}; boundary="${boundary}"`,
+    '',
+    ...parts.map(part => `--${boundary}${CRLF}${part}`),
+    `--${boundary}--`,
+  ].join(CRLF);
+}
+
+// A complete RFC 5322 message: text and HTML alternatives plus any attachments
+// (which arrive base64 encoded already, as SendGrid expects them)
+export function buildMimeMessage(message: EmailMessage): string {
+  const recipients = Array.isArray(message.to) ? message.to : [message.to];
+  const domain = emailAddress(message.from).split('@')[1] || 'localhost';
+
+  let body = multipart('multipart/alternative', `alt-${randomUUID()}`, [
+    textPart('text/plain', message.text),
+    textPart('text/html', message.html),
+  ]);
+
+  if (message.attachments && message.attachments.length > 0) {
+    body = multipart('multipart/mixed', `mixed-${randomUUID()}`, [
+      body,
+      ...message.attachments.map(attachment => [
+        `Content-Type: ${attachment.type}; name="${attachment.filename}"`,
+        `Content-Disposition: ${attachment.disposition}; filename="${attachment.filename}"`,
+        'Content-Transfer-Encoding: base64',
+        '',
+        wrapBase64(attachment.content),
+      ].join(CRLF)),
+    ]);
+  }
+
+  return [
+    `From: ${message.from}`,
+    `To: ${recipients.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    body,
+    '',
+  ].join(CRLF);
+}
@@ -0,0 +1,205 @@
+import type { Notification, NotificationPreferences } from "@shared/schema";
+import { ADMIN_NOTIFICATION_TYPES, type AdminNotificationType } from "@shared/realtime";
+import { storage } from "./storage";
+import { getDefaultFromEmail, sendEmail } from "./email";
+import { nextCronRun } from "./reportSchedules";
+import { runExclusively } from "./schedulerLock";
+
+const EVALUATION_INTERVAL_MS = 60 * 1000;
+const DAY = 24 * 60 * 60 * 1000;
+const MAX_DIGEST_NOTIFICATIONS = 200;
+
+export type NotificationSettings = Omit<NotificationPreferences, 'id' | 'adminId' | 'nextDigestAt' | 'lastDigestAt' | 'updatedAt'>;
+
+// Used until an admin saves their own: every event in the app, no emails
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  eventTypes: [...ADMIN_NOTIFICATION_TYPES],
+  siteIds: [],
+  inAppEnabled: true,
+  emailEnabled: false,
+  digestEnabled: false,
+  digestTime: '18:00',
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  timezone: 'UTC',
+};
+
+const NOTIFICATION_SUBJECTS: Record<AdminNotificationType, string> = {
+  employee_checkin: 'Employee check-in',
+  employee_checkout: 'Employee check-out',
+  late_arrival: 'Late arrival',
+  early_departure: 'Early departure',
+  no_show: 'Employee not checked in',
+  auto_checkout: 'Automatic check-out',
+  leave_request: 'Leave request',
+  location_anomaly: 'Possible location spoofing',
+};
+
+// The parts of a notification payload delivery decisions look at
+interface NotificationEvent {
+  type: AdminNotificationType;
+  message: string;
+  site?: { id: number } | null;
+}
+
+export interface NotificationDelivery {
+  push: boolean; // Send over the admin's WebSocket now
+  markRead: boolean; // Record in the history only, without raising the unread count
+  email: boolean;
+}
+
+export async function getNotificationSettings(adminId: number): Promise<NotificationSettings> {
+  return (await storage.getNotificationPreferences(adminId)) ?? DEFAULT_NOTIFICATION_SETTINGS;
+}
+
+const minutesOfDay = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+function localMinutesOfDay(at: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(at);
+  const get = (type: string) => parseInt(parts.find(part => part.type === type)!.value);
+  return get('hour') * 60 + get('minute');
+}
+
+// Quiet hours run from start up to (not including) end and may wrap past midnight
+export function isQuietTime(settings: NotificationSettings, at: Date): boolean {
+  if (!settings.quietHoursStart || !settings.quietHoursEnd) return false;
+  const now = localMinutesOfDay(at, settings.timezone);
+  const start = minutesOfDay(settings.quietHoursStart);
+  const end = minutesOfDay(settings.quietHoursEnd);
+  return start <= end ? now >= start && now < end : now >= start || now < end;
+}
+
+// How a notification reaches the admin, or null when their preferences drop it.
+// Notifications without a site pass any site subscription.
+export function planNotificationDelivery(
+  settings: NotificationSettings,
+  notification: NotificationEvent,
+  at: Date = new Date()
+): NotificationDelivery | null {
+  if (!settings.eventTypes.includes(notification.type)) return null;
+  const siteId = notification.site?.id;
+  if (settings.siteIds.length > 0 && siteId !== undefined && !settings.siteIds.includes(siteId)) return null;
+
+  const quiet = isQuietTime(settings, at);
+  return {
+    push: settings.inAppEnabled && !quiet,
+    markRead: !settings.inAppEnabled,
+    email: settings.emailEnabled && !quiet,
+  };
+}
+
+// The next daily digest after `after`, or null when digests are off
+export function nextDigestRun(settings: NotificationSettings, after: Date = new Date()): Date | null {
+  if (!settings.digestEnabled) return null;
+  const [hours, minutes] = settings.digestTime.split(':').map(Number);
+  return nextCronRun(`${minutes} ${hours} * * *`, settings.timezone, after);
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+async function emailAdmin(adminId: number, subject: string, html: string): Promise<void> {
+  const admin = await storage.getAdmin(adminId);
+  if (!admin) return;
+
+  const sent = await sendEmail({ to: admin.email, from: getDefaultFromEmail(), subject, html });
+  if (!sent) {
+    throw new Error(`Failed to email admin ${adminId}`);
+  }
+}
+
+export async function sendNotificationEmail(adminId: number, notification: NotificationEvent): Promise<void> {
+  const subject = NOTIFICATION_SUBJECTS[notification.type];
+  await emailAdmin(adminId, subject, `
+    <div style="font-family: Arial, sans-serif; max-width: 600px;">
+      <h2 style="color: #1f2937;">${escapeHtml(subject)}</h2>
+      <p style="color: #374151;">${escapeHtml(notification.message)}</p>
+      <p style="color: #6b7280; font-size: 12px;">You can change which notifications are emailed to you in your profile settings.</p>
+    </div>
+  `);
+}
+
+function digestEmail(items: Notification[], timeZone: string): string {
+  const formatTime = new Intl.DateTimeFormat('en-US', { timeZone, dateStyle: 'medium', timeStyle: 'short' });
+  const rows = items.map(item => `
+        <tr>
+          <td style="padding: 6px; border-bottom: 1px solid #e5e7eb; white-space: nowrap;">${formatTime.format(item.createdAt)}</td>
+          <td style="padding: 6px; border-bottom: 1px solid #e5e7eb;">${escapeHtml(NOTIFICATION_SUBJECTS[item.type as AdminNotificationType] ?? item.type)}</td>
+          <td style="padding: 6px; border-bottom: 1px solid #e5e7eb;">${escapeHtml(item.message)}</td>
+        </tr>`).join('');
+
+  return `
+    <div style="font-family: Arial, sans-serif; max-width: 700px;">
+      <h2 style="color: #1f2937;">Notification digest</h2>
+      <p style="color: #374151;">${items.length} notification${items.length === 1 ? '' : 's'} since your last digest.</p>
+      <table style="border-collapse: collapse; width: 100%; font-size: 14px;">${rows}
+      </table>
+    </div>
+  `;
+}
+
+// Email everything recorded since the previous digest. Nothing is sent for a quiet day.
+async function sendDigest(preferences: NotificationPreferences, now: Date): Promise<void> {
+  const since = preferences.lastDigestAt ?? new Date(now.getTime() - DAY);
+  const items = await storage.getNotifications(preferences.adminId, { since, limit: MAX_DIGEST_NOTIFICATIONS });
+  if (items.length === 0) return;
+
+  await emailAdmin(
+    preferences.adminId,
+    `Notification digest: ${items.length} notification${items.length === 1 ? '' : 's'}`,
+    digestEmail(items, preferences.timezone)
+  );
+}
+
+async function sendDueDigests(now: Date = new Date()): Promise<void> {
+  const due = await storage.getDueNotificationDigests(now);
+
+  for (const preferences of due) {
+    try {
+      // Move on first so a slow or failing delivery never sends twice
+      await storage.updateNotificationDigest(preferences.adminId, {
+        nextDigestAt: nextDigestRun(preferences, now),
+        lastDigestAt: now,
+      });
+    } catch (error) {
+      console.error(`❌ Failed to advance notification digest for admin ${preferences.adminId}:`, error);
+      await storage.updateNotificationDigest(preferences.adminId, { nextDigestAt: null, lastDigestAt: now });
+      continue;
+    }
+
+    try {
+      await sendDigest(preferences, now);
+    } catch (error) {
+      console.error(`❌ Notification digest for admin ${preferences.adminId} failed:`, error);
+    }
+  }
+}
+
+// Check for due digests on a fixed interval without overlapping ticks, on one instance at a time
+export function startNotificationDigestScheduler(): () => void {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runExclusively('notification-digests', () => sendDueDigests());
+    } catch (error) {
+      console.error('❌ Notification digest evaluation failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, EVALUATION_INTERVAL_MS);
+  timer.unref();
+  return () => clearInterval(timer);
+}
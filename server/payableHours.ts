@@ -0,0 +1,207 @@
+import type { Attendance, OvertimePolicy } from "@shared/schema";
+import type { BreakPeriod } from "@shared/worktime";
+import { getWeekKey } from "./timesheets";
+
+const MINUTE = 60 * 1000;
+
+export type PayDayType = 'regular' | 'weekend' | 'holiday';
+
+// Policy fields that drive the calculation - a saved policy or the defaults
+export type PayRules = Omit<OvertimePolicy, 'id' | 'adminId' | 'updatedAt'>;
+
+export const DEFAULT_PAY_RULES: PayRules = {
+  dailyThresholdMinutes: 480,
+  weeklyThresholdMinutes: 2880,
+  overtimeRatePercent: 200,
+  weekendDays: [0],
+  weekendRatePercent: 200,
+  holidayRatePercent: 200,
+  nightStart: null,
+  nightEnd: null,
+  nightPremiumPercent: 0,
+  deductOffsiteTime: false,
+};
+
+export interface PayBreakdown {
+  workedMinutes: number;
+  regularMinutes: number;
+  overtimeMinutes: number;
+  weekendMinutes: number;
+  holidayMinutes: number;
+  nightMinutes: number; // Overlaps the other buckets - night work earns a premium on top
+  offsiteMinutes: number; // Outside the geofence, excluding breaks - left out of workedMinutes when deducted
+  payableMinutes: number; // Worked time weighted by the policy rates
+}
+
+export interface PayableRecord extends PayBreakdown {
+  attendanceId: number;
+  date: string; // Local check-in day
+  dayType: PayDayType;
+}
+
+function formatDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function atTimeOfDay(day: Date, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const result = new Date(day);
+  result.setHours(hours, minutes, 0, 0);
+  return result;
+}
+
+function emptyBreakdown(): PayBreakdown {
+  return {
+    workedMinutes: 0,
+    regularMinutes: 0,
+    overtimeMinutes: 0,
+    weekendMinutes: 0,
+    holidayMinutes: 0,
+    nightMinutes: 0,
+    offsiteMinutes: 0,
+    payableMinutes: 0,
+  };
+}
+
+// Intervals with the given periods cut out. Open periods run until `openEnd`.
+function cutIntervals(intervals: [number, number][], periods: BreakPeriod[], openEnd: number): [number, number][] {
+  periods.forEach(period => {
+    const periodStart = new Date(period.startTime).getTime();
+    const periodEnd = period.endTime ? new Date(period.endTime).getTime() : openEnd;
+    intervals = intervals.flatMap(([start, end]): [number, number][] => {
+      if (periodEnd <= start || periodStart >= end) return [[start, end]];
+      const pieces: [number, number][] = [];
+      if (periodStart > start) pieces.push([start, periodStart]);
+      if (periodEnd < end) pieces.push([periodEnd, end]);
+      return pieces;
+    });
+  });
+  return intervals;
+}
+
+// The session with its breaks cut out, as [start, end) millisecond intervals
+function workedIntervals(checkIn: Date, checkOut: Date, breaks: BreakPeriod[] = []): [number, number][] {
+  return cutIntervals([[checkIn.getTime(), checkOut.getTime()]], breaks, checkOut.getTime());
+}
+
+const totalMinutes = (intervals: [number, number][]) =>
+  Math.round(intervals.reduce((sum, [start, end]) => sum + (end - start), 0) / MINUTE);
+
+// Worked minutes inside the nightly window. Windows that wrap midnight are anchored
+// on the evening they start, so the day before check-in is included.
+function nightMinutes(intervals: [number, number][], rules: PayRules): number {
+  if (!rules.nightStart || !rules.nightEnd || intervals.length === 0) return 0;
+
+  const first = new Date(intervals[0][0]);
+  const last = intervals[intervals.length - 1][1];
+  const day = new Date(first.getFullYear(), first.getMonth(), first.getDate() - 1);
+  let overlapMs = 0;
+
+  while (day.getTime() <= last) {
+    const windowStart = atTimeOfDay(day, rules.nightStart);
+    const windowEnd = atTimeOfDay(day, rules.nightEnd);
+    if (windowEnd <= windowStart) windowEnd.setDate(windowEnd.getDate() + 1);
+
+    intervals.forEach(([start, end]) => {
+      const overlap = Math.min(end, windowEnd.getTime()) - Math.max(start, windowStart.getTime());
+      if (overlap > 0) overlapMs += overlap;
+    });
+    day.setDate(day.getDate() + 1);
+  }
+  return Math.round(overlapMs / MINUTE);
+}
+
+function addBreakdown(total: PayBreakdown, part: PayBreakdown): void {
+  total.workedMinutes += part.workedMinutes;
+  total.regularMinutes += part.regularMinutes;
+  total.overtimeMinutes += part.overtimeMinutes;
+  total.weekendMinutes += part.weekendMinutes;
+  total.holidayMinutes += part.holidayMinutes;
+  total.nightMinutes += part.nightMinutes;
+  total.offsiteMinutes += part.offsiteMinutes;
+  total.payableMinutes += part.payableMinutes;
+}
+
+// Split one employee's attendance into regular, overtime and premium time.
+//
+// Sessions belong to the day (and week) they started in. Time worked on a holiday or
+// a weekend day is paid at that day's rate and does not count towards the overtime
+// thresholds. On other days, minutes beyond the daily threshold are overtime, and so
+// are regular minutes beyond the weekly threshold. Open sessions are not payable yet
+// and are skipped. `isHoliday` receives the local day as YYYY-MM-DD. Off-site time
+// is reported for every session and only removed from worked time when the policy
+// deducts it.
+export function calculatePayableHours(
+  records: (Attendance & { breaks?: BreakPeriod[]; offsitePeriods?: BreakPeriod[] })[],
+  rules: PayRules,
+  isHoliday: (dateKey: string) => boolean = () => false
+): { records: PayableRecord[]; totals: PayBreakdown } {
+  const dailyWorked = new Map<string, number>();
+  const weeklyRegular = new Map<string, number>();
+  const totals = emptyBreakdown();
+
+  const closed = records
+    .filter(record => record.checkInTime && record.checkOutTime)
+    .sort((a, b) => new Date(a.checkInTime!).getTime() - new Date(b.checkInTime!).getTime());
+
+  const payable = closed.map(record => {
+    const checkIn = new Date(record.checkInTime!);
+    const checkOut = new Date(record.checkOutTime!);
+    const onShift = workedIntervals(checkIn, checkOut, record.breaks);
+    const onSite = cutIntervals(onShift, record.offsitePeriods ?? [], checkOut.getTime());
+    const intervals = rules.deductOffsiteTime ? onSite : onShift;
+    const worked = totalMinutes(intervals);
+    const date = formatDateKey(checkIn);
+    const dayType: PayDayType = isHoliday(date)
+      ? 'holiday'
+      : rules.weekendDays.includes(checkIn.getDay()) ? 'weekend' : 'regular';
+
+    const breakdown = emptyBreakdown();
+    breakdown.workedMinutes = worked;
+    breakdown.nightMinutes = nightMinutes(intervals, rules);
+    breakdown.offsiteMinutes = totalMinutes(onShift) - totalMinutes(onSite);
+
+    if (dayType === 'holiday') {
+      breakdown.holidayMinutes = worked;
+    } else if (dayType === 'weekend') {
+      breakdown.weekendMinutes = worked;
+    } else {
+      const week = getWeekKey(checkIn);
+      const workedToday = dailyWorked.get(date) ?? 0;
+      const regularThisWeek = weeklyRegular.get(week) ?? 0;
+
+      let regular = worked;
+      if (rules.dailyThresholdMinutes !== null) {
+        regular = Math.min(regular, Math.max(0, rules.dailyThresholdMinutes - workedToday));
+      }
+      if (rules.weeklyThresholdMinutes !== null) {
+        regular = Math.min(regular, Math.max(0, rules.weeklyThresholdMinutes - regularThisWeek));
+      }
+
+      breakdown.regularMinutes = regular;
+      breakdown.overtimeMinutes = worked - regular;
+      dailyWorked.set(date, workedToday + worked);
+      weeklyRegular.set(week, regularThisWeek + regular);
+    }
+
+    breakdown.payableMinutes = Math.round(
+      breakdown.regularMinutes +
+      breakdown.overtimeMinutes * rules.overtimeRatePercent / 100 +
+      breakdown.weekendMinutes * rules.weekendRatePercent / 100 +
+      breakdown.holidayMinutes * rules.holidayRatePercent / 100 +
+      breakdown.nightMinutes * rules.nightPremiumPercent / 100
+    );
+
+    addBreakdown(totals, breakdown);
+    return { attendanceId: record.id, date, dayType, ...breakdown };
+  });
+
+  return { records: payable, totals };
+}
+
+// Minutes as decimal hours for reports, e.g. 450 -> 7.5
+export function toHours(minutes: number): number {
+  return Math.round(minutes / 60 * 100) / 100;
+}
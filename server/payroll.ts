@@ -0,0 +1,78 @@
+import * as XLSX from 'xlsx';
+import type { Employee, PayrollField, PayrollTemplate } from "@shared/schema";
+import { toHours, type PayBreakdown } from "./payableHours";
+
+// Everything a payroll column can draw from for one employee and pay period
+export interface PayrollSummary {
+  employee: Employee;
+  department: string | null;
+  site: string | null;
+  area: string | null;
+  daysWorked: number; // Distinct local days with a closed session
+  leaveDays: number;
+  totals: PayBreakdown;
+}
+
+export interface PayrollPeriod {
+  start: string; // "YYYY-MM-DD"
+  end: string; // "YYYY-MM-DD", inclusive
+}
+
+export function payrollValue(field: PayrollField, summary: PayrollSummary, period: PayrollPeriod): string | number {
+  const { employee, totals } = summary;
+  switch (field) {
+    case 'employeeCode': return employee.employeeId ?? '';
+    case 'employeeName': return `${employee.firstName} ${employee.lastName}`;
+    case 'firstName': return employee.firstName;
+    case 'lastName': return employee.lastName;
+    case 'email': return employee.email;
+    case 'department': return summary.department ?? '';
+    case 'site': return summary.site ?? '';
+    case 'area': return summary.area ?? '';
+    case 'periodStart': return period.start;
+    case 'periodEnd': return period.end;
+    case 'daysWorked': return summary.daysWorked;
+    case 'workedHours': return toHours(totals.workedMinutes);
+    case 'regularHours': return toHours(totals.regularMinutes);
+    case 'overtimeHours': return toHours(totals.overtimeMinutes);
+    case 'weekendHours': return toHours(totals.weekendMinutes);
+    case 'holidayHours': return toHours(totals.holidayMinutes);
+    case 'nightHours': return toHours(totals.nightMinutes);
+    case 'offsiteHours': return toHours(totals.offsiteMinutes);
+    case 'payableHours': return toHours(totals.payableMinutes);
+    case 'leaveDays': return summary.leaveDays;
+  }
+}
+
+function escapeCsv(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per employee, columns in template order under the template headers
+export function renderPayrollFile(
+  template: PayrollTemplate,
+  summaries: PayrollSummary[],
+  period: PayrollPeriod
+): { content: Buffer; filename: string; contentType: string } {
+  const headers = template.columns.map(column => column.header);
+  const rows = summaries.map(summary => template.columns.map(column => payrollValue(column.field, summary, period)));
+  const baseName = `payroll-${period.start}-to-${period.end}`;
+
+  if (template.fileFormat === 'xlsx') {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([headers, ...rows]), 'Payroll');
+    return {
+      content: Buffer.from(XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' })),
+      filename: `${baseName}.xlsx`,
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    };
+  }
+
+  const csv = [headers, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n');
+  return {
+    content: Buffer.from(csv + '\r\n'),
+    filename: `${baseName}.csv`,
+    contentType: 'text/csv',
+  };
+}
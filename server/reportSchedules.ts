@@ -0,0 +1,256 @@
+import type { ReportRun, ReportSchedule, ReportSchedulePeriod } from "@shared/schema";
+import { storage } from "./storage";
+import { runExclusively } from "./schedulerLock";
+
+const EVALUATION_INTERVAL_MS = 60 * 1000;
+const DAY = 24 * 60 * 60 * 1000;
+// Long enough for "0 0 29 2 *" to find the next leap day
+const MAX_LOOKAHEAD_DAYS = 5 * 366;
+
+export class ReportScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReportScheduleError';
+    Object.setPrototypeOf(this, ReportScheduleError.prototype);
+  }
+}
+
+// Renders the report for the period and emails it; throws when delivery fails
+export type ScheduledReportSender = (schedule: ReportSchedule, period: { from: string; to: string }) => Promise<void>;
+
+interface CronFields {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[];
+  daysOfWeek: number[];
+  // Standard cron: when both day fields are restricted a day matching either one runs
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// One cron field: "*", "5", "1-5", "*/15", "1-30/2" or a comma separated list of those
+function parseCronField(field: string, min: number, max: number, name: string): number[] {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new ReportScheduleError(`Invalid ${name} "${part}" in schedule`);
+    }
+    const start = match[1] === '*' ? min : parseInt(match[2]);
+    const end = match[1] === '*' ? max : match[3] !== undefined ? parseInt(match[3]) : match[4] ? max : start;
+    const step = match[4] ? parseInt(match[4]) : 1;
+    if (start < min || end > max || start > end || step < 1) {
+      throw new ReportScheduleError(`The ${name} in the schedule must be between ${min} and ${max}`);
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  return Array.from(values).sort((a, b) => a - b);
+}
+
+export function parseCron(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new ReportScheduleError('The schedule needs five fields: minute hour day-of-month month day-of-week');
+  }
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+
+  return {
+    minutes: parseCronField(minute, 0, 59, 'minute'),
+    hours: parseCronField(hour, 0, 23, 'hour'),
+    daysOfMonth: parseCronField(dayOfMonth, 1, 31, 'day of month'),
+    months: parseCronField(month, 1, 12, 'month'),
+    // 7 is Sunday too
+    daysOfWeek: Array.from(new Set(parseCronField(dayOfWeek, 0, 7, 'day of week').map(day => day % 7))),
+    anyDayOfMonth: dayOfMonth === '*',
+    anyDayOfWeek: dayOfWeek === '*',
+  };
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function zonedParts(at: Date, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    weekday: 'short',
+  }).formatToParts(at);
+  const get = (type: string) => parts.find(part => part.type === type)!.value;
+
+  return {
+    year: parseInt(get('year')),
+    month: parseInt(get('month')),
+    day: parseInt(get('day')),
+    hour: parseInt(get('hour')),
+    minute: parseInt(get('minute')),
+    weekday: WEEKDAYS.indexOf(get('weekday')),
+  };
+}
+
+// The instant a wall clock time in `timeZone` happens
+function zonedTimeToDate(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const offsetAt = (instant: number) => {
+    const parts = zonedParts(new Date(instant), timeZone);
+    return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute) - instant;
+  };
+  const guess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(guess));
+}
+
+// The first time after `after` that matches the cron expression in `timeZone`. Wall
+// clock times skipped by a daylight saving change do not run that day.
+export function nextCronRun(expression: string, timeZone: string, after: Date = new Date()): Date {
+  if (!isValidTimeZone(timeZone)) {
+    throw new ReportScheduleError(`Unknown timezone "${timeZone}"`);
+  }
+  const cron = parseCron(expression);
+  const today = zonedParts(after, timeZone);
+
+  for (let offset = 0; offset <= MAX_LOOKAHEAD_DAYS; offset++) {
+    const date = new Date(Date.UTC(today.year, today.month - 1, today.day + offset));
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + 1;
+    const day = date.getUTCDate();
+
+    const dayOfMonthMatches = cron.daysOfMonth.includes(day);
+    const dayOfWeekMatches = cron.daysOfWeek.includes(date.getUTCDay());
+    const dayMatches = cron.anyDayOfMonth || cron.anyDayOfWeek
+      ? dayOfMonthMatches && dayOfWeekMatches
+      : dayOfMonthMatches || dayOfWeekMatches;
+    if (!cron.months.includes(month) || !dayMatches) continue;
+
+    for (const hour of cron.hours) {
+      for (const minute of cron.minutes) {
+        const candidate = zonedTimeToDate(year, month, day, hour, minute, timeZone);
+        if (candidate <= after) continue;
+        const actual = zonedParts(candidate, timeZone);
+        if (actual.hour === hour && actual.minute === minute) return candidate;
+      }
+    }
+  }
+  throw new ReportScheduleError('The schedule never runs');
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Days a run at `at` reports on, as YYYY-MM-DD in the schedule's timezone. Weeks start
+// on Sunday like timesheets.
+export function reportPeriodDates(period: ReportSchedulePeriod, timeZone: string, at: Date): { from: string; to: string } {
+  const local = zonedParts(at, timeZone);
+  const day = (offset: number) => toDateKey(new Date(Date.UTC(local.year, local.month - 1, local.day + offset)));
+
+  switch (period) {
+    case 'today':
+      return { from: day(0), to: day(0) };
+    case 'yesterday':
+      return { from: day(-1), to: day(-1) };
+    case 'last_7_days':
+      return { from: day(-7), to: day(-1) };
+    case 'previous_week':
+      return { from: day(-local.weekday - 7), to: day(-local.weekday - 1) };
+    case 'previous_month':
+      return {
+        from: toDateKey(new Date(Date.UTC(local.year, local.month - 2, 1))),
+        to: toDateKey(new Date(Date.UTC(local.year, local.month - 1, 0))),
+      };
+  }
+}
+
+// Deliver one schedule and record the outcome in the run history. Failures are
+// recorded rather than thrown.
+export async function runReportSchedule(
+  schedule: ReportSchedule,
+  send: ScheduledReportSender,
+  options: { at?: Date; isManual?: boolean } = {}
+): Promise<ReportRun> {
+  const startedAt = new Date();
+  const period = reportPeriodDates(schedule.period, schedule.timezone, options.at ?? startedAt);
+  let error: string | null = null;
+
+  try {
+    await send(schedule, period);
+  } catch (sendError) {
+    console.error(`❌ Scheduled report ${schedule.id} failed:`, sendError);
+    error = sendError instanceof Error ? sendError.message : 'Unknown error';
+  }
+
+  return storage.createReportRun({
+    scheduleId: schedule.id,
+    adminId: schedule.adminId,
+    periodStart: period.from,
+    periodEnd: period.to,
+    recipients: schedule.recipients,
+    status: error ? 'failed' : 'sent',
+    error,
+    isManual: !!options.isManual,
+    startedAt,
+  });
+}
+
+async function runDueSchedules(send: ScheduledReportSender, now: Date = new Date()): Promise<void> {
+  const due = await storage.getDueReportSchedules(now);
+
+  for (const schedule of due) {
+    const scheduledFor = schedule.nextRunAt ?? now;
+    try {
+      // Move the schedule on first so a slow or failing delivery never sends twice
+      await storage.updateReportSchedule(schedule.id, {
+        nextRunAt: nextCronRun(schedule.cron, schedule.timezone, now),
+        lastRunAt: now,
+      });
+    } catch (error) {
+      console.error(`❌ Failed to advance report schedule ${schedule.id}:`, error);
+      await storage.updateReportSchedule(schedule.id, { nextRunAt: null, isEnabled: false });
+      continue;
+    }
+    await runReportSchedule(schedule, send, { at: scheduledFor });
+  }
+}
+
+// Check for due report schedules on a fixed interval without overlapping ticks, on one instance at a time
+export function startReportScheduler(send: ScheduledReportSender): () => void {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runExclusively('report-schedules', () => runDueSchedules(send));
+    } catch (error) {
+      console.error('❌ Scheduled report evaluation failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, EVALUATION_INTERVAL_MS);
+  timer.unref();
+  return () => clearInterval(timer);
+}
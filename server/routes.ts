@@ -16,11 +16,61 @@ import {
   insertDepartmentSchema,
   insertLocationTrackingSchema,
   insertAttendanceSchema,
+  insertShiftSchema,
+  insertShiftPatternSchema,
+  createAttendanceCorrectionSchema,
+  editAttendanceCorrectionSchema,
+  splitAttendanceSchema,
+  autoCheckoutPolicySchema,
+  timesheetActionSchema,
+  timesheetRejectSchema,
+  timesheetSubmitSchema,
+  insertLeaveTypeSchema,
+  insertLeaveRequestSchema,
+  leaveReviewSchema,
+  leaveBalanceSchema,
+  insertHolidayCalendarSchema,
+  insertHolidaySchema,
+  holidayImportSchema,
+  overtimePolicySchema,
+  payrollTemplateSchema,
+  payrollExportSchema,
+  reportFilterSchema,
+  reportScheduleSchema,
+  notificationPreferencesSchema,
   updateEmployeeProfileSchema,
   adminVerificationSchema,
   adminActivationSchema,
 } from "@shared/schema";
-import { sendEmail } from './sendgrid';
+import { hasGeofencePolygon, distanceToPolygon, checkSiteGeofence, gpsAccuracyBuffer, gpsFixSchema, isReliableFix, type GpsFix } from "@shared/geofence";
+import {
+  ADMIN_NOTIFICATION_TYPES,
+  type AdminNotificationType,
+  clientMessageSchema,
+  PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  UNSUPPORTED_PROTOCOL_CLOSE_CODE,
+  type AdminNotification,
+  type NotificationPayload,
+  type ServerMessage,
+} from "@shared/realtime";
+import type { GeofencePolygon, Attendance, AttendanceBreak, LeaveRequestStatus, ReportFilters, Notification, Employee, WorkSite, LocationAnomalyType } from "@shared/schema";
+import { calculateBreakMs, calculateOffsiteMs, calculateOffsitePeriods, calculateWorkedMs, formatDuration, type OffsitePeriod } from "@shared/worktime";
+import { formatDateKey, getShiftOccurrences, resolveShiftForCheckIn } from './shifts';
+import { startShiftAlertEvaluator } from './shiftAlerts';
+import { startAutoCheckoutScheduler } from './autoCheckout';
+import { AttendanceCorrectionError, createManualAttendance, editAttendance, recordAutoClose, splitAttendance } from './attendanceCorrections';
+import { getWeekKey, getWeekRange, normalizeWeekKey, summarizeTimesheet, SUBMITTABLE_STATUSES, REVIEWABLE_STATUSES, TimesheetLockedError } from './timesheets';
+import { countWorkingDays, findHoliday, HolidayImportError, parseHolidayFile, type ScopedHoliday } from './holidays';
+import { calculatePayableHours, DEFAULT_PAY_RULES, toHours, type PayableRecord, type PayRules } from './payableHours';
+import { renderPayrollFile, type PayrollSummary } from './payroll';
+import { isValidTimeZone, nextCronRun, ReportScheduleError, runReportSchedule, startReportScheduler, type ScheduledReportSender } from './reportSchedules';
+import { ACTIVE_LEAVE_STATUSES, assertLeaveAvailable, countApprovedLeaveDays, countLeaveDays, LeaveRequestError, summarizeLeaveBalance } from './leave';
+import { getDefaultFromEmail, isEmailConfigured, sendEmail } from './email';
+import { createBackplane, type BackplaneEvent } from './backplane';
+import { checkPingGeofence, detectGeofenceTransition, toGeofenceEventUpdate, type GeofencePing } from './geofenceEvents';
+import { describeLocationAnomalies, findLocationAnomalies, recordLocationAnomalies, type LocationFix } from './locationAnomalies';
+import { DEFAULT_NOTIFICATION_SETTINGS, getNotificationSettings, nextDigestRun, planNotificationDelivery, sendNotificationEmail, startNotificationDigestScheduler } from './notificationPreferences';
 import * as XLSX from 'xlsx';
 import { createObjectCsvWriter } from 'csv-writer';
 import PDFDocument from 'pdfkit';
@@ -28,10 +78,10 @@ import { ObjectStorageService, ObjectNotFoundError } from './objectStorage';
 import path from 'path';
 import fs from 'fs';
 import sharp from 'sharp';
-import { randomUUID } from 'crypto';
+import { createHash, randomUUID } from 'crypto';
 import express from 'express';
 import { ImageCompressionService } from './imageCompression';
-import { uploadProfileImage, uploadSiteImage, uploadMiddleware, deleteImageFromSupabase, deleteSiteImageFromSupabase } from './uploadController';
+import { uploadProfileImage, uploadSiteImage, uploadAttendancePhoto, uploadMiddleware, deleteImageFromSupabase, deleteSiteImageFromSupabase, getAttendancePhotoEmployeeId, getAttendancePhotoUrl, isValidAttendancePhoto } from './uploadController';
 
 const JWT_SECRET = (() => {
   const value = process.env.JWT_SECRET;
@@ -41,73 +91,299 @@ const JWT_SECRET = (() => {
   return value;
 })();
 
-const SENDGRID_FROM_EMAIL = (() => {
-  const value = process.env.SENDGRID_FROM_EMAIL;
-  if (!value) {
-    throw new Error('SENDGRID_FROM_EMAIL environment variable must be set'); // Prevents fallback email leaking into repo
+// WebSocket connections for real-time notifications held by this instance
+const adminConnections = new Map<number, WebSocket[]>(); // adminId -> WebSocket[]
+
+// Active employee sessions to enforce single-device logins, kept in step across
+// instances through the backplane
+const activeEmployeeSessions = new Map<number, string>(); // employeeId -> token hash
+
+// Carries notifications, locations and session changes to every server instance
+const backplane = createBackplane();
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+// Deliver a backplane event to the sockets and state held by this instance
+function handleBackplaneEvent(event: BackplaneEvent) {
+  switch (event.type) {
+    case 'admin_notification':
+      sendToAdminSockets(event.adminId, { type: 'notification', data: event.notification });
+      break;
+    case 'employee_location':
+      sendToAdminSockets(event.adminId, { type: 'employee_location', ...event.location });
+      break;
+    case 'geofence_event':
+      sendToAdminSockets(event.adminId, { type: 'geofence_event', event: event.event });
+      break;
+    case 'employee_session':
+      if (event.sessionHash) {
+        activeEmployeeSessions.set(event.employeeId, event.sessionHash);
+      } else {
+        activeEmployeeSessions.delete(event.employeeId);
+      }
+      break;
   }
-  return value;
-})();
+}
 
-// WebSocket connections for real-time notifications
-const adminConnections = new Map<number, WebSocket[]>(); // adminId -> WebSocket[]
+function publishEvent(event: BackplaneEvent) {
+  backplane.publish(event).catch(error => {
+    console.error(`❌ Failed to publish ${event.type}:`, error);
+  });
+}
 
-// Notification stack to maintain last 5 transactions per admin
-const notificationStacks = new Map<number, any[]>(); // adminId -> notifications[]
+// Store a geofence crossing, if this ping made one, and show it to the employee's admin live.
+// Never fails the location update it came with.
+async function recordGeofenceTransition(employee: Employee, site: WorkSite, ping: GeofencePing) {
+  try {
+    const event = await detectGeofenceTransition(employee, site, ping);
+    if (event) {
+      publishEvent({ type: 'geofence_event', adminId: employee.adminId, event: toGeofenceEventUpdate(event, employee, site) });
+    }
+  } catch (error) {
+    console.error(`❌ Failed to record geofence event for employee ${employee.id}:`, error);
+  }
+}
 
-// Active employee sessions to enforce single-device logins
-const activeEmployeeSessions = new Map<number, string>(); // employeeId -> jwt token
+// Signs that a fix is spoofed, compared with the employee's recent fixes. Must run before
+// the fix is stored. Never fails the request it came with.
+async function checkLocationAnomalies(employeeId: number, fix: LocationFix, isCheckIn: boolean): Promise<LocationAnomalyType[]> {
+  try {
+    return await findLocationAnomalies(employeeId, fix, isCheckIn);
+  } catch (error) {
+    console.error(`❌ Failed to check location anomalies for employee ${employeeId}:`, error);
+    return [];
+  }
+}
 
-// Helper to add notification to stack
-function addToNotificationStack(adminId: number, notification: any) {
-  const stack = notificationStacks.get(adminId) || [];
-  stack.unshift(notification); // Add to beginning
-  if (stack.length > 5) {
-    stack.pop(); // Remove oldest if more than 5
+// Add anomalies to the session's risk score, and alert the admin once it becomes suspicious
+async function flagLocationAnomalies(
+  employee: Employee,
+  record: Attendance,
+  found: LocationAnomalyType[],
+  site: Pick<WorkSite, 'id' | 'name' | 'address'> | null | undefined
+) {
+  if (found.length === 0) return;
+  try {
+    const update = await recordLocationAnomalies(record, found);
+    if (!update?.crossedThreshold) return;
+
+    const { riskScore, riskFlags } = update.record;
+    notifyAdmin(employee.adminId, {
+      type: 'location_anomaly',
+      message: `${employee.firstName} ${employee.lastName} may be spoofing their location (risk ${riskScore}/100): ${describeLocationAnomalies(riskFlags)}`,
+      attendanceId: record.id,
+      riskScore,
+      riskFlags,
+      employee: {
+        id: employee.id,
+        name: `${employee.firstName} ${employee.lastName}`,
+        email: employee.email,
+        firstName: employee.firstName,
+        lastName: employee.lastName
+      },
+      site: site ? { id: site.id, name: site.name, address: site.address } : null,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error(`❌ Failed to flag location anomalies for attendance ${record.id}:`, error);
   }
-  notificationStacks.set(adminId, stack);
 }
 
+// Notification types that may be pushed to admins
+const adminNotificationTypes = new Set<string>(ADMIN_NOTIFICATION_TYPES);
+
 // Helper function to send notification to admin
-function notifyAdmin(adminId: number, notification: any) {
+function notifyAdmin(adminId: number, notification: AdminNotification) {
   // Validate notification type
-  if (!notification.type || (notification.type !== 'employee_checkin' && notification.type !== 'employee_checkout')) {
+  if (!notification.type || !adminNotificationTypes.has(notification.type)) {
     if (process.env.NODE_ENV !== 'production') {
     console.error('❌ Invalid notification type:', notification.type);
     }
     return;
   }
   
-  // Add to notification stack first
-  addToNotificationStack(adminId, notification);
-  
+  deliverNotification(adminId, notification).catch(error => {
+    console.error(`❌ Failed to deliver notification to admin ${adminId}:`, error);
+  });
+}
+
+// Record, push and email a notification as the admin's preferences ask
+async function deliverNotification(adminId: number, notification: AdminNotification) {
+  const delivery = planNotificationDelivery(await getNotificationSettings(adminId), notification);
+  if (!delivery) return;
+
+  if (delivery.email) {
+    sendNotificationEmail(adminId, notification).catch(error => {
+      console.error(`❌ Failed to email notification to admin ${adminId}:`, error);
+    });
+  }
+
+  // Persist first so the pushed notification carries its id
+  let payload: NotificationPayload = notification;
+  try {
+    const saved = await storage.createNotification({
+      adminId,
+      type: notification.type,
+      message: notification.message,
+      payload: notification,
+      readAt: delivery.markRead ? new Date() : null,
+    });
+    payload = toClientNotification(saved);
+  } catch (error) {
+    console.error(`❌ Failed to store notification for admin ${adminId}:`, error);
+  }
+
+  if (delivery.push) {
+    pushNotification(adminId, payload);
+  }
+}
+
+// Stored notification as the admin client sees it: the original payload plus its state
+function toClientNotification(notification: Notification): NotificationPayload {
+  return {
+    ...(notification.payload as AdminNotification),
+    id: notification.id,
+    type: notification.type as AdminNotificationType,
+    message: notification.message,
+    timestamp: String(notification.payload.timestamp ?? notification.createdAt.toISOString()),
+    isRead: notification.readAt !== null,
+    readAt: notification.readAt?.toISOString() ?? null,
+  };
+}
+
+const geofenceEventQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  before: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+// A page of geofence events, newest first, in the shape they are pushed live
+async function listGeofenceEvents(scope: { employeeId: number } | { siteId: number }, query: unknown) {
+  const { from, to, before, limit } = geofenceEventQuerySchema.parse(query);
+  const events = await storage.getGeofenceEvents({ ...scope, from, to, before, limit });
+
+  const employeeIds = Array.from(new Set(events.map(event => event.employeeId)));
+  const siteIds = Array.from(new Set(events.map(event => event.siteId)));
+  const [employees, sites] = await Promise.all([
+    Promise.all(employeeIds.map(id => storage.getEmployee(id))),
+    Promise.all(siteIds.map(id => storage.getWorkSite(id))),
+  ]);
+  const employeesById = new Map(employees.filter(e => e !== undefined).map(e => [e.id, e]));
+  const sitesById = new Map(sites.filter(s => s !== undefined).map(s => [s.id, s]));
+
+  return {
+    events: events.map(event => toGeofenceEventUpdate(
+      event,
+      employeesById.get(event.employeeId) ?? { id: event.employeeId, firstName: 'Unknown', lastName: 'employee' },
+      sitesById.get(event.siteId) ?? { id: event.siteId, name: 'Unknown site' }
+    )),
+    nextCursor: events.length === limit ? events[events.length - 1].id : null,
+  };
+}
+
+// Deliver a notification to every open WebSocket of the admin, on every instance.
+// Clients de-duplicate by notification id and acknowledge what they received.
+function pushNotification(adminId: number, notification: NotificationPayload) {
+  publishEvent({ type: 'admin_notification', adminId, notification });
+}
+
+// Send one protocol message to a socket, ignoring sockets that closed meanwhile
+function sendMessage(ws: WebSocket, message: ServerMessage) {
+  if (ws.readyState !== WebSocket.OPEN) return;
+  try {
+    ws.send(JSON.stringify(message));
+  } catch (error) {
+    if (process.env.NODE_ENV !== 'production') {
+    console.error(`❌ Failed to send ${message.type}:`, error);
+    }
+  }
+}
+
+function sendToAdminSockets(adminId: number, message: ServerMessage) {
   const connections = adminConnections.get(adminId) || [];
   
   // Clean up closed connections first
   const activeConnections = connections.filter(ws => ws.readyState === WebSocket.OPEN);
-  adminConnections.set(adminId, activeConnections);
+  if (activeConnections.length > 0) {
+    adminConnections.set(adminId, activeConnections);
+  } else {
+    adminConnections.delete(adminId);
+  }
   
-  if (activeConnections.length === 0) {
-    // No active connections for admin
+  activeConnections.forEach(ws => sendMessage(ws, message));
+}
+
+// Most notifications sent to a reconnecting device in one go
+const MAX_REPLAYED_NOTIFICATIONS = 50;
+
+// Send a reconnecting device the unread notifications stored after the last one it
+// acknowledged. A device seen for the first time starts from the latest notification.
+async function replayMissedNotifications(adminId: number, clientId: string, ws: WebSocket) {
+  const receipt = await storage.getNotificationReceipt(adminId, clientId);
+  if (!receipt) {
+    await storage.acknowledgeNotifications(adminId, clientId, await storage.getLatestNotificationId(adminId));
     return;
   }
-  
-  const message = JSON.stringify({
-    type: 'notification',
-    data: notification
+
+  const missed = await storage.getNotifications(adminId, {
+    status: 'unread',
+    after: receipt.lastNotificationId,
+    limit: MAX_REPLAYED_NOTIFICATIONS,
   });
-  
-  // Send to only the first active connection to avoid duplicates
-  const ws = activeConnections[0];
-  try {
-    ws.send(message);
-  } catch (error) {
-    if (process.env.NODE_ENV !== 'production') {
-    console.error(`❌ Failed to send notification to admin ${adminId}:`, error);
-    }
+  // Oldest first, as they would have arrived live
+  for (const notification of missed.reverse()) {
+    sendMessage(ws, { type: 'notification', data: toClientNotification(notification), replay: true });
   }
 }
 
+// Load the breaks for a set of attendance records and attach them as `breaks`
+async function attachBreaks<T extends { id: number }>(records: T[]): Promise<(T & { breaks: AttendanceBreak[] })[]> {
+  const breaks = await storage.getBreaksByAttendanceIds(records.map(record => record.id));
+  return records.map(record => ({
+    ...record,
+    breaks: breaks.filter(b => b.attendanceId === record.id),
+  }));
+}
+
+// Work out the off-site stretches of each session from the location pings recorded
+// during it and attach them as `offsitePeriods`. Remote staff and remote sites have no
+// boundary to leave, so their sessions never have any.
+async function attachOffsitePeriods<T extends Pick<Attendance, 'employeeId' | 'siteId' | 'checkInTime' | 'checkOutTime'>>(
+  records: T[]
+): Promise<(T & { offsitePeriods: OffsitePeriod[] })[]> {
+  const [employees, sites] = await Promise.all([
+    Promise.all(Array.from(new Set(records.map(record => record.employeeId))).map(id => storage.getEmployee(id))),
+    Promise.all(Array.from(new Set(records.map(record => record.siteId))).map(id => storage.getWorkSite(id))),
+  ]);
+  const remoteEmployees = new Set(employees.filter(employee => employee?.isRemote).map(employee => employee!.id));
+  const remoteSites = new Set(sites.filter(site => site?.isRemote).map(site => site!.id));
+  const isTracked = (record: T) =>
+    !!record.checkInTime && !remoteEmployees.has(record.employeeId) && !remoteSites.has(record.siteId);
+
+  const sessions = records.filter(isTracked);
+  if (sessions.length === 0) return records.map(record => ({ ...record, offsitePeriods: [] }));
+
+  const from = new Date(Math.min(...sessions.map(record => record.checkInTime!.getTime())));
+  const to = new Date(Math.max(...sessions.map(record => (record.checkOutTime ?? new Date()).getTime())));
+  const employeeIds = Array.from(new Set(sessions.map(record => record.employeeId)));
+  const pings = await storage.getLocationPingsInRange(employeeIds, from, to);
+
+  const pingsByEmployee = new Map<number, typeof pings>();
+  pings.forEach(ping => {
+    const employeePings = pingsByEmployee.get(ping.employeeId) ?? [];
+    employeePings.push(ping);
+    pingsByEmployee.set(ping.employeeId, employeePings);
+  });
+
+  return records.map(record => ({
+    ...record,
+    offsitePeriods: isTracked(record)
+      ? calculateOffsitePeriods(pingsByEmployee.get(record.employeeId) ?? [], record.checkInTime!, record.checkOutTime)
+      : [],
+  }));
+}
+
 interface AuthenticatedRequest extends Request {
   user?: {
     id: number;
@@ -134,8 +410,8 @@ const authenticateToken = (userType?: 'admin' | 'employee' | 'super_admin' | ('a
         }
       }
       if (decoded.type === 'employee') {
-        const activeToken = activeEmployeeSessions.get(decoded.id);
-        if (activeToken && activeToken !== token) {
+        const activeSession = activeEmployeeSessions.get(decoded.id);
+        if (activeSession && activeSession !== hashToken(token)) {
           return res.status(401).json({ message: 'You have been logged out because your account was used on another device.' });
         }
       }
@@ -163,11 +439,6 @@ function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: numbe
   return R * c; // Distance in meters
 }
 
-// GPS accuracy buffer to account for mobile GPS inaccuracies (typically 3-10m)
-// Using a 50m buffer to reduce false negatives when employees are on site
-// This accounts for GPS drift, device accuracy variations, and signal issues
-const GPS_ACCURACY_BUFFER = 50; // meters - increased from 15m for better reliability
-
 // Helper function to safely parse coordinate values
 function parseCoordinate(value: number | string | null | undefined): number {
   if (value === null || value === undefined) {
@@ -221,12 +492,17 @@ function validateAndCorrectCoordinates(
 }
 
 // Helper function to check if employee is within geofence with GPS accuracy buffer
+// When the site has a polygon boundary, distance is measured to the nearest edge
+// (0 when inside) and only the GPS buffer is allowed outside the boundary.
+// `buffer` comes from the fix's reported accuracy, see gpsAccuracyBuffer.
 function isWithinGeofence(
   employeeLat: number | string | null | undefined,
   employeeLon: number | string | null | undefined,
   siteLat: number | string | null | undefined,
   siteLon: number | string | null | undefined,
-  geofenceRadius: number
+  geofenceRadius: number,
+  geofencePolygon: GeofencePolygon | null | undefined,
+  buffer: number
 ): { isWithin: boolean; distance: number; effectiveRadius: number } {
   const rawEmpLat = parseCoordinate(employeeLat);
   const rawEmpLon = parseCoordinate(employeeLon);
@@ -263,12 +539,30 @@ function isWithinGeofence(
       valid: { isValidLat, isValidLon, isValidSiteLat, isValidSiteLon }
     });
     }
-    return { isWithin: false, distance: Infinity, effectiveRadius: geofenceRadius + GPS_ACCURACY_BUFFER };
+    return { isWithin: false, distance: Infinity, effectiveRadius: geofenceRadius + buffer };
   }
   
+  // Polygon boundaries replace the radius circle entirely
+  if (hasGeofencePolygon(geofencePolygon)) {
+    const polygonDistance = distanceToPolygon(empLat, empLon, geofencePolygon);
+    const polygonWithin = polygonDistance <= buffer;
+
+    if (process.env.NODE_ENV !== 'production') {
+    console.log('📍 Geofence polygon calculation:', {
+      employeeCoords: { lat: empLat.toFixed(6), lon: empLon.toFixed(6) },
+      shapes: geofencePolygon.length,
+      distanceOutside: Math.round(polygonDistance),
+      buffer,
+      isWithin: polygonWithin
+    });
+    }
+
+    return { isWithin: polygonWithin, distance: polygonDistance, effectiveRadius: buffer };
+  }
+
   // Calculate distance
   const distance = calculateDistance(empLat, empLon, sLat, sLon);
-  const effectiveRadius = geofenceRadius + GPS_ACCURACY_BUFFER;
+  const effectiveRadius = geofenceRadius + buffer;
   const isWithin = distance <= effectiveRadius;
   
   // FIX: Improved logging with clear success/failure messages
@@ -293,7 +587,7 @@ function isWithinGeofence(
     },
     distance: Math.round(distance),
     geofenceRadius,
-    buffer: GPS_ACCURACY_BUFFER,
+    buffer,
     effectiveRadius: Math.round(effectiveRadius),
     isWithin,
     message: logMessage
@@ -319,6 +613,32 @@ function isWithinGeofence(
   return { isWithin, distance, effectiveRadius };
 }
 
+// Check-in and checkout need a fix the site can trust; null when this one is good enough
+function inaccurateFixMessage(fix: GpsFix, site: { maxGpsAccuracy: number }, action: string): string | null {
+  if (isReliableFix(fix.accuracy, site)) return null;
+  return `Your location is only accurate to ${Math.round(fix.accuracy!)}m, but this site needs ${site.maxGpsAccuracy}m or better to ${action}. Move to an open area and try again.`;
+}
+
+// The camera photo sent with a check-in or checkout. Sites can require one; any photo sent
+// must have just been uploaded by this employee and not used before, so an old, borrowed
+// or replayed photo is refused.
+async function resolveAttendancePhoto(
+  photo: unknown,
+  employeeId: number,
+  site: Pick<WorkSite, 'requirePhoto'> | null | undefined,
+  action: string
+): Promise<{ photo: string | null } | { error: string }> {
+  if (photo === undefined || photo === null || photo === '') {
+    return site?.requirePhoto ? { error: `This site requires a photo to ${action}` } : { photo: null };
+  }
+  if (typeof photo !== 'string'
+    || !(await isValidAttendancePhoto(photo, employeeId))
+    || await storage.isAttendancePhotoUsed(photo)) {
+    return { error: `Please take a new photo to ${action}` };
+  }
+  return { photo };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Ensure local upload dir exists
   const uploadDir = path.join(process.cwd(), 'server', 'public', 'uploads');
@@ -357,7 +677,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         { expiresIn: '24h' }
       );
 
-      activeEmployeeSessions.set(employee.id, token);
+      publishEvent({ type: 'employee_session', employeeId: employee.id, sessionHash: hashToken(token) });
 
       res.json({ 
         token,
@@ -380,9 +700,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/employee/logout', authenticateToken('employee'), async (req: AuthenticatedRequest, res) => {
     const authHeader = req.headers['authorization'];
     const token = authHeader && authHeader.split(' ')[1];
-    const activeToken = activeEmployeeSessions.get(req.user!.id);
-    if (!activeToken || !token || activeToken === token) {
-      activeEmployeeSessions.delete(req.user!.id);
+    const activeSession = activeEmployeeSessions.get(req.user!.id);
+    if (!activeSession || !token || activeSession === hashToken(token)) {
+      publishEvent({ type: 'employee_session', employeeId: req.user!.id, sessionHash: null });
     }
     res.json({ success: true });
   });
@@ -450,7 +770,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/employee/attendance/current', authenticateToken('employee'), async (req: AuthenticatedRequest, res) => {
     try {
       const attendance = await storage.getCurrentAttendance(req.user!.id);
-      res.json(attendance || null);
+      if (!attendance) {
+        return res.json(null);
+      }
+      const [withBreaks] = await attachBreaks([attendance]);
+      res.json(withBreaks);
     } catch (error) {
       console.error('Error fetching current attendance:', error);
       res.status(500).json({ message: 'Failed to fetch attendance' });
@@ -471,6 +795,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Invalid coordinates provided' });
       }
       
+      const fixResult = gpsFixSchema.safeParse(req.body);
+      if (!fixResult.success) {
+        return res.status(400).json({ message: fixResult.error.errors.map(e => e.message).join(', ') });
+      }
+      const fix = fixResult.data;
+
       const employeeId = req.user!.id;
 
       // Get employee
@@ -498,15 +828,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // But still track their location for live tracking
       const isRemote = employee.isRemote || (site?.isRemote ?? false);
       
-      if (!isRemote) {
-      // FIX: Check if employee is within geofence with GPS accuracy buffer
-      // Use parsed numeric values for accurate calculation
+      if (site && !isRemote) {
+      const accuracyMessage = inaccurateFixMessage(fix, site, 'check in');
+      if (accuracyMessage) {
+        return res.status(400).json({ message: accuracyMessage, accuracy: fix.accuracy, requiredAccuracy: site.maxGpsAccuracy });
+      }
+
+      // Check if employee is within geofence, allowing for the accuracy of the fix
       const geofenceCheck = isWithinGeofence(
-        empLat, // Use parsed numeric values
-        empLon, // Use parsed numeric values
+        empLat,
+        empLon,
         site.latitude,
         site.longitude,
-        site.geofenceRadius
+        site.geofenceRadius,
+        site.geofencePolygon,
+        gpsAccuracyBuffer(fix.accuracy, site)
       );
 
       // FIX: Log check-in attempt with clear message
@@ -516,7 +852,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       if (!geofenceCheck.isWithin) {
         return res.status(400).json({ 
-          message: `You must be within ${site.geofenceRadius}m of the work site to check in. You are ${Math.round(geofenceCheck.distance)}m away.`,
+          message: hasGeofencePolygon(site?.geofencePolygon)
+            ? `You must be inside the work site boundary to check in. You are ${Math.round(geofenceCheck.distance)}m outside it.`
+            : `You must be within ${site.geofenceRadius}m of the work site to check in. You are ${Math.round(geofenceCheck.distance)}m away.`,
           distance: Math.round(geofenceCheck.distance),
           requiredRadius: site.geofenceRadius
         });
@@ -527,22 +865,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const siteName = site?.name || 'Remote Work Site';
       }
 
-      // Check if already checked in
-      const currentAttendance = await storage.getCurrentAttendance(employeeId);
-      if (currentAttendance && !currentAttendance.checkOutTime) {
-        // If there's an old attendance record that was never checked out, close it silently first
-        // This prevents duplicate check-in issues and ensures data integrity
-        
-        // Close the old attendance record silently (without sending notification)
-        // Use the same coordinates as the new check-in for the checkout
-        await storage.updateAttendance(currentAttendance.id, {
-          checkOutTime: new Date(),
-          checkOutLatitude: empLat.toString(),
-          checkOutLongitude: empLon.toString(),
-        });
-        
-      }
-
       // FIX: Create attendance record with parsed numeric coordinates
       // For remote employees without a siteId, we need to get or create a default remote site
       // Since attendance table requires siteId, we'll use the employee's siteId if available
@@ -570,11 +892,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'No work site assigned' });
       }
 
+      const attendanceSite = site ?? await storage.getWorkSite(finalSiteId);
+      if (!attendanceSite) {
+        return res.status(400).json({ message: 'Work site not found' });
+      }
+      const photo = await resolveAttendancePhoto(req.body.photo, employeeId, attendanceSite, 'check in');
+      if ('error' in photo) {
+        return res.status(400).json({ message: photo.error });
+      }
+
+      // Check if already checked in - only once the check-in is known to be valid
+      const currentAttendance = await storage.getCurrentAttendance(employeeId);
+      if (currentAttendance && !currentAttendance.checkOutTime) {
+        // If there's an old attendance record that was never checked out, close it silently first
+        // This prevents duplicate check-in issues and ensures data integrity
+        
+        // Close the old attendance record silently (without sending notification)
+        // Use the same coordinates as the new check-in for the checkout
+        const closedAt = new Date();
+        const closedAttendance = await storage.updateAttendance(currentAttendance.id, {
+          checkOutTime: closedAt,
+          checkOutLatitude: empLat.toString(),
+          checkOutLongitude: empLon.toString(),
+        });
+        // Keep a revision so admins can see (and correct) the stamped checkout
+        await recordAutoClose(currentAttendance, closedAttendance);
+        
+      }
+
+      // Link the check-in to the planned shift (if any) so lateness and no-shows can be computed
+      const shift = await resolveShiftForCheckIn(employeeId);
+
+      const anomalies = await checkLocationAnomalies(employeeId, {
+        latitude: empLat,
+        longitude: empLon,
+        accuracy: fix.accuracy ?? null,
+        timestamp: new Date(),
+      }, true);
+
       const attendance = await storage.createAttendance({
         employeeId,
         siteId: finalSiteId,
         checkInLatitude: empLat.toString(), // Store as string in DB
         checkInLongitude: empLon.toString(), // Store as string in DB
+        checkInAccuracy: fix.accuracy ?? null,
+        checkInPhoto: photo.photo,
+        shiftId: shift?.id ?? null,
       });
 
       // FIX: Create location tracking record with parsed numeric coordinates
@@ -583,12 +946,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         latitude: empLat.toString(), // Store as string in DB
         longitude: empLon.toString(), // Store as string in DB
         isOnSite: true,
+        ...fix,
       });
 
       // Send real-time notification to admin
       // IMPORTANT: Always send check-in notification with type 'employee_checkin'
       // Get the final site for notification (may be different from employee.siteId for remote employees)
-      const finalSite = site || await storage.getWorkSite(finalSiteId);
+      const finalSite = attendanceSite;
       const siteName = finalSite?.name || 'Remote Work Site';
       const siteAddress = finalSite?.address || 'Remote Location';
       
@@ -608,13 +972,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
           address: siteAddress
         },
         timestamp: new Date().toISOString(),
-        location: { latitude, longitude }
+        location: { latitude: empLat, longitude: empLon },
+        photo: photo.photo
       };
       
       notifyAdmin(employee.adminId, checkInNotification);
+      await flagLocationAnomalies(employee, attendance, anomalies, finalSite);
 
       res.json(attendance);
     } catch (error) {
+      if (error instanceof TimesheetLockedError) {
+        return res.status(409).json({ message: error.message });
+      }
       console.error('Error checking in:', error);
       res.status(500).json({ message: 'Failed to check in' });
     }
@@ -632,6 +1001,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Valid latitude and longitude are required for checkout.' });
       }
 
+      const fixResult = gpsFixSchema.safeParse(req.body);
+      if (!fixResult.success) {
+        return res.status(400).json({ message: fixResult.error.errors.map(e => e.message).join(', ') });
+      }
+      const fix = fixResult.data;
+
       const employee = await storage.getEmployee(employeeId);
       if (!employee) {
         return res.status(404).json({ message: 'Employee not found' });
@@ -645,12 +1020,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Assigned work site not found' });
       }
 
+      const accuracyMessage = inaccurateFixMessage(fix, site, 'check out');
+      if (accuracyMessage) {
+        return res.status(403).json({ message: accuracyMessage, accuracy: fix.accuracy, requiredAccuracy: site.maxGpsAccuracy });
+      }
+
       const geofenceCheck = isWithinGeofence(
         latNum,
         lonNum,
         site.latitude,
         site.longitude,
-        site.geofenceRadius
+        site.geofenceRadius,
+        site.geofencePolygon,
+        gpsAccuracyBuffer(fix.accuracy, site)
       );
 
       if (!geofenceCheck.isWithin) {
@@ -664,11 +1046,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Not currently checked in' });
       }
 
-      // Update attendance record
+      const photo = await resolveAttendancePhoto(
+        req.body.photo,
+        employeeId,
+        site ?? await storage.getWorkSite(currentAttendance.siteId),
+        'check out'
+      );
+      if ('error' in photo) {
+        return res.status(400).json({ message: photo.error });
+      }
+
+      // Update attendance record - a break still running ends at checkout
+      const checkOutTime = new Date();
+      const anomalies = await checkLocationAnomalies(employeeId, {
+        latitude: latNum,
+        longitude: lonNum,
+        accuracy: fix.accuracy ?? null,
+        timestamp: checkOutTime,
+      }, false);
       const updatedAttendance = await storage.updateAttendance(currentAttendance.id, {
-        checkOutTime: new Date(),
+        checkOutTime,
         checkOutLatitude: latNum.toString(),
         checkOutLongitude: lonNum.toString(),
+        checkOutAccuracy: fix.accuracy ?? null,
+        checkOutPhoto: photo.photo,
       });
 
       // Create location tracking record
@@ -677,6 +1078,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         latitude: latNum.toString(),
         longitude: lonNum.toString(),
         isOnSite: true,
+        ...fix,
       });
 
       // Send real-time notification to admin
@@ -697,19 +1099,80 @@ export async function registerRoutes(app: Express): Promise<Server> {
           address: site.address
         } : null,
         timestamp: new Date().toISOString(),
-        location: { latitude, longitude }
+        location: { latitude: latNum, longitude: lonNum },
+        photo: photo.photo
       };
       
       notifyAdmin(employee.adminId, checkOutNotification);
+      await flagLocationAnomalies(employee, updatedAttendance, anomalies, site);
 
       res.json(updatedAttendance);
     } catch (error) {
+      if (error instanceof TimesheetLockedError) {
+        return res.status(409).json({ message: error.message });
+      }
       console.error('Error checking out:', error);
       res.status(500).json({ message: 'Failed to check out' });
     }
   });
 
+  // Break tracking - unpaid breaks inside the current attendance session
+  app.post('/api/employee/attendance/break/start', authenticateToken('employee'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const currentAttendance = await storage.getCurrentAttendance(req.user!.id);
+      if (!currentAttendance || currentAttendance.checkOutTime) {
+        return res.status(400).json({ message: 'You must be checked in to start a break' });
+      }
+
+      const openBreak = await storage.getOpenBreak(currentAttendance.id);
+      if (openBreak) {
+        return res.status(400).json({ message: 'You are already on a break' });
+      }
+
+      const attendanceBreak = await storage.startBreak(currentAttendance.id);
+      res.json(attendanceBreak);
+    } catch (error) {
+      if (error instanceof TimesheetLockedError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error('Error starting break:', error);
+      res.status(500).json({ message: 'Failed to start break' });
+    }
+  });
+
+  app.post('/api/employee/attendance/break/end', authenticateToken('employee'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const currentAttendance = await storage.getCurrentAttendance(req.user!.id);
+      if (!currentAttendance || currentAttendance.checkOutTime) {
+        return res.status(400).json({ message: 'Not currently checked in' });
+      }
+
+      const openBreak = await storage.getOpenBreak(currentAttendance.id);
+      if (!openBreak) {
+        return res.status(400).json({ message: 'You are not on a break' });
+      }
+
+      const attendanceBreak = await storage.endBreak(openBreak.id);
+      res.json(attendanceBreak);
+    } catch (error) {
+      if (error instanceof TimesheetLockedError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error('Error ending break:', error);
+      res.status(500).json({ message: 'Failed to end break' });
+    }
+  });
+
   const httpServer = createServer(app);
+
+  // Background evaluator for late arrival / early departure / no-show alerts
+  startShiftAlertEvaluator(notifyAdmin);
+  // Closes sessions employees forgot to check out of, per company policy
+  startAutoCheckoutScheduler(notifyAdmin);
+
+  startNotificationDigestScheduler();
+
+  backplane.subscribe(handleBackplaneEvent);
   
   // WebSocket server for real-time location updates
   const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
@@ -737,33 +1200,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return;
       }
 
+      const protocolVersion = parseInt(url.searchParams.get('v') ?? '');
+      if (!SUPPORTED_PROTOCOL_VERSIONS.includes(protocolVersion)) {
+        ws.close(UNSUPPORTED_PROTOCOL_CLOSE_CODE, `Unsupported protocol version, expected ${PROTOCOL_VERSION}`);
+        return;
+      }
+
+      // Identifies the admin's browser across reconnects for notification acknowledgements
+      const clientId = url.searchParams.get('clientId')?.slice(0, 64) || null;
+
+      sendMessage(ws, {
+        type: 'connection_established',
+        protocolVersion: PROTOCOL_VERSION,
+        message: 'Connected to notification system',
+      });
+
       if (decoded.type === 'admin') {
         const connections = adminConnections.get(decoded.id) || [];
         connections.push(ws);
         adminConnections.set(decoded.id, connections);
 
-        try {
-          ws.send(JSON.stringify({
-            type: 'connection_established',
-            message: 'Connected to notification system'
-          }));
-        } catch (error) {
-        }
-
-        const existingConnections = adminConnections.get(decoded.id) || [];
-        if (existingConnections.length === 1) {
-          const recentNotifications = notificationStacks.get(decoded.id) || [];
-          if (recentNotifications.length > 0) {
-            recentNotifications.forEach(notification => {
-              try {
-                ws.send(JSON.stringify({
-                  type: 'notification',
-                  data: notification
-                }));
-              } catch (error) {
-              }
-            });
-          }
+        if (clientId) {
+          replayMissedNotifications(decoded.id, clientId, ws).catch(error => {
+            console.error(`❌ Failed to replay notifications for admin ${decoded.id}:`, error);
+          });
         }
       } else if (decoded.type === 'employee') {
         employeeConnections.set(decoded.id, ws);
@@ -788,73 +1248,92 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       ws.on('message', async (data) => {
+        let parsed: unknown;
         try {
-          const message = JSON.parse(data.toString());
+          parsed = JSON.parse(data.toString());
+        } catch (error) {
+          sendMessage(ws, { type: 'error', message: 'Messages must be JSON' });
+          return;
+        }
 
-          if (message.type === 'location_update' && decoded.type === 'employee') {
-            const { latitude, longitude } = message;
-            const latNum = parseFloat(latitude);
-            const lonNum = parseFloat(longitude);
+        const result = clientMessageSchema.safeParse(parsed);
+        if (!result.success) {
+          sendMessage(ws, { type: 'error', message: `Invalid message: ${result.error.errors.map(e => e.message).join(', ')}` });
+          return;
+        }
+        const message = result.data;
 
-            if (Number.isNaN(latNum) || Number.isNaN(lonNum)) {
+        try {
+          if (message.type === 'notification_ack') {
+            if (decoded.type !== 'admin' || !clientId) {
+              sendMessage(ws, { type: 'error', message: 'notification_ack is only accepted from admin clients with a clientId' });
               return;
             }
+            await storage.acknowledgeNotifications(decoded.id, clientId, message.id);
+            return;
+          }
 
+          if (message.type === 'location_update') {
+            if (decoded.type !== 'employee') {
+              sendMessage(ws, { type: 'error', message: 'location_update is only accepted from employees' });
+              return;
+            }
+            const { latitude, longitude, accuracy, altitude, speed, heading } = message;
+            const fix: GpsFix = { accuracy, altitude, speed, heading };
             const employee = await storage.getEmployee(decoded.id);
 
             if (employee && employee.siteId) {
               const site = await storage.getWorkSite(employee.siteId);
 
               if (site) {
-                const distance = calculateDistance(
-                  latNum,
-                  lonNum,
-                  parseFloat(site.latitude as any),
-                  parseFloat(site.longitude as any)
-                );
-
-                const isOnSite = distance <= site.geofenceRadius;
-
-
+                const ping = await checkPingGeofence(employee.id, site, latitude, longitude, fix.accuracy ?? null);
+                const { distance } = ping;
+                // Remote staff and remote sites can work from anywhere, as on the HTTP path
+                const isOnSite = employee.isRemote || site.isRemote ? true : ping.isWithin;
+                const currentAttendance = await storage.getCurrentAttendance(employee.id);
+                const anomalies = currentAttendance
+                  ? await checkLocationAnomalies(employee.id, { latitude, longitude, accuracy: fix.accuracy ?? null, timestamp: new Date() }, false)
+                  : [];
+
+                await recordGeofenceTransition(employee, site, ping);
                 await storage.createLocationTracking({
                   employeeId: decoded.id,
-                  latitude: latNum.toString(),
-                  longitude: lonNum.toString(),
+                  latitude: latitude.toString(),
+                  longitude: longitude.toString(),
                   isOnSite,
+                  ...fix,
                 });
-
-                const adminWsList = adminConnections.get(employee.adminId);
-                if (adminWsList && adminWsList.length > 0) {
-                  adminWsList.forEach(adminWs => {
-                    if (adminWs.readyState === WebSocket.OPEN) {
-                      try {
-                        adminWs.send(JSON.stringify({
-                          type: 'employee_location',
-                          employeeId: decoded.id,
-                          employee: {
-                            id: employee.id,
-                            firstName: employee.firstName,
-                            lastName: employee.lastName,
-                            siteId: employee.siteId,
-                          },
-                          location: {
-                            latitude: latNum,
-                            longitude: lonNum,
-                            isOnSite,
-                            distanceFromSite: Math.round(distance),
-                            timestamp: new Date().toISOString(),
-                          },
-                        }));
-                      } catch (error) {
-                      }
-                    }
-                  });
-                } else {
+                if (currentAttendance) {
+                  await flagLocationAnomalies(employee, currentAttendance, anomalies, site);
                 }
+
+                const distanceFromSite = Math.round(distance);
+                publishEvent({
+                  type: 'employee_location',
+                  adminId: employee.adminId,
+                  location: {
+                    employeeId: decoded.id,
+                    employee: {
+                      id: employee.id,
+                      firstName: employee.firstName,
+                      lastName: employee.lastName,
+                      siteId: employee.siteId,
+                    },
+                    location: {
+                      latitude,
+                      longitude,
+                      isOnSite,
+                      distanceFromSite,
+                      timestamp: new Date().toISOString(),
+                    },
+                  },
+                });
+                sendMessage(ws, { type: 'location_confirmed', isOnSite, distanceFromSite });
               }
             }
           }
         } catch (error) {
+          console.error(`❌ Failed to handle ${message.type}:`, error);
         }
       });
 
@@ -866,18 +1345,91 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Add endpoint to get recent notifications
+  // Notification history. Paginated newest first: pass the returned `nextCursor`
+  // as `before` to load the next page.
+  app.get('/api/admin/notifications', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const adminId = req.user!.id;
+      const status = req.query.status === 'read' || req.query.status === 'unread' ? req.query.status : undefined;
+      const type = typeof req.query.type === 'string' && adminNotificationTypes.has(req.query.type) ? req.query.type : undefined;
+      const before = req.query.before ? parseInt(req.query.before as string) : undefined;
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+
+      const [page, unreadCount] = await Promise.all([
+        storage.getNotifications(adminId, { status, type, before: before || undefined, limit }),
+        storage.countUnreadNotifications(adminId),
+      ]);
+
+      res.json({
+        notifications: page.map(toClientNotification),
+        nextCursor: page.length === limit ? page[page.length - 1].id : null,
+        unreadCount,
+      });
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+      res.status(500).json({ message: 'Failed to fetch notifications' });
+    }
+  });
+
+  // Latest unread notifications for the header dropdown
   app.get('/api/admin/notifications/recent', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
     try {
       const adminId = req.user!.id;
-      const recentNotifications = notificationStacks.get(adminId) || [];
-      res.json(recentNotifications);
+      const recentNotifications = await storage.getNotifications(adminId, { status: 'unread', limit: 20 });
+      res.json(recentNotifications.map(toClientNotification));
     } catch (error) {
       console.error('Error fetching recent notifications:', error);
       res.status(500).json({ message: 'Failed to fetch notifications' });
     }
   });
 
+  app.put('/api/admin/notifications/read-all', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      await storage.markAllNotificationsRead(req.user!.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+      res.status(500).json({ message: 'Failed to update notifications' });
+    }
+  });
+
+  app.put('/api/admin/notifications/dismiss-all', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      await storage.dismissAllNotifications(req.user!.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error dismissing notifications:', error);
+      res.status(500).json({ message: 'Failed to update notifications' });
+    }
+  });
+
+  // Mark one notification read or unread, or dismiss it
+  const notificationActions: Record<string, (notification: Notification) => { readAt?: Date | null; dismissedAt?: Date | null }> = {
+    read: notification => ({ readAt: notification.readAt ?? new Date() }),
+    unread: () => ({ readAt: null }),
+    dismiss: notification => ({ dismissedAt: notification.dismissedAt ?? new Date() }),
+  };
+
+  app.put('/api/admin/notifications/:id/:action(read|unread|dismiss)', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const notificationId = parseInt(req.params.id);
+      if (isNaN(notificationId)) {
+        return res.status(400).json({ message: 'Invalid notification ID' });
+      }
+
+      const notification = await storage.getNotification(notificationId);
+      if (!notification || notification.adminId !== req.user!.id) {
+        return res.status(404).json({ message: 'Notification not found' });
+      }
+
+      const updated = await storage.updateNotification(notificationId, notificationActions[req.params.action](notification));
+      res.json(toClientNotification(updated));
+    } catch (error) {
+      console.error('Error updating notification:', error);
+      res.status(500).json({ message: 'Failed to update notification' });
+    }
+  });
+
   // Alerts endpoint
   app.get('/api/admin/alerts', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
     try {
@@ -890,6 +1442,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Dismiss a persisted shift alert (late arrival, early departure, no-show)
+  app.put('/api/admin/alerts/:id/resolve', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const alertId = parseInt(req.params.id);
+      if (isNaN(alertId)) {
+        return res.status(400).json({ message: 'Invalid alert ID' });
+      }
+
+      const alert = await storage.resolveShiftAlert(alertId, req.user!.id);
+      if (!alert) {
+        return res.status(404).json({ message: 'Alert not found' });
+      }
+      res.json(alert);
+    } catch (error) {
+      console.error('Error resolving alert:', error);
+      res.status(500).json({ message: 'Failed to resolve alert' });
+    }
+  });
+
   // Admin Authentication Routes
   app.post('/api/admin/signup', async (req, res) => {
     try {
@@ -1040,7 +1611,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 location.longitude,
                 assignedSite.latitude,
                 assignedSite.longitude,
-                assignedSite.geofenceRadius
+                assignedSite.geofenceRadius,
+                assignedSite.geofencePolygon,
+                gpsAccuracyBuffer(location.accuracy, assignedSite)
               );
               if (geofenceCheck.isWithin) {
                 onSiteCount++;
@@ -1051,9 +1624,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
+      // Employees on approved leave today are expected to be away
+      const today = formatDateKey(new Date());
+      const activeIds = employees.filter(employee => employee.isActive).map(employee => employee.id);
+      const leaveToday = await storage.getApprovedLeaveInRange(today, today, activeIds);
+      const onLeaveToday = new Set(leaveToday.map(request => request.employeeId)).size;
+
       res.json({
         ...stats,
-        onSiteNow: onSiteCount.toString()
+        onSiteNow: onSiteCount.toString(),
+        onLeaveToday
       });
     } catch (error) {
       res.status(500).json({ message: 'Failed to fetch dashboard stats' });
@@ -1092,6 +1672,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({ message: 'Activity deleted successfully' });
     } catch (error: any) {
       console.error('Error deleting activity:', error);
+      if (error instanceof TimesheetLockedError) {
+        return res.status(409).json({ message: error.message });
+      }
       if (error.message === 'Attendance record not found') {
         return res.status(404).json({ message: error.message });
       }
@@ -1191,34 +1774,132 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Update notification preferences (placeholder for now)
-  app.put('/api/admin/notification-preferences', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+  // Automatic checkout policy - a disabled default is returned until one is saved
+  app.get('/api/admin/auto-checkout-policy', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
     try {
-      const preferences = req.body;
-      
-      // For now, we'll just return success. In a real app, you'd save these to the database
-      // Notification preferences updated
-      
-      res.json({ message: 'Notification preferences updated successfully' });
+      const policy = await storage.getAutoCheckoutPolicy(req.user!.id);
+      res.json(policy ?? {
+        adminId: req.user!.id,
+        isEnabled: false,
+        atShiftEnd: false,
+        shiftEndGraceMinutes: 30,
+        fixedTime: null,
+        offsiteMinutes: null,
+        maxHours: null,
+      });
     } catch (error) {
-      console.error('Error updating notification preferences:', error);
-      res.status(500).json({ message: 'Failed to update notification preferences' });
+      res.status(500).json({ message: 'Failed to fetch auto checkout policy' });
     }
   });
 
-  // Object storage endpoints for profile images
-  app.post('/api/objects/upload', authenticateToken(['admin', 'employee']), async (req: AuthenticatedRequest, res) => {
+  app.put('/api/admin/auto-checkout-policy', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
     try {
-      const id = randomUUID();
-      
-      // Use SERVER_URL from env for production, otherwise construct from request
-      const baseURL = process.env.SERVER_URL || `${req.protocol}://${req.get('host')}`;
-      const uploadURL = `${baseURL}/api/uploads/${id}`;
-      
-      // Upload URL generated
-      res.json({ uploadURL });
+      const validatedData = autoCheckoutPolicySchema.parse(req.body);
+      const hasRule = validatedData.atShiftEnd || !!validatedData.fixedTime || !!validatedData.offsiteMinutes || !!validatedData.maxHours;
+      if (validatedData.isEnabled && !hasRule) {
+        return res.status(400).json({ message: 'Enable at least one automatic checkout rule' });
+      }
+
+      const policy = await storage.upsertAutoCheckoutPolicy({ ...validatedData, adminId: req.user!.id });
+      res.json(policy);
     } catch (error) {
-      console.error('Error getting upload URL:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors.map(e => e.message).join(', ') });
+      }
+      console.error('Error updating auto checkout policy:', error);
+      res.status(500).json({ message: 'Failed to update auto checkout policy' });
+    }
+  });
+
+  // Overtime policy - the defaults are returned until one is saved
+  const getPayRules = async (adminId: number): Promise<PayRules> =>
+    (await storage.getOvertimePolicy(adminId)) ?? DEFAULT_PAY_RULES;
+
+  app.get('/api/admin/overtime-policy', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const policy = await storage.getOvertimePolicy(req.user!.id);
+      res.json(policy ?? { adminId: req.user!.id, ...DEFAULT_PAY_RULES });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to fetch overtime policy' });
+    }
+  });
+
+  app.put('/api/admin/overtime-policy', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const validatedData = overtimePolicySchema.parse(req.body);
+      const policy = await storage.upsertOvertimePolicy({
+        ...validatedData,
+        nightStart: validatedData.nightStart ?? null,
+        nightEnd: validatedData.nightEnd ?? null,
+        adminId: req.user!.id,
+      });
+      res.json(policy);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors.map(e => e.message).join(', ') });
+      }
+      console.error('Error updating overtime policy:', error);
+      res.status(500).json({ message: 'Failed to update overtime policy' });
+    }
+  });
+
+  // Notification preferences - the defaults are returned until they are saved
+  app.get('/api/admin/notification-preferences', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const preferences = await storage.getNotificationPreferences(req.user!.id);
+      res.json(preferences ?? { adminId: req.user!.id, ...DEFAULT_NOTIFICATION_SETTINGS });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to fetch notification preferences' });
+    }
+  });
+
+  app.put('/api/admin/notification-preferences', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const validatedData = notificationPreferencesSchema.parse(req.body);
+      if (!isValidTimeZone(validatedData.timezone)) {
+        return res.status(400).json({ message: `Unknown timezone "${validatedData.timezone}"` });
+      }
+      if ((validatedData.emailEnabled || validatedData.digestEnabled) && !isEmailConfigured()) {
+        return res.status(400).json({ message: 'Email service is not configured on this server' });
+      }
+
+      const sites = await storage.getWorkSitesByAdmin(req.user!.id);
+      const siteIds = validatedData.siteIds.filter(id => sites.some(site => site.id === id));
+
+      const settings = {
+        ...validatedData,
+        siteIds,
+        quietHoursStart: validatedData.quietHoursStart ?? null,
+        quietHoursEnd: validatedData.quietHoursEnd ?? null,
+      };
+      const preferences = await storage.upsertNotificationPreferences({
+        ...settings,
+        adminId: req.user!.id,
+        nextDigestAt: nextDigestRun(settings),
+      });
+      res.json(preferences);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors.map(e => e.message).join(', ') });
+      }
+      console.error('Error updating notification preferences:', error);
+      res.status(500).json({ message: 'Failed to update notification preferences' });
+    }
+  });
+
+  // Object storage endpoints for profile images
+  app.post('/api/objects/upload', authenticateToken(['admin', 'employee']), async (req: AuthenticatedRequest, res) => {
+    try {
+      const id = randomUUID();
+      
+      // Use SERVER_URL from env for production, otherwise construct from request
+      const baseURL = process.env.SERVER_URL || `${req.protocol}://${req.get('host')}`;
+      const uploadURL = `${baseURL}/api/uploads/${id}`;
+      
+      // Upload URL generated
+      res.json({ uploadURL });
+    } catch (error) {
+      console.error('Error getting upload URL:', error);
       res.status(500).json({ message: 'Failed to get upload URL' });
     }
   });
@@ -1255,6 +1936,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // NEW: Supabase Storage Site Image Upload Endpoint
   app.post('/api/upload/site', authenticateToken(['admin', 'employee']), uploadMiddleware, uploadSiteImage);
 
+  // Photo taken at check-in or checkout, sent along as `photo`
+  app.post('/api/upload/attendance-photo', authenticateToken('employee'), uploadMiddleware, (req: AuthenticatedRequest, res) =>
+    uploadAttendancePhoto(req, res, req.user!.id));
+
+  // Signed URL for viewing an attendance photo, for the employee who took it and their admin
+  app.get('/api/attendance-photos/:photo', authenticateToken(['admin', 'employee']), async (req: AuthenticatedRequest, res) => {
+    try {
+      const employeeId = getAttendancePhotoEmployeeId(req.params.photo);
+      const employee = employeeId ? await storage.getEmployee(employeeId) : undefined;
+      const allowed = req.user!.type === 'admin' ? employee?.adminId === req.user!.id : employee?.id === req.user!.id;
+      if (!employee || !allowed) {
+        return res.status(404).json({ message: 'Photo not found' });
+      }
+
+      const url = await getAttendancePhotoUrl(req.params.photo);
+      if (!url) {
+        return res.status(404).json({ message: 'Photo not found' });
+      }
+      res.json({ url });
+    } catch (error) {
+      console.error('Error signing attendance photo:', error);
+      res.status(500).json({ message: 'Failed to load photo' });
+    }
+  });
+
   // Serve object storage images with adaptive compression
   app.get('/objects/*', async (req, res) => {
     try {
@@ -1663,12 +2369,106 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const employeeId = parseInt(req.params.id);
       const attendance = await storage.getEmployeeAttendanceHistory(employeeId, new Date(0));
-      res.json(attendance);
+      res.json(await attachBreaks(attendance).then(attachOffsitePeriods));
     } catch (error) {
       res.status(500).json({ message: 'Failed to fetch attendance records' });
     }
   });
 
+  // Manual attendance corrections - each change is stored as a revision with a reason
+  const getOwnedAttendance = async (attendanceId: number, adminId: number) => {
+    const record = await storage.getAttendance(attendanceId);
+    if (!record) return undefined;
+    const employee = await storage.getEmployee(record.employeeId);
+    return employee && employee.adminId === adminId ? record : undefined;
+  };
+
+  const sendCorrectionError = (res: Response, error: unknown, fallback: string) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.errors.map(e => e.message).join(', ') });
+    }
+    if (error instanceof AttendanceCorrectionError) {
+      return res.status(400).json({ message: error.message });
+    }
+    if (error instanceof TimesheetLockedError) {
+      return res.status(409).json({ message: error.message });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ message: fallback });
+  };
+
+  app.post('/api/admin/employees/:id/attendance', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const employeeId = parseInt(req.params.id);
+      const employee = await storage.getEmployee(employeeId);
+      if (!employee || employee.adminId !== req.user!.id) {
+        return res.status(404).json({ message: 'Employee not found' });
+      }
+
+      const validatedData = createAttendanceCorrectionSchema.parse(req.body);
+      const site = await storage.getWorkSite(validatedData.siteId);
+      if (!site || site.adminId !== req.user!.id) {
+        return res.status(400).json({ message: 'Work site not found' });
+      }
+
+      const record = await createManualAttendance(req.user!.id, employeeId, validatedData);
+      res.status(201).json(record);
+    } catch (error) {
+      sendCorrectionError(res, error, 'Failed to create attendance record');
+    }
+  });
+
+  app.put('/api/admin/attendance/:id', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const record = await getOwnedAttendance(parseInt(req.params.id), req.user!.id);
+      if (!record) {
+        return res.status(404).json({ message: 'Attendance record not found' });
+      }
+
+      const validatedData = editAttendanceCorrectionSchema.parse(req.body);
+      if (validatedData.siteId !== undefined) {
+        const site = await storage.getWorkSite(validatedData.siteId);
+        if (!site || site.adminId !== req.user!.id) {
+          return res.status(400).json({ message: 'Work site not found' });
+        }
+      }
+
+      const updated = await editAttendance(req.user!.id, record, validatedData);
+      res.json(updated);
+    } catch (error) {
+      sendCorrectionError(res, error, 'Failed to update attendance record');
+    }
+  });
+
+  app.post('/api/admin/attendance/:id/split', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const record = await getOwnedAttendance(parseInt(req.params.id), req.user!.id);
+      if (!record) {
+        return res.status(404).json({ message: 'Attendance record not found' });
+      }
+
+      const validatedData = splitAttendanceSchema.parse(req.body);
+      const result = await splitAttendance(req.user!.id, record, validatedData);
+      res.json(result);
+    } catch (error) {
+      sendCorrectionError(res, error, 'Failed to split attendance record');
+    }
+  });
+
+  app.get('/api/admin/attendance/:id/revisions', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const record = await getOwnedAttendance(parseInt(req.params.id), req.user!.id);
+      if (!record) {
+        return res.status(404).json({ message: 'Attendance record not found' });
+      }
+
+      const revisions = await storage.getAttendanceRevisions(record.id);
+      res.json(revisions);
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to fetch attendance history' });
+    }
+  });
+
   app.get('/api/admin/employees/:id/locations', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
     try {
       const employeeId = parseInt(req.params.id);
@@ -1679,6 +2479,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/admin/employees/:id/geofence-events', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const employee = await storage.getEmployee(parseInt(req.params.id));
+      if (!employee || employee.adminId !== req.user!.id) {
+        return res.status(404).json({ message: 'Employee not found' });
+      }
+      res.json(await listGeofenceEvents({ employeeId: employee.id }, req.query));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors.map(e => e.message).join(', ') });
+      }
+      console.error('Error fetching geofence events:', error);
+      res.status(500).json({ message: 'Failed to fetch geofence events' });
+    }
+  });
+
   app.post('/api/admin/employees', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
     try {
       // Log employee creation attempt (sensitive data removed)
@@ -1884,6 +2700,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/admin/sites/:id/geofence-events', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const site = await storage.getWorkSite(parseInt(req.params.id));
+      if (!site || site.adminId !== req.user!.id) {
+        return res.status(404).json({ message: 'Site not found' });
+      }
+      res.json(await listGeofenceEvents({ siteId: site.id }, req.query));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors.map(e => e.message).join(', ') });
+      }
+      console.error('Error fetching geofence events:', error);
+      res.status(500).json({ message: 'Failed to fetch geofence events' });
+    }
+  });
+
   app.put('/api/admin/sites/:id', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
     try {
       const id = parseInt(req.params.id);
@@ -2113,99 +2945,1042 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Employee Check-in/Check-out Routes
-  app.post('/api/employee/checkin', authenticateToken('employee'), async (req: AuthenticatedRequest, res) => {
+  // Holiday calendar routes. A calendar is company-wide or scoped to one area; its
+  // holidays are skipped by shift patterns and counted as non-working days in reports.
+  const sendHolidayError = (res: Response, error: unknown, fallback: string) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.errors.map(e => e.message).join(', ') });
+    }
+    if (error instanceof HolidayImportError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ message: fallback });
+  };
+
+  // Returns an error message when the area does not belong to the admin
+  const validateCalendarArea = async (adminId: number, areaId: number | null | undefined): Promise<string | null> => {
+    if (areaId === null || areaId === undefined) return null;
+    const area = await storage.getArea(areaId);
+    return area && area.adminId === adminId ? null : 'Area not found';
+  };
+
+  const getOwnedHolidayCalendar = async (adminId: number, id: string) => {
+    const calendar = await storage.getHolidayCalendar(parseInt(id));
+    return calendar && calendar.adminId === adminId ? calendar : undefined;
+  };
+
+  app.get('/api/admin/holiday-calendars', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
     try {
-      const { latitude, longitude, siteId } = req.body;
-      
-      // Check if employee is already checked in
-      const currentAttendance = await storage.getCurrentAttendance(req.user!.id);
-      if (currentAttendance) {
-        return res.status(400).json({ message: 'Already checked in' });
+      const calendars = await storage.getHolidayCalendarsByAdmin(req.user!.id);
+      const withHolidays = await Promise.all(calendars.map(async calendar => ({
+        ...calendar,
+        holidays: await storage.getHolidays(calendar.id),
+      })));
+      res.json(withHolidays);
+    } catch (error) {
+      sendHolidayError(res, error, 'Failed to fetch holiday calendars');
+    }
+  });
+
+  app.post('/api/admin/holiday-calendars', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const validatedData = insertHolidayCalendarSchema.parse(req.body);
+      const areaError = await validateCalendarArea(req.user!.id, validatedData.areaId);
+      if (areaError) {
+        return res.status(400).json({ message: areaError });
       }
 
-      const attendance = await storage.createAttendance({
-        employeeId: req.user!.id,
-        siteId: parseInt(siteId),
-        checkInLatitude: latitude,
-        checkInLongitude: longitude,
+      const calendar = await storage.createHolidayCalendar({
+        ...validatedData,
+        areaId: validatedData.areaId ?? null,
+        adminId: req.user!.id,
       });
+      res.status(201).json(calendar);
+    } catch (error) {
+      sendHolidayError(res, error, 'Failed to create holiday calendar');
+    }
+  });
 
-      res.json(attendance);
+  app.put('/api/admin/holiday-calendars/:id', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const calendar = await getOwnedHolidayCalendar(req.user!.id, req.params.id);
+      if (!calendar) {
+        return res.status(404).json({ message: 'Holiday calendar not found' });
+      }
+
+      const validatedData = insertHolidayCalendarSchema.partial().parse(req.body);
+      const areaError = await validateCalendarArea(req.user!.id, validatedData.areaId);
+      if (areaError) {
+        return res.status(400).json({ message: areaError });
+      }
+
+      const updated = await storage.updateHolidayCalendar(calendar.id, validatedData);
+      res.json(updated);
     } catch (error) {
-      res.status(400).json({ message: 'Check-in failed' });
+      sendHolidayError(res, error, 'Failed to update holiday calendar');
     }
   });
 
-  app.post('/api/employee/checkout', authenticateToken('employee'), async (req: AuthenticatedRequest, res) => {
+  app.delete('/api/admin/holiday-calendars/:id', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
     try {
-      const { latitude, longitude } = req.body;
-      
-      const currentAttendance = await storage.getCurrentAttendance(req.user!.id);
-      if (!currentAttendance) {
-        return res.status(400).json({ message: 'Not currently checked in' });
+      const calendar = await getOwnedHolidayCalendar(req.user!.id, req.params.id);
+      if (!calendar) {
+        return res.status(404).json({ message: 'Holiday calendar not found' });
       }
 
-      const updatedAttendance = await storage.updateAttendance(currentAttendance.id, {
-        checkOutTime: new Date(),
-        checkOutLatitude: latitude,
-        checkOutLongitude: longitude,
+      await storage.deleteHolidayCalendar(calendar.id);
+      res.status(204).send();
+    } catch (error) {
+      sendHolidayError(res, error, 'Failed to delete holiday calendar');
+    }
+  });
+
+  app.post('/api/admin/holiday-calendars/:id/holidays', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const calendar = await getOwnedHolidayCalendar(req.user!.id, req.params.id);
+      if (!calendar) {
+        return res.status(404).json({ message: 'Holiday calendar not found' });
+      }
+
+      const validatedData = insertHolidaySchema.parse(req.body);
+      const [holiday] = await storage.upsertHolidays(calendar.id, [validatedData]);
+      res.status(201).json(holiday);
+    } catch (error) {
+      sendHolidayError(res, error, 'Failed to add holiday');
+    }
+  });
+
+  app.delete('/api/admin/holiday-calendars/:id/holidays/:holidayId', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const calendar = await getOwnedHolidayCalendar(req.user!.id, req.params.id);
+      const holiday = await storage.getHoliday(parseInt(req.params.holidayId));
+      if (!calendar || !holiday || holiday.calendarId !== calendar.id) {
+        return res.status(404).json({ message: 'Holiday not found' });
+      }
+
+      await storage.deleteHoliday(holiday.id);
+      res.status(204).send();
+    } catch (error) {
+      sendHolidayError(res, error, 'Failed to delete holiday');
+    }
+  });
+
+  // Import a CSV ("date,name" rows) or ICS file. Days already in the calendar are renamed.
+  app.post('/api/admin/holiday-calendars/:id/import', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const calendar = await getOwnedHolidayCalendar(req.user!.id, req.params.id);
+      if (!calendar) {
+        return res.status(404).json({ message: 'Holiday calendar not found' });
+      }
+
+      const { format, content } = holidayImportSchema.parse(req.body);
+      const entries = parseHolidayFile(format, content);
+      if (entries.length === 0) {
+        throw new HolidayImportError('No holidays found in the file');
+      }
+
+      const imported = await storage.upsertHolidays(calendar.id, entries);
+      res.json({ imported: imported.length, holidays: await storage.getHolidays(calendar.id) });
+    } catch (error) {
+      sendHolidayError(res, error, 'Failed to import holidays');
+    }
+  });
+
+  // Shift scheduling routes
+  // Confirms that the employee and site referenced by a shift/pattern belong to this admin
+  const validateShiftOwnership = async (adminId: number, employeeId: number, siteId: number): Promise<string | null> => {
+    const employee = await storage.getEmployee(employeeId);
+    if (!employee || employee.adminId !== adminId) {
+      return 'Employee not found';
+    }
+    const site = await storage.getWorkSite(siteId);
+    if (!site || site.adminId !== adminId) {
+      return 'Work site not found';
+    }
+    return null;
+  };
+
+  app.get('/api/admin/shifts', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      // Default to the current week (Sunday - Saturday)
+      const from = req.query.from ? new Date(req.query.from as string) : new Date();
+      if (!req.query.from) {
+        from.setDate(from.getDate() - from.getDay());
+        from.setHours(0, 0, 0, 0);
+      }
+      const to = req.query.to ? new Date(req.query.to as string) : new Date(from.getTime() + 7 * 24 * 60 * 60 * 1000);
+
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || to <= from) {
+        return res.status(400).json({ message: 'Invalid date range' });
+      }
+
+      const occurrences = await getShiftOccurrences(req.user!.id, from, to, {
+        employeeId: req.query.employeeId ? parseInt(req.query.employeeId as string) : undefined,
+        siteId: req.query.siteId ? parseInt(req.query.siteId as string) : undefined,
       });
+      res.json(occurrences);
+    } catch (error) {
+      console.error('Error fetching shifts:', error);
+      res.status(500).json({ message: 'Failed to fetch shifts' });
+    }
+  });
 
-      res.json(updatedAttendance);
+  app.post('/api/admin/shifts', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const validatedData = insertShiftSchema.parse(req.body);
+
+      const ownershipError = await validateShiftOwnership(req.user!.id, validatedData.employeeId, validatedData.siteId);
+      if (ownershipError) {
+        return res.status(400).json({ message: ownershipError });
+      }
+
+      // Overriding a single pattern occurrence - the pattern must be ours too
+      if (validatedData.patternId) {
+        const pattern = await storage.getShiftPattern(validatedData.patternId);
+        if (!pattern || pattern.adminId !== req.user!.id) {
+          return res.status(400).json({ message: 'Shift pattern not found' });
+        }
+      }
+
+      const shift = await storage.createShift({ ...validatedData, adminId: req.user!.id });
+      res.status(201).json(shift);
     } catch (error) {
-      res.status(400).json({ message: 'Check-out failed' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors.map(e => e.message).join(', ') });
+      }
+      console.error('Error creating shift:', error);
+      res.status(400).json({ message: 'Failed to create shift' });
     }
   });
 
-  // Employee attendance history route (30-day filter)
-  app.get('/api/employee/attendance/history', authenticateToken('employee'), async (req: AuthenticatedRequest, res) => {
+  // Shift pattern routes are registered before /:id so "patterns" is never read as a shift id
+  app.get('/api/admin/shifts/patterns', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
     try {
-      // Get attendance history from last 30 days
-      const thirtyDaysAgo = new Date();
-      thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-      
-      const history = await storage.getEmployeeAttendanceHistory(req.user!.id, thirtyDaysAgo);
-      res.json(history);
+      const patterns = await storage.getShiftPatternsByAdmin(req.user!.id, {
+        employeeId: req.query.employeeId ? parseInt(req.query.employeeId as string) : undefined,
+        siteId: req.query.siteId ? parseInt(req.query.siteId as string) : undefined,
+      });
+      res.json(patterns);
     } catch (error) {
-      res.status(500).json({ message: 'Failed to fetch attendance history' });
+      res.status(500).json({ message: 'Failed to fetch shift patterns' });
     }
   });
 
-  // Location Tracking Routes
-  app.get('/api/admin/locations', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+  app.post('/api/admin/shifts/patterns', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
     try {
-      const employees = await storage.getEmployeesByAdmin(req.user!.id);
-      const locations = await Promise.all(
-        employees.map(async (employee) => {
-          // Only show locations for employees who are currently checked in
-          const currentAttendance = await storage.getCurrentAttendance(employee.id);
-          if (currentAttendance) {
-            const location = await storage.getLatestEmployeeLocation(employee.id);
-            let assignedSite = null;
-            let isEmployeeWithinGeofence = false;
-            let distanceFromSite: number | null = null;
-            let geofenceRadius: number | null = null;
+      const validatedData = insertShiftPatternSchema.parse(req.body);
 
-            if (employee.siteId) {
-              assignedSite = await storage.getWorkSite(employee.siteId);
-            }
+      const ownershipError = await validateShiftOwnership(req.user!.id, validatedData.employeeId, validatedData.siteId);
+      if (ownershipError) {
+        return res.status(400).json({ message: ownershipError });
+      }
 
-            // For remote employees, always mark as within geofence (they can work from anywhere)
-            if (employee.isRemote) {
-              isEmployeeWithinGeofence = true;
-              distanceFromSite = null; // No distance calculation for remote employees
-              geofenceRadius = null;
-              
-              // For remote employees, always return a location object (even if no actual location data)
-              // This ensures they appear in the "on site" list
-              return {
-                employee: {
+      const pattern = await storage.createShiftPattern({ ...validatedData, adminId: req.user!.id });
+      res.status(201).json(pattern);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors.map(e => e.message).join(', ') });
+      }
+      console.error('Error creating shift pattern:', error);
+      res.status(400).json({ message: 'Failed to create shift pattern' });
+    }
+  });
+
+  app.put('/api/admin/shifts/patterns/:id', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const patternId = parseInt(req.params.id);
+      const existing = await storage.getShiftPattern(patternId);
+      if (!existing || existing.adminId !== req.user!.id) {
+        return res.status(404).json({ message: 'Shift pattern not found' });
+      }
+
+      // Validate the merged result so the start/end checks see both values
+      const { id, adminId, createdAt, ...current } = existing;
+      const validatedData = insertShiftPatternSchema.parse({ ...current, ...req.body });
+
+      const ownershipError = await validateShiftOwnership(req.user!.id, validatedData.employeeId, validatedData.siteId);
+      if (ownershipError) {
+        return res.status(400).json({ message: ownershipError });
+      }
+
+      const pattern = await storage.updateShiftPattern(patternId, validatedData);
+      res.json(pattern);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors.map(e => e.message).join(', ') });
+      }
+      console.error('Error updating shift pattern:', error);
+      res.status(400).json({ message: 'Failed to update shift pattern' });
+    }
+  });
+
+  app.delete('/api/admin/shifts/patterns/:id', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const patternId = parseInt(req.params.id);
+      const existing = await storage.getShiftPattern(patternId);
+      if (!existing || existing.adminId !== req.user!.id) {
+        return res.status(404).json({ message: 'Shift pattern not found' });
+      }
+
+      await storage.deleteShiftPattern(patternId);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to delete shift pattern' });
+    }
+  });
+
+  app.put('/api/admin/shifts/:id', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const shiftId = parseInt(req.params.id);
+      const existing = await storage.getShift(shiftId);
+      if (!existing || existing.adminId !== req.user!.id) {
+        return res.status(404).json({ message: 'Shift not found' });
+      }
+
+      const { id, adminId, createdAt, ...current } = existing;
+      const validatedData = insertShiftSchema.parse({ ...current, ...req.body });
+
+      const ownershipError = await validateShiftOwnership(req.user!.id, validatedData.employeeId, validatedData.siteId);
+      if (ownershipError) {
+        return res.status(400).json({ message: ownershipError });
+      }
+
+      const shift = await storage.updateShift(shiftId, validatedData);
+      res.json(shift);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors.map(e => e.message).join(', ') });
+      }
+      console.error('Error updating shift:', error);
+      res.status(400).json({ message: 'Failed to update shift' });
+    }
+  });
+
+  app.delete('/api/admin/shifts/:id', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const shiftId = parseInt(req.params.id);
+      const existing = await storage.getShift(shiftId);
+      if (!existing || existing.adminId !== req.user!.id) {
+        return res.status(404).json({ message: 'Shift not found' });
+      }
+
+      await storage.deleteShift(shiftId);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to delete shift' });
+    }
+  });
+
+  // Timesheet routes - weekly summaries derived from attendance, with an approval workflow
+  const buildTimesheetSummaries = async (employeeIds: number[], weekStart: string, adminId: number) => {
+    const { from, to } = getWeekRange(weekStart);
+    const [records, stored] = await Promise.all([
+      storage.getAttendanceInRange(employeeIds, from, to).then(attachBreaks),
+      storage.getTimesheetsForWeek(adminId, weekStart),
+    ]);
+    const now = new Date();
+
+    return employeeIds.map(employeeId => summarizeTimesheet(
+      employeeId,
+      weekStart,
+      records.filter(record => record.employeeId === employeeId),
+      stored.find(timesheet => timesheet.employeeId === employeeId),
+      now
+    ));
+  };
+
+  const parseWeekStartQuery = (value: unknown): string | null => {
+    if (!value) return getWeekKey(new Date());
+    if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+    return normalizeWeekKey(value);
+  };
+
+  app.get('/api/admin/timesheets', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const weekStart = parseWeekStartQuery(req.query.weekStart);
+      if (!weekStart) {
+        return res.status(400).json({ message: 'Week start must be YYYY-MM-DD' });
+      }
+
+      const employees = await storage.getEmployeesByAdmin(req.user!.id);
+      const summaries = await buildTimesheetSummaries(employees.map(employee => employee.id), weekStart, req.user!.id);
+
+      res.json({
+        weekStart,
+        timesheets: summaries.map(summary => {
+          const employee = employees.find(e => e.id === summary.employeeId)!;
+          return {
+            ...summary,
+            employee: {
+              id: employee.id,
+              firstName: employee.firstName,
+              lastName: employee.lastName,
+              email: employee.email,
+              isActive: employee.isActive,
+            },
+          };
+        }),
+      });
+    } catch (error) {
+      console.error('Error fetching timesheets:', error);
+      res.status(500).json({ message: 'Failed to fetch timesheets' });
+    }
+  });
+
+  // Bulk approve - approving locks the week's attendance and snapshots the totals.
+  // Employees still checked in during the week, or already approved, are skipped.
+  app.post('/api/admin/timesheets/approve', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const validatedData = timesheetActionSchema.parse(req.body);
+      const weekStart = normalizeWeekKey(validatedData.weekStart);
+      const adminId = req.user!.id;
+
+      const employees = await storage.getEmployeesByAdmin(adminId);
+      const ownIds = validatedData.employeeIds.filter(id => employees.some(e => e.id === id));
+      const summaries = await buildTimesheetSummaries(ownIds, weekStart, adminId);
+
+      const approved: number[] = [];
+      const skipped: { employeeId: number; reason: string }[] = validatedData.employeeIds
+        .filter(id => !ownIds.includes(id))
+        .map(employeeId => ({ employeeId, reason: 'Employee not found' }));
+
+      for (const summary of summaries) {
+        if (summary.status === 'approved') {
+          skipped.push({ employeeId: summary.employeeId, reason: 'Already approved' });
+          continue;
+        }
+        if (summary.openSessions > 0) {
+          skipped.push({ employeeId: summary.employeeId, reason: 'Employee is still checked in' });
+          continue;
+        }
+
+        const now = new Date();
+        await storage.upsertTimesheet({
+          adminId,
+          employeeId: summary.employeeId,
+          weekStart,
+          status: 'approved',
+          workedMinutes: summary.workedMinutes,
+          breakMinutes: summary.breakMinutes,
+          comment: null,
+          submittedAt: summary.timesheet?.submittedAt ?? null,
+          reviewedAt: now,
+          reviewedBy: adminId,
+        });
+        approved.push(summary.employeeId);
+      }
+
+      res.json({ weekStart, approved, skipped });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors.map(e => e.message).join(', ') });
+      }
+      console.error('Error approving timesheets:', error);
+      res.status(500).json({ message: 'Failed to approve timesheets' });
+    }
+  });
+
+  app.post('/api/admin/timesheets/reject', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const validatedData = timesheetRejectSchema.parse(req.body);
+      const weekStart = normalizeWeekKey(validatedData.weekStart);
+      const adminId = req.user!.id;
+
+      const employees = await storage.getEmployeesByAdmin(adminId);
+      const rejected: number[] = [];
+      const skipped: { employeeId: number; reason: string }[] = [];
+
+      for (const employeeId of validatedData.employeeIds) {
+        if (!employees.some(e => e.id === employeeId)) {
+          skipped.push({ employeeId, reason: 'Employee not found' });
+          continue;
+        }
+
+        const existing = await storage.getTimesheet(employeeId, weekStart);
+        if (existing && !REVIEWABLE_STATUSES.includes(existing.status)) {
+          skipped.push({ employeeId, reason: 'Approved timesheets must be reopened first' });
+          continue;
+        }
+
+        await storage.upsertTimesheet({
+          adminId,
+          employeeId,
+          weekStart,
+          status: 'rejected',
+          workedMinutes: null,
+          breakMinutes: null,
+          comment: validatedData.comment,
+          submittedAt: existing?.submittedAt ?? null,
+          reviewedAt: new Date(),
+          reviewedBy: adminId,
+        });
+        rejected.push(employeeId);
+      }
+
+      res.json({ weekStart, rejected, skipped });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors.map(e => e.message).join(', ') });
+      }
+      console.error('Error rejecting timesheets:', error);
+      res.status(500).json({ message: 'Failed to reject timesheets' });
+    }
+  });
+
+  // Reopen puts timesheets back to draft, which also unlocks the week's attendance
+  app.post('/api/admin/timesheets/reopen', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const validatedData = timesheetActionSchema.parse(req.body);
+      const weekStart = normalizeWeekKey(validatedData.weekStart);
+      const adminId = req.user!.id;
+
+      const reopened: number[] = [];
+      for (const employeeId of validatedData.employeeIds) {
+        const existing = await storage.getTimesheet(employeeId, weekStart);
+        if (!existing || existing.adminId !== adminId || existing.status === 'draft') continue;
+
+        await storage.upsertTimesheet({
+          adminId,
+          employeeId,
+          weekStart,
+          status: 'draft',
+          workedMinutes: null,
+          breakMinutes: null,
+          comment: null,
+          submittedAt: null,
+          reviewedAt: null,
+          reviewedBy: null,
+        });
+        reopened.push(employeeId);
+      }
+
+      res.json({ weekStart, reopened });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors.map(e => e.message).join(', ') });
+      }
+      console.error('Error reopening timesheets:', error);
+      res.status(500).json({ message: 'Failed to reopen timesheets' });
+    }
+  });
+
+  app.get('/api/employee/timesheets', authenticateToken('employee'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const weekStart = parseWeekStartQuery(req.query.weekStart);
+      if (!weekStart) {
+        return res.status(400).json({ message: 'Week start must be YYYY-MM-DD' });
+      }
+
+      const employee = await storage.getEmployee(req.user!.id);
+      if (!employee) {
+        return res.status(404).json({ message: 'Employee not found' });
+      }
+
+      const [current] = await buildTimesheetSummaries([employee.id], weekStart, employee.adminId);
+      const history = await storage.getEmployeeTimesheets(employee.id);
+      res.json({ current, history });
+    } catch (error) {
+      console.error('Error fetching employee timesheets:', error);
+      res.status(500).json({ message: 'Failed to fetch timesheets' });
+    }
+  });
+
+  app.post('/api/employee/timesheets/submit', authenticateToken('employee'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const { weekStart: requestedWeek } = timesheetSubmitSchema.parse(req.body);
+      const weekStart = normalizeWeekKey(requestedWeek);
+
+      const employee = await storage.getEmployee(req.user!.id);
+      if (!employee) {
+        return res.status(404).json({ message: 'Employee not found' });
+      }
+
+      const [summary] = await buildTimesheetSummaries([employee.id], weekStart, employee.adminId);
+      if (!SUBMITTABLE_STATUSES.includes(summary.status)) {
+        return res.status(400).json({ message: `Timesheet is already ${summary.status}` });
+      }
+      if (summary.openSessions > 0) {
+        return res.status(400).json({ message: 'Check out before submitting your timesheet' });
+      }
+
+      const timesheet = await storage.upsertTimesheet({
+        adminId: employee.adminId,
+        employeeId: employee.id,
+        weekStart,
+        status: 'submitted',
+        workedMinutes: null,
+        breakMinutes: null,
+        comment: summary.timesheet?.comment ?? null,
+        submittedAt: new Date(),
+        reviewedAt: null,
+        reviewedBy: null,
+      });
+      res.json(timesheet);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors.map(e => e.message).join(', ') });
+      }
+      console.error('Error submitting timesheet:', error);
+      res.status(500).json({ message: 'Failed to submit timesheet' });
+    }
+  });
+
+  // "YYYY-MM-DD" -> local midnight of that day
+  const dateKeyToDate = (dateKey: string, addDays: number = 0) => {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    return new Date(year, month - 1, day + addDays);
+  };
+
+  // Payable hours - attendance split into regular, overtime and premium time using the
+  // admin's overtime policy. Holidays follow the area of each employee's assigned site.
+  app.get('/api/admin/payable-hours', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      // Whole local days, both inclusive - the current week by default
+      const currentWeek = getWeekRange(getWeekKey(new Date()));
+      const lastDayOfWeek = new Date(currentWeek.to.getTime() - 1);
+      const fromKey = req.query.from ? String(req.query.from) : formatDateKey(currentWeek.from);
+      const toKey = req.query.to ? String(req.query.to) : formatDateKey(lastDayOfWeek);
+      const dateKeyPattern = /^\d{4}-\d{2}-\d{2}$/;
+      if (!dateKeyPattern.test(fromKey) || !dateKeyPattern.test(toKey) || toKey < fromKey) {
+        return res.status(400).json({ message: 'from and to must be YYYY-MM-DD dates, with to on or after from' });
+      }
+      const from = dateKeyToDate(fromKey);
+      const to = dateKeyToDate(toKey, 1);
+
+      const adminId = req.user!.id;
+      const employeeId = req.query.employeeId ? parseInt(String(req.query.employeeId)) : null;
+      const employees = (await storage.getEmployeesByAdmin(adminId))
+        .filter(employee => !employeeId || employee.id === employeeId);
+
+      const [rules, records, holidays, sites] = await Promise.all([
+        getPayRules(adminId),
+        storage.getAttendanceInRange(employees.map(employee => employee.id), from, to).then(attachBreaks).then(attachOffsitePeriods),
+        storage.getHolidaysInRange(fromKey, toKey, [adminId]),
+        storage.getWorkSitesByAdmin(adminId),
+      ]);
+
+      res.json({
+        from: fromKey,
+        to: toKey,
+        rules,
+        employees: employees.map(employee => {
+          const areaId = sites.find(site => site.id === employee.siteId)?.areaId;
+          const { records: payRecords, totals } = calculatePayableHours(
+            records.filter(record => record.employeeId === employee.id),
+            rules,
+            dateKey => !!findHoliday(holidays, adminId, areaId, dateKey)
+          );
+          return {
+            employee: {
+              id: employee.id,
+              firstName: employee.firstName,
+              lastName: employee.lastName,
+              email: employee.email,
+            },
+            totals,
+            records: payRecords,
+          };
+        }),
+      });
+    } catch (error) {
+      console.error('Error calculating payable hours:', error);
+      res.status(500).json({ message: 'Failed to calculate payable hours' });
+    }
+  });
+
+  // Leave routes - leave types and balances are managed by the admin, employees
+  // request leave and admins approve or reject it
+  // Holidays of the employee's site are not working days, so they are never taken as leave
+  const getLeaveHolidayCheck = async (employee: Employee, firstYear: number, lastYear: number) => {
+    const [holidays, site] = await Promise.all([
+      storage.getHolidaysInRange(`${firstYear}-01-01`, `${lastYear}-12-31`, [employee.adminId]),
+      employee.siteId ? storage.getWorkSite(employee.siteId) : undefined,
+    ]);
+    return (dateKey: string) => !!findHoliday(holidays, employee.adminId, site?.areaId, dateKey);
+  };
+
+  const buildLeaveBalances = async (employee: Employee, year: number) => {
+    const [types, balances, requests, isHoliday] = await Promise.all([
+      storage.getLeaveTypesByAdmin(employee.adminId),
+      storage.getLeaveBalances(employee.id, [year]),
+      storage.getEmployeeLeaveRequests(employee.id),
+      getLeaveHolidayCheck(employee, year, year),
+    ]);
+    return types.map(type => summarizeLeaveBalance(
+      type,
+      balances.find(balance => balance.leaveTypeId === type.id),
+      requests,
+      year,
+      isHoliday
+    ));
+  };
+
+  const parseYearQuery = (value: unknown): number | null => {
+    if (!value) return new Date().getFullYear();
+    const year = parseInt(String(value));
+    return Number.isInteger(year) && year >= 2000 && year <= 2100 ? year : null;
+  };
+
+  const sendLeaveError = (res: Response, error: unknown, fallback: string) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.errors.map(e => e.message).join(', ') });
+    }
+    if (error instanceof LeaveRequestError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ message: fallback });
+  };
+
+  app.get('/api/admin/leave-types', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const types = await storage.getLeaveTypesByAdmin(req.user!.id);
+      res.json(types);
+    } catch (error) {
+      sendLeaveError(res, error, 'Failed to fetch leave types');
+    }
+  });
+
+  app.post('/api/admin/leave-types', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const validatedData = insertLeaveTypeSchema.parse(req.body);
+      const leaveType = await storage.createLeaveType({ ...validatedData, adminId: req.user!.id });
+      res.json(leaveType);
+    } catch (error) {
+      sendLeaveError(res, error, 'Failed to create leave type');
+    }
+  });
+
+  app.put('/api/admin/leave-types/:id', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const leaveType = await storage.getLeaveType(parseInt(req.params.id));
+      if (!leaveType || leaveType.adminId !== req.user!.id) {
+        return res.status(404).json({ message: 'Leave type not found' });
+      }
+
+      const validatedData = insertLeaveTypeSchema.partial().parse(req.body);
+      const updated = await storage.updateLeaveType(leaveType.id, validatedData);
+      res.json(updated);
+    } catch (error) {
+      sendLeaveError(res, error, 'Failed to update leave type');
+    }
+  });
+
+  app.delete('/api/admin/leave-types/:id', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const leaveType = await storage.getLeaveType(parseInt(req.params.id));
+      if (!leaveType || leaveType.adminId !== req.user!.id) {
+        return res.status(404).json({ message: 'Leave type not found' });
+      }
+
+      await storage.deactivateLeaveType(leaveType.id);
+      res.json({ message: 'Leave type deleted successfully' });
+    } catch (error) {
+      sendLeaveError(res, error, 'Failed to delete leave type');
+    }
+  });
+
+  app.get('/api/admin/leave-requests', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const status = typeof req.query.status === 'string' && ['pending', 'approved', 'rejected', 'cancelled'].includes(req.query.status)
+        ? req.query.status as LeaveRequestStatus
+        : undefined;
+      const employeeId = req.query.employeeId ? parseInt(req.query.employeeId as string) : undefined;
+
+      const [requests, employees, types] = await Promise.all([
+        storage.getLeaveRequestsByAdmin(req.user!.id, { status, employeeId }),
+        storage.getEmployeesByAdmin(req.user!.id),
+        storage.getLeaveTypesByAdmin(req.user!.id),
+      ]);
+
+      res.json(requests.map(request => {
+        const employee = employees.find(e => e.id === request.employeeId);
+        const leaveType = types.find(type => type.id === request.leaveTypeId);
+        return {
+          ...request,
+          employee: employee ? {
+            id: employee.id,
+            firstName: employee.firstName,
+            lastName: employee.lastName,
+            email: employee.email,
+          } : null,
+          leaveType: leaveType ? { id: leaveType.id, name: leaveType.name, color: leaveType.color } : null,
+        };
+      }));
+    } catch (error) {
+      sendLeaveError(res, error, 'Failed to fetch leave requests');
+    }
+  });
+
+  // Approving re-checks the balance, since other requests may have been approved since
+  app.post('/api/admin/leave-requests/:id/approve', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const { comment } = leaveReviewSchema.parse(req.body);
+      const request = await storage.getLeaveRequest(parseInt(req.params.id));
+      if (!request || request.adminId !== req.user!.id) {
+        return res.status(404).json({ message: 'Leave request not found' });
+      }
+      if (request.status !== 'pending') {
+        return res.status(400).json({ message: `Leave request is already ${request.status}` });
+      }
+
+      const leaveType = await storage.getLeaveType(request.leaveTypeId);
+      const employee = await storage.getEmployee(request.employeeId);
+      if (leaveType && employee) {
+        const years = Array.from(new Set([request.startDate, request.endDate].map(date => parseInt(date.slice(0, 4)))));
+        const [balances, requests, isHoliday] = await Promise.all([
+          storage.getLeaveBalances(request.employeeId, years),
+          storage.getEmployeeLeaveRequests(request.employeeId),
+          getLeaveHolidayCheck(employee, years[0], years[years.length - 1]),
+        ]);
+        assertLeaveAvailable(
+          leaveType,
+          balances,
+          requests.filter(other => other.id !== request.id),
+          request.startDate,
+          request.endDate,
+          isHoliday
+        );
+      }
+
+      const updated = await storage.updateLeaveRequest(request.id, {
+        status: 'approved',
+        reviewComment: comment ?? null,
+        reviewedAt: new Date(),
+        reviewedBy: req.user!.id,
+      });
+      res.json(updated);
+    } catch (error) {
+      sendLeaveError(res, error, 'Failed to approve leave request');
+    }
+  });
+
+  // Rejecting works on pending requests and on approved leave that should be withdrawn
+  app.post('/api/admin/leave-requests/:id/reject', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const { comment } = leaveReviewSchema.parse(req.body);
+      const request = await storage.getLeaveRequest(parseInt(req.params.id));
+      if (!request || request.adminId !== req.user!.id) {
+        return res.status(404).json({ message: 'Leave request not found' });
+      }
+      if (!ACTIVE_LEAVE_STATUSES.includes(request.status)) {
+        return res.status(400).json({ message: `Leave request is already ${request.status}` });
+      }
+
+      const updated = await storage.updateLeaveRequest(request.id, {
+        status: 'rejected',
+        reviewComment: comment ?? null,
+        reviewedAt: new Date(),
+        reviewedBy: req.user!.id,
+      });
+      res.json(updated);
+    } catch (error) {
+      sendLeaveError(res, error, 'Failed to reject leave request');
+    }
+  });
+
+  app.get('/api/admin/employees/:id/leave-balances', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const year = parseYearQuery(req.query.year);
+      if (!year) {
+        return res.status(400).json({ message: 'Invalid year' });
+      }
+
+      const employee = await storage.getEmployee(parseInt(req.params.id));
+      if (!employee || employee.adminId !== req.user!.id) {
+        return res.status(404).json({ message: 'Employee not found' });
+      }
+
+      res.json(await buildLeaveBalances(employee, year));
+    } catch (error) {
+      sendLeaveError(res, error, 'Failed to fetch leave balances');
+    }
+  });
+
+  app.put('/api/admin/employees/:id/leave-balances/:leaveTypeId', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const validatedData = leaveBalanceSchema.parse(req.body);
+
+      const employee = await storage.getEmployee(parseInt(req.params.id));
+      if (!employee || employee.adminId !== req.user!.id) {
+        return res.status(404).json({ message: 'Employee not found' });
+      }
+      const leaveType = await storage.getLeaveType(parseInt(req.params.leaveTypeId));
+      if (!leaveType || leaveType.adminId !== req.user!.id) {
+        return res.status(404).json({ message: 'Leave type not found' });
+      }
+
+      const balance = await storage.upsertLeaveBalance({
+        employeeId: employee.id,
+        leaveTypeId: leaveType.id,
+        year: validatedData.year,
+        allowanceDays: validatedData.allowanceDays ?? null,
+        carryOverDays: validatedData.carryOverDays ?? 0,
+        adjustmentDays: validatedData.adjustmentDays ?? 0,
+        note: validatedData.note ?? null,
+      });
+      res.json(balance);
+    } catch (error) {
+      sendLeaveError(res, error, 'Failed to update leave balance');
+    }
+  });
+
+  app.get('/api/employee/leave', authenticateToken('employee'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const year = parseYearQuery(req.query.year);
+      if (!year) {
+        return res.status(400).json({ message: 'Invalid year' });
+      }
+
+      const employee = await storage.getEmployee(req.user!.id);
+      if (!employee) {
+        return res.status(404).json({ message: 'Employee not found' });
+      }
+
+      const [types, balances, requests] = await Promise.all([
+        storage.getLeaveTypesByAdmin(employee.adminId),
+        buildLeaveBalances(employee, year),
+        storage.getEmployeeLeaveRequests(employee.id),
+      ]);
+      res.json({ types, balances, requests });
+    } catch (error) {
+      sendLeaveError(res, error, 'Failed to fetch leave');
+    }
+  });
+
+  app.post('/api/employee/leave-requests', authenticateToken('employee'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const validatedData = insertLeaveRequestSchema.parse(req.body);
+
+      const employee = await storage.getEmployee(req.user!.id);
+      if (!employee) {
+        return res.status(404).json({ message: 'Employee not found' });
+      }
+      const leaveType = await storage.getLeaveType(validatedData.leaveTypeId);
+      if (!leaveType || leaveType.adminId !== employee.adminId || !leaveType.isActive) {
+        return res.status(404).json({ message: 'Leave type not found' });
+      }
+
+      const years = Array.from(new Set([validatedData.startDate, validatedData.endDate].map(date => parseInt(date.slice(0, 4)))));
+      const isHoliday = await getLeaveHolidayCheck(employee, years[0], years[years.length - 1]);
+      const days = countLeaveDays(validatedData.startDate, validatedData.endDate, isHoliday);
+      if (days === 0) {
+        throw new LeaveRequestError('The selected dates do not include any working days');
+      }
+
+      const overlapping = await storage.getOverlappingLeaveRequests(employee.id, validatedData.startDate, validatedData.endDate);
+      if (overlapping.length > 0) {
+        throw new LeaveRequestError('You already have leave requested for some of these days');
+      }
+
+      const [balances, requests] = await Promise.all([
+        storage.getLeaveBalances(employee.id, years),
+        storage.getEmployeeLeaveRequests(employee.id),
+      ]);
+      assertLeaveAvailable(leaveType, balances, requests, validatedData.startDate, validatedData.endDate, isHoliday);
+
+      const request = await storage.createLeaveRequest({
+        adminId: employee.adminId,
+        employeeId: employee.id,
+        leaveTypeId: leaveType.id,
+        startDate: validatedData.startDate,
+        endDate: validatedData.endDate,
+        days,
+        reason: validatedData.reason ?? null,
+      });
+
+      notifyAdmin(employee.adminId, {
+        type: 'leave_request',
+        message: `${employee.firstName} ${employee.lastName} requested ${days} day${days === 1 ? '' : 's'} of ${leaveType.name}`,
+        leaveRequestId: request.id,
+        employee: {
+          id: employee.id,
+          name: `${employee.firstName} ${employee.lastName}`,
+          email: employee.email,
+          firstName: employee.firstName,
+          lastName: employee.lastName
+        },
+        site: null,
+        timestamp: new Date().toISOString(),
+      });
+
+      res.json(request);
+    } catch (error) {
+      sendLeaveError(res, error, 'Failed to request leave');
+    }
+  });
+
+  // Employees can withdraw pending requests, and approved leave that has not started yet
+  app.post('/api/employee/leave-requests/:id/cancel', authenticateToken('employee'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const request = await storage.getLeaveRequest(parseInt(req.params.id));
+      if (!request || request.employeeId !== req.user!.id) {
+        return res.status(404).json({ message: 'Leave request not found' });
+      }
+      if (!ACTIVE_LEAVE_STATUSES.includes(request.status)) {
+        return res.status(400).json({ message: `Leave request is already ${request.status}` });
+      }
+      if (request.status === 'approved' && request.startDate <= formatDateKey(new Date())) {
+        return res.status(400).json({ message: 'Leave that has already started can only be changed by an admin' });
+      }
+
+      const updated = await storage.updateLeaveRequest(request.id, { status: 'cancelled' });
+      res.json(updated);
+    } catch (error) {
+      sendLeaveError(res, error, 'Failed to cancel leave request');
+    }
+  });
+
+  // Employee attendance history route (30-day filter)
+  app.get('/api/employee/attendance/history', authenticateToken('employee'), async (req: AuthenticatedRequest, res) => {
+    try {
+      // Get attendance history from last 30 days
+      const thirtyDaysAgo = new Date();
+      thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+      
+      const history = await storage.getEmployeeAttendanceHistory(req.user!.id, thirtyDaysAgo);
+      res.json(await attachBreaks(history));
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to fetch attendance history' });
+    }
+  });
+
+  // Location Tracking Routes
+  app.get('/api/admin/locations', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const employees = await storage.getEmployeesByAdmin(req.user!.id);
+      const locations = await Promise.all(
+        employees.map(async (employee) => {
+          // Only show locations for employees who are currently checked in
+          const currentAttendance = await storage.getCurrentAttendance(employee.id);
+          if (currentAttendance) {
+            const location = await storage.getLatestEmployeeLocation(employee.id);
+            let assignedSite = null;
+            let isEmployeeWithinGeofence = false;
+            let distanceFromSite: number | null = null;
+            let geofenceRadius: number | null = null;
+
+            if (employee.siteId) {
+              assignedSite = await storage.getWorkSite(employee.siteId);
+            }
+
+            // For remote employees, always mark as within geofence (they can work from anywhere)
+            if (employee.isRemote) {
+              isEmployeeWithinGeofence = true;
+              distanceFromSite = null; // No distance calculation for remote employees
+              geofenceRadius = null;
+              
+              // For remote employees, always return a location object (even if no actual location data)
+              // This ensures they appear in the "on site" list
+              return {
+                employee: {
                   ...employee,
                   isCheckedIn: true,
                   isActive: true,
                   isRemote: true
                 },
+                checkInPhoto: currentAttendance.checkInPhoto,
                 location: location ? {
                   ...location,
                   isWithinGeofence: true,
@@ -2231,7 +4006,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 location.longitude,
                 assignedSite.latitude,
                 assignedSite.longitude,
-                assignedSite.geofenceRadius
+                assignedSite.geofenceRadius,
+                assignedSite.geofencePolygon,
+                gpsAccuracyBuffer(location.accuracy, assignedSite)
               );
               isEmployeeWithinGeofence = geofenceCheck.isWithin;
               distanceFromSite = geofenceCheck.distance;
@@ -2244,6 +4021,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 isCheckedIn: true,
                 isActive: true
               },
+              checkInPhoto: currentAttendance.checkInPhoto,
               location: location ? {
                 ...location,
                 isWithinGeofence: isEmployeeWithinGeofence,
@@ -2271,6 +4049,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       console.log('📍 Location update via HTTP:', { employeeId, latitude, longitude });
 
+      const fixResult = gpsFixSchema.safeParse(req.body);
+      if (!fixResult.success) {
+        return res.status(400).json({ message: fixResult.error.errors.map(e => e.message).join(', ') });
+      }
+      const fix = fixResult.data;
+
       const employee = await storage.getEmployee(employeeId);
       if (!employee) {
         console.error('❌ Employee not found:', employeeId);
@@ -2288,14 +4072,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Invalid coordinates provided' });
       }
 
-      // For remote employees, always mark as "on site" since they can work from anywhere
+      // For remote employees and remote sites, always mark as "on site" since they can work from anywhere
       // Still calculate distance if they have an assigned site for tracking purposes
-      if (employee.isRemote) {
+      if (employee.isRemote || assignedSite?.isRemote) {
         isOnSite = true; // Remote employees are always considered "on site" for tracking
       if (assignedSite) {
-          const siteLat = parseFloat(assignedSite.latitude.toString());
-          const siteLng = parseFloat(assignedSite.longitude.toString());
-          const distance = calculateDistance(empLat, empLng, siteLat, siteLng);
+          const { distance } = checkSiteGeofence(empLat, empLng, assignedSite, gpsAccuracyBuffer(fix.accuracy, assignedSite));
           distanceFromSite = Math.round(distance);
         }
         console.log('📏 Remote employee location:', {
@@ -2304,33 +4086,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
           isRemote: true
         });
       } else if (assignedSite) {
-        const siteLat = parseFloat(assignedSite.latitude.toString());
-        const siteLng = parseFloat(assignedSite.longitude.toString());
-
-        const distance = calculateDistance(empLat, empLng, siteLat, siteLng);
-        distanceFromSite = Math.round(distance);
-        isOnSite = distance <= assignedSite.geofenceRadius;
+        const ping = await checkPingGeofence(employee.id, assignedSite, empLat, empLng, fix.accuracy ?? null);
+        distanceFromSite = Math.round(ping.distance);
+        isOnSite = ping.isWithin;
+        await recordGeofenceTransition(employee, assignedSite, ping);
 
         console.log('📏 Distance calc:', {
           distance: distanceFromSite,
           radius: assignedSite.geofenceRadius,
+          polygon: hasGeofencePolygon(assignedSite.geofencePolygon),
+          accuracy: fix.accuracy,
           isOnSite,
           siteName: assignedSite.name
         });
       }
 
+      const currentAttendance = await storage.getCurrentAttendance(employee.id);
+      const anomalies = currentAttendance
+        ? await checkLocationAnomalies(employee.id, { latitude: empLat, longitude: empLng, accuracy: fix.accuracy ?? null, timestamp: new Date() }, false)
+        : [];
+
       await storage.createLocationTracking({
         employeeId: employee.id,
         latitude: empLat.toString(),
         longitude: empLng.toString(),
         isOnSite,
+        ...fix,
       });
 
       console.log('💾 Location saved to database');
 
+      if (currentAttendance) {
+        await flagLocationAnomalies(employee, currentAttendance, anomalies, assignedSite);
+      }
+
       if (employee.adminId) {
         const locationUpdate = {
-          type: 'employee_location',
           employeeId: employee.id,
           employee: {
             id: employee.id,
@@ -2347,7 +4138,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           },
         };
 
-        notifyAdmin(employee.adminId, locationUpdate);
+        publishEvent({ type: 'employee_location', adminId: employee.adminId, location: locationUpdate });
         console.log('📡 Broadcasted location to admin:', employee.adminId);
       }
 
@@ -2367,10 +4158,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const currentAttendance = await storage.getCurrentAttendance(req.user!.id);
       const employee = await storage.getEmployee(req.user!.id);
+      const [attendanceWithBreaks] = currentAttendance ? await attachBreaks([currentAttendance]) : [];
       
       res.json({
         isCheckedIn: !!currentAttendance,
-        attendance: currentAttendance,
+        attendance: attendanceWithBreaks,
+        isOnBreak: !!attendanceWithBreaks?.breaks.some(b => !b.endTime),
         assignedSite: employee?.siteId,
       });
     } catch (error) {
@@ -2378,60 +4171,257 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Export Report endpoint
+  // Payroll templates - saved column layouts for the payroll export
+  app.get('/api/admin/payroll-templates', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const templates = await storage.getPayrollTemplatesByAdmin(req.user!.id);
+      res.json(templates);
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to fetch payroll templates' });
+    }
+  });
+
+  app.post('/api/admin/payroll-templates', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const validatedData = payrollTemplateSchema.parse(req.body);
+      const template = await storage.createPayrollTemplate({ ...validatedData, adminId: req.user!.id });
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors.map(e => e.message).join(', ') });
+      }
+      console.error('Error creating payroll template:', error);
+      res.status(500).json({ message: 'Failed to create payroll template' });
+    }
+  });
+
+  app.put('/api/admin/payroll-templates/:id', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const template = await storage.getPayrollTemplate(parseInt(req.params.id));
+      if (!template || template.adminId !== req.user!.id) {
+        return res.status(404).json({ message: 'Payroll template not found' });
+      }
+
+      const validatedData = payrollTemplateSchema.parse(req.body);
+      const updated = await storage.updatePayrollTemplate(template.id, validatedData);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors.map(e => e.message).join(', ') });
+      }
+      console.error('Error updating payroll template:', error);
+      res.status(500).json({ message: 'Failed to update payroll template' });
+    }
+  });
+
+  app.delete('/api/admin/payroll-templates/:id', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const template = await storage.getPayrollTemplate(parseInt(req.params.id));
+      if (!template || template.adminId !== req.user!.id) {
+        return res.status(404).json({ message: 'Payroll template not found' });
+      }
+
+      await storage.deletePayrollTemplate(template.id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to delete payroll template' });
+    }
+  });
+
+  // Per employee totals for a pay period (both days inclusive)
+  const buildPayrollSummaries = async (adminId: number, periodStart: string, periodEnd: string): Promise<PayrollSummary[]> => {
+    const from = dateKeyToDate(periodStart);
+    const to = dateKeyToDate(periodEnd, 1);
+    const employees = await storage.getEmployeesByAdmin(adminId);
+    const employeeIds = employees.map(employee => employee.id);
+
+    const [records, holidays, leave, rules, departments, sites, areas] = await Promise.all([
+      storage.getAttendanceInRange(employeeIds, from, to).then(attachBreaks).then(attachOffsitePeriods),
+      storage.getHolidaysInRange(periodStart, periodEnd, [adminId]),
+      storage.getApprovedLeaveInRange(periodStart, periodEnd, employeeIds),
+      getPayRules(adminId),
+      storage.getDepartmentsByAdmin(adminId),
+      storage.getWorkSitesByAdmin(adminId),
+      storage.getAreasByAdmin(adminId),
+    ]);
+
+    return employees.map(employee => {
+      const site = sites.find(s => s.id === employee.siteId);
+      const pay = calculatePayableHours(
+        records.filter(record => record.employeeId === employee.id),
+        rules,
+        dateKey => !!findHoliday(holidays, adminId, site?.areaId, dateKey)
+      );
+      return {
+        employee,
+        department: departments.find(department => department.id === employee.departmentId)?.name ?? null,
+        site: site?.name ?? null,
+        area: areas.find(area => area.id === site?.areaId)?.name ?? null,
+        daysWorked: new Set(pay.records.map(record => record.date)).size,
+        leaveDays: countApprovedLeaveDays(
+          leave,
+          employee.id,
+          from,
+          dateKeyToDate(periodEnd),
+          dateKey => !!findHoliday(holidays, adminId, site?.areaId, dateKey)
+        ),
+        totals: pay.totals,
+      };
+    });
+  };
+
+  // Everything the attendance report generators need for one admin, period and set of
+  // filters. Without dates the report covers the last 30 days.
+  const buildAttendanceReportData = async (adminId: number, filters: ReportFilters) => {
+    const to = filters.to ? dateKeyToDate(filters.to) : dateKeyToDate(formatDateKey(new Date()));
+    const from = filters.from ? dateKeyToDate(filters.from) : new Date(to.getFullYear(), to.getMonth(), to.getDate() - 30);
+    const fromKey = formatDateKey(from);
+    const toKey = formatDateKey(to);
+
+    const [allEmployees, sites, areas, departments] = await Promise.all([
+      storage.getEmployeesByAdmin(adminId),
+      storage.getWorkSitesByAdmin(adminId),
+      storage.getAreasByAdmin(adminId),
+      storage.getDepartmentsByAdmin(adminId),
+    ]);
+    const employees = allEmployees.filter(employee => {
+      const site = sites.find(s => s.id === employee.siteId);
+      return (filters.employeeIds.length === 0 || filters.employeeIds.includes(employee.id)) &&
+        (filters.siteIds.length === 0 || filters.siteIds.includes(employee.siteId)) &&
+        (filters.areaIds.length === 0 || (!!site?.areaId && filters.areaIds.includes(site.areaId))) &&
+        (filters.departmentIds.length === 0 || filters.departmentIds.includes(employee.departmentId));
+    });
+    const employeeIds = employees.map(employee => employee.id);
+
+    const [records, leave, holidays, payRules] = await Promise.all([
+      storage.getAttendanceInRange(employeeIds, from, dateKeyToDate(toKey, 1)).then(attachBreaks).then(attachOffsitePeriods),
+      storage.getApprovedLeaveInRange(fromKey, toKey, employeeIds),
+      storage.getHolidaysInRange(fromKey, toKey, [adminId]),
+      getPayRules(adminId),
+    ]);
+
+    const attendanceData = employees.map(employee => {
+      const site = sites.find(s => s.id === employee.siteId) ?? null;
+      const workingDays = countWorkingDays(holidays, employee.adminId, site?.areaId, from, to);
+      // Newest first, like the employee's own history
+      const attendance = records.filter(record => record.employeeId === employee.id).reverse();
+
+      return {
+        employee,
+        site,
+        attendance,
+        pay: calculatePayableHours(
+          attendance,
+          payRules,
+          dateKey => !!findHoliday(holidays, employee.adminId, site?.areaId, dateKey)
+        ),
+        leaveDays: countApprovedLeaveDays(
+          leave,
+          employee.id,
+          from,
+          to,
+          dateKey => !!findHoliday(holidays, employee.adminId, site?.areaId, dateKey)
+        ),
+        workingDays: workingDays.workingDays,
+        holidayDays: workingDays.holidays,
+        // Holidays that apply to the employee's site, for flagging attendance on those days
+        holidays: holidays.filter(holiday => holiday.areaId === null || holiday.areaId === site?.areaId)
+      };
+    });
+
+    const namesOf = (ids: number[], items: { id: number; name: string }[]) =>
+      ids.map(id => items.find(item => item.id === id)?.name).filter(Boolean).join(', ');
+    const filterLabels = [
+      filters.siteIds.length > 0 ? `Sites: ${namesOf(filters.siteIds, sites)}` : null,
+      filters.areaIds.length > 0 ? `Areas: ${namesOf(filters.areaIds, areas)}` : null,
+      filters.departmentIds.length > 0 ? `Departments: ${namesOf(filters.departmentIds, departments)}` : null,
+      filters.employeeIds.length > 0 ? `Employees: ${employees.map(e => `${e.firstName} ${e.lastName}`).join(', ')}` : null,
+    ].filter((label): label is string => label !== null);
+
+    const period: ReportPeriod = { from, to, filters: filterLabels };
+    return { period, attendanceData };
+  };
+
+  // Export Report endpoint. Attendance reports cover `from`..`to` (default: the last
+  // 30 days) for the employees matching the site, area, department and employee
+  // filters. `mode: 'payroll'` instead produces a per-employee summary for a pay period
+  // in the layout of a saved payroll template. `delivery: 'download'` returns the file
+  // in the response instead of emailing it.
   app.post('/api/admin/export-report', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
     try {
-      const { email, fromEmail, subject, format = 'html' } = req.body;
+      const { email, fromEmail, subject, format = 'html', mode = 'attendance', delivery = 'email' } = req.body;
+
+      if (delivery !== 'email' && delivery !== 'download') {
+        return res.status(400).json({ message: 'Invalid delivery. Must be one of: email, download' });
+      }
       
-      if (!email || !fromEmail || !subject) {
-        return res.status(400).json({ message: 'Email, fromEmail, and subject are required' });
+      if (delivery === 'email') {
+        if (!email || !fromEmail || !subject) {
+          return res.status(400).json({ message: 'Email, fromEmail, and subject are required' });
+        }
+
+        // Validate email addresses
+        const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+        if (!emailRegex.test(email) || !emailRegex.test(fromEmail)) {
+          return res.status(400).json({ message: 'Invalid email address format' });
+        }
       }
 
       // Validate format
       const validFormats = ['html', 'pdf', 'excel', 'csv'];
-      if (!validFormats.includes(format)) {
+      if (mode !== 'payroll' && !validFormats.includes(format)) {
         return res.status(400).json({ message: 'Invalid format. Must be one of: html, pdf, excel, csv' });
       }
 
-      // Check if SendGrid API key is configured
-      if (!process.env.SENDGRID_API_KEY) {
-        console.error('SENDGRID_API_KEY is not configured');
+      // Check that an email transport is configured - downloads do not need one
+      if (delivery === 'email' && !isEmailConfigured()) {
+        console.error('Email transport is not configured');
         return res.status(500).json({ 
           message: 'Email service is not configured. Please contact the administrator.',
-          error: 'SENDGRID_API_KEY missing'
+          error: 'Email transport missing'
         });
       }
 
-      // Get all employees for this admin
-      let employees;
-      try {
-        employees = await storage.getEmployeesByAdmin(req.user!.id);
-      } catch (dbError) {
-        console.error('Failed to fetch employees:', dbError);
-        return res.status(500).json({ 
-          message: 'Failed to fetch employee data',
-          error: dbError instanceof Error ? dbError.message : 'Database error'
+      if (mode === 'payroll') {
+        const { templateId, periodStart, periodEnd } = payrollExportSchema.parse(req.body);
+        const template = await storage.getPayrollTemplate(templateId);
+        if (!template || template.adminId !== req.user!.id) {
+          return res.status(404).json({ message: 'Payroll template not found' });
+        }
+
+        const summaries = await buildPayrollSummaries(req.user!.id, periodStart, periodEnd);
+        const file = renderPayrollFile(template, summaries, { start: periodStart, end: periodEnd });
+        if (delivery === 'download') {
+          return sendReportFile(res, file);
+        }
+
+        const emailSent = await sendEmail({
+          to: email,
+          from: fromEmail,
+          subject,
+          html: `Please find the payroll export for ${periodStart} to ${periodEnd} (${template.name}) attached.`,
+          text: `Please find the payroll export for ${periodStart} to ${periodEnd} (${template.name}) attached.`,
+          attachments: [{
+            content: file.content.toString('base64'),
+            filename: file.filename,
+            type: file.contentType,
+            disposition: 'attachment'
+          }]
         });
+
+        if (!emailSent) {
+          return res.status(500).json({
+            message: 'Failed to send email. Please check the email configuration and that the sender address is allowed to send.',
+            error: 'Email sending failed'
+          });
+        }
+        return res.json({ message: 'Payroll export sent successfully', employees: summaries.length });
       }
-      
-      // Get 30-day attendance data for all employees
-      const thirtyDaysAgo = new Date();
-      thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-      
-      let attendanceData;
+
+      const filters = reportFilterSchema.parse(req.body);
+      let reportData;
       try {
-        attendanceData = await Promise.all(
-          employees.map(async (employee) => {
-            const history = await storage.getEmployeeAttendanceHistory(employee.id, thirtyDaysAgo);
-            const site = employee.siteId ? await storage.getWorkSite(employee.siteId) : null;
-            
-            return {
-              employee,
-              site,
-              attendance: history
-            };
-          })
-        );
+        reportData = await buildAttendanceReportData(req.user!.id, filters);
       } catch (dataError) {
         console.error('Failed to fetch attendance data:', dataError);
         return res.status(500).json({ 
@@ -2440,51 +4430,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Generate report based on format
-      let reportContent: string | Buffer;
-      let attachments: any[] = [];
-      let emailHtml = '';
-
+      let file: ReportFile;
       try {
-        if (format === 'html') {
-          reportContent = generateAttendanceReportHtml(attendanceData, thirtyDaysAgo);
-          emailHtml = reportContent;
-        } else if (format === 'pdf') {
-          try {
-            reportContent = await generatePdfReport(attendanceData, thirtyDaysAgo);
-            emailHtml = 'Please find the attendance report attached as a PDF file.';
-            attachments = [{
-              content: reportContent.toString('base64'),
-              filename: `attendance-report-${new Date().toISOString().split('T')[0]}.pdf`,
-              type: 'application/pdf',
-              disposition: 'attachment'
-            }];
-          } catch (pdfError) {
-            console.error('PDF generation failed, falling back to HTML:', pdfError);
-            // Fallback to HTML format if PDF generation fails
-            reportContent = generateAttendanceReportHtml(attendanceData, thirtyDaysAgo);
-            emailHtml = reportContent;
-            attachments = [];
-          }
-        } else if (format === 'excel') {
-          reportContent = await generateExcelReport(attendanceData, thirtyDaysAgo);
-          emailHtml = 'Please find the attendance report attached as an Excel file.';
-          attachments = [{
-            content: reportContent.toString('base64'),
-            filename: `attendance-report-${new Date().toISOString().split('T')[0]}.xlsx`,
-            type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-            disposition: 'attachment'
-          }];
-        } else if (format === 'csv') {
-          reportContent = await generateCsvReport(attendanceData, thirtyDaysAgo);
-          emailHtml = 'Please find the attendance report attached as a CSV file.';
-          attachments = [{
-            content: Buffer.from(reportContent).toString('base64'),
-            filename: `attendance-report-${new Date().toISOString().split('T')[0]}.csv`,
-            type: 'text/csv',
-            disposition: 'attachment'
-          }];
-        }
+        file = await renderAttendanceReport(format, reportData.attendanceData, reportData.period);
       } catch (reportError) {
         console.error('Report generation failed:', reportError);
         return res.status(500).json({ 
@@ -2492,22 +4440,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
           error: reportError instanceof Error ? reportError.message : 'Report generation error'
         });
       }
-      
-      // Validate email addresses
-      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-      if (!emailRegex.test(email) || !emailRegex.test(fromEmail)) {
-        return res.status(400).json({ message: 'Invalid email address format' });
+
+      if (delivery === 'download') {
+        return sendReportFile(res, file);
       }
 
+      const { html: emailHtml, attachments } = attendanceReportEmail(file, format);
+
       // Sending attendance report
 
-      // For SendGrid to work properly, the 'from' email should be verified
-      // We'll use a safer approach with a verified sender
+      // Providers like SendGrid only deliver from verified senders
       let actualFromEmail = fromEmail;
       
       // If using Gmail, suggest using a verified sender to avoid spam filters
       if (fromEmail.includes('@gmail.com') || fromEmail.includes('@yahoo.com') || fromEmail.includes('@hotmail.com')) {
-        console.warn(`Warning: Using ${fromEmail} as sender. For better delivery, verify this email in SendGrid.`);
+        console.warn(`Warning: Using ${fromEmail} as sender. For better delivery, use a sender verified with your email provider.`);
       }
 
       // Send email
@@ -2525,7 +4472,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           res.json({ message: 'Report sent successfully' });
         } else {
           res.status(500).json({ 
-            message: 'Failed to send email. Please check SendGrid configuration and verify the sender email is verified in SendGrid.',
+            message: 'Failed to send email. Please check the email configuration and that the sender address is allowed to send.',
             error: 'Email sending failed'
           });
         }
@@ -2533,11 +4480,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.error('Email sending error:', emailError);
         const errorMessage = emailError instanceof Error ? emailError.message : 'Unknown email error';
         res.status(500).json({ 
-          message: 'Failed to send email. Please check SendGrid configuration.',
+          message: 'Failed to send email. Please check the email configuration.',
           error: errorMessage
         });
       }
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors.map(e => e.message).join(', ') });
+      }
       console.error('Export report error:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       res.status(500).json({ 
@@ -2547,6 +4497,137 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Scheduled reports - saved attendance reports emailed on a cron schedule
+  const sendScheduledReport: ScheduledReportSender = async (schedule, period) => {
+    if (!isEmailConfigured()) {
+      throw new Error('Email service is not configured');
+    }
+    const { period: reportPeriod, attendanceData } = await buildAttendanceReportData(schedule.adminId, {
+      ...schedule.filters,
+      from: period.from,
+      to: period.to,
+    });
+    const file = await renderAttendanceReport(schedule.format, attendanceData, reportPeriod);
+    const { html, attachments } = attendanceReportEmail(file, schedule.format);
+
+    const emailSent = await sendEmail({
+      to: schedule.recipients,
+      from: schedule.fromEmail,
+      subject: period.from === period.to ? `${schedule.name} - ${period.from}` : `${schedule.name} - ${period.from} to ${period.to}`,
+      html,
+      attachments,
+    });
+    if (!emailSent) {
+      throw new Error('Email sending failed');
+    }
+  };
+
+  startReportScheduler(sendScheduledReport);
+
+  const sendReportScheduleError = (res: Response, error: unknown, fallback: string) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.errors.map(e => e.message).join(', ') });
+    }
+    if (error instanceof ReportScheduleError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ message: fallback });
+  };
+
+  const getOwnedReportSchedule = async (req: AuthenticatedRequest) => {
+    const schedule = await storage.getReportSchedule(parseInt(req.params.id));
+    return schedule && schedule.adminId === req.user!.id ? schedule : undefined;
+  };
+
+  app.get('/api/admin/report-schedules', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const schedules = await storage.getReportSchedulesByAdmin(req.user!.id);
+      res.json(schedules);
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to fetch report schedules' });
+    }
+  });
+
+  app.post('/api/admin/report-schedules', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const validatedData = reportScheduleSchema.parse(req.body);
+      const nextRunAt = nextCronRun(validatedData.cron, validatedData.timezone);
+      const schedule = await storage.createReportSchedule({
+        ...validatedData,
+        adminId: req.user!.id,
+        nextRunAt: validatedData.isEnabled ? nextRunAt : null,
+      });
+      res.status(201).json(schedule);
+    } catch (error) {
+      sendReportScheduleError(res, error, 'Failed to create report schedule');
+    }
+  });
+
+  app.put('/api/admin/report-schedules/:id', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const schedule = await getOwnedReportSchedule(req);
+      if (!schedule) {
+        return res.status(404).json({ message: 'Report schedule not found' });
+      }
+
+      const validatedData = reportScheduleSchema.parse(req.body);
+      const nextRunAt = nextCronRun(validatedData.cron, validatedData.timezone);
+      const updated = await storage.updateReportSchedule(schedule.id, {
+        ...validatedData,
+        nextRunAt: validatedData.isEnabled ? nextRunAt : null,
+      });
+      res.json(updated);
+    } catch (error) {
+      sendReportScheduleError(res, error, 'Failed to update report schedule');
+    }
+  });
+
+  app.delete('/api/admin/report-schedules/:id', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const schedule = await getOwnedReportSchedule(req);
+      if (!schedule) {
+        return res.status(404).json({ message: 'Report schedule not found' });
+      }
+
+      await storage.deleteReportSchedule(schedule.id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to delete report schedule' });
+    }
+  });
+
+  // Delivery history, newest first
+  app.get('/api/admin/report-schedules/:id/runs', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const schedule = await getOwnedReportSchedule(req);
+      if (!schedule) {
+        return res.status(404).json({ message: 'Report schedule not found' });
+      }
+
+      const runs = await storage.getReportRuns(schedule.id);
+      res.json(runs);
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to fetch report runs' });
+    }
+  });
+
+  // Send a schedule's report right away, for testing recipients and filters. Does not
+  // move the next scheduled run.
+  app.post('/api/admin/report-schedules/:id/run', authenticateToken('admin'), async (req: AuthenticatedRequest, res) => {
+    try {
+      const schedule = await getOwnedReportSchedule(req);
+      if (!schedule) {
+        return res.status(404).json({ message: 'Report schedule not found' });
+      }
+
+      const run = await runReportSchedule(schedule, sendScheduledReport, { isManual: true });
+      res.json(run);
+    } catch (error) {
+      sendReportScheduleError(res, error, 'Failed to run report schedule');
+    }
+  });
+
   // Super Admin Routes
   app.post('/api/super-admin/login', async (req, res) => {
     try {
@@ -2653,7 +4734,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const emailSent = await sendEmail({
         to: email,
-        from: SENDGRID_FROM_EMAIL,
+        from: getDefaultFromEmail(),
         subject: 'Verify Your Admin Account - LabourTrackr',
         html: `
           <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
@@ -2724,7 +4805,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const emailSent = await sendEmail({
         to: validatedData.email,
-        from: SENDGRID_FROM_EMAIL,
+        from: getDefaultFromEmail(),
         subject: 'Verify Your Admin Account - LabourTrackr',
         html: `
           <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
@@ -2767,8 +4848,103 @@ export async function registerRoutes(app: Express): Promise<Server> {
   return httpServer;
 }
 
+// Days covered by an attendance report (both inclusive) and the filters applied, for the header
+interface ReportPeriod {
+  from: Date;
+  to: Date;
+  filters: string[];
+}
+
+// A generated report or export, ready to attach to an email or send as a download
+interface ReportFile {
+  content: Buffer;
+  filename: string;
+  contentType: string;
+}
+
+const ATTACHMENT_DESCRIPTIONS: Record<string, string> = {
+  pdf: 'a PDF file',
+  excel: 'an Excel file',
+  csv: 'a CSV file',
+};
+
+// HTML reports are the email body, everything else is attached
+function attendanceReportEmail(file: ReportFile, format: string) {
+  if (file.contentType === 'text/html') {
+    return { html: file.content.toString(), attachments: [] };
+  }
+  return {
+    html: `Please find the attendance report attached as ${ATTACHMENT_DESCRIPTIONS[format] ?? 'a file'}.`,
+    attachments: [{
+      content: file.content.toString('base64'),
+      filename: file.filename,
+      type: file.contentType,
+      disposition: 'attachment'
+    }]
+  };
+}
+
+function sendReportFile(res: Response, file: ReportFile) {
+  res.setHeader('Content-Type', file.contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+  res.send(file.content);
+}
+
+// Render the attendance report in the requested format. Falls back to HTML if the
+// PDF cannot be generated.
+async function renderAttendanceReport(format: string, attendanceData: any[], period: ReportPeriod): Promise<ReportFile> {
+  const baseName = `attendance-report-${formatDateKey(period.from)}-to-${formatDateKey(period.to)}`;
+  const htmlFile = (): ReportFile => ({
+    content: Buffer.from(generateAttendanceReportHtml(attendanceData, period)),
+    filename: `${baseName}.html`,
+    contentType: 'text/html',
+  });
+
+  if (format === 'pdf') {
+    try {
+      return {
+        content: await generatePdfReport(attendanceData, period),
+        filename: `${baseName}.pdf`,
+        contentType: 'application/pdf',
+      };
+    } catch (pdfError) {
+      console.error('PDF generation failed, falling back to HTML:', pdfError);
+      return htmlFile();
+    }
+  }
+  if (format === 'excel') {
+    return {
+      content: await generateExcelReport(attendanceData, period),
+      filename: `${baseName}.xlsx`,
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    };
+  }
+  if (format === 'csv') {
+    return {
+      content: Buffer.from(await generateCsvReport(attendanceData, period)),
+      filename: `${baseName}.csv`,
+      contentType: 'text/csv',
+    };
+  }
+  return htmlFile();
+}
+
+// Pay breakdown of one attendance record in decimal hours, or null while it is still open
+function payColumns(pay: { records: PayableRecord[] }, attendanceId: number) {
+  const record = pay.records.find(entry => entry.attendanceId === attendanceId);
+  if (!record) return null;
+  return {
+    regular: toHours(record.regularMinutes),
+    overtime: toHours(record.overtimeMinutes),
+    weekend: toHours(record.weekendMinutes),
+    holiday: toHours(record.holidayMinutes),
+    night: toHours(record.nightMinutes),
+    payable: toHours(record.payableMinutes),
+  };
+}
+
 // Helper function to generate HTML report
-function generateAttendanceReportHtml(attendanceData: any[], fromDate: Date): string {
+function generateAttendanceReportHtml(attendanceData: any[], period: ReportPeriod): string {
   const formatDate = (date: Date | string) => {
     return new Date(date).toLocaleDateString('en-US', {
       weekday: 'short',
@@ -2786,14 +4962,20 @@ function generateAttendanceReportHtml(attendanceData: any[], fromDate: Date): st
     });
   };
 
-  const calculateHours = (checkIn: Date | string, checkOut: Date | string | null) => {
-    if (!checkOut) return 'In Progress';
-    const start = new Date(checkIn);
-    const end = new Date(checkOut);
-    const diffMs = end.getTime() - start.getTime();
-    const hours = Math.floor(diffMs / (1000 * 60 * 60));
-    const minutes = Math.floor((diffMs % (1000 * 60 * 60)) / (1000 * 60));
-    return `${hours}h ${minutes}m`;
+  // Worked time excludes unpaid breaks
+  const calculateHours = (record: any) => {
+    if (!record.checkOutTime) return 'In Progress';
+    return formatDuration(calculateWorkedMs(record.checkInTime, record.checkOutTime, record.breaks));
+  };
+
+  const calculateBreaks = (record: any) => {
+    const breakMs = calculateBreakMs(record.breaks, record.checkOutTime || new Date());
+    return breakMs > 0 ? formatDuration(breakMs) : '-';
+  };
+
+  const calculateOffsite = (record: any) => {
+    const offsiteMs = calculateOffsiteMs(record.offsitePeriods, record.checkOutTime || new Date());
+    return offsiteMs > 0 ? formatDuration(offsiteMs) : '-';
   };
 
   return `
@@ -2817,11 +4999,12 @@ function generateAttendanceReportHtml(attendanceData: any[], fromDate: Date): st
     <body>
       <div class="header">
         <h1>Employee Attendance Report</h1>
-        <p><strong>Report Period:</strong> ${formatDate(fromDate)} - ${formatDate(new Date())}</p>
+        <p><strong>Report Period:</strong> ${formatDate(period.from)} - ${formatDate(period.to)}</p>
+        ${period.filters.length > 0 ? `<p><strong>Filters:</strong> ${period.filters.join('; ')}</p>` : ''}
         <p><strong>Generated on:</strong> ${formatDate(new Date())} at ${formatTime(new Date())}</p>
       </div>
 
-      ${attendanceData.map(({ employee, site, attendance }) => `
+      ${attendanceData.map(({ employee, site, attendance, leaveDays, workingDays, holidayDays, pay }) => `
         <div class="employee-section">
           <div class="employee-header">
             <h2>${employee.firstName} ${employee.lastName}</h2>
@@ -2831,7 +5014,9 @@ function generateAttendanceReportHtml(attendanceData: any[], fromDate: Date): st
           </div>
           
           <div class="summary">
-            <strong>Summary:</strong> ${attendance.length} attendance records in the last 30 days
+            <strong>Summary:</strong> ${attendance.length} attendance records in this period, ${workingDays} working day${workingDays === 1 ? '' : 's'}${holidayDays > 0 ? ` (${holidayDays} holiday${holidayDays === 1 ? '' : 's'} excluded)` : ''}${leaveDays > 0 ? `, ${leaveDays} day${leaveDays === 1 ? '' : 's'} on approved leave` : ''}
+            <br><strong>Payable:</strong> ${toHours(pay.totals.payableMinutes)}h (${toHours(pay.totals.regularMinutes)}h regular, ${toHours(pay.totals.overtimeMinutes)}h overtime, ${toHours(pay.totals.weekendMinutes + pay.totals.holidayMinutes)}h weekend/holiday, ${toHours(pay.totals.nightMinutes)}h night)
+            ${pay.totals.offsiteMinutes > 0 ? `<br><strong>Off site:</strong> ${toHours(pay.totals.offsiteMinutes)}h while checked in` : ''}
           </div>
 
           ${attendance.length > 0 ? `
@@ -2841,25 +5026,42 @@ function generateAttendanceReportHtml(attendanceData: any[], fromDate: Date): st
                   <th>Date</th>
                   <th>Check In</th>
                   <th>Check Out</th>
+                  <th>Breaks</th>
+                  <th>Off Site</th>
                   <th>Hours Worked</th>
+                  <th>Regular</th>
+                  <th>Overtime</th>
+                  <th>Premium</th>
+                  <th>Night</th>
+                  <th>Payable</th>
                   <th>Site</th>
                 </tr>
               </thead>
               <tbody>
-                ${attendance.map((record: any) => `
+                ${attendance.map((record: any) => {
+                  const hours = payColumns(pay, record.id);
+                  return `
                   <tr>
                     <td>${formatDate(record.checkInTime)}</td>
                     <td>${formatTime(record.checkInTime)}</td>
                     <td>${record.checkOutTime ? formatTime(record.checkOutTime) : 'Still checked in'}</td>
-                    <td>${calculateHours(record.checkInTime, record.checkOutTime)}</td>
+                    <td>${calculateBreaks(record)}</td>
+                    <td>${calculateOffsite(record)}</td>
+                    <td>${calculateHours(record)}</td>
+                    <td>${hours ? hours.regular : '-'}</td>
+                    <td>${hours ? hours.overtime : '-'}</td>
+                    <td>${hours ? hours.weekend + hours.holiday : '-'}</td>
+                    <td>${hours ? hours.night : '-'}</td>
+                    <td>${hours ? hours.payable : '-'}</td>
                     <td>${site ? site.name : 'Unknown'}</td>
                   </tr>
-                `).join('')}
+                `;
+                }).join('')}
               </tbody>
             </table>
           ` : `
             <div class="no-data">
-              No attendance records found for this employee in the last 30 days.
+              ${leaveDays > 0 ? 'No attendance records - employee was on approved leave.' : 'No attendance records found for this employee in this period.'}
             </div>
           `}
         </div>
@@ -2874,7 +5076,7 @@ function generateAttendanceReportHtml(attendanceData: any[], fromDate: Date): st
 }
 
 // Generate PDF report using PDFKit
-async function generatePdfReport(attendanceData: any[], fromDate: Date): Promise<Buffer> {
+async function generatePdfReport(attendanceData: any[], period: ReportPeriod): Promise<Buffer> {
   return new Promise((resolve, reject) => {
     try {
       const doc = new PDFDocument({
@@ -2904,26 +5106,28 @@ async function generatePdfReport(attendanceData: any[], fromDate: Date): Promise
         });
       };
 
-      const calculateHours = (checkIn: Date | string, checkOut: Date | string | null) => {
-        if (!checkOut) return 'In Progress';
-        const start = new Date(checkIn);
-        const end = new Date(checkOut);
-        const diffMs = end.getTime() - start.getTime();
-        const hours = Math.floor(diffMs / (1000 * 60 * 60));
-        const minutes = Math.floor((diffMs % (1000 * 60 * 60)) / (1000 * 60));
-        return `${hours}h ${minutes}m`;
+      // Worked time excludes unpaid breaks
+      const calculateHours = (record: any) => {
+        if (!record.checkOutTime) return 'In Progress';
+        return formatDuration(calculateWorkedMs(record.checkInTime, record.checkOutTime, record.breaks));
+      };
+
+      const calculateBreaks = (record: any) => {
+        const breakMs = calculateBreakMs(record.breaks, record.checkOutTime || new Date());
+        return breakMs > 0 ? formatDuration(breakMs) : '-';
       };
 
       // Header
       doc.fontSize(24).text('Employee Attendance Report', { align: 'center' });
       doc.moveDown();
       doc.fontSize(12)
-        .text(`Report Period: ${formatDate(fromDate)} - ${formatDate(new Date())}`)
+        .text(`Report Period: ${formatDate(period.from)} - ${formatDate(period.to)}`)
+        .text(period.filters.length > 0 ? `Filters: ${period.filters.join('; ')}` : 'Employees: all')
         .text(`Generated on: ${formatDate(new Date())} at ${formatTime(new Date())}`)
         .moveDown(2);
 
       // Employee data
-      attendanceData.forEach(({ employee, site, attendance }, index) => {
+      attendanceData.forEach(({ employee, site, attendance, leaveDays, workingDays, holidayDays, pay }, index) => {
         if (index > 0) {
           doc.addPage();
         }
@@ -2935,14 +5139,18 @@ async function generatePdfReport(attendanceData: any[], fromDate: Date): Promise
           .text(`Email: ${employee.email}`)
           .text(`Assigned Site: ${site ? site.name : 'No assigned site'}`)
           .text(`Site Address: ${site ? site.address : 'N/A'}`)
-          .text(`Total Records: ${attendance.length} attendance records in the last 30 days`)
+          .text(`Total Records: ${attendance.length} attendance records in this period`)
+          .text(`Working Days: ${workingDays} (${holidayDays} holiday${holidayDays === 1 ? '' : 's'} excluded)`)
+          .text(`Approved Leave: ${leaveDays} day${leaveDays === 1 ? '' : 's'}`)
+          .text(`Payable Hours: ${toHours(pay.totals.payableMinutes)} (regular ${toHours(pay.totals.regularMinutes)}, overtime ${toHours(pay.totals.overtimeMinutes)}, weekend ${toHours(pay.totals.weekendMinutes)}, holiday ${toHours(pay.totals.holidayMinutes)}, night ${toHours(pay.totals.nightMinutes)})`)
+          .text(`Off-site Hours: ${toHours(pay.totals.offsiteMinutes)}`)
           .moveDown();
 
         if (attendance.length > 0) {
           // Table header
           const tableTop = doc.y;
-          const colWidths = [80, 80, 80, 80, 120];
-          const headers = ['Date', 'Check In', 'Check Out', 'Hours', 'Site'];
+          const colWidths = [70, 60, 60, 50, 55, 45, 55, 105];
+          const headers = ['Date', 'Check In', 'Check Out', 'Breaks', 'Hours', 'OT', 'Payable', 'Site'];
           
           let x = 50;
           headers.forEach((header, i) => {
@@ -2960,11 +5168,15 @@ async function generatePdfReport(attendanceData: any[], fromDate: Date): Promise
             }
 
             x = 50;
+            const hours = payColumns(pay, record.id);
             const rowData = [
               formatDate(record.checkInTime),
               formatTime(record.checkInTime),
               record.checkOutTime ? formatTime(record.checkOutTime) : 'Still in',
-              calculateHours(record.checkInTime, record.checkOutTime),
+              calculateBreaks(record),
+              calculateHours(record),
+              hours ? String(hours.overtime) : '-',
+              hours ? String(hours.payable) : '-',
               site ? site.name : 'Unknown'
             ];
 
@@ -2976,7 +5188,7 @@ async function generatePdfReport(attendanceData: any[], fromDate: Date): Promise
             y += 20;
           });
         } else {
-          doc.text('No attendance records found for this employee in the last 30 days.');
+          doc.text('No attendance records found for this employee in this period.');
         }
       });
 
@@ -2993,17 +5205,27 @@ async function generatePdfReport(attendanceData: any[], fromDate: Date): Promise
 }
 
 // Generate Excel report using XLSX
-async function generateExcelReport(attendanceData: any[], fromDate: Date): Promise<Buffer> {
+async function generateExcelReport(attendanceData: any[], period: ReportPeriod): Promise<Buffer> {
   const workbook = XLSX.utils.book_new();
   
   // Summary sheet
-  const summaryData = attendanceData.map(({ employee, site, attendance }) => ({
+  const summaryData = attendanceData.map(({ employee, site, attendance, leaveDays, workingDays, holidayDays, pay }) => ({
     'Employee Name': `${employee.firstName} ${employee.lastName}`,
     'Email': employee.email,
     'Assigned Site': site ? site.name : 'No assigned site',
     'Site Address': site ? site.address : '',
     'Total Records': attendance.length,
-    'Active Days': attendance.length
+    'Active Days': attendance.length,
+    'Working Days': workingDays,
+    'Holidays': holidayDays,
+    'Leave Days': leaveDays,
+    'Regular Hours': toHours(pay.totals.regularMinutes),
+    'Overtime Hours': toHours(pay.totals.overtimeMinutes),
+    'Weekend Hours': toHours(pay.totals.weekendMinutes),
+    'Holiday Hours': toHours(pay.totals.holidayMinutes),
+    'Night Hours': toHours(pay.totals.nightMinutes),
+    'Off-site Hours': toHours(pay.totals.offsiteMinutes),
+    'Payable Hours': toHours(pay.totals.payableMinutes)
   }));
   
   const summarySheet = XLSX.utils.json_to_sheet(summaryData);
@@ -3011,12 +5233,16 @@ async function generateExcelReport(attendanceData: any[], fromDate: Date): Promi
   
   // Detailed attendance sheet
   const detailedData: any[] = [];
-  attendanceData.forEach(({ employee, site, attendance }) => {
+  attendanceData.forEach(({ employee, site, attendance, holidays, pay }) => {
     attendance.forEach((record: any) => {
       const checkIn = new Date(record.checkInTime);
       const checkOut = record.checkOutTime ? new Date(record.checkOutTime) : null;
       const hours = checkOut ? 
-        Math.round((checkOut.getTime() - checkIn.getTime()) / (1000 * 60 * 60) * 100) / 100 : 0;
+        Math.round(calculateWorkedMs(checkIn, checkOut, record.breaks) / (1000 * 60 * 60) * 100) / 100 : 0;
+      const breakMinutes = Math.round(calculateBreakMs(record.breaks, checkOut || new Date()) / (1000 * 60));
+      const offsiteMinutes = Math.round(calculateOffsiteMs(record.offsitePeriods, checkOut || new Date()) / (1000 * 60));
+      const holiday = holidays.find((h: ScopedHoliday) => h.date === formatDateKey(checkIn));
+      const payHours = payColumns(pay, record.id);
       
       detailedData.push({
         'Employee Name': `${employee.firstName} ${employee.lastName}`,
@@ -3024,9 +5250,18 @@ async function generateExcelReport(attendanceData: any[], fromDate: Date): Promi
         'Date': checkIn.toLocaleDateString(),
         'Check In Time': checkIn.toLocaleTimeString(),
         'Check Out Time': checkOut ? checkOut.toLocaleTimeString() : 'Still checked in',
+        'Break Minutes': breakMinutes,
+        'Off-site Minutes': offsiteMinutes,
         'Hours Worked': checkOut ? hours : 'In Progress',
+        'Regular Hours': payHours ? payHours.regular : '',
+        'Overtime Hours': payHours ? payHours.overtime : '',
+        'Weekend Hours': payHours ? payHours.weekend : '',
+        'Holiday Hours': payHours ? payHours.holiday : '',
+        'Night Hours': payHours ? payHours.night : '',
+        'Payable Hours': payHours ? payHours.payable : '',
         'Site Name': site ? site.name : 'Unknown',
-        'Site Address': site ? site.address : ''
+        'Site Address': site ? site.address : '',
+        'Holiday': holiday ? holiday.name : ''
       });
     });
   });
@@ -3038,15 +5273,18 @@ async function generateExcelReport(attendanceData: any[], fromDate: Date): Promi
 }
 
 // Generate CSV report
-async function generateCsvReport(attendanceData: any[], fromDate: Date): Promise<string> {
+async function generateCsvReport(attendanceData: any[], period: ReportPeriod): Promise<string> {
   const csvData: any[] = [];
   
-  attendanceData.forEach(({ employee, site, attendance }) => {
+  attendanceData.forEach(({ employee, site, attendance, pay }) => {
     attendance.forEach((record: any) => {
       const checkIn = new Date(record.checkInTime);
       const checkOut = record.checkOutTime ? new Date(record.checkOutTime) : null;
       const hours = checkOut ? 
-        Math.round((checkOut.getTime() - checkIn.getTime()) / (1000 * 60 * 60) * 100) / 100 : 0;
+        Math.round(calculateWorkedMs(checkIn, checkOut, record.breaks) / (1000 * 60 * 60) * 100) / 100 : 0;
+      const breakMinutes = Math.round(calculateBreakMs(record.breaks, checkOut || new Date()) / (1000 * 60));
+      const offsiteMinutes = Math.round(calculateOffsiteMs(record.offsitePeriods, checkOut || new Date()) / (1000 * 60));
+      const payHours = payColumns(pay, record.id);
       
       csvData.push({
         employee_name: `${employee.firstName} ${employee.lastName}`,
@@ -3054,7 +5292,15 @@ async function generateCsvReport(attendanceData: any[], fromDate: Date): Promise
         date: checkIn.toLocaleDateString(),
         check_in_time: checkIn.toLocaleTimeString(),
         check_out_time: checkOut ? checkOut.toLocaleTimeString() : 'Still checked in',
+        break_minutes: breakMinutes,
+        offsite_minutes: offsiteMinutes,
         hours_worked: checkOut ? hours : 'In Progress',
+        regular_hours: payHours ? payHours.regular : '',
+        overtime_hours: payHours ? payHours.overtime : '',
+        weekend_hours: payHours ? payHours.weekend : '',
+        holiday_hours: payHours ? payHours.holiday : '',
+        night_hours: payHours ? payHours.night : '',
+        payable_hours: payHours ? payHours.payable : '',
         site_name: site ? site.name : 'Unknown',
         site_address: site ? site.address : ''
       });
@@ -3063,7 +5309,7 @@ async function generateCsvReport(attendanceData: any[], fromDate: Date): Promise
   
   // Convert to CSV format manually
   if (csvData.length === 0) {
-    return 'employee_name,email,date,check_in_time,check_out_time,hours_worked,site_name,site_address\n';
+    return 'employee_name,email,date,check_in_time,check_out_time,break_minutes,offsite_minutes,hours_worked,regular_hours,overtime_hours,weekend_hours,holiday_hours,night_hours,payable_hours,site_name,site_address\n';
   }
   
   const headers = Object.keys(csvData[0]);
@@ -0,0 +1,25 @@
+import { pool } from './db';
+
+// Run one scheduler tick only if no other instance is running the same scheduler.
+// Advisory locks belong to a session, so the lock is taken and released on one
+// dedicated client. Returns false when another instance holds the lock.
+export async function runExclusively(name: string, task: () => Promise<void>): Promise<boolean> {
+  const client = await pool.connect();
+  let unlocked = true;
+  try {
+    const { rows } = await client.query('SELECT pg_try_advisory_lock(hashtext($1)) AS locked', [name]);
+    if (!rows[0]?.locked) return false;
+
+    unlocked = false;
+    try {
+      await task();
+    } finally {
+      await client.query('SELECT pg_advisory_unlock(hashtext($1))', [name]);
+      unlocked = true;
+    }
+    return true;
+  } finally {
+    // A client that may still hold the lock is discarded rather than returned to the pool
+    client.release(!unlocked);
+  }
+}
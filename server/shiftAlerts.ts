@@ -0,0 +1,167 @@
+import type { ShiftAlertType } from "@shared/schema";
+import type { AdminNotification } from "@shared/realtime";
+import { storage } from "./storage";
+import { computeShiftStatus, getApprovedLeaveForOccurrences, getHolidayCheck, materializeOccurrence, mergeShiftOccurrences, type ShiftOccurrenceWithStatus } from "./shifts";
+import { isOnLeave } from "./leave";
+
+// Minutes after shift start without a check-in before a no-show alert is raised
+export const NO_SHOW_ALERT_MINUTES = (() => {
+  const value = parseInt(process.env.SHIFT_NO_SHOW_ALERT_MINUTES || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : 15;
+})();
+
+// How often the evaluator runs, and how far back it looks for shifts to evaluate
+const EVALUATION_INTERVAL_MS = 60 * 1000;
+const LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+type ShiftAlertNotifier = (adminId: number, notification: AdminNotification) => void;
+
+function describeAlert(type: ShiftAlertType, name: string, siteName: string, minutes: number): string {
+  switch (type) {
+    case 'no_show':
+      return `${name} has not checked in at ${siteName} - shift started ${minutes} minutes ago`;
+    case 'late_arrival':
+      return `${name} checked in ${minutes} minutes late at ${siteName}`;
+    case 'early_departure':
+      return `${name} checked out ${minutes} minutes before the end of their shift at ${siteName}`;
+  }
+}
+
+// Which alerts a shift currently warrants, based on its attendance-derived status
+function alertsForOccurrence(occurrence: ShiftOccurrenceWithStatus, now: Date): { type: ShiftAlertType; minutes: number }[] {
+  const result: { type: ShiftAlertType; minutes: number }[] = [];
+
+  // Employees on approved leave are not expected to turn up
+  if (occurrence.status === 'on_leave') return result;
+
+  if (occurrence.checkInTime === null) {
+    const minutesSinceStart = Math.round((now.getTime() - occurrence.startTime.getTime()) / 60000);
+    if (minutesSinceStart >= NO_SHOW_ALERT_MINUTES) {
+      result.push({ type: 'no_show', minutes: minutesSinceStart });
+    }
+    return result;
+  }
+
+  if (occurrence.lateMinutes > 0) {
+    result.push({ type: 'late_arrival', minutes: occurrence.lateMinutes });
+  }
+  if (occurrence.earlyDepartureMinutes > 0) {
+    result.push({ type: 'early_departure', minutes: occurrence.earlyDepartureMinutes });
+  }
+  return result;
+}
+
+// Evaluate every shift that started in the last 24 hours and raise any new alerts.
+// Alerts are unique per shift and type, so re-running only notifies once.
+export async function evaluateShiftAlerts(notify: ShiftAlertNotifier, now: Date = new Date()): Promise<void> {
+  const from = new Date(now.getTime() - LOOKBACK_MS);
+
+  const [storedShifts, patterns] = await Promise.all([
+    storage.getShiftsInRange(from, now),
+    storage.getActiveShiftPatterns(),
+  ]);
+
+  const isHoliday = await getHolidayCheck(patterns, from, now);
+  const occurrences = mergeShiftOccurrences(storedShifts, patterns, from, now, isHoliday)
+    .filter(occurrence => occurrence.startTime <= now);
+  if (occurrences.length === 0) return;
+
+  const shiftIds = storedShifts.map(shift => shift.id);
+  const [linkedAttendance, existingAlerts, leave] = await Promise.all([
+    storage.getAttendanceByShiftIds(shiftIds),
+    storage.getShiftAlertsForShifts(shiftIds),
+    getApprovedLeaveForOccurrences(occurrences),
+  ]);
+  const existing = new Set(existingAlerts.map(alert => `${alert.shiftId}-${alert.type}`));
+
+  for (const occurrence of occurrences) {
+    const status = computeShiftStatus(
+      occurrence,
+      occurrence.shiftId ? linkedAttendance.filter(record => record.shiftId === occurrence.shiftId) : [],
+      now,
+      isOnLeave(leave, occurrence.employeeId, occurrence.startTime)
+    );
+
+    const pending = alertsForOccurrence(status, now)
+      .filter(alert => !occurrence.shiftId || !existing.has(`${occurrence.shiftId}-${alert.type}`));
+    if (pending.length === 0) continue;
+
+    try {
+      const employee = await storage.getEmployee(occurrence.employeeId);
+      const site = await storage.getWorkSite(occurrence.siteId);
+      if (!employee || !employee.isActive || !site) continue;
+
+      // Pattern occurrences need a shift row for the alert to reference
+      let shiftId = occurrence.shiftId;
+      if (!shiftId) {
+        const shift = await materializeOccurrence(occurrence);
+        shiftId = shift.id;
+      }
+
+      const name = `${employee.firstName} ${employee.lastName}`;
+      for (const { type, minutes } of pending) {
+        const message = describeAlert(type, name, site.name, minutes);
+        const alert = await storage.createShiftAlert({
+          adminId: occurrence.adminId,
+          employeeId: employee.id,
+          siteId: site.id,
+          shiftId,
+          type,
+          minutes,
+          message,
+        });
+        if (!alert) continue;
+
+        // A late check-in supersedes the earlier "not checked in" alert
+        if (type === 'late_arrival') {
+          await storage.resolveShiftAlertsByType(shiftId, 'no_show');
+        }
+
+        notify(occurrence.adminId, {
+          type,
+          message,
+          alertId: alert.id,
+          shiftId,
+          minutes,
+          employee: {
+            id: employee.id,
+            name,
+            email: employee.email,
+            firstName: employee.firstName,
+            lastName: employee.lastName
+          },
+          site: {
+            id: site.id,
+            name: site.name,
+            address: site.address
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    } catch (error) {
+      console.error(`❌ Failed to evaluate shift alerts for ${occurrence.key}:`, error);
+    }
+  }
+}
+
+// Run the evaluator on a fixed interval. Ticks never overlap - a slow run simply
+// delays the next one.
+export function startShiftAlertEvaluator(notify: ShiftAlertNotifier): () => void {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await evaluateShiftAlerts(notify);
+    } catch (error) {
+      console.error('❌ Shift alert evaluation failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, EVALUATION_INTERVAL_MS);
+  timer.unref();
+  return () => clearInterval(timer);
+}
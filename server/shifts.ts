@@ -0,0 +1,325 @@
+import type { Attendance, Shift, ShiftPattern } from "@shared/schema";
+import { storage } from "./storage";
+import { isOnLeave } from "./leave";
+import { findHoliday } from "./holidays";
+
+// Minutes after the planned start before an arrival counts as late
+export const LATE_GRACE_MINUTES = 5;
+// Minutes before the planned end that a checkout may happen without counting as an early departure
+export const EARLY_DEPARTURE_GRACE_MINUTES = 5;
+// How early before a shift starts a check-in is still matched to it
+export const CHECKIN_EARLY_WINDOW_MINUTES = 120;
+
+const MINUTE = 60 * 1000;
+
+export type ShiftStatus = 'scheduled' | 'late' | 'in_progress' | 'completed' | 'no_show' | 'on_leave';
+
+// A planned shift in a given window - either a stored shift row or a pattern
+// occurrence that has not been materialized yet (shiftId is null)
+export interface ShiftOccurrence {
+  key: string;
+  shiftId: number | null;
+  patternId: number | null;
+  occurrenceDate: string | null;
+  adminId: number;
+  employeeId: number;
+  siteId: number;
+  startTime: Date;
+  endTime: Date;
+  notes: string | null;
+}
+
+export interface ShiftOccurrenceWithStatus extends ShiftOccurrence {
+  status: ShiftStatus;
+  lateMinutes: number;
+  earlyDepartureMinutes: number;
+  attendanceIds: number[];
+  checkInTime: Date | null;
+  checkOutTime: Date | null;
+}
+
+// Local calendar date as YYYY-MM-DD (server local time, same as the rest of the attendance code)
+export function formatDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function atTimeOfDay(day: Date, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const result = new Date(day);
+  result.setHours(hours, minutes, 0, 0);
+  return result;
+}
+
+function startOfDay(date: Date): Date {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+}
+
+function toOccurrence(shift: Shift): ShiftOccurrence {
+  return {
+    key: `shift-${shift.id}`,
+    shiftId: shift.id,
+    patternId: shift.patternId,
+    occurrenceDate: shift.occurrenceDate,
+    adminId: shift.adminId,
+    employeeId: shift.employeeId,
+    siteId: shift.siteId,
+    startTime: new Date(shift.startTime),
+    endTime: new Date(shift.endTime),
+    notes: shift.notes,
+  };
+}
+
+// Expand a weekly pattern into the occurrences overlapping [from, to).
+// Starts one day early so overnight shifts that began the previous evening are included.
+export function expandShiftPattern(pattern: ShiftPattern, from: Date, to: Date): ShiftOccurrence[] {
+  if (!pattern.isActive) return [];
+
+  const occurrences: ShiftOccurrence[] = [];
+  const effectiveFrom = startOfDay(new Date(pattern.effectiveFrom));
+  const effectiveUntil = pattern.effectiveUntil ? startOfDay(new Date(pattern.effectiveUntil)) : null;
+
+  const day = startOfDay(from);
+  day.setDate(day.getDate() - 1);
+
+  while (day < to) {
+    const inEffect = day >= effectiveFrom && (!effectiveUntil || day <= effectiveUntil);
+    if (inEffect && pattern.daysOfWeek.includes(day.getDay())) {
+      const startTime = atTimeOfDay(day, pattern.startTime);
+      const endTime = atTimeOfDay(day, pattern.endTime);
+      if (endTime <= startTime) {
+        endTime.setDate(endTime.getDate() + 1);
+      }
+
+      if (startTime < to && endTime > from) {
+        const occurrenceDate = formatDateKey(day);
+        occurrences.push({
+          key: `pattern-${pattern.id}-${occurrenceDate}`,
+          shiftId: null,
+          patternId: pattern.id,
+          occurrenceDate,
+          adminId: pattern.adminId,
+          employeeId: pattern.employeeId,
+          siteId: pattern.siteId,
+          startTime,
+          endTime,
+          notes: null,
+        });
+      }
+    }
+    day.setDate(day.getDate() + 1);
+  }
+
+  return occurrences;
+}
+
+// Combine stored shifts with pattern occurrences. A stored shift carrying a
+// patternId + occurrenceDate replaces that occurrence (e.g. after check-in or an edit).
+// Pattern occurrences on a holiday are dropped; shifts stored for a holiday were
+// scheduled on purpose and are kept.
+export function mergeShiftOccurrences(
+  storedShifts: Shift[],
+  patterns: ShiftPattern[],
+  from: Date,
+  to: Date,
+  isHoliday: (occurrence: ShiftOccurrence) => boolean = () => false
+): ShiftOccurrence[] {
+  const materialized = new Set(
+    storedShifts
+      .filter(shift => shift.patternId && shift.occurrenceDate)
+      .map(shift => `${shift.patternId}-${shift.occurrenceDate}`)
+  );
+
+  const occurrences = storedShifts.map(toOccurrence);
+  patterns.forEach(pattern => {
+    expandShiftPattern(pattern, from, to).forEach(occurrence => {
+      if (!materialized.has(`${occurrence.patternId}-${occurrence.occurrenceDate}`) && !isHoliday(occurrence)) {
+        occurrences.push(occurrence);
+      }
+    });
+  });
+
+  return occurrences.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+}
+
+// Work out lateness, early departure and no-shows for a shift from the attendance
+// rows linked to it. Several rows can point at the same shift (e.g. re-check-in),
+// so the first check-in and the last checkout are used. An employee on approved
+// leave who has not checked in is never late or a no-show.
+export function computeShiftStatus(
+  occurrence: ShiftOccurrence,
+  linkedAttendance: Attendance[],
+  now: Date = new Date(),
+  onLeave: boolean = false
+): ShiftOccurrenceWithStatus {
+  const start = occurrence.startTime.getTime();
+  const end = occurrence.endTime.getTime();
+
+  const checkIns = linkedAttendance
+    .map(record => record.checkInTime ? new Date(record.checkInTime).getTime() : null)
+    .filter((time): time is number => time !== null);
+  const stillCheckedIn = linkedAttendance.some(record => !record.checkOutTime);
+  const checkOuts = linkedAttendance
+    .map(record => record.checkOutTime ? new Date(record.checkOutTime).getTime() : null)
+    .filter((time): time is number => time !== null);
+
+  const base = {
+    ...occurrence,
+    attendanceIds: linkedAttendance.map(record => record.id),
+    lateMinutes: 0,
+    earlyDepartureMinutes: 0,
+    checkInTime: null as Date | null,
+    checkOutTime: null as Date | null,
+  };
+
+  if (checkIns.length === 0) {
+    if (onLeave) {
+      return { ...base, status: 'on_leave' };
+    }
+    const nowMs = now.getTime();
+    if (nowMs >= end) {
+      return { ...base, status: 'no_show' };
+    }
+    if (nowMs > start + LATE_GRACE_MINUTES * MINUTE) {
+      return { ...base, status: 'late', lateMinutes: Math.round((nowMs - start) / MINUTE) };
+    }
+    return { ...base, status: 'scheduled' };
+  }
+
+  const firstCheckIn = Math.min(...checkIns);
+  const lastCheckOut = !stillCheckedIn && checkOuts.length > 0 ? Math.max(...checkOuts) : null;
+
+  const lateMinutes = firstCheckIn > start + LATE_GRACE_MINUTES * MINUTE
+    ? Math.round((firstCheckIn - start) / MINUTE)
+    : 0;
+  const earlyDepartureMinutes = lastCheckOut !== null && lastCheckOut < end - EARLY_DEPARTURE_GRACE_MINUTES * MINUTE
+    ? Math.round((end - lastCheckOut) / MINUTE)
+    : 0;
+
+  return {
+    ...base,
+    status: lastCheckOut === null ? 'in_progress' : 'completed',
+    lateMinutes,
+    earlyDepartureMinutes,
+    checkInTime: new Date(firstCheckIn),
+    checkOutTime: lastCheckOut !== null ? new Date(lastCheckOut) : null,
+  };
+}
+
+// Holiday check for the pattern occurrences of [from, to). A holiday applies to an
+// occurrence when its calendar is company-wide or covers the area of the shift's site.
+export async function getHolidayCheck(
+  patterns: ShiftPattern[],
+  from: Date,
+  to: Date
+): Promise<(occurrence: ShiftOccurrence) => boolean> {
+  const adminIds = Array.from(new Set(patterns.map(pattern => pattern.adminId)));
+  const dayBefore = new Date(from);
+  dayBefore.setDate(dayBefore.getDate() - 1);
+  const holidays = await storage.getHolidaysInRange(formatDateKey(dayBefore), formatDateKey(to), adminIds);
+  if (holidays.length === 0) return () => false;
+
+  const siteAreas = new Map<number, number | null>();
+  const holidayAdmins = Array.from(new Set(holidays.map(holiday => holiday.adminId)));
+  for (const adminId of holidayAdmins) {
+    const sites = await storage.getWorkSitesByAdmin(adminId);
+    sites.forEach(site => siteAreas.set(site.id, site.areaId));
+  }
+
+  return occurrence => !!occurrence.occurrenceDate && !!findHoliday(
+    holidays,
+    occurrence.adminId,
+    siteAreas.get(occurrence.siteId),
+    occurrence.occurrenceDate
+  );
+}
+
+// Approved leave covering the start day of any of the occurrences
+export async function getApprovedLeaveForOccurrences(occurrences: ShiftOccurrence[]) {
+  if (occurrences.length === 0) return [];
+  const employeeIds = Array.from(new Set(occurrences.map(occurrence => occurrence.employeeId)));
+  return storage.getApprovedLeaveInRange(
+    formatDateKey(occurrences[0].startTime),
+    formatDateKey(occurrences[occurrences.length - 1].startTime),
+    employeeIds
+  );
+}
+
+// All shift occurrences for an admin in [from, to), with attendance-derived status
+export async function getShiftOccurrences(
+  adminId: number,
+  from: Date,
+  to: Date,
+  filters: { employeeId?: number; siteId?: number } = {}
+): Promise<ShiftOccurrenceWithStatus[]> {
+  const [storedShifts, patterns] = await Promise.all([
+    storage.getShiftsByAdmin(adminId, from, to, filters),
+    storage.getShiftPatternsByAdmin(adminId, filters),
+  ]);
+
+  const isHoliday = await getHolidayCheck(patterns, from, to);
+  const occurrences = mergeShiftOccurrences(storedShifts, patterns, from, to, isHoliday);
+  const [linkedAttendance, leave] = await Promise.all([
+    storage.getAttendanceByShiftIds(storedShifts.map(shift => shift.id)),
+    getApprovedLeaveForOccurrences(occurrences),
+  ]);
+  const now = new Date();
+
+  return occurrences.map(occurrence => computeShiftStatus(
+    occurrence,
+    occurrence.shiftId ? linkedAttendance.filter(record => record.shiftId === occurrence.shiftId) : [],
+    now,
+    isOnLeave(leave, occurrence.employeeId, occurrence.startTime)
+  ));
+}
+
+// Find the planned shift a check-in at `at` belongs to: the shift window runs from
+// CHECKIN_EARLY_WINDOW_MINUTES before the start until the planned end. When several
+// match, the one starting closest to the check-in wins. Pattern occurrences are
+// materialized into a shift row so the attendance record has something to point at.
+export async function resolveShiftForCheckIn(employeeId: number, at: Date = new Date()): Promise<Shift | undefined> {
+  const windowStart = new Date(at.getTime() - 24 * 60 * MINUTE);
+  const windowEnd = new Date(at.getTime() + CHECKIN_EARLY_WINDOW_MINUTES * MINUTE);
+
+  const [storedShifts, patterns] = await Promise.all([
+    storage.getEmployeeShifts(employeeId, windowStart, windowEnd),
+    storage.getActiveShiftPatternsForEmployee(employeeId),
+  ]);
+
+  const isHoliday = await getHolidayCheck(patterns, windowStart, windowEnd);
+  const candidates = mergeShiftOccurrences(storedShifts, patterns, windowStart, windowEnd, isHoliday)
+    .filter(occurrence =>
+      at.getTime() >= occurrence.startTime.getTime() - CHECKIN_EARLY_WINDOW_MINUTES * MINUTE &&
+      at.getTime() <= occurrence.endTime.getTime()
+    )
+    .sort((a, b) =>
+      Math.abs(a.startTime.getTime() - at.getTime()) - Math.abs(b.startTime.getTime() - at.getTime())
+    );
+
+  const match = candidates[0];
+  if (!match) return undefined;
+
+  if (match.shiftId) {
+    return storedShifts.find(shift => shift.id === match.shiftId);
+  }
+
+  return materializeOccurrence(match);
+}
+
+// Store a pattern occurrence (shiftId null) as a shift row. The check-in and the alert
+// evaluator may both get here for the same occurrence; they end up with the same row.
+export function materializeOccurrence(occurrence: ShiftOccurrence): Promise<Shift> {
+  return storage.materializeShift({
+    adminId: occurrence.adminId,
+    employeeId: occurrence.employeeId,
+    siteId: occurrence.siteId,
+    patternId: occurrence.patternId!,
+    occurrenceDate: occurrence.occurrenceDate!,
+    startTime: occurrence.startTime,
+    endTime: occurrence.endTime,
+    notes: null,
+  });
+}
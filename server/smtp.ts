@@ -0,0 +1,160 @@
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+
+const TIMEOUT_MS = 30 * 1000;
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS (usually port 465); otherwise STARTTLS is used when offered
+  user?: string;
+  pass?: string;
+}
+
+export class SmtpError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+    this.name = 'SmtpError';
+    Object.setPrototypeOf(this, SmtpError.prototype);
+  }
+}
+
+// One SMTP conversation. Replies are read line by line; a reply ends with the line
+// that has a space after the status code ("250 OK" rather than "250-SIZE").
+class SmtpConnection {
+  private buffer = '';
+  private lines: string[] = [];
+  private waiting: { resolve: (line: string) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    socket.setTimeout(TIMEOUT_MS, () => this.fail(new SmtpError('SMTP server timed out')));
+    socket.on('data', (chunk: Buffer) => {
+      this.buffer += chunk.toString('utf8');
+      let index;
+      while ((index = this.buffer.indexOf('\n')) >= 0) {
+        this.push(this.buffer.slice(0, index).replace(/\r$/, ''));
+        this.buffer = this.buffer.slice(index + 1);
+      }
+    });
+    socket.on('error', error => this.fail(error));
+    socket.on('close', () => this.fail(new SmtpError('SMTP connection closed')));
+  }
+
+  private push(line: string) {
+    if (this.waiting) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve(line);
+    } else {
+      this.lines.push(line);
+    }
+  }
+
+  private fail(error: Error) {
+    if (this.failure) return;
+    this.failure = error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(error);
+    }
+  }
+
+  private nextLine(): Promise<string> {
+    const line = this.lines.shift();
+    if (line !== undefined) return Promise.resolve(line);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => { this.waiting = { resolve, reject }; });
+  }
+
+  async reply(expected: number[]): Promise<string[]> {
+    const lines: string[] = [];
+    while (true) {
+      const line = await this.nextLine();
+      lines.push(line);
+      if (line[3] !== '-') break;
+    }
+    const code = parseInt(lines[lines.length - 1].slice(0, 3));
+    if (!expected.includes(code)) {
+      throw new SmtpError(`SMTP server replied: ${lines.join(' ')}`, code);
+    }
+    return lines.map(line => line.slice(4));
+  }
+
+  async command(line: string, expected: number[]): Promise<string[]> {
+    this.socket.write(line + '\r\n');
+    return this.reply(expected);
+  }
+
+  // Switch the conversation to TLS after STARTTLS was accepted
+  async upgrade(host: string): Promise<void> {
+    this.socket.removeAllListeners('data');
+    this.socket.removeAllListeners('error');
+    this.socket.removeAllListeners('close');
+    this.socket.setTimeout(0);
+    const secureSocket = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secureSocket.once('secureConnect', resolve);
+      secureSocket.once('error', reject);
+    });
+    this.socket = secureSocket;
+    this.attach(secureSocket);
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+function connect(options: SmtpOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host }, () => resolve(socket))
+      : net.connect({ host: options.host, port: options.port }, () => resolve(socket));
+    socket.once('error', reject);
+    socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new SmtpError('Could not connect to the SMTP server')));
+  });
+}
+
+// Deliver a ready-made MIME message to the given envelope recipients
+export async function sendSmtpMessage(
+  options: SmtpOptions,
+  envelope: { from: string; to: string[] },
+  message: string
+): Promise<void> {
+  const connection = new SmtpConnection(await connect(options));
+
+  try {
+    await connection.reply([220]);
+    const capabilities = await connection.command(`EHLO ${os.hostname()}`, [250]);
+
+    if (!options.secure && capabilities.some(line => line.toUpperCase() === 'STARTTLS')) {
+      await connection.command('STARTTLS', [220]);
+      await connection.upgrade(options.host);
+      await connection.command(`EHLO ${os.hostname()}`, [250]);
+    }
+
+    if (options.user) {
+      const credentials = Buffer.from(`\0${options.user}\0${options.pass ?? ''}`).toString('base64');
+      await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await connection.command(`MAIL FROM:<${envelope.from}>`, [250]);
+    for (const recipient of envelope.to) {
+      await connection.command(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await connection.command('DATA', [354]);
+    // Lines starting with a dot are escaped by doubling it
+    const body = message.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+    await connection.command(`${body}\r\n.`, [250]);
+    await connection.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    connection.close();
+  }
+}
@@ -5,14 +5,57 @@ import {
   areas,
   departments,
   locationTracking,
+  geofenceEvents,
   attendance,
+  attendanceBreaks,
+  attendanceRevisions,
+  autoCheckoutPolicies,
+  overtimePolicies,
+  payrollTemplates,
+  shifts,
+  shiftPatterns,
+  shiftAlerts,
+  timesheets,
+  leaveTypes,
+  leaveBalances,
+  leaveRequests,
+  holidayCalendars,
+  holidays,
+  reportSchedules,
+  reportRuns,
+  notifications,
+  notificationPreferences,
+  notificationReceipts,
   type Admin,
   type Employee,
   type WorkSite,
   type Area,
   type Department,
   type LocationTracking,
+  type GeofenceEvent,
+  type InsertGeofenceEvent,
   type Attendance,
+  type AttendanceBreak,
+  type AttendanceRevision,
+  type AutoCheckoutPolicy,
+  type OvertimePolicy,
+  type PayrollTemplate,
+  type Shift,
+  type ShiftPattern,
+  type ShiftAlert,
+  type ShiftAlertType,
+  type Timesheet,
+  type LeaveType,
+  type LeaveBalance,
+  type LeaveRequest,
+  type LeaveRequestStatus,
+  type HolidayCalendar,
+  type Holiday,
+  type ReportSchedule,
+  type ReportRun,
+  type Notification,
+  type NotificationPreferences,
+  type NotificationReceipt,
   type InsertAdmin,
   type InsertEmployee,
   type InsertWorkSite,
@@ -20,9 +63,48 @@ import {
   type InsertDepartment,
   type InsertLocationTracking,
   type InsertAttendance,
+  type InsertAttendanceRevision,
+  type InsertAutoCheckoutPolicy,
+  type InsertOvertimePolicy,
+  type InsertPayrollTemplate,
+  type InsertShift,
+  type InsertShiftPattern,
+  type InsertShiftAlert,
+  type InsertTimesheet,
+  type InsertLeaveType,
+  type InsertLeaveBalance,
+  type InsertLeaveRequest,
+  type InsertHolidayCalendar,
+  type InsertHoliday,
+  type InsertReportSchedule,
+  type InsertReportRun,
+  type InsertNotification,
+  type InsertNotificationPreferences,
 } from "@shared/schema";
+import { checkSiteGeofence, gpsAccuracyBuffer, hasGeofencePolygon, LOCATION_RISK_ALERT_THRESHOLD } from "@shared/geofence";
+import { getWeekKeysFor, TimesheetLockedError } from "./timesheets";
+import type { ParsedHoliday, ScopedHoliday } from "./holidays";
 import { db } from "./db";
-import { eq, and, desc, asc, sql } from "drizzle-orm";
+import { eq, and, desc, asc, sql, inArray, or } from "drizzle-orm";
+
+export interface NotificationFilters {
+  status?: 'read' | 'unread';
+  type?: string;
+  before?: number;
+  after?: number;
+  since?: Date;
+  limit?: number;
+}
+
+// One of employeeId or siteId is expected; `before` pages by event id
+export interface GeofenceEventFilters {
+  employeeId?: number;
+  siteId?: number;
+  from?: Date;
+  to?: Date;
+  before?: number;
+  limit?: number;
+}
 
 export interface IStorage {
   // Admin operations
@@ -74,17 +156,147 @@ export interface IStorage {
   // Location tracking operations
   createLocationTracking(location: InsertLocationTracking): Promise<LocationTracking>;
   getLatestEmployeeLocation(employeeId: number): Promise<LocationTracking | undefined>;
+  getRecentEmployeeLocations(employeeId: number, limit: number): Promise<LocationTracking[]>;
   getEmployeeLocationHistory(employeeId: number, date?: Date): Promise<LocationTracking[]>;
   getFirstOffsiteLocationSince(employeeId: number, since: Date): Promise<LocationTracking | undefined>;
+  getLastOnsiteLocationSince(employeeId: number, since: Date): Promise<LocationTracking | undefined>;
+  getLocationPingsInRange(employeeIds: number[], from: Date, to: Date): Promise<Pick<LocationTracking, 'employeeId' | 'isOnSite' | 'timestamp'>[]>;
+  createGeofenceEvent(event: InsertGeofenceEvent): Promise<GeofenceEvent>;
+  getLatestGeofenceEvent(employeeId: number, siteId: number): Promise<GeofenceEvent | undefined>;
+  getGeofenceEvents(filters: GeofenceEventFilters): Promise<GeofenceEvent[]>;
 
   // Attendance operations
-  createAttendance(attendance: InsertAttendance): Promise<Attendance>;
+  createAttendance(attendance: InsertAttendance & { checkInTime?: Date }): Promise<Attendance>;
+  getAttendance(id: number): Promise<Attendance | undefined>;
   updateAttendance(id: number, attendance: Partial<Attendance>): Promise<Attendance>;
+  splitAttendance(
+    id: number,
+    second: InsertAttendance & { checkInTime: Date },
+    firstChanges: Partial<Attendance> & { checkOutTime: Date },
+    revisions: (first: Attendance, second: Attendance) => InsertAttendanceRevision[]
+  ): Promise<{ first: Attendance; second: Attendance }>;
   deleteAttendance(id: number, adminId: number): Promise<void>;
   getCurrentAttendance(employeeId: number): Promise<Attendance | undefined>;
+  isAttendancePhotoUsed(photo: string): Promise<boolean>;
   getAttendanceByAdmin(adminId: number, date?: Date): Promise<Attendance[]>;
   getEmployeeAttendanceHistory(employeeId: number, fromDate: Date): Promise<Attendance[]>;
   getRecentActivities(adminId: number, days?: number): Promise<any[]>;
+  getAttendanceByShiftIds(shiftIds: number[]): Promise<Attendance[]>;
+  getAttendanceInRange(employeeIds: number[], from: Date, to: Date): Promise<Attendance[]>;
+  getOverlappingAttendance(employeeId: number, from: Date, to: Date | null, excludeIds?: number[]): Promise<Attendance[]>;
+  getOpenAttendanceForAdmins(adminIds: number[]): Promise<{ attendance: Attendance; adminId: number }[]>;
+
+  // Auto checkout policy operations
+  getAutoCheckoutPolicy(adminId: number): Promise<AutoCheckoutPolicy | undefined>;
+  getEnabledAutoCheckoutPolicies(): Promise<AutoCheckoutPolicy[]>;
+  upsertAutoCheckoutPolicy(policy: InsertAutoCheckoutPolicy): Promise<AutoCheckoutPolicy>;
+
+  // Overtime policy operations
+  getOvertimePolicy(adminId: number): Promise<OvertimePolicy | undefined>;
+  upsertOvertimePolicy(policy: InsertOvertimePolicy): Promise<OvertimePolicy>;
+
+  // Payroll template operations
+  getPayrollTemplatesByAdmin(adminId: number): Promise<PayrollTemplate[]>;
+  getPayrollTemplate(id: number): Promise<PayrollTemplate | undefined>;
+  createPayrollTemplate(template: InsertPayrollTemplate): Promise<PayrollTemplate>;
+  updatePayrollTemplate(id: number, template: Partial<InsertPayrollTemplate>): Promise<PayrollTemplate>;
+  deletePayrollTemplate(id: number): Promise<void>;
+
+  // Report schedule operations
+  getReportSchedulesByAdmin(adminId: number): Promise<ReportSchedule[]>;
+  getReportSchedule(id: number): Promise<ReportSchedule | undefined>;
+  getDueReportSchedules(now: Date): Promise<ReportSchedule[]>;
+  createReportSchedule(schedule: InsertReportSchedule & { nextRunAt: Date | null }): Promise<ReportSchedule>;
+  updateReportSchedule(id: number, schedule: Partial<InsertReportSchedule & { nextRunAt: Date | null; lastRunAt: Date }>): Promise<ReportSchedule>;
+  deleteReportSchedule(id: number): Promise<void>;
+  createReportRun(run: InsertReportRun): Promise<ReportRun>;
+  getReportRuns(scheduleId: number, limit?: number): Promise<ReportRun[]>;
+
+  // Notification operations
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  getNotification(id: number): Promise<Notification | undefined>;
+  getNotifications(adminId: number, filters?: NotificationFilters): Promise<Notification[]>;
+  countUnreadNotifications(adminId: number): Promise<number>;
+  updateNotification(id: number, changes: { readAt?: Date | null; dismissedAt?: Date | null }): Promise<Notification>;
+  markAllNotificationsRead(adminId: number): Promise<void>;
+  dismissAllNotifications(adminId: number): Promise<void>;
+  getNotificationPreferences(adminId: number): Promise<NotificationPreferences | undefined>;
+  upsertNotificationPreferences(preferences: InsertNotificationPreferences & { nextDigestAt: Date | null }): Promise<NotificationPreferences>;
+  getDueNotificationDigests(now: Date): Promise<NotificationPreferences[]>;
+  updateNotificationDigest(adminId: number, digest: { nextDigestAt: Date | null; lastDigestAt: Date }): Promise<void>;
+  getLatestNotificationId(adminId: number): Promise<number>;
+  getNotificationReceipt(adminId: number, clientId: string): Promise<NotificationReceipt | undefined>;
+  acknowledgeNotifications(adminId: number, clientId: string, notificationId: number): Promise<void>;
+
+  // Attendance revision operations
+  createAttendanceRevision(revision: InsertAttendanceRevision): Promise<AttendanceRevision>;
+  getAttendanceRevisions(attendanceId: number): Promise<AttendanceRevision[]>;
+
+  // Break operations
+  startBreak(attendanceId: number): Promise<AttendanceBreak>;
+  endBreak(id: number): Promise<AttendanceBreak>;
+  getOpenBreak(attendanceId: number): Promise<AttendanceBreak | undefined>;
+  getBreaksByAttendanceIds(attendanceIds: number[]): Promise<AttendanceBreak[]>;
+
+  // Shift operations
+  getShift(id: number): Promise<Shift | undefined>;
+  getShiftsByAdmin(adminId: number, from: Date, to: Date, filters?: { employeeId?: number; siteId?: number }): Promise<Shift[]>;
+  getEmployeeShifts(employeeId: number, from: Date, to: Date): Promise<Shift[]>;
+  getShiftsInRange(from: Date, to: Date): Promise<Shift[]>;
+  createShift(shift: InsertShift): Promise<Shift>;
+  materializeShift(shift: InsertShift & { patternId: number; occurrenceDate: string }): Promise<Shift>;
+  updateShift(id: number, shift: Partial<InsertShift>): Promise<Shift>;
+  deleteShift(id: number): Promise<void>;
+
+  // Shift pattern operations
+  getShiftPattern(id: number): Promise<ShiftPattern | undefined>;
+  getShiftPatternsByAdmin(adminId: number, filters?: { employeeId?: number; siteId?: number }): Promise<ShiftPattern[]>;
+  getActiveShiftPatternsForEmployee(employeeId: number): Promise<ShiftPattern[]>;
+  getActiveShiftPatterns(): Promise<ShiftPattern[]>;
+  createShiftPattern(pattern: InsertShiftPattern): Promise<ShiftPattern>;
+  updateShiftPattern(id: number, pattern: Partial<InsertShiftPattern>): Promise<ShiftPattern>;
+  deleteShiftPattern(id: number): Promise<void>;
+
+  // Shift alert operations
+  createShiftAlert(alert: InsertShiftAlert): Promise<ShiftAlert | undefined>;
+  getShiftAlertsForShifts(shiftIds: number[]): Promise<ShiftAlert[]>;
+  getUnresolvedShiftAlerts(adminId: number): Promise<ShiftAlert[]>;
+  resolveShiftAlert(id: number, adminId: number): Promise<ShiftAlert | undefined>;
+  resolveShiftAlertsByType(shiftId: number, type: ShiftAlertType): Promise<void>;
+
+  // Timesheet operations
+  getTimesheet(employeeId: number, weekStart: string): Promise<Timesheet | undefined>;
+  getTimesheetsForWeek(adminId: number, weekStart: string): Promise<Timesheet[]>;
+  getEmployeeTimesheets(employeeId: number, limit?: number): Promise<Timesheet[]>;
+  upsertTimesheet(timesheet: InsertTimesheet): Promise<Timesheet>;
+
+  // Leave operations
+  getLeaveTypesByAdmin(adminId: number): Promise<LeaveType[]>;
+  getLeaveType(id: number): Promise<LeaveType | undefined>;
+  createLeaveType(leaveType: InsertLeaveType): Promise<LeaveType>;
+  updateLeaveType(id: number, leaveType: Partial<InsertLeaveType>): Promise<LeaveType>;
+  deactivateLeaveType(id: number): Promise<void>;
+  getLeaveBalances(employeeId: number, years: number[]): Promise<LeaveBalance[]>;
+  upsertLeaveBalance(balance: InsertLeaveBalance): Promise<LeaveBalance>;
+  getLeaveRequest(id: number): Promise<LeaveRequest | undefined>;
+  getLeaveRequestsByAdmin(adminId: number, filters?: { status?: LeaveRequestStatus; employeeId?: number }): Promise<LeaveRequest[]>;
+  getEmployeeLeaveRequests(employeeId: number): Promise<LeaveRequest[]>;
+  getOverlappingLeaveRequests(employeeId: number, startDate: string, endDate: string): Promise<LeaveRequest[]>;
+  getApprovedLeaveInRange(startDate: string, endDate: string, employeeIds?: number[]): Promise<LeaveRequest[]>;
+  createLeaveRequest(request: InsertLeaveRequest): Promise<LeaveRequest>;
+  updateLeaveRequest(id: number, data: Partial<InsertLeaveRequest>): Promise<LeaveRequest>;
+
+  // Holiday calendar operations
+  getHolidayCalendarsByAdmin(adminId: number): Promise<HolidayCalendar[]>;
+  getHolidayCalendar(id: number): Promise<HolidayCalendar | undefined>;
+  createHolidayCalendar(calendar: InsertHolidayCalendar): Promise<HolidayCalendar>;
+  updateHolidayCalendar(id: number, calendar: Partial<InsertHolidayCalendar>): Promise<HolidayCalendar>;
+  deleteHolidayCalendar(id: number): Promise<void>;
+  getHolidays(calendarId: number): Promise<Holiday[]>;
+  getHoliday(id: number): Promise<Holiday | undefined>;
+  upsertHolidays(calendarId: number, entries: ParsedHoliday[]): Promise<Holiday[]>;
+  deleteHoliday(id: number): Promise<void>;
+  getHolidaysInRange(startDate: string, endDate: string, adminIds?: number[]): Promise<ScopedHoliday[]>;
 
   // Dashboard stats
   getDashboardStats(adminId: number): Promise<{
@@ -375,6 +587,16 @@ export class DatabaseStorage implements IStorage {
     return location || undefined;
   }
 
+  // Newest first
+  async getRecentEmployeeLocations(employeeId: number, limit: number): Promise<LocationTracking[]> {
+    return db
+      .select()
+      .from(locationTracking)
+      .where(eq(locationTracking.employeeId, employeeId))
+      .orderBy(desc(locationTracking.timestamp))
+      .limit(limit);
+  }
+
   async getEmployeeLocationHistory(employeeId: number, date?: Date): Promise<LocationTracking[]> {
     if (date) {
       const startOfDay = new Date(date);
@@ -418,19 +640,190 @@ export class DatabaseStorage implements IStorage {
     return record || undefined;
   }
 
+  async getLastOnsiteLocationSince(employeeId: number, since: Date): Promise<LocationTracking | undefined> {
+    const [record] = await db
+      .select()
+      .from(locationTracking)
+      .where(
+        and(
+          eq(locationTracking.employeeId, employeeId),
+          eq(locationTracking.isOnSite, true),
+          sql`${locationTracking.timestamp} >= ${since}`
+        )
+      )
+      .orderBy(desc(locationTracking.timestamp))
+      .limit(1);
+    return record || undefined;
+  }
+
+  async getLocationPingsInRange(employeeIds: number[], from: Date, to: Date): Promise<Pick<LocationTracking, 'employeeId' | 'isOnSite' | 'timestamp'>[]> {
+    if (employeeIds.length === 0) return [];
+    return db
+      .select({
+        employeeId: locationTracking.employeeId,
+        isOnSite: locationTracking.isOnSite,
+        timestamp: locationTracking.timestamp,
+      })
+      .from(locationTracking)
+      .where(
+        and(
+          inArray(locationTracking.employeeId, employeeIds),
+          sql`${locationTracking.timestamp} >= ${from}`,
+          sql`${locationTracking.timestamp} <= ${to}`
+        )
+      )
+      .orderBy(asc(locationTracking.timestamp));
+  }
+
+  async createGeofenceEvent(event: InsertGeofenceEvent): Promise<GeofenceEvent> {
+    const [newEvent] = await db.insert(geofenceEvents).values(event).returning();
+    return newEvent;
+  }
+
+  async getLatestGeofenceEvent(employeeId: number, siteId: number): Promise<GeofenceEvent | undefined> {
+    const [event] = await db
+      .select()
+      .from(geofenceEvents)
+      .where(and(eq(geofenceEvents.employeeId, employeeId), eq(geofenceEvents.siteId, siteId)))
+      .orderBy(desc(geofenceEvents.id))
+      .limit(1);
+    return event || undefined;
+  }
+
+  async getGeofenceEvents(filters: GeofenceEventFilters): Promise<GeofenceEvent[]> {
+    const conditions = [];
+    if (filters.employeeId !== undefined) conditions.push(eq(geofenceEvents.employeeId, filters.employeeId));
+    if (filters.siteId !== undefined) conditions.push(eq(geofenceEvents.siteId, filters.siteId));
+    if (filters.from) conditions.push(sql`${geofenceEvents.occurredAt} >= ${filters.from}`);
+    if (filters.to) conditions.push(sql`${geofenceEvents.occurredAt} <= ${filters.to}`);
+    if (filters.before) conditions.push(sql`${geofenceEvents.id} < ${filters.before}`);
+
+    return db
+      .select()
+      .from(geofenceEvents)
+      .where(and(...conditions))
+      .orderBy(desc(geofenceEvents.id))
+      .limit(filters.limit ?? 100);
+  }
+
   // Attendance operations
-  async createAttendance(attendanceData: InsertAttendance): Promise<Attendance> {
+  // Attendance inside an approved timesheet week is locked against changes
+  private async assertAttendanceUnlocked(employeeId: number, times: (Date | string | null | undefined)[]): Promise<void> {
+    const weekKeys = getWeekKeysFor(times);
+    if (weekKeys.length === 0) return;
+
+    const [locked] = await db
+      .select({ weekStart: timesheets.weekStart })
+      .from(timesheets)
+      .where(
+        and(
+          eq(timesheets.employeeId, employeeId),
+          inArray(timesheets.weekStart, weekKeys),
+          eq(timesheets.status, 'approved')
+        )
+      )
+      .limit(1);
+
+    if (locked) {
+      throw new TimesheetLockedError(locked.weekStart);
+    }
+  }
+
+  // Check-in time defaults to now; only admin corrections pass an explicit one
+  async createAttendance(attendanceData: InsertAttendance & { checkInTime?: Date }): Promise<Attendance> {
+    await this.assertAttendanceUnlocked(attendanceData.employeeId, [attendanceData.checkInTime ?? new Date(), attendanceData.checkOutTime]);
     const [newAttendance] = await db.insert(attendance).values(attendanceData).returning();
     return newAttendance;
   }
 
-  async updateAttendance(id: number, attendanceData: Partial<InsertAttendance>): Promise<Attendance> {
-    const [updatedAttendance] = await db
-      .update(attendance)
-      .set(attendanceData)
-      .where(eq(attendance.id, id))
-      .returning();
-    return updatedAttendance;
+  async getAttendance(id: number): Promise<Attendance | undefined> {
+    const [record] = await db.select().from(attendance).where(eq(attendance.id, id));
+    return record || undefined;
+  }
+
+  // Closing an open session also ends any break still running, in the same transaction
+  async updateAttendance(id: number, attendanceData: Partial<Attendance>): Promise<Attendance> {
+    const [existing] = await db.select().from(attendance).where(eq(attendance.id, id));
+    if (existing) {
+      // Both the week the record is in now and any week it would move into
+      await this.assertAttendanceUnlocked(existing.employeeId, [
+        existing.checkInTime,
+        existing.checkOutTime,
+        attendanceData.checkInTime,
+        attendanceData.checkOutTime,
+      ]);
+    }
+
+    return db.transaction(async (tx) => {
+      if (existing && !existing.checkOutTime && attendanceData.checkOutTime) {
+        await tx
+          .update(attendanceBreaks)
+          .set({ endTime: attendanceData.checkOutTime })
+          .where(
+            and(
+              eq(attendanceBreaks.attendanceId, id),
+              sql`${attendanceBreaks.endTime} IS NULL`
+            )
+          );
+      }
+
+      const [updatedAttendance] = await tx
+        .update(attendance)
+        .set(attendanceData)
+        .where(eq(attendance.id, id))
+        .returning();
+      return updatedAttendance;
+    });
+  }
+
+  // Split a session in one transaction: create the second part, move the breaks that
+  // started from its check-in onto it, end breaks still running on the first part and
+  // close the first part. `revisions` builds the audit rows once both parts exist.
+  async splitAttendance(
+    id: number,
+    second: InsertAttendance & { checkInTime: Date },
+    firstChanges: Partial<Attendance> & { checkOutTime: Date },
+    revisions: (first: Attendance, second: Attendance) => InsertAttendanceRevision[]
+  ): Promise<{ first: Attendance; second: Attendance }> {
+    const [existing] = await db.select().from(attendance).where(eq(attendance.id, id));
+    if (!existing) {
+      throw new Error(`Attendance record ${id} not found`);
+    }
+    await this.assertAttendanceUnlocked(existing.employeeId, [
+      existing.checkInTime,
+      existing.checkOutTime,
+      firstChanges.checkOutTime,
+      second.checkInTime,
+    ]);
+
+    return db.transaction(async (tx) => {
+      const [secondPart] = await tx.insert(attendance).values(second).returning();
+      await tx
+        .update(attendanceBreaks)
+        .set({ attendanceId: secondPart.id })
+        .where(
+          and(
+            eq(attendanceBreaks.attendanceId, id),
+            sql`${attendanceBreaks.startTime} >= ${second.checkInTime}`
+          )
+        );
+      await tx
+        .update(attendanceBreaks)
+        .set({ endTime: firstChanges.checkOutTime })
+        .where(
+          and(
+            eq(attendanceBreaks.attendanceId, id),
+            sql`${attendanceBreaks.endTime} IS NULL`
+          )
+        );
+      const [firstPart] = await tx
+        .update(attendance)
+        .set(firstChanges)
+        .where(eq(attendance.id, id))
+        .returning();
+      await tx.insert(attendanceRevisions).values(revisions(firstPart, secondPart));
+      return { first: firstPart, second: secondPart };
+    });
   }
 
   async deleteAttendance(id: number, adminId: number): Promise<void> {
@@ -438,6 +831,9 @@ export class DatabaseStorage implements IStorage {
     const [attendanceRecord] = await db
       .select({
         attendanceId: attendance.id,
+        employeeId: attendance.employeeId,
+        checkInTime: attendance.checkInTime,
+        checkOutTime: attendance.checkOutTime,
         employeeAdminId: employees.adminId,
       })
       .from(attendance)
@@ -453,6 +849,8 @@ export class DatabaseStorage implements IStorage {
       throw new Error('Unauthorized: Attendance record does not belong to your employees');
     }
 
+    await this.assertAttendanceUnlocked(attendanceRecord.employeeId, [attendanceRecord.checkInTime, attendanceRecord.checkOutTime]);
+
     // Delete the attendance record
     await db
       .delete(attendance)
@@ -474,6 +872,16 @@ export class DatabaseStorage implements IStorage {
     return currentAttendance || undefined;
   }
 
+  // Each photo proves one check-in or checkout only
+  async isAttendancePhotoUsed(photo: string): Promise<boolean> {
+    const [used] = await db
+      .select({ id: attendance.id })
+      .from(attendance)
+      .where(or(eq(attendance.checkInPhoto, photo), eq(attendance.checkOutPhoto, photo)))
+      .limit(1);
+    return !!used;
+  }
+
 
 
   async getAttendanceByAdmin(adminId: number, date?: Date): Promise<Attendance[]> {
@@ -494,6 +902,16 @@ export class DatabaseStorage implements IStorage {
           checkInLongitude: attendance.checkInLongitude,
           checkOutLatitude: attendance.checkOutLatitude,
           checkOutLongitude: attendance.checkOutLongitude,
+          checkInAccuracy: attendance.checkInAccuracy,
+          checkOutAccuracy: attendance.checkOutAccuracy,
+          checkInPhoto: attendance.checkInPhoto,
+          checkOutPhoto: attendance.checkOutPhoto,
+          shiftId: attendance.shiftId,
+          isManual: attendance.isManual,
+          correctedAt: attendance.correctedAt,
+          autoCheckoutReason: attendance.autoCheckoutReason,
+          riskScore: attendance.riskScore,
+          riskFlags: attendance.riskFlags,
         })
         .from(attendance)
         .innerJoin(employees, eq(attendance.employeeId, employees.id))
@@ -518,6 +936,16 @@ export class DatabaseStorage implements IStorage {
         checkInLongitude: attendance.checkInLongitude,
         checkOutLatitude: attendance.checkOutLatitude,
         checkOutLongitude: attendance.checkOutLongitude,
+        checkInAccuracy: attendance.checkInAccuracy,
+        checkOutAccuracy: attendance.checkOutAccuracy,
+        checkInPhoto: attendance.checkInPhoto,
+        checkOutPhoto: attendance.checkOutPhoto,
+        shiftId: attendance.shiftId,
+        isManual: attendance.isManual,
+        correctedAt: attendance.correctedAt,
+        autoCheckoutReason: attendance.autoCheckoutReason,
+        riskScore: attendance.riskScore,
+        riskFlags: attendance.riskFlags,
       })
       .from(attendance)
       .innerJoin(employees, eq(attendance.employeeId, employees.id))
@@ -538,6 +966,128 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(attendance.checkInTime));
   }
 
+  async getAttendanceByShiftIds(shiftIds: number[]): Promise<Attendance[]> {
+    if (shiftIds.length === 0) return [];
+    return db
+      .select()
+      .from(attendance)
+      .where(inArray(attendance.shiftId, shiftIds))
+      .orderBy(asc(attendance.checkInTime));
+  }
+
+  async getAttendanceInRange(employeeIds: number[], from: Date, to: Date): Promise<Attendance[]> {
+    if (employeeIds.length === 0) return [];
+    return db
+      .select()
+      .from(attendance)
+      .where(
+        and(
+          inArray(attendance.employeeId, employeeIds),
+          sql`${attendance.checkInTime} >= ${from}`,
+          sql`${attendance.checkInTime} < ${to}`
+        )
+      )
+      .orderBy(asc(attendance.checkInTime));
+  }
+
+  // Records overlapping [from, to) - open sessions count as running forever
+  async getOverlappingAttendance(employeeId: number, from: Date, to: Date | null, excludeIds: number[] = []): Promise<Attendance[]> {
+    const records = await db
+      .select()
+      .from(attendance)
+      .where(
+        and(
+          eq(attendance.employeeId, employeeId),
+          sql`(${attendance.checkOutTime} IS NULL OR ${attendance.checkOutTime} > ${from})`,
+          to ? sql`${attendance.checkInTime} < ${to}` : undefined
+        )
+      );
+    return records.filter(record => !excludeIds.includes(record.id));
+  }
+
+  async getOpenAttendanceForAdmins(adminIds: number[]): Promise<{ attendance: Attendance; adminId: number }[]> {
+    if (adminIds.length === 0) return [];
+    return db
+      .select({ attendance, adminId: employees.adminId })
+      .from(attendance)
+      .innerJoin(employees, eq(attendance.employeeId, employees.id))
+      .where(
+        and(
+          inArray(employees.adminId, adminIds),
+          sql`${attendance.checkOutTime} IS NULL`
+        )
+      );
+  }
+
+  // Attendance revision operations
+  async createAttendanceRevision(revision: InsertAttendanceRevision): Promise<AttendanceRevision> {
+    const [newRevision] = await db.insert(attendanceRevisions).values(revision).returning();
+    return newRevision;
+  }
+
+  async getAttendanceRevisions(attendanceId: number): Promise<AttendanceRevision[]> {
+    return db
+      .select()
+      .from(attendanceRevisions)
+      .where(eq(attendanceRevisions.attendanceId, attendanceId))
+      .orderBy(asc(attendanceRevisions.createdAt));
+  }
+
+  // Break operations
+  // Breaks change the worked time of their session, so they are locked with it
+  private async assertBreakUnlocked(attendanceId: number, time: Date): Promise<void> {
+    const [record] = await db.select().from(attendance).where(eq(attendance.id, attendanceId));
+    if (record) {
+      await this.assertAttendanceUnlocked(record.employeeId, [record.checkInTime, record.checkOutTime, time]);
+    }
+  }
+
+  async startBreak(attendanceId: number): Promise<AttendanceBreak> {
+    await this.assertBreakUnlocked(attendanceId, new Date());
+    const [newBreak] = await db
+      .insert(attendanceBreaks)
+      .values({ attendanceId, startTime: new Date() })
+      .returning();
+    return newBreak;
+  }
+
+  async endBreak(id: number): Promise<AttendanceBreak> {
+    const [existing] = await db.select().from(attendanceBreaks).where(eq(attendanceBreaks.id, id));
+    if (existing) {
+      await this.assertBreakUnlocked(existing.attendanceId, new Date());
+    }
+    const [endedBreak] = await db
+      .update(attendanceBreaks)
+      .set({ endTime: new Date() })
+      .where(eq(attendanceBreaks.id, id))
+      .returning();
+    return endedBreak;
+  }
+
+  async getOpenBreak(attendanceId: number): Promise<AttendanceBreak | undefined> {
+    const [openBreak] = await db
+      .select()
+      .from(attendanceBreaks)
+      .where(
+        and(
+          eq(attendanceBreaks.attendanceId, attendanceId),
+          sql`${attendanceBreaks.endTime} IS NULL`
+        )
+      )
+      .orderBy(desc(attendanceBreaks.startTime))
+      .limit(1);
+    return openBreak || undefined;
+  }
+
+  async getBreaksByAttendanceIds(attendanceIds: number[]): Promise<AttendanceBreak[]> {
+    if (attendanceIds.length === 0) return [];
+    return db
+      .select()
+      .from(attendanceBreaks)
+      .where(inArray(attendanceBreaks.attendanceId, attendanceIds))
+      .orderBy(asc(attendanceBreaks.startTime));
+  }
+
   async getRecentActivities(adminId: number, days: number = 7): Promise<any[]> {
     const fromDate = new Date();
     fromDate.setDate(fromDate.getDate() - days);
@@ -617,6 +1167,735 @@ export class DatabaseStorage implements IStorage {
     return processedActivities.slice(0, 15); // Return top 15 activities
   }
 
+  // Shift operations
+  async getShift(id: number): Promise<Shift | undefined> {
+    const [shift] = await db.select().from(shifts).where(eq(shifts.id, id));
+    return shift || undefined;
+  }
+
+  // Shifts overlapping the [from, to) window
+  async getShiftsByAdmin(adminId: number, from: Date, to: Date, filters: { employeeId?: number; siteId?: number } = {}): Promise<Shift[]> {
+    const conditions = [
+      eq(shifts.adminId, adminId),
+      sql`${shifts.startTime} < ${to}`,
+      sql`${shifts.endTime} > ${from}`,
+    ];
+    if (filters.employeeId) conditions.push(eq(shifts.employeeId, filters.employeeId));
+    if (filters.siteId) conditions.push(eq(shifts.siteId, filters.siteId));
+
+    return db
+      .select()
+      .from(shifts)
+      .where(and(...conditions))
+      .orderBy(asc(shifts.startTime));
+  }
+
+  async getEmployeeShifts(employeeId: number, from: Date, to: Date): Promise<Shift[]> {
+    return db
+      .select()
+      .from(shifts)
+      .where(
+        and(
+          eq(shifts.employeeId, employeeId),
+          sql`${shifts.startTime} < ${to}`,
+          sql`${shifts.endTime} > ${from}`
+        )
+      )
+      .orderBy(asc(shifts.startTime));
+  }
+
+  // Shifts across all admins overlapping [from, to) - used by the background alert evaluator
+  async getShiftsInRange(from: Date, to: Date): Promise<Shift[]> {
+    return db
+      .select()
+      .from(shifts)
+      .where(
+        and(
+          sql`${shifts.startTime} < ${to}`,
+          sql`${shifts.endTime} > ${from}`
+        )
+      )
+      .orderBy(asc(shifts.startTime));
+  }
+
+  async createShift(shift: InsertShift): Promise<Shift> {
+    const [newShift] = await db.insert(shifts).values(shift).returning();
+    return newShift;
+  }
+
+  // The shift row for a pattern occurrence, created unless another caller already did
+  async materializeShift(shift: InsertShift & { patternId: number; occurrenceDate: string }): Promise<Shift> {
+    const [newShift] = await db
+      .insert(shifts)
+      .values(shift)
+      .onConflictDoNothing({ target: [shifts.patternId, shifts.occurrenceDate] })
+      .returning();
+    if (newShift) return newShift;
+
+    const [existing] = await db
+      .select()
+      .from(shifts)
+      .where(and(eq(shifts.patternId, shift.patternId), eq(shifts.occurrenceDate, shift.occurrenceDate)));
+    return existing;
+  }
+
+  async updateShift(id: number, shift: Partial<InsertShift>): Promise<Shift> {
+    const [updatedShift] = await db
+      .update(shifts)
+      .set(shift)
+      .where(eq(shifts.id, id))
+      .returning();
+    return updatedShift;
+  }
+
+  async deleteShift(id: number): Promise<void> {
+    // Keep attendance history, just unlink it from the shift
+    await db.update(attendance).set({ shiftId: null }).where(eq(attendance.shiftId, id));
+    // Alerts only make sense against their shift, and reference it
+    await db.delete(shiftAlerts).where(eq(shiftAlerts.shiftId, id));
+    await db.delete(shifts).where(eq(shifts.id, id));
+  }
+
+  // Shift pattern operations
+  async getShiftPattern(id: number): Promise<ShiftPattern | undefined> {
+    const [pattern] = await db.select().from(shiftPatterns).where(eq(shiftPatterns.id, id));
+    return pattern || undefined;
+  }
+
+  async getShiftPatternsByAdmin(adminId: number, filters: { employeeId?: number; siteId?: number } = {}): Promise<ShiftPattern[]> {
+    const conditions = [eq(shiftPatterns.adminId, adminId)];
+    if (filters.employeeId) conditions.push(eq(shiftPatterns.employeeId, filters.employeeId));
+    if (filters.siteId) conditions.push(eq(shiftPatterns.siteId, filters.siteId));
+
+    return db
+      .select()
+      .from(shiftPatterns)
+      .where(and(...conditions))
+      .orderBy(asc(shiftPatterns.createdAt));
+  }
+
+  async getActiveShiftPatternsForEmployee(employeeId: number): Promise<ShiftPattern[]> {
+    return db
+      .select()
+      .from(shiftPatterns)
+      .where(and(eq(shiftPatterns.employeeId, employeeId), eq(shiftPatterns.isActive, true)));
+  }
+
+  async getActiveShiftPatterns(): Promise<ShiftPattern[]> {
+    return db
+      .select()
+      .from(shiftPatterns)
+      .where(eq(shiftPatterns.isActive, true));
+  }
+
+  async createShiftPattern(pattern: InsertShiftPattern): Promise<ShiftPattern> {
+    const [newPattern] = await db.insert(shiftPatterns).values(pattern).returning();
+    return newPattern;
+  }
+
+  async updateShiftPattern(id: number, pattern: Partial<InsertShiftPattern>): Promise<ShiftPattern> {
+    const [updatedPattern] = await db
+      .update(shiftPatterns)
+      .set(pattern)
+      .where(eq(shiftPatterns.id, id))
+      .returning();
+    return updatedPattern;
+  }
+
+  async deleteShiftPattern(id: number): Promise<void> {
+    // Shifts already materialized from this pattern stay as one-off shifts
+    await db.update(shifts).set({ patternId: null }).where(eq(shifts.patternId, id));
+    await db.delete(shiftPatterns).where(eq(shiftPatterns.id, id));
+  }
+
+  // Shift alert operations
+  // Returns undefined when an alert of this type already exists for the shift
+  async createShiftAlert(alert: InsertShiftAlert): Promise<ShiftAlert | undefined> {
+    const [newAlert] = await db
+      .insert(shiftAlerts)
+      .values(alert)
+      .onConflictDoNothing({ target: [shiftAlerts.shiftId, shiftAlerts.type] })
+      .returning();
+    return newAlert || undefined;
+  }
+
+  async getShiftAlertsForShifts(shiftIds: number[]): Promise<ShiftAlert[]> {
+    if (shiftIds.length === 0) return [];
+    return db
+      .select()
+      .from(shiftAlerts)
+      .where(inArray(shiftAlerts.shiftId, shiftIds));
+  }
+
+  async getUnresolvedShiftAlerts(adminId: number): Promise<ShiftAlert[]> {
+    return db
+      .select()
+      .from(shiftAlerts)
+      .where(and(eq(shiftAlerts.adminId, adminId), eq(shiftAlerts.isResolved, false)))
+      .orderBy(desc(shiftAlerts.createdAt));
+  }
+
+  async resolveShiftAlert(id: number, adminId: number): Promise<ShiftAlert | undefined> {
+    const [resolvedAlert] = await db
+      .update(shiftAlerts)
+      .set({ isResolved: true, resolvedAt: new Date() })
+      .where(and(eq(shiftAlerts.id, id), eq(shiftAlerts.adminId, adminId)))
+      .returning();
+    return resolvedAlert || undefined;
+  }
+
+  async resolveShiftAlertsByType(shiftId: number, type: ShiftAlertType): Promise<void> {
+    await db
+      .update(shiftAlerts)
+      .set({ isResolved: true, resolvedAt: new Date() })
+      .where(
+        and(
+          eq(shiftAlerts.shiftId, shiftId),
+          eq(shiftAlerts.type, type),
+          eq(shiftAlerts.isResolved, false)
+        )
+      );
+  }
+
+  // Auto checkout policy operations
+  async getAutoCheckoutPolicy(adminId: number): Promise<AutoCheckoutPolicy | undefined> {
+    const [policy] = await db.select().from(autoCheckoutPolicies).where(eq(autoCheckoutPolicies.adminId, adminId));
+    return policy || undefined;
+  }
+
+  async getEnabledAutoCheckoutPolicies(): Promise<AutoCheckoutPolicy[]> {
+    return db.select().from(autoCheckoutPolicies).where(eq(autoCheckoutPolicies.isEnabled, true));
+  }
+
+  async upsertAutoCheckoutPolicy(policy: InsertAutoCheckoutPolicy): Promise<AutoCheckoutPolicy> {
+    const { adminId, ...changes } = policy;
+    const [saved] = await db
+      .insert(autoCheckoutPolicies)
+      .values(policy)
+      .onConflictDoUpdate({
+        target: autoCheckoutPolicies.adminId,
+        set: { ...changes, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Overtime policy operations
+  async getOvertimePolicy(adminId: number): Promise<OvertimePolicy | undefined> {
+    const [policy] = await db.select().from(overtimePolicies).where(eq(overtimePolicies.adminId, adminId));
+    return policy || undefined;
+  }
+
+  async upsertOvertimePolicy(policy: InsertOvertimePolicy): Promise<OvertimePolicy> {
+    const { adminId, ...changes } = policy;
+    const [saved] = await db
+      .insert(overtimePolicies)
+      .values(policy)
+      .onConflictDoUpdate({
+        target: overtimePolicies.adminId,
+        set: { ...changes, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Payroll template operations
+  async getPayrollTemplatesByAdmin(adminId: number): Promise<PayrollTemplate[]> {
+    return db
+      .select()
+      .from(payrollTemplates)
+      .where(eq(payrollTemplates.adminId, adminId))
+      .orderBy(payrollTemplates.name);
+  }
+
+  async getPayrollTemplate(id: number): Promise<PayrollTemplate | undefined> {
+    const [template] = await db.select().from(payrollTemplates).where(eq(payrollTemplates.id, id));
+    return template || undefined;
+  }
+
+  async createPayrollTemplate(template: InsertPayrollTemplate): Promise<PayrollTemplate> {
+    const [newTemplate] = await db
+      .insert(payrollTemplates)
+      .values(template)
+      .returning();
+    return newTemplate;
+  }
+
+  async updatePayrollTemplate(id: number, template: Partial<InsertPayrollTemplate>): Promise<PayrollTemplate> {
+    const [updatedTemplate] = await db
+      .update(payrollTemplates)
+      .set({ ...template, updatedAt: new Date() })
+      .where(eq(payrollTemplates.id, id))
+      .returning();
+    return updatedTemplate;
+  }
+
+  async deletePayrollTemplate(id: number): Promise<void> {
+    await db.delete(payrollTemplates).where(eq(payrollTemplates.id, id));
+  }
+
+  // Report schedule operations
+  async getReportSchedulesByAdmin(adminId: number): Promise<ReportSchedule[]> {
+    return db
+      .select()
+      .from(reportSchedules)
+      .where(eq(reportSchedules.adminId, adminId))
+      .orderBy(reportSchedules.name);
+  }
+
+  async getReportSchedule(id: number): Promise<ReportSchedule | undefined> {
+    const [schedule] = await db.select().from(reportSchedules).where(eq(reportSchedules.id, id));
+    return schedule || undefined;
+  }
+
+  async getDueReportSchedules(now: Date): Promise<ReportSchedule[]> {
+    return db
+      .select()
+      .from(reportSchedules)
+      .where(
+        and(
+          eq(reportSchedules.isEnabled, true),
+          sql`${reportSchedules.nextRunAt} <= ${now}`
+        )
+      )
+      .orderBy(asc(reportSchedules.nextRunAt));
+  }
+
+  async createReportSchedule(schedule: InsertReportSchedule & { nextRunAt: Date | null }): Promise<ReportSchedule> {
+    const [newSchedule] = await db
+      .insert(reportSchedules)
+      .values(schedule)
+      .returning();
+    return newSchedule;
+  }
+
+  async updateReportSchedule(
+    id: number,
+    schedule: Partial<InsertReportSchedule & { nextRunAt: Date | null; lastRunAt: Date }>
+  ): Promise<ReportSchedule> {
+    const [updatedSchedule] = await db
+      .update(reportSchedules)
+      .set({ ...schedule, updatedAt: new Date() })
+      .where(eq(reportSchedules.id, id))
+      .returning();
+    return updatedSchedule;
+  }
+
+  async deleteReportSchedule(id: number): Promise<void> {
+    await db.delete(reportRuns).where(eq(reportRuns.scheduleId, id));
+    await db.delete(reportSchedules).where(eq(reportSchedules.id, id));
+  }
+
+  async createReportRun(run: InsertReportRun): Promise<ReportRun> {
+    const [newRun] = await db
+      .insert(reportRuns)
+      .values(run)
+      .returning();
+    return newRun;
+  }
+
+  async getReportRuns(scheduleId: number, limit: number = 50): Promise<ReportRun[]> {
+    return db
+      .select()
+      .from(reportRuns)
+      .where(eq(reportRuns.scheduleId, scheduleId))
+      .orderBy(desc(reportRuns.startedAt))
+      .limit(limit);
+  }
+
+  // Notification operations
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const [created] = await db.insert(notifications).values(notification).returning();
+    return created;
+  }
+
+  async getNotification(id: number): Promise<Notification | undefined> {
+    const [notification] = await db.select().from(notifications).where(eq(notifications.id, id));
+    return notification || undefined;
+  }
+
+  // Newest first, dismissed notifications left out. `before` is the id of the last
+  // notification of the previous page.
+  async getNotifications(adminId: number, filters: NotificationFilters = {}): Promise<Notification[]> {
+    const conditions = [eq(notifications.adminId, adminId), sql`${notifications.dismissedAt} IS NULL`];
+    if (filters.status === 'unread') conditions.push(sql`${notifications.readAt} IS NULL`);
+    if (filters.status === 'read') conditions.push(sql`${notifications.readAt} IS NOT NULL`);
+    if (filters.type) conditions.push(eq(notifications.type, filters.type));
+    if (filters.before) conditions.push(sql`${notifications.id} < ${filters.before}`);
+    if (filters.after) conditions.push(sql`${notifications.id} > ${filters.after}`);
+    if (filters.since) conditions.push(sql`${notifications.createdAt} >= ${filters.since}`);
+
+    return db
+      .select()
+      .from(notifications)
+      .where(and(...conditions))
+      .orderBy(desc(notifications.id))
+      .limit(filters.limit ?? 20);
+  }
+
+  async countUnreadNotifications(adminId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(
+        and(
+          eq(notifications.adminId, adminId),
+          sql`${notifications.readAt} IS NULL`,
+          sql`${notifications.dismissedAt} IS NULL`
+        )
+      );
+    return result.count;
+  }
+
+  async updateNotification(id: number, changes: { readAt?: Date | null; dismissedAt?: Date | null }): Promise<Notification> {
+    const [notification] = await db
+      .update(notifications)
+      .set(changes)
+      .where(eq(notifications.id, id))
+      .returning();
+    return notification;
+  }
+
+  async markAllNotificationsRead(adminId: number): Promise<void> {
+    await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.adminId, adminId), sql`${notifications.readAt} IS NULL`));
+  }
+
+  async dismissAllNotifications(adminId: number): Promise<void> {
+    await db
+      .update(notifications)
+      .set({ dismissedAt: new Date() })
+      .where(and(eq(notifications.adminId, adminId), sql`${notifications.dismissedAt} IS NULL`));
+  }
+
+  async getNotificationPreferences(adminId: number): Promise<NotificationPreferences | undefined> {
+    const [preferences] = await db
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.adminId, adminId));
+    return preferences || undefined;
+  }
+
+  async upsertNotificationPreferences(preferences: InsertNotificationPreferences & { nextDigestAt: Date | null }): Promise<NotificationPreferences> {
+    const { adminId, ...changes } = preferences;
+    const [saved] = await db
+      .insert(notificationPreferences)
+      .values(preferences)
+      .onConflictDoUpdate({
+        target: notificationPreferences.adminId,
+        set: { ...changes, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getDueNotificationDigests(now: Date): Promise<NotificationPreferences[]> {
+    return db
+      .select()
+      .from(notificationPreferences)
+      .where(
+        and(
+          eq(notificationPreferences.digestEnabled, true),
+          sql`${notificationPreferences.nextDigestAt} <= ${now}`
+        )
+      );
+  }
+
+  async updateNotificationDigest(adminId: number, digest: { nextDigestAt: Date | null; lastDigestAt: Date }): Promise<void> {
+    await db
+      .update(notificationPreferences)
+      .set(digest)
+      .where(eq(notificationPreferences.adminId, adminId));
+  }
+
+  async getLatestNotificationId(adminId: number): Promise<number> {
+    const [result] = await db
+      .select({ id: sql<number | null>`max(${notifications.id})` })
+      .from(notifications)
+      .where(eq(notifications.adminId, adminId));
+    return result?.id ?? 0;
+  }
+
+  async getNotificationReceipt(adminId: number, clientId: string): Promise<NotificationReceipt | undefined> {
+    const [receipt] = await db
+      .select()
+      .from(notificationReceipts)
+      .where(and(eq(notificationReceipts.adminId, adminId), eq(notificationReceipts.clientId, clientId)));
+    return receipt || undefined;
+  }
+
+  // Acknowledgements can arrive out of order; the receipt only ever moves forward
+  async acknowledgeNotifications(adminId: number, clientId: string, notificationId: number): Promise<void> {
+    await db
+      .insert(notificationReceipts)
+      .values({ adminId, clientId, lastNotificationId: notificationId })
+      .onConflictDoUpdate({
+        target: [notificationReceipts.adminId, notificationReceipts.clientId],
+        set: {
+          lastNotificationId: sql`greatest(${notificationReceipts.lastNotificationId}, ${notificationId})`,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  // Timesheet operations
+  async getTimesheet(employeeId: number, weekStart: string): Promise<Timesheet | undefined> {
+    const [timesheet] = await db
+      .select()
+      .from(timesheets)
+      .where(and(eq(timesheets.employeeId, employeeId), eq(timesheets.weekStart, weekStart)));
+    return timesheet || undefined;
+  }
+
+  async getTimesheetsForWeek(adminId: number, weekStart: string): Promise<Timesheet[]> {
+    return db
+      .select()
+      .from(timesheets)
+      .where(and(eq(timesheets.adminId, adminId), eq(timesheets.weekStart, weekStart)));
+  }
+
+  async getEmployeeTimesheets(employeeId: number, limit: number = 12): Promise<Timesheet[]> {
+    return db
+      .select()
+      .from(timesheets)
+      .where(eq(timesheets.employeeId, employeeId))
+      .orderBy(desc(timesheets.weekStart))
+      .limit(limit);
+  }
+
+  // One timesheet per employee and week - later state changes overwrite the row
+  async upsertTimesheet(timesheet: InsertTimesheet): Promise<Timesheet> {
+    const { employeeId, weekStart, createdAt, ...changes } = timesheet;
+    const [saved] = await db
+      .insert(timesheets)
+      .values(timesheet)
+      .onConflictDoUpdate({
+        target: [timesheets.employeeId, timesheets.weekStart],
+        set: changes,
+      })
+      .returning();
+    return saved;
+  }
+
+  // Leave operations
+  async getLeaveTypesByAdmin(adminId: number): Promise<LeaveType[]> {
+    return db
+      .select()
+      .from(leaveTypes)
+      .where(and(eq(leaveTypes.adminId, adminId), eq(leaveTypes.isActive, true)))
+      .orderBy(leaveTypes.name);
+  }
+
+  async getLeaveType(id: number): Promise<LeaveType | undefined> {
+    const [leaveType] = await db.select().from(leaveTypes).where(eq(leaveTypes.id, id));
+    return leaveType || undefined;
+  }
+
+  async createLeaveType(leaveType: InsertLeaveType): Promise<LeaveType> {
+    const [newLeaveType] = await db
+      .insert(leaveTypes)
+      .values(leaveType)
+      .returning();
+    return newLeaveType;
+  }
+
+  async updateLeaveType(id: number, leaveType: Partial<InsertLeaveType>): Promise<LeaveType> {
+    const [updatedLeaveType] = await db
+      .update(leaveTypes)
+      .set(leaveType)
+      .where(eq(leaveTypes.id, id))
+      .returning();
+    return updatedLeaveType;
+  }
+
+  // Leave types are referenced by past requests, so they are hidden rather than deleted
+  async deactivateLeaveType(id: number): Promise<void> {
+    await db.update(leaveTypes).set({ isActive: false }).where(eq(leaveTypes.id, id));
+  }
+
+  async getLeaveBalances(employeeId: number, years: number[]): Promise<LeaveBalance[]> {
+    if (years.length === 0) return [];
+    return db
+      .select()
+      .from(leaveBalances)
+      .where(and(eq(leaveBalances.employeeId, employeeId), inArray(leaveBalances.year, years)));
+  }
+
+  async upsertLeaveBalance(balance: InsertLeaveBalance): Promise<LeaveBalance> {
+    const { employeeId, leaveTypeId, year, ...changes } = balance;
+    const [saved] = await db
+      .insert(leaveBalances)
+      .values(balance)
+      .onConflictDoUpdate({
+        target: [leaveBalances.employeeId, leaveBalances.leaveTypeId, leaveBalances.year],
+        set: { ...changes, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getLeaveRequest(id: number): Promise<LeaveRequest | undefined> {
+    const [request] = await db.select().from(leaveRequests).where(eq(leaveRequests.id, id));
+    return request || undefined;
+  }
+
+  async getLeaveRequestsByAdmin(adminId: number, filters: { status?: LeaveRequestStatus; employeeId?: number } = {}): Promise<LeaveRequest[]> {
+    const conditions = [eq(leaveRequests.adminId, adminId)];
+    if (filters.status) conditions.push(eq(leaveRequests.status, filters.status));
+    if (filters.employeeId) conditions.push(eq(leaveRequests.employeeId, filters.employeeId));
+
+    return db
+      .select()
+      .from(leaveRequests)
+      .where(and(...conditions))
+      .orderBy(desc(leaveRequests.startDate));
+  }
+
+  async getEmployeeLeaveRequests(employeeId: number): Promise<LeaveRequest[]> {
+    return db
+      .select()
+      .from(leaveRequests)
+      .where(eq(leaveRequests.employeeId, employeeId))
+      .orderBy(desc(leaveRequests.startDate));
+  }
+
+  // Pending or approved requests sharing at least one day with [startDate, endDate]
+  async getOverlappingLeaveRequests(employeeId: number, startDate: string, endDate: string): Promise<LeaveRequest[]> {
+    return db
+      .select()
+      .from(leaveRequests)
+      .where(
+        and(
+          eq(leaveRequests.employeeId, employeeId),
+          inArray(leaveRequests.status, ['pending', 'approved']),
+          sql`${leaveRequests.startDate} <= ${endDate}`,
+          sql`${leaveRequests.endDate} >= ${startDate}`
+        )
+      );
+  }
+
+  // Approved leave touching [startDate, endDate], optionally limited to some employees
+  async getApprovedLeaveInRange(startDate: string, endDate: string, employeeIds?: number[]): Promise<LeaveRequest[]> {
+    if (employeeIds && employeeIds.length === 0) return [];
+
+    const conditions = [
+      eq(leaveRequests.status, 'approved'),
+      sql`${leaveRequests.startDate} <= ${endDate}`,
+      sql`${leaveRequests.endDate} >= ${startDate}`,
+    ];
+    if (employeeIds) conditions.push(inArray(leaveRequests.employeeId, employeeIds));
+
+    return db.select().from(leaveRequests).where(and(...conditions));
+  }
+
+  async createLeaveRequest(request: InsertLeaveRequest): Promise<LeaveRequest> {
+    const [newRequest] = await db
+      .insert(leaveRequests)
+      .values(request)
+      .returning();
+    return newRequest;
+  }
+
+  async updateLeaveRequest(id: number, data: Partial<InsertLeaveRequest>): Promise<LeaveRequest> {
+    const [updatedRequest] = await db
+      .update(leaveRequests)
+      .set(data)
+      .where(eq(leaveRequests.id, id))
+      .returning();
+    return updatedRequest;
+  }
+
+  // Holiday calendar operations
+  async getHolidayCalendarsByAdmin(adminId: number): Promise<HolidayCalendar[]> {
+    return db
+      .select()
+      .from(holidayCalendars)
+      .where(eq(holidayCalendars.adminId, adminId))
+      .orderBy(holidayCalendars.name);
+  }
+
+  async getHolidayCalendar(id: number): Promise<HolidayCalendar | undefined> {
+    const [calendar] = await db.select().from(holidayCalendars).where(eq(holidayCalendars.id, id));
+    return calendar || undefined;
+  }
+
+  async createHolidayCalendar(calendar: InsertHolidayCalendar): Promise<HolidayCalendar> {
+    const [newCalendar] = await db
+      .insert(holidayCalendars)
+      .values(calendar)
+      .returning();
+    return newCalendar;
+  }
+
+  async updateHolidayCalendar(id: number, calendar: Partial<InsertHolidayCalendar>): Promise<HolidayCalendar> {
+    const [updatedCalendar] = await db
+      .update(holidayCalendars)
+      .set(calendar)
+      .where(eq(holidayCalendars.id, id))
+      .returning();
+    return updatedCalendar;
+  }
+
+  async deleteHolidayCalendar(id: number): Promise<void> {
+    await db.delete(holidays).where(eq(holidays.calendarId, id));
+    await db.delete(holidayCalendars).where(eq(holidayCalendars.id, id));
+  }
+
+  async getHolidays(calendarId: number): Promise<Holiday[]> {
+    return db
+      .select()
+      .from(holidays)
+      .where(eq(holidays.calendarId, calendarId))
+      .orderBy(asc(holidays.date));
+  }
+
+  async getHoliday(id: number): Promise<Holiday | undefined> {
+    const [holiday] = await db.select().from(holidays).where(eq(holidays.id, id));
+    return holiday || undefined;
+  }
+
+  // Adding a day that is already in the calendar renames it
+  async upsertHolidays(calendarId: number, entries: ParsedHoliday[]): Promise<Holiday[]> {
+    if (entries.length === 0) return [];
+    return db
+      .insert(holidays)
+      .values(entries.map(entry => ({ calendarId, date: entry.date, name: entry.name })))
+      .onConflictDoUpdate({
+        target: [holidays.calendarId, holidays.date],
+        set: { name: sql`excluded.name` },
+      })
+      .returning();
+  }
+
+  async deleteHoliday(id: number): Promise<void> {
+    await db.delete(holidays).where(eq(holidays.id, id));
+  }
+
+  // Holidays in [startDate, endDate] with the admin and area of their calendar,
+  // optionally limited to some admins
+  async getHolidaysInRange(startDate: string, endDate: string, adminIds?: number[]): Promise<ScopedHoliday[]> {
+    if (adminIds && adminIds.length === 0) return [];
+
+    const conditions = [
+      sql`${holidays.date} >= ${startDate}`,
+      sql`${holidays.date} <= ${endDate}`,
+    ];
+    if (adminIds) conditions.push(inArray(holidayCalendars.adminId, adminIds));
+
+    return db
+      .select({
+        date: holidays.date,
+        name: holidays.name,
+        adminId: holidayCalendars.adminId,
+        areaId: holidayCalendars.areaId,
+      })
+      .from(holidays)
+      .innerJoin(holidayCalendars, eq(holidays.calendarId, holidayCalendars.id))
+      .where(and(...conditions));
+  }
+
   async getDashboardStats(adminId: number): Promise<{
     activeEmployees: number;
     workSites: number;
@@ -661,31 +1940,6 @@ export class DatabaseStorage implements IStorage {
   async getAlerts(adminId: number): Promise<any[]> {
     const alerts: any[] = [];
     
-    // Helper function to calculate distance
-    const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-      const R = 6371000; // Earth radius in meters
-      const phi1 = lat1 * Math.PI / 180;
-      const phi2 = lat2 * Math.PI / 180;
-      const deltaPhi = (lat2 - lat1) * Math.PI / 180;
-      const deltaLambda = (lon2 - lon1) * Math.PI / 180;
-      
-      const a = Math.sin(deltaPhi / 2) * Math.sin(deltaPhi / 2) +
-                Math.cos(phi1) * Math.cos(phi2) *
-                Math.sin(deltaLambda / 2) * Math.sin(deltaLambda / 2);
-      const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-      
-      return R * c; // Distance in meters
-    };
-    
-    // GPS accuracy buffer to account for mobile GPS inaccuracies
-    // FIX: Increased to 50m to match server-side buffer for consistency
-    const GPS_ACCURACY_BUFFER = 50; // meters - increased from 15m for better reliability
-    
-    // Helper function to check if within geofence with GPS buffer
-    const isWithinGeofenceWithBuffer = (distance: number, geofenceRadius: number): boolean => {
-      return distance <= (geofenceRadius + GPS_ACCURACY_BUFFER);
-    };
-    
     // Get all employees for this admin
     const employees = await this.getEmployeesByAdmin(adminId);
     
@@ -703,26 +1957,50 @@ export class DatabaseStorage implements IStorage {
       
       const site = await this.getWorkSite(employee.siteId);
       if (!site) continue;
+
+      // Sessions whose GPS fixes look like they come from a mock-location app
+      if (currentAttendance.riskScore >= LOCATION_RISK_ALERT_THRESHOLD) {
+        alerts.push({
+          id: `location-anomaly-${currentAttendance.id}`,
+          type: 'location_anomaly',
+          title: 'Possible Location Spoofing',
+          message: `${employee.firstName} ${employee.lastName}'s location at ${site.name} looks spoofed (risk ${currentAttendance.riskScore}/100)`,
+          employee: {
+            id: employee.id,
+            name: `${employee.firstName} ${employee.lastName}`,
+            email: employee.email
+          },
+          site: {
+            id: site.id,
+            name: site.name,
+            address: site.address
+          },
+          timestamp: currentAttendance.checkInTime,
+          riskScore: currentAttendance.riskScore,
+          riskFlags: currentAttendance.riskFlags
+        });
+      }
       
       // Skip geofence alerts for remote work sites - they can work from anywhere
       if (site.isRemote) continue;
       
-      // Check if employee is out of range
-      const distance = calculateDistance(
+      // Check if employee is out of range using GPS accuracy buffer
+      // Polygon sites report distance outside the boundary, circle sites distance from the centre
+      const { isWithin, distance } = checkSiteGeofence(
         parseFloat(latestLocation.latitude),
         parseFloat(latestLocation.longitude),
-        parseFloat(site.latitude),
-        parseFloat(site.longitude)
+        site,
+        gpsAccuracyBuffer(latestLocation.accuracy, site)
       );
       
-      // Check if employee is out of range using GPS accuracy buffer
-      const effectiveRadius = site.geofenceRadius + GPS_ACCURACY_BUFFER;
-      if (distance > effectiveRadius) {
+      if (!isWithin) {
         alerts.push({
           id: `out-of-range-${employee.id}`,
           type: 'out_of_range',
           title: 'Employee Out of Range',
-          message: `${employee.firstName} ${employee.lastName} is ${Math.round(distance)}m away from ${site.name} (radius: ${site.geofenceRadius}m)`,
+          message: hasGeofencePolygon(site.geofencePolygon)
+            ? `${employee.firstName} ${employee.lastName} is ${Math.round(distance)}m outside the boundary of ${site.name}`
+            : `${employee.firstName} ${employee.lastName} is ${Math.round(distance)}m away from ${site.name} (radius: ${site.geofenceRadius}m)`,
           employee: {
             id: employee.id,
             name: `${employee.firstName} ${employee.lastName}`,
@@ -771,6 +2049,44 @@ export class DatabaseStorage implements IStorage {
       }
     }
     
+    // Persisted shift alerts (late arrival, early departure, no-show) from the background evaluator
+    const shiftAlertRows = await this.getUnresolvedShiftAlerts(adminId);
+    if (shiftAlertRows.length > 0) {
+      const sites = await this.getWorkSitesByAdmin(adminId);
+      const shiftAlertTitles: Record<ShiftAlertType, string> = {
+        late_arrival: 'Late Arrival',
+        early_departure: 'Early Departure',
+        no_show: 'Employee Not Checked In',
+      };
+
+      for (const shiftAlert of shiftAlertRows) {
+        const employee = employees.find(e => e.id === shiftAlert.employeeId);
+        const site = sites.find(s => s.id === shiftAlert.siteId);
+        if (!employee || !site) continue;
+
+        alerts.push({
+          id: `shift-alert-${shiftAlert.id}`,
+          alertId: shiftAlert.id,
+          type: shiftAlert.type,
+          title: shiftAlertTitles[shiftAlert.type],
+          message: shiftAlert.message,
+          employee: {
+            id: employee.id,
+            name: `${employee.firstName} ${employee.lastName}`,
+            email: employee.email
+          },
+          site: {
+            id: site.id,
+            name: site.name,
+            address: site.address
+          },
+          timestamp: shiftAlert.createdAt,
+          shiftId: shiftAlert.shiftId,
+          minutes: shiftAlert.minutes
+        });
+      }
+    }
+
     // Sort by timestamp (newest first)
     alerts.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
     
@@ -0,0 +1,109 @@
+import type { Attendance, Timesheet, TimesheetStatus } from "@shared/schema";
+import { calculateBreakMs, calculateWorkedMs, type BreakPeriod } from "@shared/worktime";
+
+// Thrown when attendance inside an approved timesheet week would be created, changed or deleted
+export class TimesheetLockedError extends Error {
+  constructor(public weekStart: string) {
+    super(`Timesheet for the week of ${weekStart} is approved and locked`);
+    this.name = "TimesheetLockedError";
+    Object.setPrototypeOf(this, TimesheetLockedError.prototype);
+  }
+}
+
+// Which states an employee may submit from, and which an admin may review
+export const SUBMITTABLE_STATUSES: TimesheetStatus[] = ['draft', 'rejected'];
+export const REVIEWABLE_STATUSES: TimesheetStatus[] = ['draft', 'submitted', 'rejected'];
+
+function formatWeekKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Sunday 00:00 local time of the week containing `date`
+export function getWeekStart(date: Date): Date {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  result.setDate(result.getDate() - result.getDay());
+  return result;
+}
+
+// "YYYY-MM-DD" of the Sunday starting the week that contains `date`
+export function getWeekKey(date: Date | string): string {
+  return formatWeekKey(getWeekStart(new Date(date)));
+}
+
+// [from, to) for a week key. Built from calendar fields so DST weeks stay correct.
+export function getWeekRange(weekStart: string): { from: Date; to: Date } {
+  const [year, month, day] = weekStart.split('-').map(Number);
+  const from = new Date(year, month - 1, day);
+  const to = new Date(year, month - 1, day + 7);
+  return { from, to };
+}
+
+// Normalize a user supplied week start (any day of the week) to its Sunday key
+export function normalizeWeekKey(weekStart: string): string {
+  return getWeekKey(getWeekRange(weekStart).from);
+}
+
+export interface TimesheetSummary {
+  employeeId: number;
+  weekStart: string;
+  status: TimesheetStatus;
+  workedMinutes: number;
+  breakMinutes: number;
+  sessions: number;
+  openSessions: number;
+  dailyMinutes: number[]; // Sunday..Saturday, by check-in day
+  timesheet: Timesheet | null;
+}
+
+// Build the week summary for one employee from the attendance rows that checked in
+// during the week (sessions belong to the week they started in). Approved
+// timesheets report the totals snapshotted at approval rather than live values.
+export function summarizeTimesheet(
+  employeeId: number,
+  weekStart: string,
+  records: (Attendance & { breaks?: BreakPeriod[] })[],
+  timesheet: Timesheet | undefined,
+  now: Date = new Date()
+): TimesheetSummary {
+  const dailyMinutes = [0, 0, 0, 0, 0, 0, 0];
+  let workedMs = 0;
+  let breakMs = 0;
+  let openSessions = 0;
+
+  records.forEach(record => {
+    if (!record.checkInTime) return;
+    const end = record.checkOutTime ?? now;
+    const recordWorkedMs = calculateWorkedMs(record.checkInTime, record.checkOutTime, record.breaks, now);
+    workedMs += recordWorkedMs;
+    breakMs += calculateBreakMs(record.breaks, end);
+    if (!record.checkOutTime) openSessions++;
+
+    dailyMinutes[new Date(record.checkInTime).getDay()] += Math.round(recordWorkedMs / 60000);
+  });
+
+  const approved = timesheet?.status === 'approved';
+
+  return {
+    employeeId,
+    weekStart,
+    status: timesheet?.status ?? 'draft',
+    workedMinutes: approved && timesheet?.workedMinutes != null ? timesheet.workedMinutes : Math.round(workedMs / 60000),
+    breakMinutes: approved && timesheet?.breakMinutes != null ? timesheet.breakMinutes : Math.round(breakMs / 60000),
+    sessions: records.length,
+    openSessions,
+    dailyMinutes,
+    timesheet: timesheet ?? null,
+  };
+}
+
+// Weeks touched by a set of timestamps - used for lock checks
+export function getWeekKeysFor(times: (Date | string | null | undefined)[]): string[] {
+  const keys = new Set<string>();
+  times.forEach(time => {
+    if (time) keys.add(getWeekKey(time));
+  });
+  return Array.from(keys);
+}
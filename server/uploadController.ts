@@ -342,3 +342,106 @@ export const uploadSiteImage = async (req: Request, res: Response) => {
   }
 };
 
+// Private bucket - photos are only served through short-lived signed URLs
+const ATTENDANCE_PHOTO_BUCKET = "attendance-photos";
+// A check-in photo has to be taken for that check-in, not reused from earlier
+const ATTENDANCE_PHOTO_MAX_AGE_MS = 15 * 60 * 1000;
+const ATTENDANCE_PHOTO_URL_TTL_SECONDS = 60 * 60;
+
+/**
+ * Photos are stored as their object name, attendance_<employeeId>_<uploadedAt>.<ext>.
+ * Returns the employee the photo belongs to, or null when it is not such a name.
+ */
+export function getAttendancePhotoEmployeeId(photo: string): number | null {
+  const match = photo.match(/^attendance_(\d+)_\d+\.[a-z]+$/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Check that a photo was uploaded through uploadAttendancePhoto by this employee in the
+ * last few minutes, and is really in the bucket.
+ */
+export async function isValidAttendancePhoto(photo: string, employeeId: number, now: Date = new Date()): Promise<boolean> {
+  if (!supabase || getAttendancePhotoEmployeeId(photo) !== employeeId) return false;
+
+  const age = now.getTime() - Number(photo.split('_')[2].split('.')[0]);
+  if (age < 0 || age > ATTENDANCE_PHOTO_MAX_AGE_MS) return false;
+
+  const { data, error } = await supabase.storage
+    .from(ATTENDANCE_PHOTO_BUCKET)
+    .list('', { search: photo, limit: 1 });
+  return !error && !!data?.some(file => file.name === photo);
+}
+
+// Short-lived URL for viewing a photo. Null when storage is not configured or signing failed.
+export async function getAttendancePhotoUrl(photo: string): Promise<string | null> {
+  if (!supabase) return null;
+
+  const { data, error } = await supabase.storage
+    .from(ATTENDANCE_PHOTO_BUCKET)
+    .createSignedUrl(photo, ATTENDANCE_PHOTO_URL_TTL_SECONDS);
+  if (error) {
+    console.error("❌ Failed to sign attendance photo URL:", error);
+    return null;
+  }
+  return data.signedUrl;
+}
+
+// Camera photo taken at check-in or checkout, so admins can see who actually clocked in
+export const uploadAttendancePhoto = async (req: Request, res: Response, employeeId: number) => {
+  const file = req.file;
+  try {
+    if (!supabase) {
+      console.error("❌ Supabase not configured. Check SUPABASE_URL and SERVICE_ROLE_SECRET environment variables.");
+      return res.status(500).json({ 
+        error: "Upload service not configured", 
+        details: "Missing SUPABASE_URL or SERVICE_ROLE_SECRET environment variables" 
+      });
+    }
+
+    if (!file) {
+      return res.status(400).json({ error: "No file provided" });
+    }
+    if (!file.mimetype?.startsWith('image/')) {
+      return res.status(400).json({ error: "The photo must be an image" });
+    }
+
+    const extension = file.mimetype.split('/')[1].replace(/[^a-z]/g, '') || 'jpg';
+    const fileName = `attendance_${employeeId}_${Date.now()}.${extension}`;
+    const fileBuffer = fs.readFileSync(file.path);
+
+    console.log('📤 Uploading attendance photo to Supabase Storage:', fileName);
+
+    const { error } = await supabase.storage
+      .from(ATTENDANCE_PHOTO_BUCKET)
+      .upload(fileName, fileBuffer, {
+        cacheControl: "3600",
+        upsert: false,
+        contentType: file.mimetype,
+      });
+
+    if (error) {
+      console.error("❌ Supabase upload error:", error);
+      return res.status(500).json({ error: "Upload failed", details: error.message });
+    }
+
+    return res.status(200).json({
+      message: "Attendance photo uploaded successfully",
+      photo: fileName,
+    });
+  } catch (err: any) {
+    console.error("❌ Server error while uploading attendance photo:", err);
+    return res.status(500).json({ 
+      error: "Server error while uploading image",
+      details: err?.message || "Unknown server error"
+    });
+  } finally {
+    if (file?.path) {
+      try {
+        fs.unlinkSync(file.path);
+      } catch (e) {
+        // Ignore cleanup errors
+      }
+    }
+  }
+};
@@ -0,0 +1,129 @@
+import { z } from "zod";
+import type { GeofencePolygon, GeofencePoint } from "./schema";
+
+// Earth radius in meters, matches the Haversine helpers on server and client
+const EARTH_RADIUS = 6371e3;
+
+// Haversine distance between two coordinates in meters
+export function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const φ1 = lat1 * Math.PI / 180;
+  const φ2 = lat2 * Math.PI / 180;
+  const Δφ = (lat2 - lat1) * Math.PI / 180;
+  const Δλ = (lon2 - lon1) * Math.PI / 180;
+
+  const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+    Math.cos(φ1) * Math.cos(φ2) *
+    Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return EARTH_RADIUS * c;
+}
+
+// Ray casting test for a single ring. Longitude is treated as x and latitude as y,
+// which is accurate enough for site-sized polygons (a few km at most).
+function isPointInRing(lat: number, lng: number, ring: GeofencePoint[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const xi = ring[i].lng, yi = ring[i].lat;
+    const xj = ring[j].lng, yj = ring[j].lat;
+    const intersects = ((yi > lat) !== (yj > lat)) &&
+      (lng < (xj - xi) * (lat - yi) / (yj - yi) + xi);
+    if (intersects) inside = !inside;
+  }
+  return inside;
+}
+
+// Distance in meters from a point to the segment a-b, using a local
+// equirectangular projection centred on the point
+function distanceToSegment(lat: number, lng: number, a: GeofencePoint, b: GeofencePoint): number {
+  const cosLat = Math.cos(lat * Math.PI / 180);
+  const toXY = (p: GeofencePoint) => ({
+    x: (p.lng - lng) * Math.PI / 180 * EARTH_RADIUS * cosLat,
+    y: (p.lat - lat) * Math.PI / 180 * EARTH_RADIUS,
+  });
+  const pa = toXY(a);
+  const pb = toXY(b);
+  const dx = pb.x - pa.x;
+  const dy = pb.y - pa.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(pa.x * dx + pa.y * dy) / lengthSq));
+  const cx = pa.x + t * dx;
+  const cy = pa.y + t * dy;
+  return Math.sqrt(cx * cx + cy * cy);
+}
+
+// Check whether a point is inside any ring of a (multi-)polygon boundary
+export function isPointInPolygon(lat: number, lng: number, polygon: GeofencePolygon): boolean {
+  return polygon.some(ring => ring.length >= 3 && isPointInRing(lat, lng, ring));
+}
+
+// Distance in meters from a point to the nearest edge of the boundary.
+// Returns 0 when the point is inside the boundary.
+export function distanceToPolygon(lat: number, lng: number, polygon: GeofencePolygon): number {
+  if (isPointInPolygon(lat, lng, polygon)) {
+    return 0;
+  }
+
+  let minDistance = Infinity;
+  polygon.forEach(ring => {
+    for (let i = 0; i < ring.length; i++) {
+      const next = ring[(i + 1) % ring.length];
+      minDistance = Math.min(minDistance, distanceToSegment(lat, lng, ring[i], next));
+    }
+  });
+  return minDistance;
+}
+
+// A polygon is only usable for geofencing when at least one ring has 3+ points
+export function hasGeofencePolygon(polygon: GeofencePolygon | null | undefined): polygon is GeofencePolygon {
+  return Array.isArray(polygon) && polygon.some(ring => Array.isArray(ring) && ring.length >= 3);
+}
+
+// Evaluate a point against a site's geofence. Polygon sites measure distance to the
+// nearest edge (0 inside) and only allow the buffer outside it; circle sites measure
+// distance to the centre and allow radius + buffer.
+export function checkSiteGeofence(
+  lat: number,
+  lng: number,
+  site: {
+    latitude: number | string;
+    longitude: number | string;
+    geofenceRadius: number;
+    geofencePolygon?: GeofencePolygon | null;
+  },
+  buffer: number = 0
+): { isWithin: boolean; distance: number } {
+  if (hasGeofencePolygon(site.geofencePolygon)) {
+    const distance = distanceToPolygon(lat, lng, site.geofencePolygon);
+    return { isWithin: distance <= buffer, distance };
+  }
+  const distance = haversineDistance(lat, lng, Number(site.latitude), Number(site.longitude));
+  return { isWithin: distance <= site.geofenceRadius + buffer, distance };
+}
+
+// Buffer for fixes that do not report their accuracy, e.g. from older clients
+export const DEFAULT_GPS_ACCURACY = 50;
+
+// Attendance sessions whose location risk score reaches this are raised to the admin
+export const LOCATION_RISK_ALERT_THRESHOLD = 40;
+
+// Optional details of a GPS fix sent with check-in, checkout and location updates
+export const gpsFixSchema = z.object({
+  accuracy: z.number().nonnegative().nullish(),
+  altitude: z.number().nullish(),
+  speed: z.number().nonnegative().nullish(),
+  heading: z.number().min(0).max(360).nullish(),
+});
+export type GpsFix = z.infer<typeof gpsFixSchema>;
+
+// Whether a fix is accurate enough for the site to make a decision on. Fixes without
+// a reported accuracy are trusted.
+export function isReliableFix(accuracy: number | null | undefined, site: { maxGpsAccuracy: number }): boolean {
+  return accuracy === null || accuracy === undefined || accuracy <= site.maxGpsAccuracy;
+}
+
+// The margin allowed outside the geofence for a fix: its own accuracy, capped at what
+// the site accepts
+export function gpsAccuracyBuffer(accuracy: number | null | undefined, site: { maxGpsAccuracy: number }): number {
+  return Math.min(accuracy ?? DEFAULT_GPS_ACCURACY, site.maxGpsAccuracy);
+}
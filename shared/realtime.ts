@@ -0,0 +1,160 @@
+import { z } from "zod";
+import { gpsFixSchema } from "./geofence";
+
+// Messages exchanged on /ws. Clients send their protocol version as the `v` query
+// parameter; the server closes connections speaking a version it does not support
+// with UNSUPPORTED_PROTOCOL_CLOSE_CODE and confirms the version it speaks in
+// `connection_established`. Bump the version for any change an older peer would misread.
+export const PROTOCOL_VERSION = 1;
+export const SUPPORTED_PROTOCOL_VERSIONS = [1];
+export const UNSUPPORTED_PROTOCOL_CLOSE_CODE = 4400;
+
+// Events pushed to admins as notifications
+export const ADMIN_NOTIFICATION_TYPES = [
+  "employee_checkin",
+  "employee_checkout",
+  "late_arrival",
+  "early_departure",
+  "no_show",
+  "auto_checkout",
+  "leave_request",
+  "location_anomaly",
+] as const;
+export type AdminNotificationType = typeof ADMIN_NOTIFICATION_TYPES[number];
+
+export const GEOFENCE_EVENT_TYPES = ["enter", "exit"] as const;
+export type GeofenceEventType = typeof GEOFENCE_EVENT_TYPES[number];
+
+const coordinateSchema = z.coerce.number().refine(Number.isFinite, "Coordinates must be numbers");
+
+// Client -> server
+export const clientMessageSchema = z.discriminatedUnion("type", [
+  // Employees: current position while checked in
+  z.object({
+    type: z.literal("location_update"),
+    latitude: coordinateSchema,
+    longitude: coordinateSchema,
+  }).extend(gpsFixSchema.shape),
+  // Admins: a notification was received, so it is not replayed on reconnect
+  z.object({
+    type: z.literal("notification_ack"),
+    id: z.number().int().positive(),
+  }),
+]);
+
+const employeeLocationSchema = z.object({
+  employeeId: z.number(),
+  employee: z.object({
+    id: z.number(),
+    firstName: z.string(),
+    lastName: z.string(),
+    siteId: z.number().nullable(),
+  }),
+  location: z.object({
+    latitude: z.number(),
+    longitude: z.number(),
+    isOnSite: z.boolean(),
+    distanceFromSite: z.number().nullable(), // null when the site has no geofence to measure against
+    timestamp: z.string(),
+  }),
+});
+
+const geofenceEventSchema = z.object({
+  id: z.number(),
+  type: z.enum(GEOFENCE_EVENT_TYPES),
+  employee: z.object({
+    id: z.number(),
+    firstName: z.string(),
+    lastName: z.string(),
+  }),
+  site: z.object({
+    id: z.number(),
+    name: z.string(),
+  }),
+  latitude: z.number(),
+  longitude: z.number(),
+  distanceFromSite: z.number(),
+  occurredAt: z.string(),
+});
+
+// An event raised for an admin, as the server creates it. The details beyond the
+// employee and site depend on the type.
+export const adminNotificationSchema = z.object({
+  type: z.enum(ADMIN_NOTIFICATION_TYPES),
+  message: z.string(),
+  timestamp: z.string(),
+  employee: z.object({
+    id: z.number(),
+    name: z.string(),
+    email: z.string(),
+    firstName: z.string().optional(),
+    lastName: z.string().optional(),
+    profileImage: z.string().optional(),
+  }),
+  site: z.object({
+    id: z.number(),
+    name: z.string(),
+    address: z.string(),
+  }).nullable(),
+  // Check-in and checkout
+  location: z.object({ latitude: z.number(), longitude: z.number() }).optional(),
+  photo: z.string().nullable().optional(), // Selfie, on sites that require one
+  // Shift alerts (late_arrival / early_departure / no_show)
+  alertId: z.number().optional(),
+  shiftId: z.number().optional(),
+  minutes: z.number().optional(),
+  // Automatic checkout and location anomalies
+  attendanceId: z.number().optional(),
+  reason: z.enum(["shift_end", "fixed_time", "offsite", "max_hours"]).optional(),
+  riskScore: z.number().optional(),
+  riskFlags: z.array(z.enum(["impossible_speed", "repeated_coordinates", "perfect_accuracy", "checkin_jump"])).optional(),
+  // Leave requests
+  leaveRequestId: z.number().optional(),
+});
+
+// A notification as admins receive it, with its stored state
+export const notificationPayloadSchema = adminNotificationSchema.extend({
+  id: z.number().optional(), // Missing only when the server could not store the notification
+  isRead: z.boolean().optional(),
+  readAt: z.string().nullable().optional(),
+});
+
+// Server -> client
+export const serverMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("connection_established"),
+    protocolVersion: z.number(),
+    message: z.string(),
+  }),
+  z.object({
+    type: z.literal("notification"),
+    data: notificationPayloadSchema,
+    replay: z.boolean().optional(), // Missed while the client was disconnected
+  }),
+  employeeLocationSchema.extend({
+    type: z.literal("employee_location"),
+  }),
+  // An employee entered or left their site's geofence
+  z.object({
+    type: z.literal("geofence_event"),
+    event: geofenceEventSchema,
+  }),
+  // Sent to the employee after a location_update was recorded
+  z.object({
+    type: z.literal("location_confirmed"),
+    isOnSite: z.boolean(),
+    distanceFromSite: z.number(),
+  }),
+  // A client message was rejected
+  z.object({
+    type: z.literal("error"),
+    message: z.string(),
+  }),
+]);
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+export type ServerMessage = z.infer<typeof serverMessageSchema>;
+export type EmployeeLocationUpdate = z.infer<typeof employeeLocationSchema>;
+export type GeofenceEventUpdate = z.infer<typeof geofenceEventSchema>;
+export type AdminNotification = z.infer<typeof adminNotificationSchema>;
+export type NotificationPayload = z.infer<typeof notificationPayloadSchema>;
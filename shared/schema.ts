@@ -1,7 +1,92 @@
-import { pgTable, text, serial, integer, boolean, timestamp, decimal, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, decimal, real, jsonb, uniqueIndex, index } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { ADMIN_NOTIFICATION_TYPES, type AdminNotificationType, type GeofenceEventType } from "./realtime";
+
+// Geofence polygon boundary: one or more rings of lat/lng points.
+// Multiple rings are treated as separate shapes (union), e.g. an L-shaped yard
+// drawn as two rectangles or a corridor split into segments.
+export type GeofencePoint = { lat: number; lng: number };
+export type GeofencePolygon = GeofencePoint[][];
+
+export type ShiftAlertType = "late_arrival" | "early_departure" | "no_show";
+
+export type TimesheetStatus = "draft" | "submitted" | "approved" | "rejected";
+
+export type LeaveRequestStatus = "pending" | "approved" | "rejected" | "cancelled";
+// "upfront" grants the whole yearly allowance on January 1st, "monthly" accrues 1/12 per month
+export type LeaveAccrual = "upfront" | "monthly";
+
+// Why an attendance record was corrected. "auto_close" is written by the system when a
+// new check-in closes a session the employee never checked out of.
+export const ATTENDANCE_CORRECTION_REASONS = [
+  "missed_checkout",
+  "missed_checkin",
+  "wrong_time",
+  "wrong_site",
+  "device_issue",
+  "other",
+] as const;
+export type AttendanceCorrectionReason = typeof ATTENDANCE_CORRECTION_REASONS[number];
+export type AttendanceRevisionAction = "create" | "edit" | "split" | "auto_close" | "auto_checkout";
+
+// Values a payroll export column can be mapped to. Hours cover the pay period.
+export const PAYROLL_FIELDS = [
+  "employeeCode",
+  "employeeName",
+  "firstName",
+  "lastName",
+  "email",
+  "department",
+  "site",
+  "area",
+  "periodStart",
+  "periodEnd",
+  "daysWorked",
+  "workedHours",
+  "regularHours",
+  "overtimeHours",
+  "weekendHours",
+  "holidayHours",
+  "nightHours",
+  "offsiteHours",
+  "payableHours",
+  "leaveDays",
+] as const;
+export type PayrollField = typeof PAYROLL_FIELDS[number];
+export type PayrollColumn = { field: PayrollField; header: string };
+export type PayrollFileFormat = "csv" | "xlsx";
+
+// Attendance report formats, shared by the export dialog and scheduled reports
+export type ReportFormat = "html" | "pdf" | "excel" | "csv";
+// Which days a scheduled report covers, relative to when it runs (in the schedule's timezone)
+export type ReportSchedulePeriod = "today" | "yesterday" | "last_7_days" | "previous_week" | "previous_month";
+export type ReportRunStatus = "sent" | "failed";
+// Report filters without a period - empty lists match everyone
+export type ReportFilterLists = {
+  siteIds: number[];
+  areaIds: number[];
+  departmentIds: number[];
+  employeeIds: number[];
+};
+
+// Which automatic checkout policy closed an attendance session
+export type AutoCheckoutReason = "shift_end" | "fixed_time" | "offsite" | "max_hours";
+
+// Signs that a session's GPS fixes may come from a mock-location app
+export type LocationAnomalyType = "impossible_speed" | "repeated_coordinates" | "perfect_accuracy" | "checkin_jump";
+
+// The attendance fields captured in a revision
+export type AttendanceSnapshot = {
+  siteId: number;
+  checkInTime: string | null;
+  checkOutTime: string | null;
+  checkInLatitude: string | null;
+  checkInLongitude: string | null;
+  checkOutLatitude: string | null;
+  checkOutLongitude: string | null;
+};
 
 // Admin users table
 export const admins = pgTable("admins", {
@@ -66,11 +151,14 @@ export const workSites = pgTable("work_sites", {
   latitude: decimal("latitude", { precision: 10, scale: 8 }).notNull(),
   longitude: decimal("longitude", { precision: 11, scale: 8 }).notNull(),
   geofenceRadius: integer("geofence_radius").notNull().default(200), // in meters
+  geofencePolygon: jsonb("geofence_polygon").$type<GeofencePolygon>(), // Optional polygon boundary - overrides the radius circle when set
+  maxGpsAccuracy: integer("max_gps_accuracy").notNull().default(100), // in meters - less accurate fixes cannot check in or out
   siteImage: text("site_image"), // URL to site image in object storage
   areaId: integer("area_id").references(() => areas.id),
   adminId: integer("admin_id").notNull().references(() => admins.id),
   isActive: boolean("is_active").default(true),
   isRemote: boolean("is_remote").default(false), // Remote work site - employees can check in from anywhere
+  requirePhoto: boolean("require_photo").notNull().default(false), // Check-in and checkout need a camera photo
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -81,9 +169,29 @@ export const locationTracking = pgTable("location_tracking", {
   latitude: decimal("latitude", { precision: 10, scale: 8 }).notNull(),
   longitude: decimal("longitude", { precision: 11, scale: 8 }).notNull(),
   isOnSite: boolean("is_on_site").notNull(),
+  // As reported by the device, null when it did not say
+  accuracy: real("accuracy"), // meters
+  altitude: real("altitude"), // meters
+  speed: real("speed"), // meters per second
+  heading: real("heading"), // degrees clockwise from north
   timestamp: timestamp("timestamp").defaultNow(),
 });
 
+// Moments an employee crossed their site's geofence, detected from location pings
+export const geofenceEvents = pgTable("geofence_events", {
+  id: serial("id").primaryKey(),
+  employeeId: integer("employee_id").notNull().references(() => employees.id),
+  siteId: integer("site_id").notNull().references(() => workSites.id),
+  type: text("type").$type<GeofenceEventType>().notNull(),
+  latitude: decimal("latitude", { precision: 10, scale: 8 }).notNull(),
+  longitude: decimal("longitude", { precision: 11, scale: 8 }).notNull(),
+  distanceFromSite: integer("distance_from_site").notNull(), // Meters, as measured by checkSiteGeofence
+  occurredAt: timestamp("occurred_at").notNull().defaultNow(),
+}, (table) => ({
+  employeeOccurredIdx: index("geofence_events_employee_occurred_idx").on(table.employeeId, table.occurredAt),
+  siteOccurredIdx: index("geofence_events_site_occurred_idx").on(table.siteId, table.occurredAt),
+}));
+
 // Attendance tracking table
 export const attendance = pgTable("attendance", {
   id: serial("id").primaryKey(),
@@ -95,6 +203,308 @@ export const attendance = pgTable("attendance", {
   checkInLongitude: decimal("check_in_longitude", { precision: 11, scale: 8 }),
   checkOutLatitude: decimal("check_out_latitude", { precision: 10, scale: 8 }),
   checkOutLongitude: decimal("check_out_longitude", { precision: 11, scale: 8 }),
+  checkInAccuracy: real("check_in_accuracy"), // meters, as reported by the device
+  checkOutAccuracy: real("check_out_accuracy"),
+  checkInPhoto: text("check_in_photo"), // URL of the photo taken at check-in, see uploadAttendancePhoto
+  checkOutPhoto: text("check_out_photo"),
+  shiftId: integer("shift_id").references(() => shifts.id), // Planned shift this check-in was matched to
+  isManual: boolean("is_manual").notNull().default(false), // Created by an admin rather than a GPS check-in
+  correctedAt: timestamp("corrected_at"), // Last admin correction, see attendance_revisions
+  autoCheckoutReason: text("auto_checkout_reason").$type<AutoCheckoutReason>(), // Set when the system closed the session
+  riskScore: integer("risk_score").notNull().default(0), // 0-100, from the anomalies in riskFlags
+  riskFlags: jsonb("risk_flags").$type<LocationAnomalyType[]>().notNull().default([]),
+});
+
+// Audit trail of attendance corrections. Each revision stores the record before and
+// after the change, so the original GPS-backed check-in/out is never lost.
+export const attendanceRevisions = pgTable("attendance_revisions", {
+  id: serial("id").primaryKey(),
+  attendanceId: integer("attendance_id").references(() => attendance.id, { onDelete: "set null" }),
+  employeeId: integer("employee_id").notNull().references(() => employees.id),
+  adminId: integer("admin_id").references(() => admins.id), // Null for system corrections
+  action: text("action").$type<AttendanceRevisionAction>().notNull(),
+  reasonCode: text("reason_code").$type<AttendanceCorrectionReason>().notNull(),
+  note: text("note"),
+  before: jsonb("before").$type<AttendanceSnapshot | null>(),
+  after: jsonb("after").$type<AttendanceSnapshot | null>(),
+  relatedAttendanceId: integer("related_attendance_id"), // The other half of a split
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Per-company automatic checkout policy for sessions the employee never closed.
+// Every enabled rule is evaluated and the earliest checkout time wins.
+export const autoCheckoutPolicies = pgTable("auto_checkout_policies", {
+  id: serial("id").primaryKey(),
+  adminId: integer("admin_id").notNull().unique().references(() => admins.id),
+  isEnabled: boolean("is_enabled").notNull().default(false),
+  atShiftEnd: boolean("at_shift_end").notNull().default(false), // Close at the end of the matched shift
+  shiftEndGraceMinutes: integer("shift_end_grace_minutes").notNull().default(30), // Wait this long after shift end
+  fixedTime: text("fixed_time"), // "HH:mm" server local time, e.g. "23:00"
+  offsiteMinutes: integer("offsite_minutes"), // Close after leaving the geofence for this long
+  maxHours: integer("max_hours"), // Close this many hours after check-in
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Per company rules for turning worked time into payable hours. Rates are percentages
+// of the base rate (200 = double time). A null threshold disables that rule.
+export const overtimePolicies = pgTable("overtime_policies", {
+  id: serial("id").primaryKey(),
+  adminId: integer("admin_id").notNull().unique().references(() => admins.id),
+  dailyThresholdMinutes: integer("daily_threshold_minutes").default(480), // Overtime after this much work in a day
+  weeklyThresholdMinutes: integer("weekly_threshold_minutes").default(2880), // Overtime after this much regular work in a week
+  overtimeRatePercent: integer("overtime_rate_percent").notNull().default(200),
+  weekendDays: jsonb("weekend_days").$type<number[]>().notNull().default([0]), // 0 = Sunday ... 6 = Saturday
+  weekendRatePercent: integer("weekend_rate_percent").notNull().default(200),
+  holidayRatePercent: integer("holiday_rate_percent").notNull().default(200),
+  nightStart: text("night_start"), // "HH:mm" local time, e.g. "22:00"
+  nightEnd: text("night_end"), // "HH:mm" local time, e.g. "06:00"
+  nightPremiumPercent: integer("night_premium_percent").notNull().default(0), // Added on top for night hours
+  deductOffsiteTime: boolean("deduct_offsite_time").notNull().default(false), // Time outside the geofence is not paid
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Saved payroll export layouts - which columns, in which order and under which headers
+// the payroll software expects them
+export const payrollTemplates = pgTable("payroll_templates", {
+  id: serial("id").primaryKey(),
+  adminId: integer("admin_id").notNull().references(() => admins.id),
+  name: text("name").notNull(),
+  fileFormat: text("file_format").$type<PayrollFileFormat>().notNull().default("csv"),
+  columns: jsonb("columns").$type<PayrollColumn[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Breaks taken inside an attendance session. Breaks are unpaid and are
+// subtracted from worked hours; an open break has no endTime.
+export const attendanceBreaks = pgTable("attendance_breaks", {
+  id: serial("id").primaryKey(),
+  attendanceId: integer("attendance_id").notNull().references(() => attendance.id, { onDelete: "cascade" }),
+  startTime: timestamp("start_time").notNull().defaultNow(),
+  endTime: timestamp("end_time"),
+});
+
+// Recurring weekly shift patterns. Occurrences are expanded on the fly and only
+// materialized into the shifts table when someone checks in against them or an
+// admin edits a single occurrence.
+export const shiftPatterns = pgTable("shift_patterns", {
+  id: serial("id").primaryKey(),
+  adminId: integer("admin_id").notNull().references(() => admins.id),
+  employeeId: integer("employee_id").notNull().references(() => employees.id),
+  siteId: integer("site_id").notNull().references(() => workSites.id),
+  daysOfWeek: jsonb("days_of_week").$type<number[]>().notNull(), // 0 = Sunday ... 6 = Saturday
+  startTime: text("start_time").notNull(), // "HH:mm" local time
+  endTime: text("end_time").notNull(), // "HH:mm" local time - earlier than startTime means overnight
+  effectiveFrom: timestamp("effective_from").notNull(),
+  effectiveUntil: timestamp("effective_until"), // null = open-ended
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Planned shifts - one-off shifts and materialized pattern occurrences
+export const shifts = pgTable("shifts", {
+  id: serial("id").primaryKey(),
+  adminId: integer("admin_id").notNull().references(() => admins.id),
+  employeeId: integer("employee_id").notNull().references(() => employees.id),
+  siteId: integer("site_id").notNull().references(() => workSites.id),
+  patternId: integer("pattern_id").references(() => shiftPatterns.id), // Set when generated from a pattern
+  occurrenceDate: text("occurrence_date"), // "YYYY-MM-DD" of the pattern occurrence this shift replaces
+  startTime: timestamp("start_time").notNull(),
+  endTime: timestamp("end_time").notNull(),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  // A pattern occurrence is materialized at most once, however many callers race for it
+  patternOccurrenceIdx: uniqueIndex("shifts_pattern_occurrence_idx").on(table.patternId, table.occurrenceDate),
+}));
+
+// Shift alerts raised by the background evaluator (late arrival, early departure, no-show).
+// One alert per shift and type so re-evaluating a shift never duplicates it.
+export const shiftAlerts = pgTable("shift_alerts", {
+  id: serial("id").primaryKey(),
+  adminId: integer("admin_id").notNull().references(() => admins.id),
+  employeeId: integer("employee_id").notNull().references(() => employees.id),
+  siteId: integer("site_id").notNull().references(() => workSites.id),
+  shiftId: integer("shift_id").notNull().references(() => shifts.id),
+  type: text("type").$type<ShiftAlertType>().notNull(),
+  minutes: integer("minutes").notNull().default(0), // Minutes late / early / since shift start
+  message: text("message").notNull(),
+  isResolved: boolean("is_resolved").default(false),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  shiftTypeIdx: uniqueIndex("shift_alerts_shift_type_idx").on(table.shiftId, table.type),
+}));
+
+// Weekly timesheets (weeks start on Sunday, local time). Hours are derived from
+// attendance rows; a row only exists once the week has been submitted, approved or
+// rejected. Approved weeks lock the underlying attendance.
+export const timesheets = pgTable("timesheets", {
+  id: serial("id").primaryKey(),
+  adminId: integer("admin_id").notNull().references(() => admins.id),
+  employeeId: integer("employee_id").notNull().references(() => employees.id),
+  weekStart: text("week_start").notNull(), // "YYYY-MM-DD" of the Sunday the week starts on
+  status: text("status").$type<TimesheetStatus>().notNull().default("draft"),
+  workedMinutes: integer("worked_minutes"), // Snapshot taken at approval
+  breakMinutes: integer("break_minutes"), // Snapshot taken at approval
+  comment: text("comment"), // Rejection reason
+  submittedAt: timestamp("submitted_at"),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewedBy: integer("reviewed_by").references(() => admins.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  employeeWeekIdx: uniqueIndex("timesheets_employee_week_idx").on(table.employeeId, table.weekStart),
+}));
+
+// Leave types defined per company (vacation, sick, ...). A null allowance means the
+// type is not balance-tracked.
+export const leaveTypes = pgTable("leave_types", {
+  id: serial("id").primaryKey(),
+  adminId: integer("admin_id").notNull().references(() => admins.id),
+  name: text("name").notNull(),
+  color: text("color").default("#0ea5e9"),
+  isPaid: boolean("is_paid").notNull().default(true),
+  annualAllowanceDays: integer("annual_allowance_days"), // null = unlimited / not tracked
+  accrual: text("accrual").$type<LeaveAccrual>().notNull().default("upfront"),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Per employee, per year adjustments to a leave type's allowance. Used days are
+// always derived from approved requests, never stored here.
+export const leaveBalances = pgTable("leave_balances", {
+  id: serial("id").primaryKey(),
+  employeeId: integer("employee_id").notNull().references(() => employees.id),
+  leaveTypeId: integer("leave_type_id").notNull().references(() => leaveTypes.id),
+  year: integer("year").notNull(),
+  allowanceDays: integer("allowance_days"), // Overrides the leave type allowance when set
+  carryOverDays: integer("carry_over_days").notNull().default(0),
+  adjustmentDays: integer("adjustment_days").notNull().default(0),
+  note: text("note"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  employeeTypeYearIdx: uniqueIndex("leave_balances_employee_type_year_idx").on(table.employeeId, table.leaveTypeId, table.year),
+}));
+
+// Leave requests cover whole local calendar days from startDate to endDate inclusive.
+// `days` counts the working days (Monday-Friday) in that range.
+export const leaveRequests = pgTable("leave_requests", {
+  id: serial("id").primaryKey(),
+  adminId: integer("admin_id").notNull().references(() => admins.id),
+  employeeId: integer("employee_id").notNull().references(() => employees.id),
+  leaveTypeId: integer("leave_type_id").notNull().references(() => leaveTypes.id),
+  startDate: text("start_date").notNull(), // "YYYY-MM-DD"
+  endDate: text("end_date").notNull(), // "YYYY-MM-DD", inclusive
+  days: integer("days").notNull(),
+  reason: text("reason"),
+  status: text("status").$type<LeaveRequestStatus>().notNull().default("pending"),
+  reviewComment: text("review_comment"),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewedBy: integer("reviewed_by").references(() => admins.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Company holiday calendars. A calendar without an area applies to every site of the
+// admin; an area calendar only to sites in that area (e.g. state public holidays).
+export const holidayCalendars = pgTable("holiday_calendars", {
+  id: serial("id").primaryKey(),
+  adminId: integer("admin_id").notNull().references(() => admins.id),
+  name: text("name").notNull(),
+  areaId: integer("area_id").references(() => areas.id), // null = company-wide
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Holidays are whole local calendar days and are treated as non-working days
+export const holidays = pgTable("holidays", {
+  id: serial("id").primaryKey(),
+  calendarId: integer("calendar_id").notNull().references(() => holidayCalendars.id, { onDelete: "cascade" }),
+  date: text("date").notNull(), // "YYYY-MM-DD"
+  name: text("name").notNull(),
+}, (table) => ({
+  calendarDateIdx: uniqueIndex("holidays_calendar_date_idx").on(table.calendarId, table.date),
+}));
+
+// Saved attendance reports emailed on a cron schedule. `cron` is a standard five field
+// expression evaluated in `timezone`; nextRunAt is kept up to date by the scheduler.
+export const reportSchedules = pgTable("report_schedules", {
+  id: serial("id").primaryKey(),
+  adminId: integer("admin_id").notNull().references(() => admins.id),
+  name: text("name").notNull(),
+  recipients: jsonb("recipients").$type<string[]>().notNull(),
+  fromEmail: text("from_email").notNull(),
+  format: text("format").$type<ReportFormat>().notNull().default("pdf"),
+  filters: jsonb("filters").$type<ReportFilterLists>().notNull(),
+  period: text("period").$type<ReportSchedulePeriod>().notNull(),
+  cron: text("cron").notNull(), // e.g. "0 19 * * *" = every day at 7pm
+  timezone: text("timezone").notNull(), // IANA name, e.g. "America/New_York"
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  nextRunAt: timestamp("next_run_at"),
+  lastRunAt: timestamp("last_run_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// One row per scheduled (or manually triggered) report delivery
+export const reportRuns = pgTable("report_runs", {
+  id: serial("id").primaryKey(),
+  scheduleId: integer("schedule_id").notNull().references(() => reportSchedules.id, { onDelete: "cascade" }),
+  adminId: integer("admin_id").notNull().references(() => admins.id),
+  periodStart: text("period_start").notNull(), // "YYYY-MM-DD"
+  periodEnd: text("period_end").notNull(), // "YYYY-MM-DD", inclusive
+  recipients: jsonb("recipients").$type<string[]>().notNull(),
+  status: text("status").$type<ReportRunStatus>().notNull(),
+  error: text("error"),
+  isManual: boolean("is_manual").notNull().default(false),
+  startedAt: timestamp("started_at").notNull(),
+  finishedAt: timestamp("finished_at").defaultNow(),
+});
+
+// Admin notification history (check-ins, shift alerts, leave requests, ...).
+// `payload` is the full object pushed over the WebSocket; a dismissed notification
+// is hidden from the admin but kept for the record.
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  adminId: integer("admin_id").notNull().references(() => admins.id),
+  type: text("type").notNull(),
+  message: text("message").notNull(),
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+  readAt: timestamp("read_at"),
+  dismissedAt: timestamp("dismissed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  adminCreatedIdx: index("notifications_admin_created_idx").on(table.adminId, table.createdAt),
+}));
+
+// How far each of an admin's devices has acknowledged the live notification feed, so a
+// device that reconnects is sent what it missed. `clientId` is generated by the browser.
+export const notificationReceipts = pgTable("notification_receipts", {
+  id: serial("id").primaryKey(),
+  adminId: integer("admin_id").notNull().references(() => admins.id),
+  clientId: text("client_id").notNull(),
+  lastNotificationId: integer("last_notification_id").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  adminClientIdx: uniqueIndex("notification_receipts_admin_client_idx").on(table.adminId, table.clientId),
+}));
+
+// Per-admin notification settings. Events of a type that is switched off, or for a site
+// outside `siteIds` (empty = every site), are not recorded at all. Quiet hours hold back
+// the live push and emails; those notifications still wait unread and go into the digest.
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: serial("id").primaryKey(),
+  adminId: integer("admin_id").notNull().unique().references(() => admins.id),
+  eventTypes: jsonb("event_types").$type<AdminNotificationType[]>().notNull(),
+  siteIds: jsonb("site_ids").$type<number[]>().notNull().default([]),
+  inAppEnabled: boolean("in_app_enabled").notNull().default(true), // Live push and unread badge
+  emailEnabled: boolean("email_enabled").notNull().default(false), // One email per notification
+  digestEnabled: boolean("digest_enabled").notNull().default(false), // Daily summary email
+  digestTime: text("digest_time").notNull().default("18:00"), // "HH:mm" in `timezone`
+  quietHoursStart: text("quiet_hours_start"), // "HH:mm" in `timezone`, may wrap past midnight
+  quietHoursEnd: text("quiet_hours_end"),
+  timezone: text("timezone").notNull().default("UTC"),
+  nextDigestAt: timestamp("next_digest_at"),
+  lastDigestAt: timestamp("last_digest_at"),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 // Relations
@@ -158,7 +568,7 @@ export const departmentsRelations = relations(departments, ({ one, many }) => ({
   employees: many(employees),
 }));
 
-export const attendanceRelations = relations(attendance, ({ one }) => ({
+export const attendanceRelations = relations(attendance, ({ one, many }) => ({
   employee: one(employees, {
     fields: [attendance.employeeId],
     references: [employees.id],
@@ -167,6 +577,188 @@ export const attendanceRelations = relations(attendance, ({ one }) => ({
     fields: [attendance.siteId],
     references: [workSites.id],
   }),
+  shift: one(shifts, {
+    fields: [attendance.shiftId],
+    references: [shifts.id],
+  }),
+  breaks: many(attendanceBreaks),
+  revisions: many(attendanceRevisions),
+}));
+
+export const attendanceRevisionsRelations = relations(attendanceRevisions, ({ one }) => ({
+  attendance: one(attendance, {
+    fields: [attendanceRevisions.attendanceId],
+    references: [attendance.id],
+  }),
+  employee: one(employees, {
+    fields: [attendanceRevisions.employeeId],
+    references: [employees.id],
+  }),
+  admin: one(admins, {
+    fields: [attendanceRevisions.adminId],
+    references: [admins.id],
+  }),
+}));
+
+export const attendanceBreaksRelations = relations(attendanceBreaks, ({ one }) => ({
+  attendance: one(attendance, {
+    fields: [attendanceBreaks.attendanceId],
+    references: [attendance.id],
+  }),
+}));
+
+export const shiftPatternsRelations = relations(shiftPatterns, ({ one, many }) => ({
+  admin: one(admins, {
+    fields: [shiftPatterns.adminId],
+    references: [admins.id],
+  }),
+  employee: one(employees, {
+    fields: [shiftPatterns.employeeId],
+    references: [employees.id],
+  }),
+  site: one(workSites, {
+    fields: [shiftPatterns.siteId],
+    references: [workSites.id],
+  }),
+  shifts: many(shifts),
+}));
+
+export const shiftsRelations = relations(shifts, ({ one, many }) => ({
+  admin: one(admins, {
+    fields: [shifts.adminId],
+    references: [admins.id],
+  }),
+  employee: one(employees, {
+    fields: [shifts.employeeId],
+    references: [employees.id],
+  }),
+  site: one(workSites, {
+    fields: [shifts.siteId],
+    references: [workSites.id],
+  }),
+  pattern: one(shiftPatterns, {
+    fields: [shifts.patternId],
+    references: [shiftPatterns.id],
+  }),
+  attendanceRecords: many(attendance),
+  alerts: many(shiftAlerts),
+}));
+
+export const shiftAlertsRelations = relations(shiftAlerts, ({ one }) => ({
+  admin: one(admins, {
+    fields: [shiftAlerts.adminId],
+    references: [admins.id],
+  }),
+  employee: one(employees, {
+    fields: [shiftAlerts.employeeId],
+    references: [employees.id],
+  }),
+  site: one(workSites, {
+    fields: [shiftAlerts.siteId],
+    references: [workSites.id],
+  }),
+  shift: one(shifts, {
+    fields: [shiftAlerts.shiftId],
+    references: [shifts.id],
+  }),
+}));
+
+export const timesheetsRelations = relations(timesheets, ({ one }) => ({
+  admin: one(admins, {
+    fields: [timesheets.adminId],
+    references: [admins.id],
+  }),
+  employee: one(employees, {
+    fields: [timesheets.employeeId],
+    references: [employees.id],
+  }),
+}));
+
+export const leaveTypesRelations = relations(leaveTypes, ({ one, many }) => ({
+  admin: one(admins, {
+    fields: [leaveTypes.adminId],
+    references: [admins.id],
+  }),
+  requests: many(leaveRequests),
+  balances: many(leaveBalances),
+}));
+
+export const leaveBalancesRelations = relations(leaveBalances, ({ one }) => ({
+  employee: one(employees, {
+    fields: [leaveBalances.employeeId],
+    references: [employees.id],
+  }),
+  leaveType: one(leaveTypes, {
+    fields: [leaveBalances.leaveTypeId],
+    references: [leaveTypes.id],
+  }),
+}));
+
+export const leaveRequestsRelations = relations(leaveRequests, ({ one }) => ({
+  admin: one(admins, {
+    fields: [leaveRequests.adminId],
+    references: [admins.id],
+  }),
+  employee: one(employees, {
+    fields: [leaveRequests.employeeId],
+    references: [employees.id],
+  }),
+  leaveType: one(leaveTypes, {
+    fields: [leaveRequests.leaveTypeId],
+    references: [leaveTypes.id],
+  }),
+}));
+
+export const holidayCalendarsRelations = relations(holidayCalendars, ({ one, many }) => ({
+  admin: one(admins, {
+    fields: [holidayCalendars.adminId],
+    references: [admins.id],
+  }),
+  area: one(areas, {
+    fields: [holidayCalendars.areaId],
+    references: [areas.id],
+  }),
+  holidays: many(holidays),
+}));
+
+export const holidaysRelations = relations(holidays, ({ one }) => ({
+  calendar: one(holidayCalendars, {
+    fields: [holidays.calendarId],
+    references: [holidayCalendars.id],
+  }),
+}));
+
+export const reportSchedulesRelations = relations(reportSchedules, ({ one, many }) => ({
+  admin: one(admins, {
+    fields: [reportSchedules.adminId],
+    references: [admins.id],
+  }),
+  runs: many(reportRuns),
+}));
+
+export const reportRunsRelations = relations(reportRuns, ({ one }) => ({
+  schedule: one(reportSchedules, {
+    fields: [reportRuns.scheduleId],
+    references: [reportSchedules.id],
+  }),
+}));
+
+export const geofenceEventsRelations = relations(geofenceEvents, ({ one }) => ({
+  employee: one(employees, {
+    fields: [geofenceEvents.employeeId],
+    references: [employees.id],
+  }),
+  site: one(workSites, {
+    fields: [geofenceEvents.siteId],
+    references: [workSites.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  admin: one(admins, {
+    fields: [notifications.adminId],
+    references: [admins.id],
+  }),
 }));
 
 // Password validation schema
@@ -212,16 +804,255 @@ export const adminActivationSchema = z.object({
   isActive: z.boolean(),
 });
 
+// Geofence polygon validation - each ring needs at least 3 points to enclose an area
+export const geofencePointSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+});
+
+export const geofencePolygonSchema = z.array(
+  z.array(geofencePointSchema).min(3, "Each geofence shape needs at least 3 points")
+).min(1, "Geofence polygon must contain at least one shape");
+
 export const insertWorkSiteSchema = createInsertSchema(workSites).omit({ id: true, createdAt: true, isActive: true }).extend({
   latitude: z.union([z.string(), z.number()]).transform(val => typeof val === 'string' ? val : val.toString()),
   longitude: z.union([z.string(), z.number()]).transform(val => typeof val === 'string' ? val : val.toString()),
   geofenceRadius: z.union([z.string(), z.number()]).transform(val => typeof val === 'string' ? parseInt(val) : val),
   areaId: z.union([z.string(), z.number(), z.null()]).transform(val => val === null || val === 'none' ? null : typeof val === 'string' ? (val === 'none' ? null : parseInt(val)) : val).optional(),
+  geofencePolygon: geofencePolygonSchema.nullable().optional(),
+  maxGpsAccuracy: z.coerce.number().int().min(5).max(1000).optional(),
 });
 export const insertAreaSchema = createInsertSchema(areas).omit({ id: true, createdAt: true, isActive: true });
 export const insertDepartmentSchema = createInsertSchema(departments).omit({ id: true, createdAt: true, isActive: true });
 export const insertLocationTrackingSchema = createInsertSchema(locationTracking).omit({ id: true, timestamp: true });
-export const insertAttendanceSchema = createInsertSchema(attendance).omit({ id: true, checkInTime: true });
+export const insertAttendanceSchema = createInsertSchema(attendance).omit({ id: true, checkInTime: true, autoCheckoutReason: true, riskScore: true, riskFlags: true });
+
+// Shift schemas - times of day are "HH:mm", dates accept ISO strings from the client
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be in HH:mm format");
+
+export const insertShiftSchema = createInsertSchema(shifts).omit({ id: true, createdAt: true, adminId: true }).extend({
+  employeeId: z.coerce.number(),
+  siteId: z.coerce.number(),
+  patternId: z.coerce.number().nullable().optional(),
+  occurrenceDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Occurrence date must be YYYY-MM-DD").nullable().optional(),
+  startTime: z.coerce.date(),
+  endTime: z.coerce.date(),
+  notes: z.string().nullable().optional(),
+}).refine(data => data.endTime > data.startTime, {
+  message: "Shift end time must be after the start time",
+  path: ["endTime"],
+});
+
+export const insertShiftPatternSchema = createInsertSchema(shiftPatterns).omit({ id: true, createdAt: true, adminId: true }).extend({
+  employeeId: z.coerce.number(),
+  siteId: z.coerce.number(),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).min(1, "Select at least one day of the week"),
+  startTime: timeOfDaySchema,
+  endTime: timeOfDaySchema,
+  effectiveFrom: z.coerce.date(),
+  effectiveUntil: z.coerce.date().nullable().optional(),
+  isActive: z.boolean().optional(),
+}).refine(data => data.startTime !== data.endTime, {
+  message: "Shift start and end time cannot be the same",
+  path: ["endTime"],
+});
+
+// Admin attendance corrections - every change needs a reason, "other" needs a note
+const correctionReasonFields = {
+  reasonCode: z.enum(ATTENDANCE_CORRECTION_REASONS, { errorMap: () => ({ message: "Select a reason for the correction" }) }),
+  note: z.string().trim().max(500).nullable().optional(),
+};
+
+const requireNoteForOther = <T extends { reasonCode: AttendanceCorrectionReason; note?: string | null }>(data: T) =>
+  data.reasonCode !== "other" || !!data.note;
+const noteRequiredMessage = { message: "Add a note describing the correction", path: ["note"] };
+
+export const createAttendanceCorrectionSchema = z.object({
+  siteId: z.coerce.number(),
+  checkInTime: z.coerce.date(),
+  checkOutTime: z.coerce.date(),
+  ...correctionReasonFields,
+}).refine(data => data.checkOutTime > data.checkInTime, {
+  message: "Check-out time must be after the check-in time",
+  path: ["checkOutTime"],
+}).refine(requireNoteForOther, noteRequiredMessage);
+
+// Edits are partial; the route validates the merged times
+export const editAttendanceCorrectionSchema = z.object({
+  siteId: z.coerce.number().optional(),
+  checkInTime: z.coerce.date().optional(),
+  checkOutTime: z.coerce.date().optional(),
+  ...correctionReasonFields,
+}).refine(requireNoteForOther, noteRequiredMessage);
+
+// Split one session into two: the first part ends at splitTime and the second starts
+// at resumeTime (defaults to splitTime), leaving a gap when they differ
+export const splitAttendanceSchema = z.object({
+  splitTime: z.coerce.date(),
+  resumeTime: z.coerce.date().nullable().optional(),
+  ...correctionReasonFields,
+}).refine(data => !data.resumeTime || data.resumeTime >= data.splitTime, {
+  message: "Resume time cannot be before the split time",
+  path: ["resumeTime"],
+}).refine(requireNoteForOther, noteRequiredMessage);
+
+export const autoCheckoutPolicySchema = createInsertSchema(autoCheckoutPolicies).omit({ id: true, adminId: true, updatedAt: true }).extend({
+  isEnabled: z.boolean(),
+  atShiftEnd: z.boolean(),
+  shiftEndGraceMinutes: z.coerce.number().int().min(0).max(240),
+  fixedTime: timeOfDaySchema.nullable().optional(),
+  offsiteMinutes: z.coerce.number().int().min(5, "Off-site time must be at least 5 minutes").max(1440).nullable().optional(),
+  maxHours: z.coerce.number().int().min(1).max(48, "Maximum session length is 48 hours").nullable().optional(),
+});
+
+export const overtimePolicySchema = createInsertSchema(overtimePolicies).omit({ id: true, adminId: true, updatedAt: true }).extend({
+  dailyThresholdMinutes: z.coerce.number().int().min(60).max(1440).nullable(),
+  weeklyThresholdMinutes: z.coerce.number().int().min(60).max(10080).nullable(),
+  overtimeRatePercent: z.coerce.number().int().min(100).max(500),
+  weekendDays: z.array(z.number().int().min(0).max(6)),
+  weekendRatePercent: z.coerce.number().int().min(100).max(500),
+  holidayRatePercent: z.coerce.number().int().min(100).max(500),
+  nightStart: timeOfDaySchema.nullable().optional(),
+  nightEnd: timeOfDaySchema.nullable().optional(),
+  nightPremiumPercent: z.coerce.number().int().min(0).max(200),
+  deductOffsiteTime: z.boolean().optional(),
+}).refine(data => !data.nightStart === !data.nightEnd, {
+  message: "Set both the start and end of the night window",
+  path: ["nightEnd"],
+});
+
+export const payrollTemplateSchema = z.object({
+  name: z.string().trim().min(1, "Template name is required").max(100),
+  fileFormat: z.enum(["csv", "xlsx"]),
+  columns: z.array(z.object({
+    field: z.enum(PAYROLL_FIELDS),
+    header: z.string().trim().min(1, "Every column needs a header").max(100),
+  })).min(1, "Add at least one column").max(50),
+});
+
+// Timesheet review actions - bulk over employees for one week
+const weekStartSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Week start must be YYYY-MM-DD");
+
+export const timesheetActionSchema = z.object({
+  weekStart: weekStartSchema,
+  employeeIds: z.array(z.coerce.number()).min(1, "Select at least one employee"),
+});
+
+export const timesheetRejectSchema = timesheetActionSchema.extend({
+  comment: z.string().trim().min(1, "A comment is required when rejecting a timesheet"),
+});
+
+export const timesheetSubmitSchema = z.object({
+  weekStart: weekStartSchema,
+});
+
+// Leave - dates are whole local days as YYYY-MM-DD
+const dateKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+export const insertLeaveTypeSchema = createInsertSchema(leaveTypes).omit({ id: true, adminId: true, createdAt: true, isActive: true }).extend({
+  name: z.string().trim().min(1, "Leave type name is required"),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Color must be a hex value like #0ea5e9").optional(),
+  isPaid: z.boolean().optional(),
+  annualAllowanceDays: z.coerce.number().int().min(0).max(366).nullable().optional(),
+  accrual: z.enum(["upfront", "monthly"]).optional(),
+});
+
+export const insertLeaveRequestSchema = z.object({
+  leaveTypeId: z.coerce.number(),
+  startDate: dateKeySchema,
+  endDate: dateKeySchema,
+  reason: z.string().trim().max(500).nullable().optional(),
+}).refine(data => data.endDate >= data.startDate, {
+  message: "Leave cannot end before it starts",
+  path: ["endDate"],
+});
+
+export const leaveReviewSchema = z.object({
+  comment: z.string().trim().max(500).nullable().optional(),
+});
+
+export const leaveBalanceSchema = z.object({
+  year: z.coerce.number().int().min(2000).max(2100),
+  allowanceDays: z.coerce.number().int().min(0).max(366).nullable().optional(),
+  carryOverDays: z.coerce.number().int().min(0).max(366).optional(),
+  adjustmentDays: z.coerce.number().int().min(-366).max(366).optional(),
+  note: z.string().trim().max(500).nullable().optional(),
+});
+
+export const insertHolidayCalendarSchema = z.object({
+  name: z.string().trim().min(1, "Calendar name is required"),
+  areaId: z.coerce.number().int().nullable().optional(),
+});
+
+export const insertHolidaySchema = z.object({
+  date: dateKeySchema,
+  name: z.string().trim().min(1, "Holiday name is required").max(200),
+});
+
+// Payroll export mode of the export report - a pay period in whole local days
+export const payrollExportSchema = z.object({
+  templateId: z.coerce.number(),
+  periodStart: dateKeySchema,
+  periodEnd: dateKeySchema,
+}).refine(data => data.periodEnd >= data.periodStart, {
+  message: "The pay period cannot end before it starts",
+  path: ["periodEnd"],
+});
+
+// Attendance report filters. An empty filter list matches everyone; different filters
+// narrow each other down.
+const reportFilterListsSchema = z.object({
+  siteIds: z.array(z.number().int()).default([]),
+  areaIds: z.array(z.number().int()).default([]),
+  departmentIds: z.array(z.number().int()).default([]),
+  employeeIds: z.array(z.number().int()).default([]),
+});
+
+// Attendance report period (both days inclusive) and filters
+export const reportFilterSchema = reportFilterListsSchema.extend({
+  from: dateKeySchema.optional(),
+  to: dateKeySchema.optional(),
+}).refine(data => !data.from || !data.to || data.to >= data.from, {
+  message: "The report period cannot end before it starts",
+  path: ["to"],
+}).refine(data => !data.from || !data.to || Date.parse(data.to) - Date.parse(data.from) <= 366 * 24 * 60 * 60 * 1000, {
+  message: "The report period cannot be longer than a year",
+  path: ["to"],
+});
+
+// The cron expression and timezone are checked by the scheduler module
+export const reportScheduleSchema = z.object({
+  name: z.string().trim().min(1, "Schedule name is required").max(100),
+  recipients: z.array(z.string().trim().email("Recipients must be valid email addresses"))
+    .min(1, "Add at least one recipient").max(20, "A schedule can have at most 20 recipients"),
+  fromEmail: z.string().trim().email("Please enter a valid sender email address"),
+  format: z.enum(["html", "pdf", "excel", "csv"]),
+  filters: reportFilterListsSchema.default({}),
+  period: z.enum(["today", "yesterday", "last_7_days", "previous_week", "previous_month"]),
+  cron: z.string().trim().min(1, "Schedule is required"),
+  timezone: z.string().trim().min(1, "Timezone is required"),
+  isEnabled: z.boolean().default(true),
+});
+
+export const notificationPreferencesSchema = z.object({
+  eventTypes: z.array(z.enum(ADMIN_NOTIFICATION_TYPES)),
+  siteIds: z.array(z.coerce.number().int()).default([]),
+  inAppEnabled: z.boolean(),
+  emailEnabled: z.boolean(),
+  digestEnabled: z.boolean(),
+  digestTime: timeOfDaySchema,
+  quietHoursStart: timeOfDaySchema.nullable().optional(),
+  quietHoursEnd: timeOfDaySchema.nullable().optional(),
+  timezone: z.string().trim().min(1, "Timezone is required"),
+}).refine(data => !data.quietHoursStart === !data.quietHoursEnd, {
+  message: "Set both the start and end of quiet hours",
+  path: ["quietHoursEnd"],
+});
+
+export const holidayImportSchema = z.object({
+  format: z.enum(["csv", "ics"]),
+  content: z.string().min(1, "The import file is empty").max(1024 * 1024, "The import file is too large"),
+});
 
 // Types
 export type Admin = typeof admins.$inferSelect;
@@ -231,6 +1062,34 @@ export type Area = typeof areas.$inferSelect;
 export type Department = typeof departments.$inferSelect;
 export type LocationTracking = typeof locationTracking.$inferSelect;
 export type Attendance = typeof attendance.$inferSelect;
+export type AttendanceBreak = typeof attendanceBreaks.$inferSelect;
+export type AttendanceRevision = typeof attendanceRevisions.$inferSelect;
+export type AutoCheckoutPolicy = typeof autoCheckoutPolicies.$inferSelect;
+export type OvertimePolicy = typeof overtimePolicies.$inferSelect;
+export type PayrollTemplate = typeof payrollTemplates.$inferSelect;
+export type InsertAttendanceRevision = typeof attendanceRevisions.$inferInsert;
+export type Shift = typeof shifts.$inferSelect;
+export type Timesheet = typeof timesheets.$inferSelect;
+export type InsertTimesheet = typeof timesheets.$inferInsert;
+export type LeaveType = typeof leaveTypes.$inferSelect;
+export type LeaveBalance = typeof leaveBalances.$inferSelect;
+export type InsertLeaveBalance = typeof leaveBalances.$inferInsert;
+export type LeaveRequest = typeof leaveRequests.$inferSelect;
+export type InsertLeaveRequest = typeof leaveRequests.$inferInsert;
+export type HolidayCalendar = typeof holidayCalendars.$inferSelect;
+export type Holiday = typeof holidays.$inferSelect;
+export type ReportSchedule = typeof reportSchedules.$inferSelect;
+export type ReportRun = typeof reportRuns.$inferSelect;
+export type InsertReportRun = typeof reportRuns.$inferInsert;
+export type GeofenceEvent = typeof geofenceEvents.$inferSelect;
+export type InsertGeofenceEvent = typeof geofenceEvents.$inferInsert;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type NotificationReceipt = typeof notificationReceipts.$inferSelect;
+export type ShiftPattern = typeof shiftPatterns.$inferSelect;
+export type ShiftAlert = typeof shiftAlerts.$inferSelect;
+export type InsertShiftAlert = typeof shiftAlerts.$inferInsert;
 
 export type InsertAdmin = z.infer<typeof insertAdminSchema>;
 export type InsertEmployee = z.infer<typeof insertEmployeeSchema>;
@@ -239,6 +1098,17 @@ export type InsertArea = z.infer<typeof insertAreaSchema>;
 export type InsertDepartment = z.infer<typeof insertDepartmentSchema>;
 export type InsertLocationTracking = z.infer<typeof insertLocationTrackingSchema>;
 export type InsertAttendance = z.infer<typeof insertAttendanceSchema>;
+export type InsertShift = z.infer<typeof insertShiftSchema> & { adminId: number };
+export type InsertAutoCheckoutPolicy = z.infer<typeof autoCheckoutPolicySchema> & { adminId: number };
+export type InsertOvertimePolicy = z.infer<typeof overtimePolicySchema> & { adminId: number };
+export type InsertPayrollTemplate = z.infer<typeof payrollTemplateSchema> & { adminId: number };
+export type InsertShiftPattern = z.infer<typeof insertShiftPatternSchema> & { adminId: number };
+export type InsertLeaveType = z.infer<typeof insertLeaveTypeSchema> & { adminId: number };
+export type InsertHolidayCalendar = z.infer<typeof insertHolidayCalendarSchema> & { adminId: number };
+export type InsertHoliday = z.infer<typeof insertHolidaySchema> & { calendarId: number };
+export type ReportFilters = z.infer<typeof reportFilterSchema>;
+export type InsertReportSchedule = z.infer<typeof reportScheduleSchema> & { adminId: number };
+export type InsertNotificationPreferences = z.infer<typeof notificationPreferencesSchema> & { adminId: number };
 
 // Auth schemas
 export const adminLoginSchema = z.object({
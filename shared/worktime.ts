@@ -0,0 +1,101 @@
+// Worked-time helpers shared by the server reports and the client dashboards.
+// Breaks are unpaid, so worked time is the session length minus break time.
+
+type DateLike = Date | string;
+
+export interface BreakPeriod {
+  startTime: DateLike;
+  endTime?: DateLike | null;
+}
+
+// A stretch of a session spent outside the site geofence. endTime is null while the
+// employee is still off site in an open session.
+export interface OffsitePeriod {
+  startTime: Date;
+  endTime: Date | null;
+}
+
+export interface LocationPing {
+  timestamp: DateLike | null;
+  isOnSite: boolean;
+}
+
+const HOUR_MS = 1000 * 60 * 60;
+
+// Total break time in milliseconds. Open breaks run until `until`, and breaks are
+// clipped to it so a break can never count past the end of the session.
+export function calculateBreakMs(breaks: BreakPeriod[] | null | undefined, until: DateLike = new Date()): number {
+  if (!breaks || breaks.length === 0) return 0;
+  const limit = new Date(until).getTime();
+
+  return breaks.reduce((total, period) => {
+    const start = new Date(period.startTime).getTime();
+    const end = Math.min(period.endTime ? new Date(period.endTime).getTime() : limit, limit);
+    return end > start ? total + (end - start) : total;
+  }, 0);
+}
+
+// Worked milliseconds for an attendance session. Sessions without a checkout are
+// measured up to `now`.
+export function calculateWorkedMs(
+  checkInTime: DateLike,
+  checkOutTime: DateLike | null | undefined,
+  breaks?: BreakPeriod[] | null,
+  now: DateLike = new Date()
+): number {
+  const end = checkOutTime ?? now;
+  const sessionMs = new Date(end).getTime() - new Date(checkInTime).getTime();
+  return Math.max(0, sessionMs - calculateBreakMs(breaks, end));
+}
+
+// Off-site stretches of a session from the location pings recorded during it. A stretch
+// starts at the first off-site ping and ends at the next on-site ping, or at checkout.
+export function calculateOffsitePeriods(
+  pings: LocationPing[],
+  checkInTime: DateLike,
+  checkOutTime: DateLike | null | undefined
+): OffsitePeriod[] {
+  const start = new Date(checkInTime).getTime();
+  const end = checkOutTime ? new Date(checkOutTime).getTime() : Infinity;
+  const inSession = pings
+    .filter(ping => ping.timestamp)
+    .map(ping => ({ at: new Date(ping.timestamp!).getTime(), isOnSite: ping.isOnSite }))
+    .filter(ping => ping.at >= start && ping.at <= end)
+    .sort((a, b) => a.at - b.at);
+
+  const periods: OffsitePeriod[] = [];
+  let offsiteSince: number | null = null;
+  for (const ping of inSession) {
+    if (!ping.isOnSite && offsiteSince === null) {
+      offsiteSince = ping.at;
+    } else if (ping.isOnSite && offsiteSince !== null) {
+      periods.push({ startTime: new Date(offsiteSince), endTime: new Date(ping.at) });
+      offsiteSince = null;
+    }
+  }
+  if (offsiteSince !== null) {
+    periods.push({ startTime: new Date(offsiteSince), endTime: checkOutTime ? new Date(end) : null });
+  }
+  return periods;
+}
+
+// Total off-site time in milliseconds, measured like breaks
+export function calculateOffsiteMs(periods: BreakPeriod[] | null | undefined, until: DateLike = new Date()): number {
+  return calculateBreakMs(periods, until);
+}
+
+export function calculateWorkedHours(
+  checkInTime: DateLike,
+  checkOutTime: DateLike | null | undefined,
+  breaks?: BreakPeriod[] | null,
+  now: DateLike = new Date()
+): number {
+  return calculateWorkedMs(checkInTime, checkOutTime, breaks, now) / HOUR_MS;
+}
+
+// "7h 30m" style label used in reports
+export function formatDuration(ms: number): string {
+  const hours = Math.floor(ms / HOUR_MS);
+  const minutes = Math.floor((ms % HOUR_MS) / (1000 * 60));
+  return `${hours}h ${minutes}m`;
+}